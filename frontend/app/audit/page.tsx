@@ -5,18 +5,466 @@
  *
  * Wallet required. When connected, the auditor can:
  *   1. Upload a skill file or enter a hash to attest
- *   2. Set a quality score (0-100)
- *   3. Submit → ZK proof generated → trust score incremented anonymously
- *   4. View their private attestation history (local PXE cache)
- *   5. Revoke attestations they no longer stand behind
+ *   2. Review the offline static scan of an uploaded file (exfiltration, hosts, obfuscation, shell)
+ *   3. Set a quality score (0-100)
+ *   4. Optionally fill in an audit report: its canonical hash is attached as the
+ *      attestation's evidence hash, and its findings suggest a quality score
+ *   5. Submit → ZK proof generated → trust score incremented anonymously
+ *   6. View their private attestation history (local PXE cache)
+ *   7. Update an attestation's quality after new findings (amendAttestation keeps the vote)
+ *   8. Revoke attestations they no longer stand behind
  */
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isIsnadError, type IsnadErrorCode } from "@nullius/isnad/errors";
+import { normalizeSkillHash } from "@nullius/isnad/hash";
+import {
+  FINDING_SEVERITIES,
+  buildAuditReport,
+  canonicalizeAuditReport,
+  computeReportHash,
+  suggestQuality,
+  type AuditFinding,
+  type AuditReport,
+  type FindingSeverity,
+} from "@nullius/isnad/report";
+import { scanSkill, type ScanResult } from "@nullius/isnad/scan";
 import WalletRequired from "../../components/WalletRequired";
 import ProofProgress from "../../components/ProofProgress";
 import { useIsnad } from "../../lib/isnad-context";
-import type { LocalAttestation, SkillTrustInfo } from "../../lib/types";
-import { computeSkillHashFromFile } from "../../lib/mock-sdk";
+import { isInFlight, useTxProgress } from "../../lib/use-tx-progress";
+import type { AttestationStatus, LocalAttestation, PreflightResult, SkillTrustInfo } from "../../lib/types";
+import { computeSkillHashFromUpload } from "../../lib/mock-sdk";
+
+/** Canonical form of a typed or pasted skill hash, or null while it is not valid hex. */
+function canonicalHash(hash: string): string | null {
+  try {
+    return normalizeSkillHash(hash);
+  } catch {
+    return null;
+  }
+}
+
+// ─── PREFLIGHT PANEL ─────────────────────────────────────────────────────────
+
+/** Result of the attestation dry run, shown before the auditor commits to a proof. */
+function PreflightPanel({ checking, result }: { checking: boolean; result: PreflightResult | null }) {
+  if (!result) {
+    if (!checking) return null;
+    return (
+      <div className="flex items-center gap-2 px-4 py-3 rounded border border-wire">
+        <span className="w-1.5 h-1.5 rounded-full bg-ink-muted animate-pulse" />
+        <span className="font-mono text-xs text-ink-muted">Preflight — simulating attestation...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`px-4 py-3 rounded border space-y-2 ${result.ok ? "border-wire" : "border-signal-danger bg-signal-danger/5"}`}>
+      <div className="flex items-center justify-between">
+        <span className={`font-mono text-xs ${result.ok ? "text-signal-trusted" : "text-signal-danger"}`}>
+          {result.ok ? "✓ Preflight passed" : "✗ Preflight failed — this attestation would revert"}
+        </span>
+        {result.ok && (
+          <span className="font-mono text-xs text-ink-faint">
+            {result.transactions} tx · nothing sent yet
+          </span>
+        )}
+      </div>
+      {result.issues.map((issue) => (
+        <p
+          key={issue.code}
+          className={`font-mono text-xs leading-relaxed ${
+            issue.severity === "error" ? "text-signal-danger/80" : "text-signal-caution"
+          }`}
+        >
+          {issue.severity === "error" ? "✗" : "⚠"} <span className="text-ink-faint">{issue.code}</span> {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// ─── AUDIT REPORT ────────────────────────────────────────────────────────────
+
+/** One finding row as typed: lines is "12" or "12-18", blank for none. */
+interface DraftFinding {
+  severity: FindingSeverity;
+  title: string;
+  file: string;
+  lines: string;
+}
+
+const EMPTY_FINDING: DraftFinding = { severity: "low", title: "", file: "", lines: "" };
+
+const SEVERITY_COLORS: Record<FindingSeverity, string> = {
+  info: "text-ink-faint",
+  low: "text-ink-muted",
+  medium: "text-signal-caution",
+  high: "text-signal-danger/80",
+  critical: "text-signal-danger",
+};
+
+function toFinding(draft: DraftFinding, index: number): AuditFinding {
+  const [start, end] = draft.lines.split("-").map((n) => n.trim()).filter(Boolean).map(Number);
+  const file = draft.file.trim();
+  return {
+    id: `F-${index + 1}`,
+    severity: draft.severity,
+    title: draft.title.trim(),
+    ...(file && {
+      locations: [{ file, ...(start !== undefined && { startLine: start }), ...(end !== undefined && { endLine: end }) }],
+    }),
+  };
+}
+
+/** "name@version" per line → tools; blank lines skipped. */
+function toTools(text: string) {
+  return text.split("\n").map((l) => l.trim()).filter(Boolean).map((line) => {
+    const at = line.lastIndexOf("@");
+    return at > 0 ? { name: line.slice(0, at), version: line.slice(at + 1) } : { name: line, version: "" };
+  });
+}
+
+// ─── SCAN PANEL ──────────────────────────────────────────────────────────────
+
+/**
+ * Offline static scan of the uploaded file, run before any proof. Findings are
+ * pattern matches to review, not a verdict: a clean scan does not make a skill safe.
+ */
+function ScanPanel({ scanning, result, error }: { scanning: boolean; result: ScanResult | null; error: string | null }) {
+  if (scanning) {
+    return <p className="font-mono text-xs text-ink-muted animate-pulse">Scanning skill files locally…</p>;
+  }
+  if (error) {
+    return <p className="font-mono text-xs text-signal-danger">Could not scan file: {error}</p>;
+  }
+  if (!result) return null;
+
+  const files = `${result.scannedFiles} file${result.scannedFiles === 1 ? "" : "s"}`;
+
+  return (
+    <div className="space-y-2 rounded border border-wire px-4 py-3">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-xs text-ink-muted">Static scan</span>
+        <span className="font-mono text-xs text-ink-faint">
+          {result.tool.name}@{result.tool.version} · {files}
+        </span>
+      </div>
+
+      {result.findings.length === 0 ? (
+        <p className="font-mono text-xs text-signal-trusted">
+          ✓ No known exfiltration, undeclared host, obfuscation or shell pattern matched. Read the code anyway.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {result.findings.map((f) => (
+            <li key={f.id} className="space-y-0.5">
+              <div className="flex items-baseline gap-2">
+                <span className={`font-mono text-xs uppercase w-16 shrink-0 ${SEVERITY_COLORS[f.severity]}`}>
+                  {f.severity}
+                </span>
+                <span className="font-mono text-xs text-ink">{f.title}</span>
+              </div>
+              <p className="pl-[4.5rem] font-mono text-xs text-ink-faint break-all">
+                {f.locations?.map((l) => `${l.file}:${l.startLine}`).join(", ")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result.skipped.length > 0 && (
+        <p className="font-mono text-xs text-ink-faint">
+          Not scanned: {result.skipped.map((s) => `${s.path} (${s.reason})`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Structured audit report for the attestation. Builds the report as the auditor types,
+ * suggests a quality from its findings and reports the canonical hash to the form,
+ * which attaches it as the evidence hash. The report itself never leaves the browser
+ * unless downloaded. Static scan findings are included ahead of the auditor's own.
+ */
+function AuditReportPanel({
+  skillHash,
+  claimType,
+  scan,
+  disabled,
+  onSuggestQuality,
+  onEvidenceHash,
+}: {
+  skillHash: string | null;
+  claimType: number;
+  scan: ScanResult | null;
+  disabled: boolean;
+  onSuggestQuality: (quality: number) => void;
+  onEvidenceHash: (hash: string | undefined) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  // Fixed when the panel opens, so the hash only changes when the content does
+  const [createdAt, setCreatedAt] = useState("");
+  const [methodology, setMethodology] = useState("");
+  const [findings, setFindings] = useState<DraftFinding[]>([]);
+  const [tools, setTools] = useState("");
+  const [commands, setCommands] = useState("");
+  const [source, setSource] = useState("");
+  const [environment, setEnvironment] = useState("");
+  const [summary, setSummary] = useState("");
+  const [includeScan, setIncludeScan] = useState(true);
+  const [hash, setHash] = useState<string | undefined>();
+
+  const scanned = includeScan && scan ? scan : null;
+  const allFindings = useMemo(
+    () => [...(scanned?.findings ?? []), ...findings.map(toFinding)],
+    [scanned, findings],
+  );
+
+  const built = useMemo((): { report?: AuditReport; error?: string } => {
+    if (!open || !skillHash) return {};
+    try {
+      const optional = (value: string) => value.trim() || undefined;
+      return {
+        report: buildAuditReport({
+          skillHash,
+          claimType: claimType as AuditReport["claimType"],
+          methodology: optional(methodology),
+          findings: allFindings,
+          tools: [...(scanned ? [scanned.tool] : []), ...toTools(tools)],
+          reproducibility: {
+            commands: commands.split("\n").map((c) => c.trim()).filter(Boolean).map((command) => ({ command })),
+            source: optional(source),
+            environment: optional(environment),
+          },
+          createdAt,
+          summary: optional(summary),
+        }),
+      };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Invalid report" };
+    }
+  }, [open, skillHash, claimType, createdAt, methodology, allFindings, scanned, tools, commands, source, environment, summary]);
+
+  useEffect(() => {
+    setHash(undefined);
+    if (!built.report) return;
+    let cancelled = false;
+    computeReportHash(built.report).then((h) => { if (!cancelled) setHash(h); });
+    return () => { cancelled = true; };
+  }, [built.report]);
+
+  useEffect(() => onEvidenceHash(hash), [hash, onEvidenceHash]);
+
+  const updateFinding = (index: number, patch: Partial<DraftFinding>) =>
+    setFindings((list) => list.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  const download = () => {
+    if (!built.report || !hash) return;
+    const blob = new Blob([canonicalizeAuditReport(built.report)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `audit-report-${hash.slice(2, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass = `
+    w-full bg-void-100 border border-wire rounded px-2 py-1.5
+    font-mono text-xs text-ink placeholder-ink-faint
+    focus:border-amber transition-colors disabled:opacity-30
+  `;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => { setCreatedAt(new Date().toISOString()); setOpen(true); }}
+        disabled={disabled}
+        className="w-full py-2 rounded border border-dashed border-wire font-mono text-xs text-ink-muted hover:border-amber hover:text-amber transition-colors disabled:opacity-30"
+      >
+        + Attach audit report (evidence hash)
+      </button>
+    );
+  }
+
+  const suggested = suggestQuality(allFindings);
+
+  return (
+    <div className="space-y-3 rounded border border-wire p-4">
+      <div className="flex items-center justify-between">
+        <label className="font-mono text-xs text-ink-muted">Audit report</label>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          disabled={disabled}
+          className="font-mono text-xs text-ink-faint hover:text-signal-danger disabled:opacity-30"
+        >
+          remove
+        </button>
+      </div>
+
+      <textarea
+        value={methodology}
+        onChange={(e) => setMethodology(e.target.value)}
+        placeholder="Methodology — what you reviewed, ran or traced"
+        rows={2}
+        disabled={disabled}
+        className={inputClass}
+      />
+
+      {scan && (
+        <label className="flex items-center gap-2 font-mono text-xs text-ink-muted">
+          <input
+            type="checkbox"
+            checked={includeScan}
+            onChange={(e) => setIncludeScan(e.target.checked)}
+            disabled={disabled}
+          />
+          Include {scan.findings.length} static scan finding{scan.findings.length === 1 ? "" : "s"} and{" "}
+          {scan.tool.name}@{scan.tool.version}
+        </label>
+      )}
+
+      {/* Findings */}
+      <div className="space-y-2">
+        {findings.map((f, i) => (
+          <div key={i} className="grid grid-cols-12 gap-1.5 items-center">
+            <select
+              value={f.severity}
+              onChange={(e) => updateFinding(i, { severity: e.target.value as FindingSeverity })}
+              disabled={disabled}
+              className={`${inputClass} col-span-2 ${SEVERITY_COLORS[f.severity]}`}
+            >
+              {FINDING_SEVERITIES.map((s) => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input
+              value={f.title}
+              onChange={(e) => updateFinding(i, { title: e.target.value })}
+              placeholder="Finding"
+              disabled={disabled}
+              className={`${inputClass} col-span-5`}
+            />
+            <input
+              value={f.file}
+              onChange={(e) => updateFinding(i, { file: e.target.value })}
+              placeholder="file"
+              disabled={disabled}
+              className={`${inputClass} col-span-3`}
+            />
+            <input
+              value={f.lines}
+              onChange={(e) => updateFinding(i, { lines: e.target.value })}
+              placeholder="12-18"
+              disabled={disabled}
+              className={`${inputClass} col-span-1`}
+            />
+            <button
+              type="button"
+              onClick={() => setFindings((list) => list.filter((_, j) => j !== i))}
+              disabled={disabled}
+              className="col-span-1 font-mono text-xs text-ink-faint hover:text-signal-danger disabled:opacity-30"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setFindings((list) => [...list, EMPTY_FINDING])}
+          disabled={disabled}
+          className="font-mono text-xs text-ink-muted hover:text-amber disabled:opacity-30"
+        >
+          + finding
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <textarea
+          value={tools}
+          onChange={(e) => setTools(e.target.value)}
+          placeholder={"Tools, one per line\nsemgrep@1.90.0"}
+          rows={2}
+          disabled={disabled}
+          className={inputClass}
+        />
+        <textarea
+          value={commands}
+          onChange={(e) => setCommands(e.target.value)}
+          placeholder={"Commands to reproduce\nsemgrep --config auto ."}
+          rows={2}
+          disabled={disabled}
+          className={inputClass}
+        />
+        <input
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Source (git URL + commit, archive URL)"
+          disabled={disabled}
+          className={inputClass}
+        />
+        <input
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value)}
+          placeholder="Environment (OS, runtime, sandbox)"
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+
+      <input
+        value={summary}
+        onChange={(e) => setSummary(e.target.value)}
+        placeholder="Summary"
+        disabled={disabled}
+        className={inputClass}
+      />
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs text-ink-muted">
+          Suggested quality from findings: <span className="text-ink font-bold tabular-nums">{suggested}</span>
+        </span>
+        <button
+          type="button"
+          onClick={() => onSuggestQuality(suggested)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-wire font-mono text-xs text-ink-muted hover:border-amber hover:text-amber transition-colors disabled:opacity-30"
+        >
+          Use
+        </button>
+      </div>
+
+      {!skillHash && <p className="font-mono text-xs text-ink-faint">Enter a skill hash to build the report.</p>}
+      {built.error && <p className="font-mono text-xs text-signal-danger">{built.error}</p>}
+      {hash && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-xs text-ink-muted">Evidence hash (attached to the attestation)</span>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => navigator.clipboard?.writeText(hash)}
+                className="font-mono text-xs text-ink-muted hover:text-amber"
+              >
+                copy
+              </button>
+              <button type="button" onClick={download} className="font-mono text-xs text-ink-muted hover:text-amber">
+                download report
+              </button>
+            </div>
+          </div>
+          <p className="font-mono text-xs text-amber break-all">{hash}</p>
+          <p className="font-mono text-xs text-ink-faint leading-relaxed">
+            Only this hash is stored, in your private note. Keep the report: you need it to prove what you checked.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
 
 // ─── ATTEST FORM ─────────────────────────────────────────────────────────────
 
@@ -25,17 +473,55 @@ function AttestForm() {
 
   const [skillHash, setSkillHash] = useState("");
   const [fileName, setFileName] = useState<string | null>(null);
+  const [bundleFiles, setBundleFiles] = useState<number | undefined>();
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [scan, setScan] = useState<ScanResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
   const [quality, setQuality] = useState(80);
   const [claimType, setClaimType] = useState(0); // 0=code_review, 1=behavioral, 2=sandboxed_execution
-  const [phase, setPhase] = useState<"idle" | "proving" | "submitting" | "done" | "error">("idle");
+  const [evidenceHash, setEvidenceHash] = useState<string | undefined>();
+  const [reportKey, setReportKey] = useState(0);
+  const { phase, setPhase, progress, begin, onProgress } = useTxProgress();
   const [txHash, setTxHash] = useState<string | undefined>();
   const [errorMsg, setErrorMsg] = useState<string | undefined>();
+  const [errorCode, setErrorCode] = useState<IsnadErrorCode | undefined>();
   const [quarantineInfo, setQuarantineInfo] = useState<SkillTrustInfo | null>(null);
+  const [attestation, setAttestation] = useState<AttestationStatus | null>(null);
+  const [preflight, setPreflight] = useState<PreflightResult | null>(null);
+  const [preflightChecking, setPreflightChecking] = useState(false);
+
+  // Bumped per dropped file and whenever the file is discarded, so a slow hash or scan
+  // of an earlier file cannot overwrite what the form shows now
+  const fileRequest = useRef(0);
 
   const handleFile = useCallback(async (file: File) => {
-    const hash = await computeSkillHashFromFile(file);
-    setSkillHash(hash);
-    setFileName(file.name);
+    const request = ++fileRequest.current;
+    const current = () => request === fileRequest.current;
+    setFileError(null);
+    setScan(null);
+    setScanError(null);
+    setScanning(false);
+    try {
+      const result = await computeSkillHashFromUpload(file);
+      if (!current()) return;
+      setSkillHash(result.hash);
+      setFileName(file.name);
+      setBundleFiles(result.bundleFiles);
+    } catch (err) {
+      if (current()) setFileError(err instanceof Error ? err.message : "Could not read file");
+      return;
+    }
+    // Scan the same bytes offline before the auditor proves anything
+    setScanning(true);
+    try {
+      const result = await scanSkill(new Uint8Array(await file.arrayBuffer()), { fileName: file.name });
+      if (current()) setScan(result);
+    } catch (err) {
+      if (current()) setScanError(err instanceof Error ? err.message : "Could not scan file");
+    } finally {
+      if (current()) setScanning(false);
+    }
   }, []);
 
   const handleDrop = useCallback(
@@ -48,15 +534,17 @@ function AttestForm() {
   );
 
   const handleSubmit = useCallback(async () => {
-    if (!sdk || !skillHash.trim()) return;
-    setPhase("proving");
+    const hash = canonicalHash(skillHash);
+    if (!sdk || !hash) return;
+    begin();
     setTxHash(undefined);
     setErrorMsg(undefined);
+    setErrorCode(undefined);
 
     try {
       const result = await sdk.attest(
-        { skillHash: skillHash.trim(), quality, claimType },
-        (p) => setPhase(p),
+        { skillHash: hash, quality, claimType, evidenceHash },
+        onProgress,
       );
       setPhase("done");
       setTxHash(result.txHash);
@@ -64,23 +552,33 @@ function AttestForm() {
     } catch (err) {
       setPhase("error");
       setErrorMsg(err instanceof Error ? err.message : "Attestation failed");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
     }
-  }, [sdk, skillHash, quality, refreshAttestations]);
+  }, [sdk, skillHash, quality, claimType, evidenceHash, refreshAttestations, begin, onProgress]);
 
   const resetForm = useCallback(() => {
+    fileRequest.current++;
     setPhase("idle");
     setSkillHash("");
     setFileName(null);
+    setBundleFiles(undefined);
+    setFileError(null);
+    setScan(null);
+    setScanError(null);
+    setScanning(false);
     setQuality(80);
     setClaimType(0);
+    setEvidenceHash(undefined);
+    setReportKey((k) => k + 1);
     setTxHash(undefined);
     setErrorMsg(undefined);
-  }, []);
+    setErrorCode(undefined);
+  }, [setPhase]);
 
   // Check quarantine status whenever the skill hash changes
   useEffect(() => {
-    const hash = skillHash.trim();
-    if (!sdk || !hash || !/^0x[0-9a-fA-F]{1,64}$/.test(hash)) {
+    const hash = canonicalHash(skillHash);
+    if (!sdk || !hash) {
       setQuarantineInfo(null);
       return;
     }
@@ -91,10 +589,38 @@ function AttestForm() {
     return () => { cancelled = true; };
   }, [sdk, skillHash]);
 
-  const isSubmitting = phase === "proving" || phase === "submitting";
-  const alreadyAttested = myAttestations.some(
-    (a) => a.skillHash.toLowerCase() === skillHash.toLowerCase().trim() && !a.revoked,
-  );
+  // Look up the attest claim whenever the skill hash changes, and again after an attest or revoke
+  useEffect(() => {
+    const hash = canonicalHash(skillHash);
+    setAttestation(null);
+    if (!sdk || !hash) return;
+    let cancelled = false;
+    sdk.hasAttested(hash).then((status) => {
+      if (!cancelled) setAttestation(status);
+    }).catch(() => { /* advisory — attest() reports ALREADY_ATTESTED itself */ });
+    return () => { cancelled = true; };
+  }, [sdk, skillHash, myAttestations]);
+
+  // Dry-run the attestation whenever its inputs change, so a doomed proof is caught before Submit
+  useEffect(() => {
+    const hash = canonicalHash(skillHash);
+    setPreflight(null);
+    setPreflightChecking(Boolean(sdk && hash));
+    if (!sdk || !hash) return;
+    let cancelled = false;
+    // Let the quality slider settle before simulating
+    const timer = setTimeout(() => {
+      sdk.preflightAttest({ skillHash: hash, quality, claimType, evidenceHash })
+        .then((result) => { if (!cancelled) setPreflight(result); })
+        .catch(() => { /* advisory — attest() reports its own errors */ })
+        .finally(() => { if (!cancelled) setPreflightChecking(false); });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [sdk, skillHash, quality, claimType, evidenceHash, myAttestations]);
+
+  const isSubmitting = isInFlight(phase);
+  const canonicalInput = canonicalHash(skillHash);
+  const alreadyAttested = attestation !== null && attestation.state !== "none";
   const isQuarantined = quarantineInfo?.isQuarantined === true;
 
   const qualityLabel = quality >= 80 ? "Trusted" : quality >= 50 ? "Cautious" : "Risky";
@@ -126,24 +652,43 @@ function AttestForm() {
             />
             {fileName ? (
               <div className="space-y-1">
-                <p className="font-mono text-xs text-amber">{fileName}</p>
+                <p className="font-mono text-xs text-amber">
+                  {fileName}
+                  {bundleFiles !== undefined && (
+                    <span className="text-ink-muted"> — bundle of {bundleFiles} file{bundleFiles === 1 ? "" : "s"}</span>
+                  )}
+                </p>
                 <p className="font-mono text-xs text-ink-muted truncate">{skillHash.slice(0, 32)}...</p>
               </div>
             ) : (
               <p className="font-mono text-xs text-ink-muted">
                 <span className="text-ink hover:text-amber transition-colors">
-                  Drop or click to upload skill file
+                  Drop or click to upload skill file or archive (.zip, .tgz)
                 </span>
                 {" "}— hash computed locally
               </p>
             )}
           </div>
 
+          {fileError && (
+            <p className="font-mono text-xs text-signal-danger">Could not hash file: {fileError}</p>
+          )}
+
+          <ScanPanel scanning={scanning} result={scan} error={scanError} />
+
           {/* Or enter hash directly */}
           <input
             type="text"
             value={skillHash}
-            onChange={(e) => { setSkillHash(e.target.value); setFileName(null); }}
+            onChange={(e) => {
+              fileRequest.current++;
+              setSkillHash(e.target.value);
+              setFileName(null);
+              setBundleFiles(undefined);
+              setScan(null);
+              setScanError(null);
+              setScanning(false);
+            }}
             placeholder="or paste 0x hash directly..."
             className="
               w-full bg-void-100 border border-wire rounded px-3 py-2
@@ -152,11 +697,16 @@ function AttestForm() {
             "
           />
 
-          {alreadyAttested && (
+          {attestation?.state === "attested" && (
             <p className="font-mono text-xs text-signal-caution">
               ⚠ You have already attested this skill. Double-attestation is prevented by ZK nullifier.
             </p>
           )}
+          {attestation?.state === "revoked" && (
+            <p className="font-mono text-xs text-signal-caution">
+              ⚠ You revoked your attestation of this skill. Its claim nullifier is spent, so you cannot attest it again.
+            </p>
+          )}
 
           {isQuarantined && (
             <div className="flex items-start gap-3 px-4 py-3 rounded border border-signal-danger bg-signal-danger/5">
@@ -238,11 +788,29 @@ function AttestForm() {
           </p>
         </div>
 
+        {/* Audit report */}
+        <AuditReportPanel
+          key={reportKey}
+          skillHash={canonicalInput}
+          claimType={claimType}
+          scan={scan}
+          disabled={isSubmitting}
+          onSuggestQuality={setQuality}
+          onEvidenceHash={setEvidenceHash}
+        />
+
+        {/* Preflight */}
+        {canonicalInput && phase === "idle" && (
+          <PreflightPanel checking={preflightChecking} result={preflight} />
+        )}
+
         {/* Proof progress */}
         <ProofProgress
           phase={phase}
+          progress={progress}
           txHash={txHash}
           error={errorMsg}
+          errorCode={errorCode}
           onDismiss={phase === "done" ? resetForm : undefined}
         />
 
@@ -250,7 +818,7 @@ function AttestForm() {
         {phase !== "done" && (
           <button
             onClick={handleSubmit}
-            disabled={isSubmitting || !skillHash.trim() || alreadyAttested || isQuarantined}
+            disabled={isSubmitting || !canonicalInput || alreadyAttested || isQuarantined || preflight?.ok === false}
             className="
               w-full py-2.5 rounded border border-amber/50 text-amber font-mono text-sm
               hover:bg-amber/5 hover:border-amber transition-colors
@@ -260,7 +828,7 @@ function AttestForm() {
             {isSubmitting ? (
               <span className="flex items-center justify-center gap-2">
                 <span className="w-1.5 h-1.5 rounded-full bg-amber animate-pulse" />
-                {phase === "proving" ? "Generating ZK proof..." : "Submitting..."}
+                {phase === "proving" ? "Generating ZK proof..." : phase === "simulating" ? "Simulating..." : "Waiting for block..."}
               </span>
             ) : (
               "Attest — anonymous ZK proof"
@@ -277,29 +845,151 @@ function AttestForm() {
   );
 }
 
+// ─── AMEND ────────────────────────────────────────────────────────────────────
+
+const CLAIM_TYPES = [
+  { value: 0, label: "📄 static" },
+  { value: 1, label: "🔬 behavioral" },
+  { value: 2, label: "🔒 sandboxed" },
+];
+
+/** Inline editor for one active attestation: new quality and claim type, sent as amendAttestation. */
+function AmendAttestation({ attestation, onClose }: { attestation: LocalAttestation; onClose: () => void }) {
+  const { sdk, refreshAttestations } = useIsnad();
+  const [quality, setQuality] = useState(attestation.quality);
+  const [claimType, setClaimType] = useState(attestation.claimType ?? 0);
+  const { phase, setPhase, progress, begin, onProgress } = useTxProgress();
+  const [txHash, setTxHash] = useState<string | undefined>();
+  const [errorMsg, setErrorMsg] = useState<string | undefined>();
+  const [errorCode, setErrorCode] = useState<IsnadErrorCode | undefined>();
+
+  const handleSave = useCallback(async () => {
+    if (!sdk) return;
+    begin();
+    setTxHash(undefined);
+    setErrorMsg(undefined);
+    setErrorCode(undefined);
+
+    try {
+      // Keep the evidence hash: the editor only changes quality and claim type
+      const { skillHash, evidenceHash } = attestation;
+      const result = await sdk.amendAttestation({ skillHash, quality, claimType, evidenceHash }, onProgress);
+      setPhase("done");
+      setTxHash(result.txHash);
+      refreshAttestations();
+    } catch (err) {
+      setPhase("error");
+      setErrorMsg(err instanceof Error ? err.message : "Update failed");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
+    }
+  }, [sdk, attestation, quality, claimType, refreshAttestations, begin, onProgress, setPhase]);
+
+  const isSaving = isInFlight(phase);
+  const unchanged = quality === attestation.quality && claimType === (attestation.claimType ?? 0);
+
+  return (
+    <div className="space-y-3 rounded border border-wire bg-void-100 p-3">
+      <div className="flex items-center justify-between">
+        <label className="font-mono text-xs text-ink-muted">New quality score</label>
+        <span className="font-mono text-xs text-ink tabular-nums">
+          {attestation.quality} → <span className="font-bold">{quality}</span>
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={quality}
+        onChange={(e) => setQuality(Number(e.target.value))}
+        className="w-full"
+        disabled={isSaving || phase === "done"}
+      />
+      <div className="flex gap-2">
+        {CLAIM_TYPES.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setClaimType(value)}
+            disabled={isSaving || phase === "done"}
+            className={`
+              px-2 py-1 rounded border font-mono text-xs transition-colors
+              ${claimType === value ? "border-amber text-ink" : "border-wire text-ink-muted hover:text-ink"}
+              disabled:opacity-30 disabled:cursor-not-allowed
+            `}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="font-mono text-xs text-ink-faint leading-relaxed">
+        Replaces your attestation in one transaction. The trust score moves by the difference; your vote is kept.
+      </p>
+
+      <ProofProgress
+        phase={phase}
+        progress={progress}
+        txHash={txHash}
+        error={errorMsg}
+        errorCode={errorCode}
+        onDismiss={phase === "done" ? onClose : undefined}
+      />
+
+      {phase !== "done" && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-3 py-1 rounded border border-wire text-xs font-mono text-ink-muted hover:text-ink disabled:opacity-30"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || unchanged}
+            className="
+              px-3 py-1 rounded border border-amber/50 text-xs font-mono text-amber
+              hover:bg-amber/5 hover:border-amber transition-colors
+              disabled:opacity-30 disabled:cursor-not-allowed
+            "
+          >
+            {isSaving ? "Updating..." : "Save"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── ATTESTATION HISTORY ──────────────────────────────────────────────────────
 
 function AttestationHistory() {
   const { sdk, myAttestations, refreshAttestations } = useIsnad();
   const [revokingHash, setRevokingHash] = useState<string | null>(null);
-  const [revokePhase, setRevokePhase] = useState<"idle" | "proving" | "submitting" | "done" | "error">("idle");
+  const [amendingHash, setAmendingHash] = useState<string | null>(null);
+  const {
+    phase: revokePhase,
+    setPhase: setRevokePhase,
+    progress: revokeProgress,
+    begin: beginRevoke,
+    onProgress: onRevokeProgress,
+  } = useTxProgress();
   const [revokeTxHash, setRevokeTxHash] = useState<string | undefined>();
   const [revokeError, setRevokeError] = useState<string | undefined>();
-  // Maps skillHash (lowercase) → whether it is currently quarantined
+  // Maps skillHash (canonical) → whether it is currently quarantined
   const [quarantineMap, setQuarantineMap] = useState<Map<string, boolean>>(new Map());
 
   const handleRevoke = useCallback(
     async (attestation: LocalAttestation) => {
       if (!sdk) return;
       setRevokingHash(attestation.skillHash);
-      setRevokePhase("proving");
+      beginRevoke();
       setRevokeTxHash(undefined);
       setRevokeError(undefined);
 
       try {
         const result = await sdk.revokeAttestation(
           attestation.skillHash,
-          (p) => setRevokePhase(p),
+          onRevokeProgress,
         );
         setRevokePhase("done");
         setRevokeTxHash(result.txHash);
@@ -313,7 +1003,7 @@ function AttestationHistory() {
         setRevokeError(err instanceof Error ? err.message : "Revocation failed");
       }
     },
-    [sdk, refreshAttestations],
+    [sdk, refreshAttestations, beginRevoke, onRevokeProgress, setRevokePhase],
   );
 
   // Batch-fetch quarantine status for all active attestations
@@ -321,14 +1011,14 @@ function AttestationHistory() {
     if (!sdk) return;
     const activeHashes = myAttestations
       .filter((a) => !a.revoked)
-      .map((a) => a.skillHash.toLowerCase());
+      .map((a) => normalizeSkillHash(a.skillHash));
     if (activeHashes.length === 0) return;
 
     let cancelled = false;
-    Promise.all(
-      activeHashes.map((h) => sdk.getTrustScore(h).then((info) => [h, info.isQuarantined ?? false] as const))
-    ).then((entries) => {
-      if (!cancelled) setQuarantineMap(new Map(entries));
+    sdk.getTrustScores(activeHashes).then((scores) => {
+      if (cancelled) return;
+      const entries = [...scores].map(([h, info]) => [h, info.isQuarantined ?? false] as const);
+      setQuarantineMap(new Map(entries));
     }).catch(() => { /* advisory check — ignore errors */ });
     return () => { cancelled = true; };
   }, [sdk, myAttestations]);
@@ -355,17 +1045,18 @@ function AttestationHistory() {
 
         {active.map((att) => {
           const isRevokingThis = revokingHash === att.skillHash && revokePhase !== "idle";
-          const daysAgo = Math.floor((Date.now() - att.timestamp.getTime()) / (1000 * 60 * 60 * 24));
-          const timeLabel = daysAgo === 0 ? "just now" : daysAgo === 1 ? "1 day ago" : `${daysAgo} days ago`;
-          const claimTypeLabel = att.claimType === 1
-            ? "🔬 behavioral"
-            : att.claimType === 2
-            ? "🔒 sandboxed"
-            : "📄 static";
-          const isAttQuarantined = quarantineMap.get(att.skillHash.toLowerCase()) === true;
+          const isAmendingThis = amendingHash === att.skillHash;
+          // Attestations loaded from notes have no timestamp
+          const daysAgo = att.timestamp
+            ? Math.floor((Date.now() - att.timestamp.getTime()) / (1000 * 60 * 60 * 24))
+            : null;
+          const timeLabel =
+            daysAgo === null ? null : daysAgo === 0 ? "just now" : daysAgo === 1 ? "1 day ago" : `${daysAgo} days ago`;
+          const claimTypeLabel = (CLAIM_TYPES.find((c) => c.value === att.claimType) ?? CLAIM_TYPES[0]).label;
+          const isAttQuarantined = quarantineMap.get(normalizeSkillHash(att.skillHash)) === true;
 
           return (
-            <div key={att.txHash} className={`p-4 space-y-3 ${isAttQuarantined ? "bg-signal-danger/5" : ""}`}>
+            <div key={att.skillHash} className={`p-4 space-y-3 ${isAttQuarantined ? "bg-signal-danger/5" : ""}`}>
               <div className="flex items-start justify-between gap-4">
                 <div className="space-y-1 min-w-0">
                   <div className="flex items-center gap-2 flex-wrap">
@@ -383,7 +1074,10 @@ function AttestationHistory() {
                       quality: <span className="text-signal-trusted">{att.quality}</span>
                     </span>
                     <span className="font-mono text-xs text-ink-faint">{claimTypeLabel}</span>
-                    <span className="font-mono text-xs text-ink-faint">{timeLabel}</span>
+                    {att.depthAtAttestation !== undefined && (
+                      <span className="font-mono text-xs text-ink-faint">depth {att.depthAtAttestation}</span>
+                    )}
+                    {timeLabel && <span className="font-mono text-xs text-ink-faint">{timeLabel}</span>}
                   </div>
                   {isAttQuarantined && (
                     <p className="font-mono text-xs text-signal-danger/80 leading-relaxed">
@@ -393,25 +1087,36 @@ function AttestationHistory() {
                   )}
                 </div>
 
-                {!isRevokingThis && (
-                  <button
-                    onClick={() => handleRevoke(att)}
-                    className={`
-                      shrink-0 px-3 py-1 rounded border text-xs font-mono transition-colors
-                      ${isAttQuarantined
-                        ? "border-signal-danger text-signal-danger hover:bg-signal-danger/10"
-                        : "border-wire text-ink-muted hover:border-signal-danger hover:text-signal-danger"
-                      }
-                    `}
-                  >
-                    Revoke
-                  </button>
+                {!isRevokingThis && !isAmendingThis && (
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => setAmendingHash(att.skillHash)}
+                      className="px-3 py-1 rounded border border-wire text-xs font-mono text-ink-muted hover:border-amber hover:text-amber transition-colors"
+                    >
+                      Update
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(att)}
+                      className={`
+                        px-3 py-1 rounded border text-xs font-mono transition-colors
+                        ${isAttQuarantined
+                          ? "border-signal-danger text-signal-danger hover:bg-signal-danger/10"
+                          : "border-wire text-ink-muted hover:border-signal-danger hover:text-signal-danger"
+                        }
+                      `}
+                    >
+                      Revoke
+                    </button>
+                  </div>
                 )}
               </div>
 
+              {isAmendingThis && <AmendAttestation attestation={att} onClose={() => setAmendingHash(null)} />}
+
               {isRevokingThis && (
                 <ProofProgress
                   phase={revokePhase}
+                  progress={revokeProgress}
                   txHash={revokeTxHash}
                   error={revokeError}
                 />
@@ -428,9 +1133,9 @@ function AttestationHistory() {
               </summary>
               <div className="mt-3 space-y-2">
                 {revoked.map((att) => {
-                  const isRevokedQuarantined = quarantineMap.get(att.skillHash.toLowerCase()) === true;
+                  const isRevokedQuarantined = quarantineMap.get(normalizeSkillHash(att.skillHash)) === true;
                   return (
-                    <div key={att.txHash} className="flex items-center gap-3 opacity-60">
+                    <div key={att.txHash ?? att.skillHash} className="flex items-center gap-3 opacity-60">
                       <span className="font-mono text-xs text-ink-muted line-through break-all">
                         {att.skillHash.slice(0, 20)}...
                       </span>
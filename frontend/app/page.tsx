@@ -5,13 +5,15 @@
  *
  * Public-facing: no wallet required.
  * Search a skill by hash (hex string) or upload the skill file to compute its hash.
+ * Archives (.zip, .tgz, .tar) are hashed as multi-file skill bundles.
  * Displays trust score, attestation count, and attestation history timeline.
  */
 
 import { useCallback, useEffect, useState } from "react";
+import { normalizeSkillHash } from "@nullius/isnad/hash";
 import TrustScore, { AttestHistoryItem } from "../components/TrustScore";
-import { MockIsnadSDK, computeSkillHashFromFile, computeSkillHashFromUrl } from "../lib/mock-sdk";
-import type { AttestationEvent, IsnadSdkLike, SkillTrustInfo } from "../lib/types";
+import { MockIsnadSDK, computeSkillHashFromUpload, computeSkillHashFromUrl } from "../lib/mock-sdk";
+import type { AttestationEvent, SkillTrustInfo, TrustReaderLike } from "../lib/types";
 import { config } from "../lib/config";
 import Link from "next/link";
 
@@ -34,22 +36,22 @@ const EXAMPLE_HASHES = [
 ];
 
 export default function TrustBrowserPage() {
-  // Public read-only SDK — no wallet needed. Defaults to mock; upgrades to real PXE if configured.
-  const [publicSdk, setPublicSdk] = useState<IsnadSdkLike>(
+  // Public read-only client — no wallet needed. Defaults to mock; upgrades to the live node if configured.
+  const [publicSdk, setPublicSdk] = useState<TrustReaderLike>(
     () => new MockIsnadSDK("0x000000000000000000000000000000000000000000000000000000000000public"),
   );
 
-  // In real mode, attempt to create a RealSdkWrapper for live contract reads.
-  // Falls back to mock silently if PXE is unavailable or packages not installed.
+  // In real mode, read public state straight from the node — no account is created.
+  // Falls back to mock silently if the node is unavailable or packages not installed.
   useEffect(() => {
     if (!config.useMock) {
-      import("../lib/real-sdk-wrapper")
-        .then(({ RealSdkWrapper }) =>
-          RealSdkWrapper.create(config.pxeUrl, config.contractAddress),
+      import("../lib/real-reader")
+        .then(({ RealTrustReader }) =>
+          RealTrustReader.create(config.nodeUrl, config.contractAddress),
         )
-        .then((realSdk) => setPublicSdk(realSdk))
+        .then((reader) => setPublicSdk(reader))
         .catch(() => {
-          // PXE unavailable or packages not installed — keep using mock SDK
+          // Node unavailable or packages not installed — keep using mock SDK
         });
     }
   }, []);
@@ -61,22 +63,29 @@ export default function TrustBrowserPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dragOver, setDragOver] = useState(false);
+  const [uploadNote, setUploadNote] = useState<string | null>(null);
   const [urlInput, setUrlInput] = useState("");
   const [urlLoading, setUrlLoading] = useState(false);
 
-  // Validate a skill hash string: must be "0x" followed by 1-64 hex characters.
+  // Validate a skill hash string: 1-64 hex characters, 0x optional, any case.
   const isValidHash = useCallback((h: string): boolean => {
-    return /^0x[0-9a-fA-F]{1,64}$/.test(h.trim());
+    try {
+      normalizeSkillHash(h);
+      return true;
+    } catch {
+      return false;
+    }
   }, []);
 
   const doSearch = useCallback(async (hash: string) => {
-    const clean = hash.trim();
-    if (!clean) return;
+    if (!hash.trim()) return;
 
-    if (!isValidHash(clean)) {
-      setError("Invalid hash format. Expected 0x followed by up to 64 hex characters.");
+    if (!isValidHash(hash)) {
+      setError("Invalid hash format. Expected up to 64 hex characters, optionally prefixed with 0x.");
       return;
     }
+    // Canonical form, so a pasted sha256sum digest finds the same skill as an uploaded file.
+    const clean = normalizeSkillHash(hash);
 
     setIsLoading(true);
     setError(null);
@@ -113,12 +122,20 @@ export default function TrustBrowserPage() {
     async (file: File) => {
       setIsLoading(true);
       setError(null);
+      setUploadNote(null);
       try {
-        const hash = await computeSkillHashFromFile(file);
+        const { hash, bundleFiles } = await computeSkillHashFromUpload(file);
+        setUploadNote(
+          bundleFiles !== undefined ? `${file.name} — bundle of ${bundleFiles} file${bundleFiles === 1 ? "" : "s"}` : file.name,
+        );
         setInputHash(hash);
         await doSearch(hash);
       } catch (err) {
-        setError("Failed to compute skill hash from file.");
+        setError(
+          err instanceof Error
+            ? `Failed to compute skill hash from file: ${err.message}`
+            : "Failed to compute skill hash from file.",
+        );
       } finally {
         setIsLoading(false);
       }
@@ -295,10 +312,11 @@ export default function TrustBrowserPage() {
           <p className="font-mono text-xs text-ink-muted">
             or{" "}
             <span className="text-ink hover:text-amber transition-colors">
-              drop / click to upload a skill file
+              drop / click to upload a skill file or archive (.zip, .tgz)
             </span>{" "}
             — hash computed locally, nothing sent to any server
           </p>
+          {uploadNote && <p className="font-mono text-xs text-amber mt-1">{uploadNote}</p>}
         </div>
       </div>
 
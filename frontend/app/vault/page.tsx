@@ -11,9 +11,25 @@
  */
 
 import { useCallback, useState } from "react";
+import { isIsnadError, type IsnadErrorCode } from "@nullius/isnad/errors";
 import WalletRequired from "../../components/WalletRequired";
 import ProofProgress from "../../components/ProofProgress";
 import { useIsnad } from "../../lib/isnad-context";
+import { isInFlight, useTxProgress } from "../../lib/use-tx-progress";
+import { config } from "../../lib/config";
+
+/** One CredentialNote holds 4 Fields × 31 bytes; longer values are chunked across notes. */
+const NOTE_BYTES = 124;
+
+/** The head note spends one field on its header, leaving 93 bytes of value. */
+const HEAD_BYTES = 3 * 31;
+
+/** UTF-8 size of a credential value and how many notes (transactions) storing it takes. */
+function credentialSize(value: string): { bytes: number; notes: number; overLimit: boolean } {
+  const bytes = new TextEncoder().encode(value).length;
+  const notes = 1 + Math.ceil(Math.max(0, bytes - HEAD_BYTES) / NOTE_BYTES);
+  return { bytes, notes, overLimit: bytes > config.maxCredentialBytes };
+}
 
 // ─── ADD CREDENTIAL MODAL / FORM ──────────────────────────────────────────────
 
@@ -28,21 +44,21 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
   const [label, setLabel] = useState("");
   const [value, setValue] = useState("");
 
-  // Compute UTF-8 byte length for capacity check (CredentialNote.value = [Field; 4] = 124 bytes max)
-  const valueByteLength = new TextEncoder().encode(value).length;
-  const valueOverCapacity = valueByteLength > 124;
-  const [phase, setPhase] = useState<"idle" | "proving" | "submitting" | "done" | "error">("idle");
+  const { bytes: valueByteLength, notes: valueNotes, overLimit: valueOverCapacity } = credentialSize(value);
+  const { phase, setPhase, progress, begin, onProgress } = useTxProgress();
   const [txHash, setTxHash] = useState<string | undefined>();
   const [errorMsg, setErrorMsg] = useState<string | undefined>();
+  const [errorCode, setErrorCode] = useState<IsnadErrorCode | undefined>();
   const [showValue, setShowValue] = useState(false);
 
   const handleSubmit = useCallback(async () => {
     if (!sdk || !keyId.trim() || !value.trim() || valueOverCapacity) return;
-    setPhase("proving");
+    begin();
     try {
       const result = await sdk.storeCredential(
-        { keyId: keyId.trim(), value: value.trim(), label: label.trim() || keyId.trim() },
-        (p) => setPhase(p),
+        // Not trimmed: multi-line secrets (PEM keys) keep their exact bytes
+        { keyId: keyId.trim(), value, label: label.trim() || keyId.trim() },
+        onProgress,
       );
       setPhase("done");
       setTxHash(result.txHash);
@@ -51,10 +67,11 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
     } catch (err) {
       setPhase("error");
       setErrorMsg(err instanceof Error ? err.message : "Failed to store credential");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
     }
-  }, [sdk, keyId, value, label, refreshCredentials, onSuccess]);
+  }, [sdk, keyId, value, label, refreshCredentials, onSuccess, begin, onProgress, setPhase]);
 
-  const isSubmitting = phase === "proving" || phase === "submitting";
+  const isSubmitting = isInFlight(phase);
 
   return (
     <div className="border border-wire rounded-lg overflow-hidden">
@@ -115,11 +132,12 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
               <span className={`font-mono text-xs tabular-nums ${
                 valueOverCapacity
                   ? "text-signal-danger"
-                  : valueByteLength > 100
+                  : valueNotes > 1
                     ? "text-amber"
                     : "text-ink-faint"
               }`}>
-                {valueByteLength} / 124 bytes
+                {valueByteLength} / {config.maxCredentialBytes} bytes
+                {valueNotes > 1 && ` · ${valueNotes} notes`}
               </span>
               <button
                 type="button"
@@ -130,13 +148,16 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
               </button>
             </div>
           </div>
-          <input
-            type={showValue ? "text" : "password"}
+          <textarea
             value={value}
             onChange={(e) => setValue(e.target.value)}
-            placeholder="sk-... or ghp_..."
+            placeholder={"sk-... or ghp_...\nor paste a PEM key / service-account JSON"}
+            rows={value.includes("\n") ? 8 : 2}
+            spellCheck={false}
+            autoComplete="off"
             className={`
-              w-full bg-void-100 border rounded px-3 py-2
+              w-full bg-void-100 border rounded px-3 py-2 resize-y
+              ${showValue ? "" : "secret-masked"}
               font-mono text-sm text-ink placeholder-ink-faint
               transition-colors focus:outline-none
               ${valueOverCapacity
@@ -148,17 +169,18 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
           />
           {valueOverCapacity ? (
             <p className="font-mono text-xs text-signal-danger">
-              Value exceeds 124-byte capacity — trim before storing.
+              Value exceeds the {config.maxCredentialBytes}-byte vault limit.
             </p>
           ) : (
             <p className="font-mono text-xs text-ink-faint">
-              Encrypted with your PXE key. Max 124 bytes. Nobody else can read this.
+              Encrypted with your PXE key. Nobody else can read this.
+              {valueNotes > 1 && ` Over ${HEAD_BYTES} bytes, so it is split across ${valueNotes} notes (one transaction each).`}
             </p>
           )}
         </div>
 
         {/* Proof progress */}
-        <ProofProgress phase={phase} txHash={txHash} error={errorMsg} />
+        <ProofProgress phase={phase} progress={progress} txHash={txHash} error={errorMsg} errorCode={errorCode} />
 
         {/* Submit */}
         {phase !== "done" && (
@@ -174,10 +196,10 @@ function AddCredentialForm({ onSuccess, onCancel }: AddCredentialFormProps) {
             {isSubmitting ? (
               <span className="flex items-center justify-center gap-2">
                 <span className="w-1.5 h-1.5 rounded-full bg-amber animate-pulse" />
-                {phase === "proving" ? "Generating ZK proof..." : "Storing..."}
+                {phase === "proving" ? "Generating ZK proof..." : phase === "simulating" ? "Simulating..." : "Waiting for block..."}
               </span>
             ) : valueOverCapacity ? (
-              "Value too large (max 124 bytes)"
+              `Value too large (max ${config.maxCredentialBytes} bytes)`
             ) : (
               "Store credential"
             )}
@@ -205,13 +227,15 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
   const [mode, setMode] = useState<"view" | "rotate" | "grant" | "delete">("view");
 
   // Phase tracking for operations
-  const [phase, setPhase] = useState<"idle" | "proving" | "submitting" | "done" | "error">("idle");
+  const { phase, setPhase, progress, begin, onProgress } = useTxProgress();
   const [txHash, setTxHash] = useState<string | undefined>();
   const [errorMsg, setErrorMsg] = useState<string | undefined>();
+  const [errorCode, setErrorCode] = useState<IsnadErrorCode | undefined>();
 
   // Rotate form state
   const [newValue, setNewValue] = useState("");
   const [newLabel, setNewLabel] = useState(label);
+  const newValueSize = credentialSize(newValue);
 
   // Grant access form state
   const [skillAddress, setSkillAddress] = useState("");
@@ -235,25 +259,26 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
 
   const handleDelete = useCallback(async () => {
     if (!sdk) return;
-    setPhase("proving");
+    begin();
     try {
-      const result = await sdk.deleteCredential(keyId, (p) => setPhase(p));
+      const result = await sdk.deleteCredential(keyId, onProgress);
       setPhase("done");
       setTxHash(result.txHash);
       setTimeout(onDeleted, 1500);
     } catch (err) {
       setPhase("error");
       setErrorMsg(err instanceof Error ? err.message : "Delete failed");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
     }
-  }, [sdk, keyId, onDeleted]);
+  }, [sdk, keyId, onDeleted, begin, onProgress, setPhase]);
 
   const handleRotate = useCallback(async () => {
-    if (!sdk || !newValue.trim()) return;
-    setPhase("proving");
+    if (!sdk || !newValue.trim() || newValueSize.overLimit) return;
+    begin();
     try {
       const result = await sdk.rotateCredential(
-        { keyId, newValue: newValue.trim(), newLabel: newLabel.trim() || label },
-        (p) => setPhase(p),
+        { keyId, newValue, newLabel: newLabel.trim() || label },
+        onProgress,
       );
       setPhase("done");
       setTxHash(result.txHash);
@@ -261,12 +286,13 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
     } catch (err) {
       setPhase("error");
       setErrorMsg(err instanceof Error ? err.message : "Rotation failed");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
     }
-  }, [sdk, keyId, newValue, newLabel, label, onRotated]);
+  }, [sdk, keyId, newValue, newValueSize.overLimit, newLabel, label, onRotated, begin, onProgress, setPhase]);
 
   const handleGrantAccess = useCallback(async () => {
     if (!sdk || !skillAddress.trim()) return;
-    setPhase("proving");
+    begin("proving");
     try {
       const result = await sdk.grantCredentialAccess({
         keyId,
@@ -277,19 +303,21 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
     } catch (err) {
       setPhase("error");
       setErrorMsg(err instanceof Error ? err.message : "Grant failed");
+      setErrorCode(isIsnadError(err) ? err.code : undefined);
     }
-  }, [sdk, keyId, skillAddress]);
+  }, [sdk, keyId, skillAddress, begin, setPhase]);
 
   const resetOp = useCallback(() => {
     setMode("view");
     setPhase("idle");
     setTxHash(undefined);
     setErrorMsg(undefined);
+    setErrorCode(undefined);
     setGrantedNonce(null);
     setNewValue("");
-  }, []);
+  }, [setPhase]);
 
-  const isRunning = phase === "proving" || phase === "submitting";
+  const isRunning = isInFlight(phase);
 
   return (
     <div className="border border-wire rounded-lg overflow-hidden">
@@ -369,18 +397,24 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
                 className="w-full bg-void-100 border border-wire rounded px-3 py-2 font-mono text-xs text-ink placeholder-ink-faint focus:border-amber transition-colors"
                 disabled={isRunning}
               />
-              <input
-                type="password"
+              <textarea
                 value={newValue}
                 onChange={(e) => setNewValue(e.target.value)}
                 placeholder="New secret value"
-                className="w-full bg-void-100 border border-wire rounded px-3 py-2 font-mono text-xs text-ink placeholder-ink-faint focus:border-amber transition-colors"
+                rows={newValue.includes("\n") ? 8 : 2}
+                spellCheck={false}
+                autoComplete="off"
+                className="secret-masked w-full bg-void-100 border border-wire rounded px-3 py-2 resize-y font-mono text-xs text-ink placeholder-ink-faint focus:border-amber transition-colors"
                 disabled={isRunning}
               />
-              <ProofProgress phase={phase} txHash={txHash} error={errorMsg} onDismiss={resetOp} />
+              <p className={`font-mono text-xs tabular-nums ${newValueSize.overLimit ? "text-signal-danger" : "text-ink-faint"}`}>
+                {newValueSize.bytes} / {config.maxCredentialBytes} bytes
+                {newValueSize.notes > 1 && ` · ${newValueSize.notes} notes`}
+              </p>
+              <ProofProgress phase={phase} progress={progress} txHash={txHash} error={errorMsg} errorCode={errorCode} onDismiss={resetOp} />
               {phase === "idle" && (
                 <div className="flex gap-2">
-                  <button onClick={handleRotate} disabled={!newValue.trim()} className="flex-1 py-2 rounded border border-amber/50 text-amber font-mono text-xs hover:bg-amber/5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed">
+                  <button onClick={handleRotate} disabled={!newValue.trim() || newValueSize.overLimit} className="flex-1 py-2 rounded border border-amber/50 text-amber font-mono text-xs hover:bg-amber/5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed">
                     Rotate
                   </button>
                   <button onClick={resetOp} className="px-4 py-2 rounded border border-wire text-ink-muted font-mono text-xs hover:text-ink transition-colors">
@@ -408,7 +442,7 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
                     className="w-full bg-void-100 border border-wire rounded px-3 py-2 font-mono text-xs text-ink placeholder-ink-faint focus:border-amber transition-colors"
                     disabled={isRunning}
                   />
-                  <ProofProgress phase={phase} txHash={txHash} error={errorMsg} onDismiss={resetOp} />
+                  <ProofProgress phase={phase} progress={progress} txHash={txHash} error={errorMsg} errorCode={errorCode} onDismiss={resetOp} />
                   {phase === "idle" && (
                     <div className="flex gap-2">
                       <button onClick={handleGrantAccess} disabled={!skillAddress.trim()} className="flex-1 py-2 rounded border border-amber/50 text-amber font-mono text-xs hover:bg-amber/5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed">
@@ -455,7 +489,7 @@ function CredentialCard({ keyId, label, onDeleted, onRotated }: CredentialCardPr
                 This will permanently nullify the credential note. This action cannot be undone.
                 Use <span className="text-ink">rotate</span> instead to atomically replace.
               </p>
-              <ProofProgress phase={phase} txHash={txHash} error={errorMsg} onDismiss={resetOp} />
+              <ProofProgress phase={phase} progress={progress} txHash={txHash} error={errorMsg} errorCode={errorCode} onDismiss={resetOp} />
               {phase === "idle" && (
                 <div className="flex gap-2">
                   <button onClick={handleDelete} className="flex-1 py-2 rounded border border-signal-danger/50 text-signal-danger font-mono text-xs hover:bg-signal-danger/5 transition-colors">
@@ -1,11 +1,18 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import type { IsnadErrorCode } from "@nullius/isnad/errors";
+import type { TxProgress } from "../lib/types";
+import { isInFlight, type ProofPhase } from "../lib/use-tx-progress";
 
 interface ProofProgressProps {
-  phase: "idle" | "proving" | "submitting" | "done" | "error";
+  phase: ProofPhase;
+  /** Lifecycle events of the current operation, in order (from useTxProgress) */
+  progress?: TxProgress[];
   txHash?: string;
   error?: string;
+  /** IsnadError code of the failure; selects the guidance shown under the message */
+  errorCode?: IsnadErrorCode;
   onDismiss?: () => void;
 }
 
@@ -16,18 +23,30 @@ const PHASE_CONFIG = {
     color: "bg-amber",
     pulse: false,
   },
+  simulating: {
+    label: "Simulating transaction",
+    detail: "Checking the call against current state before spending time on a proof.",
+    color: "bg-amber",
+    pulse: true,
+  },
   proving: {
     label: "Generating ZK proof",
     detail: "This takes 3–60 seconds depending on hardware. Your identity is never revealed.",
     color: "bg-amber",
     pulse: true,
   },
-  submitting: {
-    label: "Proof verified — submitting transaction",
-    detail: "Broadcasting to the Aztec network...",
+  sent: {
+    label: "Transaction sent — waiting for a block",
+    detail: "The node accepted the transaction. It is final once a block includes it.",
     color: "bg-signal-caution",
     pulse: true,
   },
+  mined: {
+    label: "Transaction mined",
+    detail: "",
+    color: "bg-signal-trusted",
+    pulse: true,
+  },
   done: {
     label: "Transaction confirmed",
     detail: "",
@@ -42,32 +61,81 @@ const PHASE_CONFIG = {
   },
 } as const;
 
-export default function ProofProgress({ phase, txHash, error, onDismiss }: ProofProgressProps) {
-  const [elapsed, setElapsed] = useState(0);
+const STEP_LABELS: Record<TxProgress["phase"], string> = {
+  simulating: "simulated",
+  proving: "proved + submitted",
+  sent: "waited for block",
+  mined: "mined",
+};
+
+function formatMs(ms: number): string {
+  return ms < 10_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms / 1000)}s`;
+}
+
+/** What the user can do about each failure. Codes without an entry show only the message. */
+const ERROR_GUIDANCE: Partial<Record<IsnadErrorCode, string>> = {
+  NOT_ADMIN: "Only the registry admin can do this. Connect the admin account.",
+  NOT_AUTHORIZED_ATTESTOR: "Your account is not an authorized auditor yet. Ask an existing auditor to vouch for you.",
+  DEPTH_LIMIT: "You are at the end of the vouching chain and cannot vouch for others.",
+  ALREADY_ATTESTED: "You have already attested this skill. Revoke your attestation first to attest it again.",
+  ALREADY_AUTHORIZED: "That address is already an authorized auditor.",
+  ATTESTATION_NOT_FOUND: "You have no active attestation for this skill.",
+  CREDENTIAL_NOT_FOUND: "This credential is no longer in your vault. Refresh the list.",
+  CREDENTIAL_TOO_LARGE: "The value is over the credential size limit. Store a shorter value.",
+  CREDENTIAL_CORRUPT: "This credential is incomplete or damaged. Rotate it to write a fresh copy.",
+  UNSUPPORTED_FORMAT: "This credential was written by a newer SDK. Update the app to read it.",
+  INVALID_ARGUMENT: "Check the values you entered. Nothing was sent.",
+  PXE_UNREACHABLE: "Cannot reach your PXE. Check that the Aztec node is running, then retry.",
+  TX_DROPPED: "The network dropped the transaction. It is safe to retry.",
+  TX_TIMEOUT: "The transaction was not mined in time. Check your history before retrying.",
+};
 
-  // Track elapsed time during proving
+export default function ProofProgress({
+  phase,
+  progress = [],
+  txHash,
+  error,
+  errorCode,
+  onDismiss,
+}: ProofProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const active = isInFlight(phase);
+
+  // Tick while a transaction is in flight; durations come from the event timestamps
   useEffect(() => {
-    if (phase !== "proving") {
-      setElapsed(0);
-      return;
-    }
-    const start = Date.now();
-    const interval = setInterval(() => {
-      setElapsed(Math.floor((Date.now() - start) / 1000));
-    }, 500);
+    if (!active) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 500);
     return () => clearInterval(interval);
-  }, [phase]);
+  }, [active]);
+
+  // The phase started when its event arrived; writes without events (grant) start now
+  const [fallbackStart, setFallbackStart] = useState(() => Date.now());
+  useEffect(() => setFallbackStart(Date.now()), [phase]);
 
   if (phase === "idle") return null;
 
   const cfg = PHASE_CONFIG[phase];
+  const current = progress[progress.length - 1];
+  const phaseElapsed = Math.max(0, now - (current?.at ?? fallbackStart));
+  const blockNumber = [...progress].reverse().find((p) => p.blockNumber !== undefined)?.blockNumber;
+  const multiTx = progress.some((p) => p.tx > 1);
+
+  // Completed steps: each event lasted until the next one
+  const steps = progress.slice(0, active ? -1 : undefined).map((p, i) => ({
+    key: `${p.tx}-${p.phase}`,
+    label: (multiTx ? `tx ${p.tx}: ` : "") + STEP_LABELS[p.phase],
+    duration: progress[i + 1] && p.phase !== "mined" ? progress[i + 1].at - p.at : undefined,
+    blockNumber: p.phase === "mined" ? p.blockNumber : undefined,
+  }));
+  const total = progress.length > 0 ? progress[progress.length - 1].at - progress[0].at : undefined;
 
   return (
     <div className={`
       rounded border p-4 space-y-3
       ${phase === "done" ? "border-signal-trusted/30 bg-signal-trusted/5" : ""}
       ${phase === "error" ? "border-signal-danger/30 bg-signal-danger/5" : ""}
-      ${phase === "proving" || phase === "submitting" ? "border-amber/30 bg-amber/5" : ""}
+      ${active ? "border-amber/30 bg-amber/5" : ""}
     `}>
       {/* Header row */}
       <div className="flex items-center gap-3">
@@ -79,12 +147,16 @@ export default function ProofProgress({ phase, txHash, error, onDismiss }: Proof
             ${cfg.pulse ? "animate-pulse" : ""}
           `}
         />
-        <span className="font-mono text-sm text-ink">{cfg.label}</span>
+        <span className="font-mono text-sm text-ink">
+          {multiTx && current && active ? `tx ${current.tx} · ` : ""}
+          {cfg.label}
+          {phase === "mined" && blockNumber !== undefined ? ` in block #${blockNumber}` : ""}
+        </span>
 
-        {/* Elapsed time */}
-        {phase === "proving" && (
+        {/* Time in the current phase */}
+        {active && (
           <span className="font-mono text-xs text-ink-muted ml-auto">
-            {elapsed}s
+            {formatMs(phaseElapsed)}
           </span>
         )}
 
@@ -99,13 +171,35 @@ export default function ProofProgress({ phase, txHash, error, onDismiss }: Proof
         )}
       </div>
 
+      {/* Completed phases with their real durations */}
+      {steps.length > 0 && (
+        <ul className="space-y-0.5">
+          {steps.map((step) => (
+            <li key={step.key} className="flex gap-2 text-xs font-mono text-ink-muted">
+              <span className="text-signal-trusted">✓</span>
+              <span>{step.label}</span>
+              <span className="ml-auto">
+                {step.blockNumber !== undefined ? `block #${step.blockNumber}` : ""}
+                {step.duration !== undefined ? formatMs(step.duration) : ""}
+              </span>
+            </li>
+          ))}
+          {phase === "done" && total !== undefined && (
+            <li className="flex gap-2 text-xs font-mono text-ink border-t border-wire pt-1">
+              <span>total</span>
+              <span className="ml-auto">{formatMs(total)}</span>
+            </li>
+          )}
+        </ul>
+      )}
+
       {/* Detail text */}
       {cfg.detail && (
         <p className="text-xs text-ink-muted font-mono">{cfg.detail}</p>
       )}
 
       {/* Proof generation scanline animation */}
-      {(phase === "proving" || phase === "submitting") && (
+      {active && (
         <div className="relative h-0.5 bg-wire overflow-hidden rounded-full">
           <div className="absolute inset-y-0 w-1/3 bg-amber/60 scanline rounded-full" />
         </div>
@@ -129,6 +223,9 @@ export default function ProofProgress({ phase, txHash, error, onDismiss }: Proof
       {phase === "error" && error && (
         <p className="text-xs text-signal-danger font-mono">{error}</p>
       )}
+      {phase === "error" && errorCode && ERROR_GUIDANCE[errorCode] && (
+        <p className="text-xs text-ink-muted font-mono">{ERROR_GUIDANCE[errorCode]}</p>
+      )}
 
       {/* ZK privacy reminder during proof */}
       {phase === "proving" && (
@@ -69,6 +69,12 @@ export default function TrustScore({ info, showBar = true, size = "md" }: TrustS
               <span className="text-signal-danger/60"> (score suppressed)</span>
             )}
           </span>
+          {info.reportCount !== undefined && info.reportCount > 0n && (
+            <span className={`font-mono ${labelSize} text-signal-danger`}>
+              reported malicious by {info.reportCount.toString()}{" "}
+              {info.reportCount === 1n ? "auditor" : "auditors"}
+            </span>
+          )}
         </div>
       </div>
 
@@ -105,7 +111,7 @@ export function AttestHistoryItem({ event }: AttestHistoryItemProps) {
 
   const isRevoke = type === "revoke";
 
-  const barWidth = `${quality}%`;
+  const barWidth = `${Math.min(quality, 100)}%`;
   const color = isRevoke
     ? "bg-signal-danger"
     : quality >= 80
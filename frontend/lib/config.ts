@@ -21,6 +21,13 @@ export const config = {
    */
   pxeUrl: process.env.NEXT_PUBLIC_PXE_URL ?? "http://localhost:8080",
 
+  /**
+   * Aztec node endpoint. The Trust Browser reads public trust data from it without a
+   * wallet, and writes poll it for transaction receipts (sent → mined progress).
+   * Default: the PXE URL — the local network serves both on one port.
+   */
+  nodeUrl: process.env.NEXT_PUBLIC_NODE_URL ?? process.env.NEXT_PUBLIC_PXE_URL ?? "http://localhost:8080",
+
   /**
    * Deployed IsnadRegistry contract address.
    * Placeholder — will be updated after first successful deploy.
@@ -29,6 +36,14 @@ export const config = {
     process.env.NEXT_PUBLIC_CONTRACT_ADDRESS ??
     "0x0000000000000000000000000000000000000000000000000000000000000000",
 
+  /**
+   * Largest credential value the vault accepts, in bytes (UTF-8).
+   * Values over 93 bytes are split across several notes (124 bytes each after the
+   * first), one transaction each.
+   * Default matches the SDK's DEFAULT_MAX_CREDENTIAL_BYTES.
+   */
+  maxCredentialBytes: Number(process.env.NEXT_PUBLIC_MAX_CREDENTIAL_BYTES ?? 4096),
+
   /**
    * App metadata
    */
@@ -120,12 +120,32 @@ export function IsnadProvider({ children }: { children: React.ReactNode }) {
     setError(null);
   }, []);
 
-  // Sync attestations and credentials when SDK changes
+  // Sync attestations and credentials when SDK changes. Both lists are shown from
+  // session state at once, then reloaded from the PXE's notes.
   useEffect(() => {
-    if (sdk) {
-      setMyAttestations(sdk.getMyAttestations());
-      setCredentialList(sdk.listCredentials());
-    }
+    if (!sdk) return;
+    let cancelled = false;
+    setMyAttestations(sdk.getMyAttestations());
+    setCredentialList(sdk.listCredentials());
+    sdk
+      .syncAttestations()
+      .then(() => {
+        if (!cancelled) setMyAttestations(sdk.getMyAttestations());
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load attestations: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    sdk
+      .syncCredentials()
+      .then(() => {
+        if (!cancelled) setCredentialList(sdk.listCredentials());
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load vault: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [sdk]);
 
   const displayAddress = walletAddress
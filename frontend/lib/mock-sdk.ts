@@ -13,15 +13,24 @@
  * 5. Set NEXT_PUBLIC_PXE_URL and NEXT_PUBLIC_CONTRACT_ADDRESS
  */
 
+import { computeArchiveHash, detectArchiveFormat } from "@nullius/isnad/archive";
+import { isnadError } from "@nullius/isnad/errors";
+import { computeSkillHash, normalizeSkillHash } from "@nullius/isnad/hash";
+import { config } from "./config";
+import { validSkillHashes } from "./real-reader";
 import type {
   AttestOptions,
   AttestationEvent,
+  AttestationStatus,
   CredentialResult,
   GrantAccessOptions,
   LocalAttestation,
+  PreflightIssue,
+  PreflightResult,
   RotateCredentialOptions,
   SkillTrustInfo,
   StoreCredentialOptions,
+  TxProgressFn,
 } from "./types";
 
 // ─── MOCK DATA ───────────────────────────────────────────────────────────────
@@ -32,6 +41,7 @@ const SEED_SKILLS: Array<{
   score: bigint;
   count: bigint;
   isQuarantined: boolean;
+  reports?: bigint;
   history: Array<{ quality: number; daysAgo: number; type: "attest" | "revoke" }>;
 }> = [
   {
@@ -72,6 +82,7 @@ const SEED_SKILLS: Array<{
     score: 0n,
     count: 2n,
     isQuarantined: true,
+    reports: 4n,
     history: [
       { quality: 61, daysAgo: 3, type: "attest" },
       { quality: 58, daysAgo: 4, type: "attest" },
@@ -87,6 +98,7 @@ interface MockState {
     score: bigint;
     count: bigint;
     isQuarantined: boolean;
+    reports?: bigint;
     history: AttestationEvent[];
   }>;
   myAttestations: LocalAttestation[];
@@ -99,15 +111,17 @@ function createInitialState(walletAddress: string): MockState {
     score: bigint;
     count: bigint;
     isQuarantined: boolean;
+    reports?: bigint;
     history: AttestationEvent[];
   }>();
 
   for (const seed of SEED_SKILLS) {
     const now = Date.now();
-    trustScores.set(seed.hash.toLowerCase(), {
+    trustScores.set(normalizeSkillHash(seed.hash), {
       score: seed.score,
       count: seed.count,
       isQuarantined: seed.isQuarantined,
+      reports: seed.reports,
       history: seed.history.map(({ quality, daysAgo, type }) => ({
         quality,
         ts: new Date(now - daysAgo * 24 * 60 * 60 * 1000),
@@ -158,15 +172,71 @@ function readDelay(): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, 300 + Math.random() * 200));
 }
 
+let mockBlockNumber = 1200;
+
+/**
+ * Walk one fake transaction through the SDK's lifecycle phases
+ * (simulating → proving → sent → mined), reporting each to onProgress.
+ */
+async function mockTransaction(onProgress?: TxProgressFn): Promise<string> {
+  const startedAt = Date.now();
+  const txHash = makeTxHash();
+  const report = (phase: "simulating" | "proving" | "sent" | "mined", blockNumber?: number) => {
+    const at = Date.now();
+    onProgress?.({
+      phase,
+      at,
+      elapsedMs: at - startedAt,
+      tx: 1,
+      txHash: phase === "sent" || phase === "mined" ? txHash : undefined,
+      blockNumber,
+    });
+  };
+
+  report("simulating");
+  await readDelay();
+  report("proving");
+  await proofDelay();
+  report("sent");
+  await new Promise((r) => setTimeout(r, 1500 + Math.random() * 1000));
+  report("mined", ++mockBlockNumber);
+  return txHash;
+}
+
+/** Same size check (and message) as the SDK's storeCredential / rotateCredential. */
+function checkCredentialSize(value: string): void {
+  const size = new TextEncoder().encode(value).length;
+  if (size > config.maxCredentialBytes) {
+    throw isnadError(
+      "CREDENTIAL_TOO_LARGE",
+      `Credential value is ${size} bytes, over the ${config.maxCredentialBytes}-byte limit (raise maxCredentialBytes in IsnadSDK.connect to allow it)`,
+    );
+  }
+}
+
+/** Hash a single skill file with the SDK's canonical skill hash (SHA256 reduced to a field). */
 export async function computeSkillHashFromFile(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return "0x" + hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+  return computeSkillHash(new Uint8Array(await file.arrayBuffer()));
 }
 
 /**
- * Fetch a skill file from a URL and compute its SHA-256 hash.
+ * Hash an uploaded skill. Archives (.zip, .tgz, .tar) are unpacked in the browser and
+ * hashed as a multi-file bundle; anything else is hashed as a single skill file.
+ * `bundleFiles` is the number of files the bundle hash covers, when it is a bundle.
+ */
+export async function computeSkillHashFromUpload(
+  file: File,
+): Promise<{ hash: string; bundleFiles?: number }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (detectArchiveFormat(bytes)) {
+    const { skillHash, manifest } = await computeArchiveHash(bytes);
+    return { hash: skillHash, bundleFiles: manifest.files.length };
+  }
+  return { hash: await computeSkillHashFromFile(file) };
+}
+
+/**
+ * Fetch a skill file from a URL and compute its canonical skill hash.
  *
  * Tries the server-side proxy first (works in `next dev` / `next start`).
  * Falls back to a direct browser fetch for static deployments where the
@@ -202,15 +272,12 @@ export async function computeSkillHashFromUrl(url: string): Promise<string> {
     }
   }
 
-  const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return "0x" + hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+  return computeSkillHash(new Uint8Array(buffer));
 }
 
-export function computeSkillHashFromText(text: string): string {
-  // Simple mock: just encode the text. Real version uses SHA256.
-  // In dev, we use this to look up seeded hashes by entering them directly.
-  return text.toLowerCase().startsWith("0x") ? text.toLowerCase() : text.toLowerCase();
+/** Hash skill file content given as text (UTF-8 encoded, as it would be saved to disk). */
+export async function computeSkillHashFromText(text: string): Promise<string> {
+  return computeSkillHash(new TextEncoder().encode(text));
 }
 
 // ─── MOCK SDK CLASS ───────────────────────────────────────────────────────────
@@ -230,7 +297,7 @@ export class MockIsnadSDK {
 
   async getTrustScore(skillHash: string): Promise<SkillTrustInfo> {
     await readDelay();
-    const key = skillHash.toLowerCase();
+    const key = normalizeSkillHash(skillHash);
     const data = this.state.trustScores.get(key);
 
     return {
@@ -238,41 +305,94 @@ export class MockIsnadSDK {
       trustScore: data?.score ?? 0n,
       attestationCount: data?.count ?? 0n,
       isQuarantined: data?.isQuarantined ?? false,
+      reportCount: data?.reports ?? 0n,
     };
   }
 
+  async getTrustScores(skillHashes: string[]): Promise<Map<string, SkillTrustInfo>> {
+    // One simulated round trip for the whole batch, as the real SDK runs lookups in parallel.
+    await readDelay();
+    const results = new Map<string, SkillTrustInfo>();
+    for (const key of validSkillHashes(skillHashes)) {
+      if (results.has(key)) continue;
+      const data = this.state.trustScores.get(key);
+      results.set(key, {
+        skillHash: key,
+        trustScore: data?.score ?? 0n,
+        attestationCount: data?.count ?? 0n,
+        isQuarantined: data?.isQuarantined ?? false,
+        reportCount: data?.reports ?? 0n,
+      });
+    }
+    return results;
+  }
+
   async getAttestationHistory(skillHash: string): Promise<AttestationEvent[]> {
     await readDelay();
-    const key = skillHash.toLowerCase();
+    const key = normalizeSkillHash(skillHash);
     const data = this.state.trustScores.get(key);
     return data?.history ?? [];
   }
 
   // ─── ATTESTATION ─────────────────────────────────────────────────────────
 
+  /** Same checks as the SDK's attest({ dryRun: true }); the mock auditor is always in the chain. */
+  async preflightAttest(opts: AttestOptions): Promise<PreflightResult> {
+    await readDelay();
+    const key = normalizeSkillHash(opts.skillHash);
+    const issues: PreflightIssue[] = [];
+    if (!Number.isInteger(opts.quality) || opts.quality < 0 || opts.quality > 100) {
+      issues.push({ code: "INVALID_ARGUMENT", severity: "error", message: `quality must be 0-100, got ${opts.quality}` });
+    }
+    if (this.state.trustScores.get(key)?.isQuarantined) {
+      issues.push({
+        code: "SKILL_QUARANTINED",
+        severity: "warning",
+        message: "This skill is quarantined; the attestation will not lift its score above zero",
+      });
+    }
+    const { state } = this.attestationStatus(key);
+    if (state === "attested") {
+      issues.push({ code: "ALREADY_ATTESTED", severity: "error", message: "You have already attested this skill" });
+    } else if (state === "revoked") {
+      issues.push({
+        code: "ALREADY_ATTESTED",
+        severity: "error",
+        message: "You revoked your attestation of this skill and cannot attest it again",
+      });
+    }
+    return { ok: !issues.some((i) => i.severity === "error"), issues, transactions: 1 };
+  }
+
+  async hasAttested(skillHash: string): Promise<AttestationStatus> {
+    await readDelay();
+    return this.attestationStatus(normalizeSkillHash(skillHash));
+  }
+
+  /** A revoked attestation still spends the claim, as the contract's SingleUseClaim does. */
+  private attestationStatus(key: string): AttestationStatus {
+    const mine = this.state.myAttestations.filter((a) => normalizeSkillHash(a.skillHash) === key);
+    if (mine.some((a) => !a.revoked)) return { state: "attested" };
+    return { state: mine.length > 0 ? "revoked" : "none" };
+  }
+
   /** Simulate submitting an attestation (includes fake proof generation delay) */
   async attest(
     opts: AttestOptions,
-    onProofProgress?: (phase: "proving" | "submitting") => void,
+    onProofProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    const key = opts.skillHash.toLowerCase();
+    const key = normalizeSkillHash(opts.skillHash);
 
-    // Check double-attestation
-    const alreadyAttested = this.state.myAttestations.some(
-      (a) => a.skillHash.toLowerCase() === key && !a.revoked,
-    );
-    if (alreadyAttested) {
-      throw new Error(
+    // Check double-attestation, including after a revocation
+    if (this.attestationStatus(key).state !== "none") {
+      throw isnadError(
+        "ALREADY_ATTESTED",
         "You have already attested this skill (SingleUseClaim prevents double-attestation).",
       );
     }
 
-    onProofProgress?.("proving");
-    await proofDelay();
-    onProofProgress?.("submitting");
-    await new Promise((r) => setTimeout(r, 500));
+    const txHash = await mockTransaction(onProofProgress);
 
-    const txHash = makeTxHash();
     const now = new Date();
 
     // Update trust score
@@ -281,6 +401,7 @@ export class MockIsnadSDK {
       score: existing.score + BigInt(opts.quality),
       count: existing.count + 1n,
       isQuarantined: existing.isQuarantined,
+      reports: existing.reports,
       history: [{ quality: opts.quality, ts: now, type: "attest" as const }, ...existing.history],
     });
 
@@ -289,6 +410,7 @@ export class MockIsnadSDK {
       skillHash: opts.skillHash,
       quality: opts.quality,
       claimType: opts.claimType,
+      evidenceHash: opts.evidenceHash,
       timestamp: now,
       txHash,
       revoked: false,
@@ -300,23 +422,19 @@ export class MockIsnadSDK {
   /** Simulate revoking an attestation */
   async revokeAttestation(
     skillHash: string,
-    onProofProgress?: (phase: "proving" | "submitting") => void,
+    onProofProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    const key = skillHash.toLowerCase();
+    const key = normalizeSkillHash(skillHash);
 
     const attestation = this.state.myAttestations.find(
-      (a) => a.skillHash.toLowerCase() === key && !a.revoked,
+      (a) => normalizeSkillHash(a.skillHash) === key && !a.revoked,
     );
     if (!attestation) {
-      throw new Error("No active attestation found for this skill.");
+      throw isnadError("ATTESTATION_NOT_FOUND", "No active attestation found for this skill.");
     }
 
-    onProofProgress?.("proving");
-    await proofDelay();
-    onProofProgress?.("submitting");
-    await new Promise((r) => setTimeout(r, 500));
+    const txHash = await mockTransaction(onProofProgress);
 
-    const txHash = makeTxHash();
 
     // Decrement trust score and append a revocation event to the timeline
     const existing = this.state.trustScores.get(key);
@@ -325,6 +443,7 @@ export class MockIsnadSDK {
         score: existing.score >= BigInt(attestation.quality) ? existing.score - BigInt(attestation.quality) : 0n,
         count: existing.count > 0n ? existing.count - 1n : 0n,
         isQuarantined: existing.isQuarantined,
+        reports: existing.reports,
         history: [
           { quality: attestation.quality, ts: new Date(), type: "revoke" as const },
           ...existing.history,
@@ -338,6 +457,39 @@ export class MockIsnadSDK {
     return { txHash };
   }
 
+  /** Simulate amending an attestation: the score moves by the quality difference, the count stays */
+  async amendAttestation(
+    opts: AttestOptions,
+    onProofProgress?: TxProgressFn,
+  ): Promise<{ txHash: string }> {
+    const key = normalizeSkillHash(opts.skillHash);
+
+    const attestation = this.state.myAttestations.find(
+      (a) => normalizeSkillHash(a.skillHash) === key && !a.revoked,
+    );
+    if (!attestation) {
+      throw isnadError("ATTESTATION_NOT_FOUND", "No active attestation found for this skill.");
+    }
+    if (!Number.isInteger(opts.quality) || opts.quality < 0 || opts.quality > 100) {
+      throw isnadError("INVALID_ARGUMENT", `quality must be 0-100, got ${opts.quality}`);
+    }
+
+    const txHash = await mockTransaction(onProofProgress);
+
+    const existing = this.state.trustScores.get(key);
+    if (existing) {
+      const base = existing.score >= BigInt(attestation.quality) ? existing.score - BigInt(attestation.quality) : 0n;
+      this.state.trustScores.set(key, { ...existing, score: base + BigInt(opts.quality) });
+    }
+
+    attestation.quality = opts.quality;
+    attestation.claimType = opts.claimType ?? attestation.claimType;
+    attestation.evidenceHash = opts.evidenceHash ?? attestation.evidenceHash;
+    attestation.txHash = txHash;
+
+    return { txHash };
+  }
+
   /** Get this auditor's local attestation history */
   getMyAttestations(): LocalAttestation[] {
     return [...this.state.myAttestations];
@@ -347,60 +499,57 @@ export class MockIsnadSDK {
 
   async storeCredential(
     opts: StoreCredentialOptions,
-    onProofProgress?: (phase: "proving" | "submitting") => void,
+    onProofProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
     if (this.state.credentials.has(opts.keyId)) {
-      throw new Error(`Credential '${opts.keyId}' already exists. Use rotateCredential() to replace.`);
+      throw isnadError("INVALID_ARGUMENT", `Credential '${opts.keyId}' already exists. Use rotateCredential() to replace.`);
     }
+    checkCredentialSize(opts.value);
 
-    onProofProgress?.("proving");
-    await proofDelay();
-    onProofProgress?.("submitting");
-    await new Promise((r) => setTimeout(r, 500));
+    const txHash = await mockTransaction(onProofProgress);
 
     this.state.credentials.set(opts.keyId, { label: opts.label, value: opts.value });
-    return { txHash: makeTxHash() };
+    return { txHash };
   }
 
   async getCredential(keyId: string): Promise<CredentialResult | null> {
     await readDelay();
     const cred = this.state.credentials.get(keyId);
     if (!cred) return null;
-    return { keyId, value: cred.value, label: cred.label };
+    return { keyId, value: cred.value, label: cred.label, contentType: "utf8" };
   }
 
   async deleteCredential(
     keyId: string,
-    onProofProgress?: (phase: "proving" | "submitting") => void,
+    onProofProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
     if (!this.state.credentials.has(keyId)) {
-      throw new Error(`No credential found with keyId '${keyId}'.`);
+      throw isnadError("CREDENTIAL_NOT_FOUND", `No credential found with keyId '${keyId}'.`);
     }
 
-    onProofProgress?.("proving");
-    await proofDelay();
-    onProofProgress?.("submitting");
-    await new Promise((r) => setTimeout(r, 500));
+    const txHash = await mockTransaction(onProofProgress);
 
     this.state.credentials.delete(keyId);
-    return { txHash: makeTxHash() };
+    return { txHash };
   }
 
   async rotateCredential(
     opts: RotateCredentialOptions,
-    onProofProgress?: (phase: "proving" | "submitting") => void,
+    onProofProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
     if (!this.state.credentials.has(opts.keyId)) {
-      throw new Error(`No credential found with keyId '${opts.keyId}'.`);
+      throw isnadError("CREDENTIAL_NOT_FOUND", `No credential found with keyId '${opts.keyId}'.`);
     }
+    checkCredentialSize(opts.newValue);
 
-    onProofProgress?.("proving");
-    await proofDelay();
-    onProofProgress?.("submitting");
-    await new Promise((r) => setTimeout(r, 500));
+    const txHash = await mockTransaction(onProofProgress);
 
     this.state.credentials.set(opts.keyId, { label: opts.newLabel, value: opts.newValue });
-    return { txHash: makeTxHash() };
+    return { txHash };
+  }
+
+  async syncAttestations(): Promise<void> {
+    // The mock attestation list lives in this object; there is nothing to reload
   }
 
   /** Returns all credential key IDs (not values) for listing */
@@ -411,6 +560,10 @@ export class MockIsnadSDK {
     }));
   }
 
+  async syncCredentials(): Promise<void> {
+    // The mock vault lives in this object; there is nothing to reload
+  }
+
   async grantCredentialAccess(opts: GrantAccessOptions): Promise<{ authwitNonce: bigint }> {
     await readDelay();
     const nonce = opts.nonce ?? BigInt(Date.now());
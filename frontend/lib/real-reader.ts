@@ -0,0 +1,117 @@
+// @ts-nocheck
+/**
+ * RealTrustReader — public trust reads from the live IsnadRegistry, no wallet.
+ *
+ * Backs the Trust Browser in real mode. It reads public storage through the SDK's
+ * IsnadReader, so it needs only a reachable Aztec node and the contract address:
+ * no PXE account, no test account. Attestation history comes from the SDK's
+ * IsnadIndexer, which rebuilds it from the blocks the node serves.
+ *
+ * This file uses // @ts-nocheck for the same reason as real-sdk-wrapper.ts:
+ * @aztec/aztec.js and @nullius/isnad are not yet installed in the frontend node_modules.
+ */
+
+import { isnadError } from "@nullius/isnad/errors";
+import { normalizeSkillHash } from "@nullius/isnad/hash";
+import type { AttestationEvent, SkillTrustInfo, TrustReaderLike } from "./types";
+
+export class RealTrustReader implements TrustReaderLike {
+  private readonly reader: any; // IsnadReader from @nullius/isnad/reader
+  private readonly indexer: any; // IsnadIndexer from @nullius/isnad/indexer
+
+  private constructor(reader: any, indexer: any) {
+    this.reader = reader;
+    this.indexer = indexer;
+  }
+
+  /**
+   * Connect to a deployed IsnadRegistry through an Aztec node.
+   *
+   * @param nodeUrl          Aztec node HTTP endpoint (e.g. http://localhost:8080)
+   * @param contractAddress  Deployed IsnadRegistry address (0x hex string)
+   */
+  static async create(nodeUrl: string, contractAddress: string): Promise<RealTrustReader> {
+    let createAztecNodeClient: any;
+    let IsnadReader: any;
+    let IsnadIndexer: any;
+
+    try {
+      // webpackIgnore: true — resolved at runtime from node_modules, as in real-sdk-wrapper.ts
+      createAztecNodeClient = (await import(/* webpackIgnore: true */ "@aztec/aztec.js/node")).createAztecNodeClient;
+      IsnadReader = (await import(/* webpackIgnore: true */ "@nullius/isnad/reader")).IsnadReader;
+      IsnadIndexer = (await import(/* webpackIgnore: true */ "@nullius/isnad/indexer")).IsnadIndexer;
+    } catch {
+      throw new Error(
+        "Missing @aztec/aztec.js or @nullius/isnad. Run: cd frontend && npm install @aztec/aztec.js@4.0.0-devnet.2-patch.0, " +
+          "and cd sdk && npm run build.",
+      );
+    }
+
+    const node = createAztecNodeClient(nodeUrl);
+    try {
+      await node.getBlockNumber();
+    } catch (err) {
+      throw isnadError(
+        "PXE_UNREACHABLE",
+        `Cannot reach the Aztec node at ${nodeUrl}.\n` +
+          "Ensure the Aztec local network is running:\n" +
+          "  aztec start --local-network",
+        err,
+      );
+    }
+
+    return new RealTrustReader(
+      IsnadReader.connect(node, contractAddress),
+      IsnadIndexer.connect(node, contractAddress),
+    );
+  }
+
+  async getTrustScore(skillHash: string): Promise<SkillTrustInfo> {
+    return this.reader.getTrustScore(normalizeSkillHash(skillHash));
+  }
+
+  async getTrustScores(skillHashes: string[]): Promise<Map<string, SkillTrustInfo>> {
+    return this.reader.getTrustScores(validSkillHashes(skillHashes));
+  }
+
+  async getAttestationHistory(skillHash: string): Promise<AttestationEvent[]> {
+    return toAttestationEvents(await this.indexer.getHistory(normalizeSkillHash(skillHash)));
+  }
+}
+
+/**
+ * Normalize hashes for a getTrustScores() batch, so the keys it returns (0x + 64 hex)
+ * are the keys callers look up. Invalid hashes are left out, as failed lookups are.
+ */
+export function validSkillHashes(skillHashes: string[]): string[] {
+  return skillHashes.flatMap((skillHash) => {
+    try {
+      return [normalizeSkillHash(skillHash)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Turn IsnadIndexer history entries into timeline events, newest first.
+ *
+ * Each transaction that raised the attestation count is an attestation and each one
+ * that lowered it a revocation. Quarantine changes and amendments leave the count
+ * alone and are not shown. The quality is the score change per attestation, so it carries the
+ * attestor's depth weight.
+ */
+export function toAttestationEvents(entries: any[]): AttestationEvent[] {
+  const events: AttestationEvent[] = [];
+  for (const entry of entries) {
+    const count = Number(entry.after.attestationCount - entry.before.attestationCount);
+    if (count === 0) continue;
+    const score = Number(entry.after.trustScore - entry.before.trustScore);
+    events.push({
+      quality: Math.round(Math.abs(score / count)),
+      ts: new Date(entry.timestamp),
+      type: count > 0 ? "attest" : "revoke",
+    });
+  }
+  return events.reverse();
+}
@@ -18,36 +18,43 @@
  * allowing isnad-context.tsx to swap in either MockIsnadSDK or RealSdkWrapper.
  */
 
+import { isnadError } from "@nullius/isnad/errors";
+import { normalizeSkillHash } from "@nullius/isnad/hash";
+import { config } from "./config";
+import { toAttestationEvents, validSkillHashes } from "./real-reader";
 import type {
   AttestationEvent,
+  AttestationStatus,
   AttestOptions,
   CredentialResult,
   GrantAccessOptions,
   IsnadSdkLike,
   LocalAttestation,
+  PreflightResult,
   RotateCredentialOptions,
   SkillTrustInfo,
   StoreCredentialOptions,
+  TxProgressFn,
 } from "./types";
 
-type ProofProgressFn = (phase: "proving" | "submitting") => void;
-
 /**
  * Wraps the real IsnadSDK with:
- * - Proof progress callbacks (called right before and after the tx)
- * - Local session state for attestation/credential lists
+ * - Progress callbacks fed by the SDK's transaction lifecycle events (onTxEvent)
+ * - Attestation and credential lists synced from the PXE, plus session state for what it sends
  * - Graceful error messages when PXE is unreachable
  *
  * Instantiate via: await RealSdkWrapper.create(pxeUrl, contractAddress)
  */
 export class RealSdkWrapper implements IsnadSdkLike {
   private readonly sdk: any; // IsnadSDK from @nullius/isnad
+  private readonly indexer: any; // IsnadIndexer from @nullius/isnad/indexer
   private readonly _walletAddress: string;
   private _myAttestations: LocalAttestation[] = [];
   private _credentialMap: Map<string, { label: string }> = new Map();
 
-  private constructor(sdk: any, walletAddress: string) {
+  private constructor(sdk: any, indexer: any, walletAddress: string) {
     this.sdk = sdk;
+    this.indexer = indexer;
     this._walletAddress = walletAddress;
   }
 
@@ -64,9 +71,11 @@ export class RealSdkWrapper implements IsnadSdkLike {
   static async create(pxeUrl: string, contractAddress: string): Promise<RealSdkWrapper> {
     // Dynamic imports — will throw with a helpful message if packages are missing
     let createPXEClient: any;
+    let createAztecNodeClient: any;
     let AztecAddress: any;
     let getDeployedTestAccounts: any;
     let IsnadSDK: any;
+    let IsnadIndexer: any;
 
     try {
       // webpackIgnore: true prevents webpack from trying to bundle these at build time.
@@ -74,6 +83,7 @@ export class RealSdkWrapper implements IsnadSdkLike {
       const aztecJs = await import(/* webpackIgnore: true */ "@aztec/aztec.js");
       createPXEClient = aztecJs.createPXEClient;
       AztecAddress = (await import(/* webpackIgnore: true */ "@aztec/aztec.js/addresses")).AztecAddress;
+      createAztecNodeClient = (await import(/* webpackIgnore: true */ "@aztec/aztec.js/node")).createAztecNodeClient;
     } catch {
       throw new Error(
         "Missing @aztec/aztec.js. Run: cd frontend && npm install @aztec/aztec.js@4.0.0-devnet.2-patch.0",
@@ -92,6 +102,7 @@ export class RealSdkWrapper implements IsnadSdkLike {
     try {
       const sdkModule = await import(/* webpackIgnore: true */ "@nullius/isnad");
       IsnadSDK = sdkModule.IsnadSDK;
+      IsnadIndexer = sdkModule.IsnadIndexer;
     } catch {
       throw new Error(
         "Missing @nullius/isnad. Run: cd sdk && npm run build, then link or install the package.",
@@ -104,11 +115,13 @@ export class RealSdkWrapper implements IsnadSdkLike {
     // Verify PXE is reachable
     try {
       await pxe.getNodeInfo();
-    } catch {
-      throw new Error(
+    } catch (err) {
+      throw isnadError(
+        "PXE_UNREACHABLE",
         `Cannot reach PXE at ${pxeUrl}.\n` +
           "Ensure the Aztec local network is running:\n" +
           "  aztec start --local-network",
+        err,
       );
     }
 
@@ -125,9 +138,14 @@ export class RealSdkWrapper implements IsnadSdkLike {
     const wallet = await testAccounts[0].getWallet();
     const from = wallet.getAddress();
     const addr = AztecAddress.fromString(contractAddress);
-    const sdk = await IsnadSDK.connect(wallet, from, addr);
+    const node = createAztecNodeClient(config.nodeUrl);
+    const sdk = await IsnadSDK.connect(wallet, from, addr, {
+      maxCredentialBytes: config.maxCredentialBytes,
+      // Receipts are polled from the node so "sent" is reported before "mined"
+      node,
+    });
 
-    return new RealSdkWrapper(sdk, from.toString());
+    return new RealSdkWrapper(sdk, IsnadIndexer.connect(node, addr), from.toString());
   }
 
   get walletAddress(): string {
@@ -137,38 +155,36 @@ export class RealSdkWrapper implements IsnadSdkLike {
   // ─── TRUST READS ────────────────────────────────────────────────────────────
 
   async getTrustScore(skillHash: string): Promise<SkillTrustInfo> {
-    return this.sdk.getTrustScore(skillHash);
-  }
-
-  async getAttestationHistory(_skillHash: string): Promise<AttestationEvent[]> {
-    // The contract stores aggregate scores, not individual attestation timestamps.
-    // A v2 indexer could reconstruct this from on-chain events.
-    // For now, return the locally tracked history for this session.
-    const key = _skillHash.toLowerCase();
-    return this._myAttestations
-      .map((a) => ({
-        quality: a.quality,
-        ts: a.timestamp,
-        type: (a.revoked ? "revoke" : "attest") as "attest" | "revoke",
-      }))
-      .filter((e) => {
-        const match = this._myAttestations.find(
-          (a) => a.skillHash.toLowerCase() === key && a.timestamp === e.ts,
-        );
-        return !!match;
-      });
+    return this.sdk.getTrustScore(normalizeSkillHash(skillHash));
+  }
+
+  async getTrustScores(skillHashes: string[]): Promise<Map<string, SkillTrustInfo>> {
+    return this.sdk.getTrustScores(validSkillHashes(skillHashes));
+  }
+
+  async getAttestationHistory(skillHash: string): Promise<AttestationEvent[]> {
+    return toAttestationEvents(await this.indexer.getHistory(normalizeSkillHash(skillHash)));
   }
 
   // ─── ATTESTATION ────────────────────────────────────────────────────────────
 
-  async attest(opts: AttestOptions, onProgress?: ProofProgressFn): Promise<{ txHash: string }> {
-    onProgress?.("proving");
-    const result = await this.sdk.attest(opts);
-    onProgress?.("submitting");
+  async preflightAttest(opts: AttestOptions): Promise<PreflightResult> {
+    return this.sdk.attest({ ...opts, skillHash: normalizeSkillHash(opts.skillHash) }, { dryRun: true });
+  }
+
+  async hasAttested(skillHash: string): Promise<AttestationStatus> {
+    return this.sdk.hasAttested(normalizeSkillHash(skillHash));
+  }
+
+  async attest(opts: AttestOptions, onProgress?: TxProgressFn): Promise<{ txHash: string }> {
+    const skillHash = normalizeSkillHash(opts.skillHash);
+    const result = await this._track(onProgress, () => this.sdk.attest({ ...opts, skillHash }));
 
     this._myAttestations.unshift({
-      skillHash: opts.skillHash,
+      skillHash,
       quality: opts.quality,
+      claimType: opts.claimType,
+      evidenceHash: opts.evidenceHash,
       timestamp: new Date(),
       txHash: result.txHash,
       revoked: false,
@@ -179,33 +195,68 @@ export class RealSdkWrapper implements IsnadSdkLike {
 
   async revokeAttestation(
     skillHash: string,
-    onProgress?: ProofProgressFn,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    onProgress?.("proving");
-    const result = await this.sdk.revokeAttestation(skillHash);
-    onProgress?.("submitting");
+    const key = normalizeSkillHash(skillHash);
+    const result = await this._track(onProgress, () => this.sdk.revokeAttestation(key));
 
-    const a = this._myAttestations.find(
-      (x) => x.skillHash.toLowerCase() === skillHash.toLowerCase() && !x.revoked,
-    );
+    const a = this._myAttestations.find((x) => x.skillHash === key && !x.revoked);
     if (a) a.revoked = true;
 
     return result;
   }
 
+  async amendAttestation(opts: AttestOptions, onProgress?: TxProgressFn): Promise<{ txHash: string }> {
+    const skillHash = normalizeSkillHash(opts.skillHash);
+    const result = await this._track(onProgress, () => this.sdk.amendAttestation({ ...opts, skillHash }));
+
+    const a = this._myAttestations.find((x) => x.skillHash === skillHash && !x.revoked);
+    if (a) {
+      a.quality = opts.quality;
+      a.claimType = opts.claimType;
+      a.evidenceHash = opts.evidenceHash;
+      a.txHash = result.txHash;
+    }
+
+    return result;
+  }
+
   getMyAttestations(): LocalAttestation[] {
     return [...this._myAttestations];
   }
 
+  async syncAttestations(): Promise<void> {
+    const notes: Array<{
+      skillHash: string;
+      quality: number;
+      claimType: number;
+      depthAtAttestation: number;
+      evidenceHash?: string;
+    }> = await this.sdk.listMyAttestations();
+    // Notes carry no timestamp or tx hash; keep those of attestations sent in this session
+    const sent = new Map(this._myAttestations.filter((a) => !a.revoked).map((a) => [a.skillHash, a]));
+    this._myAttestations = [
+      ...notes.map((n) => ({
+        skillHash: n.skillHash,
+        quality: n.quality,
+        claimType: n.claimType,
+        depthAtAttestation: n.depthAtAttestation,
+        evidenceHash: n.evidenceHash,
+        timestamp: sent.get(n.skillHash)?.timestamp,
+        txHash: sent.get(n.skillHash)?.txHash,
+        revoked: false,
+      })),
+      ...this._myAttestations.filter((a) => a.revoked),
+    ];
+  }
+
   // ─── CREDENTIAL VAULT ───────────────────────────────────────────────────────
 
   async storeCredential(
     opts: StoreCredentialOptions,
-    onProgress?: ProofProgressFn,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    onProgress?.("proving");
-    const result = await this.sdk.storeCredential(opts);
-    onProgress?.("submitting");
+    const result = await this._track(onProgress, () => this.sdk.storeCredential(opts));
     this._credentialMap.set(opts.keyId, { label: opts.label });
     return result;
   }
@@ -216,22 +267,18 @@ export class RealSdkWrapper implements IsnadSdkLike {
 
   async deleteCredential(
     keyId: string,
-    onProgress?: ProofProgressFn,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    onProgress?.("proving");
-    const result = await this.sdk.deleteCredential(keyId);
-    onProgress?.("submitting");
+    const result = await this._track(onProgress, () => this.sdk.deleteCredential(keyId));
     this._credentialMap.delete(keyId);
     return result;
   }
 
   async rotateCredential(
     opts: RotateCredentialOptions,
-    onProgress?: ProofProgressFn,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }> {
-    onProgress?.("proving");
-    const result = await this.sdk.rotateCredential(opts);
-    onProgress?.("submitting");
+    const result = await this._track(onProgress, () => this.sdk.rotateCredential(opts));
     this._credentialMap.set(opts.keyId, { label: opts.newLabel });
     return result;
   }
@@ -243,7 +290,44 @@ export class RealSdkWrapper implements IsnadSdkLike {
     }));
   }
 
+  /**
+   * Replace the credential list with what the vault holds (IsnadSDK.listCredentials).
+   * Credentials stored without a recorded key ID cannot be addressed by name and are skipped.
+   */
+  async syncCredentials(): Promise<void> {
+    const creds: Array<{ keyId: string | null; label: string }> = await this.sdk.listCredentials();
+    this._credentialMap = new Map(
+      creds.filter((c) => c.keyId !== null).map((c) => [c.keyId as string, { label: c.label }]),
+    );
+  }
+
   async grantCredentialAccess(opts: GrantAccessOptions): Promise<{ authwitNonce: bigint }> {
     return this.sdk.grantCredentialAccess(opts);
   }
+
+  /**
+   * Run one SDK write, forwarding its transaction lifecycle events to onProgress.
+   * Failed and dropped events are left to the rejected promise.
+   */
+  private async _track<T>(onProgress: TxProgressFn | undefined, run: () => Promise<T>): Promise<T> {
+    if (!onProgress) return run();
+    const txIds: number[] = [];
+    const off = this.sdk.onTxEvent((e: any) => {
+      if (e.phase === "failed" || e.phase === "dropped") return;
+      if (!txIds.includes(e.txId)) txIds.push(e.txId);
+      onProgress({
+        phase: e.phase,
+        at: e.at,
+        elapsedMs: e.elapsedMs,
+        tx: txIds.indexOf(e.txId) + 1,
+        txHash: e.txHash,
+        blockNumber: e.blockNumber,
+      });
+    });
+    try {
+      return await run();
+    } finally {
+      off();
+    }
+  }
 }
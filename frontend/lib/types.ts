@@ -3,15 +3,20 @@
  * Mirrors the SDK types from @nullius/isnad for frontend use.
  */
 
+import type { IsnadErrorCode } from "@nullius/isnad/errors";
+
 export interface SkillTrustInfo {
   skillHash: string;
   trustScore: bigint;
   attestationCount: bigint;
   isQuarantined?: boolean;
+  /** Auditors who reported the skill malicious (IsnadSDK.reportMalicious). */
+  reportCount?: bigint;
 }
 
 /** A single event in the attestation timeline. */
 export interface AttestationEvent {
+  /** 0–100 in mock mode; from chain history it is the attestor's weighted contribution (quality × depth weight). */
   quality: number;
   ts: Date;
   type: "attest" | "revoke";
@@ -22,6 +27,8 @@ export interface AttestOptions {
   quality: number;
   /** 0=code_review, 1=behavioral, 2=sandboxed_execution. Stored privately; never revealed on-chain. */
   claimType?: number;
+  /** Commitment to the audit report (computeReportHash). Stored privately; never revealed on-chain. */
+  evidenceHash?: string;
 }
 
 export interface StoreCredentialOptions {
@@ -34,6 +41,8 @@ export interface CredentialResult {
   keyId: string;
   value: string;
   label: string;
+  /** How the value was stored; binary values arrive base64-encoded */
+  contentType?: "utf8" | "binary" | "json";
 }
 
 export interface RotateCredentialOptions {
@@ -48,6 +57,54 @@ export interface GrantAccessOptions {
   nonce?: bigint;
 }
 
+/**
+ * Progress of one transaction, from the SDK's onTxEvent(). Failures are not reported
+ * here; the write method rejects with an IsnadError instead.
+ */
+export interface TxProgress {
+  phase: "simulating" | "proving" | "sent" | "mined";
+  /** When the phase began (ms since epoch) */
+  at: number;
+  /** Milliseconds since this transaction's simulation began */
+  elapsedMs: number;
+  /** 1-based position of this transaction within the operation (chunked credentials send several) */
+  tx: number;
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export type TxProgressFn = (progress: TxProgress) => void;
+
+/** A failure (or warning) a dry run predicts; `code` is what the real write would throw. */
+export interface PreflightIssue {
+  code: IsnadErrorCode;
+  severity: "error" | "warning";
+  message: string;
+}
+
+/** Result of checking a write without proving or sending it. */
+export interface PreflightResult {
+  /** No error-severity issues: the write is expected to succeed */
+  ok: boolean;
+  issues: PreflightIssue[];
+  /** Transactions the write would send */
+  transactions: number;
+}
+
+/**
+ * Whether the auditor can still attest a skill, from the attest_claims nullifier.
+ * "revoked" means attested and revoked: the claim is spent and attest() will always fail.
+ */
+export interface AttestationStatus {
+  state: "attested" | "revoked" | "none";
+}
+
+/**
+ * Public trust reads, needing no wallet. Implemented by MockIsnadSDK, RealSdkWrapper
+ * and RealTrustReader; the Trust Browser uses only this.
+ */
+export type TrustReaderLike = Pick<IsnadSdkLike, "getTrustScore" | "getTrustScores" | "getAttestationHistory">;
+
 /**
  * Common interface implemented by both MockIsnadSDK and RealSdkWrapper.
  * Allows isnad-context.tsx to work with either implementation.
@@ -57,50 +114,76 @@ export interface IsnadSdkLike {
 
   // Trust reads (no wallet required in mock; uses PXE in real mode)
   getTrustScore(skillHash: string): Promise<SkillTrustInfo>;
+  /**
+   * Batch trust lookup. Duplicate inputs are queried once. Keys (and each entry's
+   * skillHash) are normalizeSkillHash() forms, 0x + 64 hex; a hash that is invalid
+   * or whose lookup failed is absent from the map.
+   */
+  getTrustScores(skillHashes: string[]): Promise<Map<string, SkillTrustInfo>>;
   getAttestationHistory(skillHash: string): Promise<AttestationEvent[]>;
 
   // Attestation writes
+  /** Dry-run an attestation: the checks and simulation of attest(), with nothing proved or sent. */
+  preflightAttest(opts: AttestOptions): Promise<PreflightResult>;
+  /** Whether this auditor has attested the skill, including attestations since revoked. */
+  hasAttested(skillHash: string): Promise<AttestationStatus>;
   attest(
     opts: AttestOptions,
-    onProgress?: (phase: "proving" | "submitting") => void,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }>;
   revokeAttestation(
     skillHash: string,
-    onProgress?: (phase: "proving" | "submitting") => void,
+    onProgress?: TxProgressFn,
+  ): Promise<{ txHash: string }>;
+  /** Replace an active attestation's quality and claim type; the score moves by the difference. */
+  amendAttestation(
+    opts: AttestOptions,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }>;
 
   // Credential vault writes
   storeCredential(
     opts: StoreCredentialOptions,
-    onProgress?: (phase: "proving" | "submitting") => void,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }>;
   getCredential(keyId: string): Promise<CredentialResult | null>;
   deleteCredential(
     keyId: string,
-    onProgress?: (phase: "proving" | "submitting") => void,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }>;
   rotateCredential(
     opts: RotateCredentialOptions,
-    onProgress?: (phase: "proving" | "submitting") => void,
+    onProgress?: TxProgressFn,
   ): Promise<{ txHash: string }>;
   grantCredentialAccess(opts: GrantAccessOptions): Promise<{ authwitNonce: bigint }>;
 
   // Session state (tracked locally; real mode syncs from PXE on connect)
   getMyAttestations(): LocalAttestation[];
+  /** Reload the attestation list from the PXE's AttestationNotes (no-op in the mock). */
+  syncAttestations(): Promise<void>;
   listCredentials(): Array<{ keyId: string; label: string }>;
+  /** Reload the credential list from the vault (no-op in the mock, whose vault is local). */
+  syncCredentials(): Promise<void>;
 }
 
 /**
- * A private attestation in the auditor's local history.
- * This exists only in the mock — the real PXE decrypts AttestationNotes locally.
+ * A private attestation in the auditor's history.
+ * In real mode the list is decoded from the AttestationNotes in the auditor's PXE;
+ * revocations seen in this session are kept alongside.
  */
 export interface LocalAttestation {
   skillHash: string;
   quality: number;
   /** 0=code_review, 1=behavioral, 2=sandboxed_execution */
   claimType?: number;
-  timestamp: Date;
-  txHash: string;
+  /** Vouching chain depth when the attestation was made (real mode) */
+  depthAtAttestation?: number;
+  /** Commitment to the audit report, if one was recorded */
+  evidenceHash?: string;
+  /** When it was made, if this session sent it — notes carry no timestamp */
+  timestamp?: Date;
+  /** Transaction that made it, if this session sent it */
+  txHash?: string;
   revoked: boolean;
 }
 
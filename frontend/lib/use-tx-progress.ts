@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { TxProgress } from "./types";
+
+/** What ProofProgress shows: the live transaction phase, or the outcome once the write returns. */
+export type ProofPhase = "idle" | TxProgress["phase"] | "done" | "error";
+
+/**
+ * Phase and progress log for one write operation, shared by the pages that render
+ * ProofProgress. Pass `onProgress` to the SDK write and `progress` to ProofProgress.
+ */
+export function useTxProgress() {
+  const [phase, setPhase] = useState<ProofPhase>("idle");
+  const [progress, setProgress] = useState<TxProgress[]>([]);
+
+  /** Start a new operation: clears the previous log. Writes without a transaction start elsewhere. */
+  const begin = useCallback((initial: ProofPhase = "simulating") => {
+    setPhase(initial);
+    setProgress([]);
+  }, []);
+
+  const onProgress = useCallback((p: TxProgress) => {
+    setPhase(p.phase);
+    setProgress((prev) => [...prev, p]);
+  }, []);
+
+  return { phase, setPhase, progress, begin, onProgress };
+}
+
+/** True while a write is in flight (between begin() and done / error). */
+export function isInFlight(phase: ProofPhase): boolean {
+  return phase !== "idle" && phase !== "done" && phase !== "error";
+}
@@ -0,0 +1,293 @@
+import {
+  computeBundleHash,
+  normalizeBundlePath,
+  type BundleEntry,
+  type BundleHashOptions,
+  type BundleHashResult,
+} from "./bundle.js";
+import { isnadError } from "./errors.js";
+
+/** Archive formats readArchive() understands. */
+export type ArchiveFormat = "zip" | "tar" | "tgz";
+
+/**
+ * Options for readArchive() and computeArchiveHash().
+ */
+export interface ArchiveOptions extends BundleHashOptions {
+  /**
+   * Drop a single top-level directory shared by every file, so `weather/SKILL.md`
+   * in `weather.zip` hashes the same as `SKILL.md` in the `weather/` directory.
+   * Covers GitHub zip downloads (`repo-<sha>/`) and npm tarballs (`package/`).
+   * Defaults to true.
+   */
+  stripRoot?: boolean;
+}
+
+/**
+ * Identify an archive by its magic bytes. Returns null for anything else.
+ */
+export function detectArchiveFormat(bytes: Uint8Array): ArchiveFormat | null {
+  if (bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05)) {
+    return "zip";
+  }
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) return "tgz";
+  if (bytes.length >= 262 && ascii(bytes, 257, 5) === "ustar") return "tar";
+  return null;
+}
+
+/**
+ * Unpack a .zip, .tar or .tgz skill archive into bundle entries, entirely in memory.
+ * Works in browsers and Node.js (decompression uses DecompressionStream).
+ *
+ * Only file paths and contents are kept — timestamps, permissions, owners and the
+ * compression method are discarded, so the same files always produce the same bundle.
+ * Symlinks, hard links and device entries are rejected.
+ *
+ * @param bytes  The raw archive bytes
+ * @param opts   stripRoot (default true)
+ * @throws Error for unknown formats, encrypted or ZIP64 zips, and corrupt data
+ */
+export async function readArchive(bytes: Uint8Array, opts?: ArchiveOptions): Promise<BundleEntry[]> {
+  const format = detectArchiveFormat(bytes);
+  let entries: BundleEntry[];
+  switch (format) {
+    case "zip":
+      entries = await readZip(bytes);
+      break;
+    case "tgz":
+      entries = readTar(await decompress(bytes, "gzip"));
+      break;
+    case "tar":
+      entries = readTar(bytes);
+      break;
+    default:
+      throw isnadError("INVALID_ARGUMENT", "Unrecognized archive format — expected .zip, .tar or .tgz");
+  }
+  return opts?.stripRoot === false ? entries : stripCommonRoot(entries);
+}
+
+/**
+ * Compute the bundle hash of a .zip, .tar or .tgz skill archive.
+ * Equivalent to computeBundleHash(await readArchive(bytes, opts), opts).
+ *
+ * Usage:
+ * ```typescript
+ * import { computeArchiveHash } from '@nullius/isnad';
+ *
+ * const bytes = new Uint8Array(await fs.readFile('./weather-1.2.0.tgz'));
+ * const { skillHash, manifest } = await computeArchiveHash(bytes);
+ * ```
+ */
+export async function computeArchiveHash(bytes: Uint8Array, opts?: ArchiveOptions): Promise<BundleHashResult> {
+  return computeBundleHash(await readArchive(bytes, opts), opts);
+}
+
+// ─── ZIP ─────────────────────────────────────────────────────────────────────
+
+const ZIP_EOCD = 0x06054b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_LOCAL = 0x04034b50;
+
+/**
+ * Read the files of a zip archive. Supports stored and deflated entries.
+ * `__MACOSX/` resource-fork entries added by macOS Finder are dropped.
+ */
+export async function readZip(bytes: Uint8Array): Promise<BundleEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw isnadError("INVALID_ARGUMENT", "Corrupt zip: end of central directory not found");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw isnadError("INVALID_ARGUMENT", "ZIP64 archives are not supported");
+  }
+
+  const entries: BundleEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL) {
+      throw isnadError("INVALID_ARGUMENT", "Corrupt zip: bad central directory entry");
+    }
+    const madeBy = view.getUint16(offset + 4, true);
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const externalAttrs = view.getUint32(offset + 38, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = utf8(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (flags & 0x1) throw isnadError("INVALID_ARGUMENT", `Encrypted zip entries are not supported: ${name}`);
+    // Unix-made entries carry st_mode in the high 16 bits of the external attributes.
+    if (madeBy >> 8 === 3 && ((externalAttrs >>> 16) & 0xf000) === 0xa000) {
+      throw isnadError("INVALID_ARGUMENT", `Unsupported file type in skill bundle (symlink): ${name}`);
+    }
+
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL) {
+      throw isnadError("INVALID_ARGUMENT", `Corrupt zip: bad local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Uint8Array;
+    if (method === 0) content = raw;
+    else if (method === 8) content = await decompress(raw, "deflate-raw");
+    else throw isnadError("INVALID_ARGUMENT", `Unsupported zip compression method ${method} for ${name}`);
+
+    if (content.length !== size || crc32(content) !== crc) {
+      throw isnadError("INVALID_ARGUMENT", `Corrupt zip: checksum mismatch for ${name}`);
+    }
+    entries.push({ path: name, content });
+  }
+  return entries;
+}
+
+// ─── TAR ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the files of an uncompressed tar archive (ustar, pax and GNU long names).
+ */
+export function readTar(bytes: Uint8Array): BundleEntry[] {
+  const entries: BundleEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let paxPath: string | undefined;
+
+  while (offset + 512 <= bytes.length) {
+    const header = bytes.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+    verifyTarChecksum(header);
+
+    const size = parseOctal(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156] || 0x30);
+    const data = bytes.subarray(offset + 512, offset + 512 + size);
+    if (data.length < size) throw isnadError("INVALID_ARGUMENT", "Corrupt tar: truncated entry");
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    let name = cString(header.subarray(0, 100));
+    if (ascii(header, 257, 5) === "ustar") {
+      const prefix = cString(header.subarray(345, 500));
+      if (prefix) name = `${prefix}/${name}`;
+    }
+
+    switch (type) {
+      case "x": // pax extended header for the next entry
+        paxPath = parsePax(data).path ?? paxPath;
+        continue;
+      case "g": // pax global header (git archive writes the commit id here)
+        continue;
+      case "L": // GNU long name for the next entry
+        longName = cString(data);
+        continue;
+      case "K": // GNU long link name — only meaningful for links, which are rejected below
+        continue;
+    }
+
+    const path = paxPath ?? longName ?? name;
+    paxPath = undefined;
+    longName = undefined;
+
+    if (type === "0" || type === "7") {
+      entries.push({ path, content: data });
+    } else if (type === "5") {
+      continue;
+    } else {
+      throw isnadError("INVALID_ARGUMENT", `Unsupported file type in skill bundle (tar type '${type}'): ${path}`);
+    }
+  }
+  return entries;
+}
+
+function verifyTarChecksum(header: Uint8Array): void {
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  if (sum !== parseOctal(header.subarray(148, 156))) {
+    throw isnadError("INVALID_ARGUMENT", "Corrupt tar: header checksum mismatch");
+  }
+}
+
+function parseOctal(field: Uint8Array): number {
+  if (field[0] & 0x80) throw isnadError("INVALID_ARGUMENT", "Tar entries over 8 GiB are not supported");
+  const text = cString(field).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space < 0) break;
+    const length = parseInt(ascii(data, offset, space - offset), 10);
+    if (!(length > 0)) break;
+    const record = utf8(data.subarray(space + 1, offset + length - 1));
+    const eq = record.indexOf("=");
+    if (eq > 0) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function stripCommonRoot(entries: BundleEntry[]): BundleEntry[] {
+  const split = entries.map((e) => normalizeBundlePath(e.path).split("/"));
+  const root = split[0]?.[0];
+  if (!root || !split.every((segments) => segments.length > 1 && segments[0] === root)) return entries;
+  return entries.map((e, i) => ({ path: split[i].slice(1).join("/"), content: e.content }));
+}
+
+async function decompress(bytes: Uint8Array, format: "gzip" | "deflate-raw"): Promise<Uint8Array> {
+  const stream = new Response(bytes as Uint8Array<ArrayBuffer>).body!.pipeThrough(new DecompressionStream(format));
+  try {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (err) {
+    throw isnadError(
+      "INVALID_ARGUMENT",
+      `Corrupt ${format === "gzip" ? "gzip" : "zip"} data: ${err instanceof Error ? err.message : err}`,
+      err,
+    );
+  }
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+function cString(bytes: Uint8Array): string {
+  const end = bytes.indexOf(0);
+  return utf8(end < 0 ? bytes : bytes.subarray(0, end));
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
@@ -90,7 +90,7 @@ export class IsnadRegistryContract extends ContractBase {
   }
   
 
-  public static get storage(): ContractStorageLayout<'admin' | 'auth_certs' | 'is_authorized' | 'attestor_depth' | 'trust_scores' | 'attestation_counts' | 'quarantine_flags' | 'attestations' | 'attest_claims' | 'credentials'> {
+  public static get storage(): ContractStorageLayout<'admin' | 'auth_certs' | 'is_authorized' | 'attestor_depth' | 'trust_scores' | 'attestation_counts' | 'quarantine_flags' | 'attestations' | 'attest_claims' | 'credentials' | 'report_counts' | 'reports' | 'report_claims' | 'disclosures'> {
       return {
         admin: {
       slot: new Fr(1n),
@@ -121,8 +121,20 @@ attest_claims: {
     },
 credentials: {
       slot: new Fr(10n),
+    },
+report_counts: {
+      slot: new Fr(11n),
+    },
+reports: {
+      slot: new Fr(12n),
+    },
+report_claims: {
+      slot: new Fr(13n),
+    },
+disclosures: {
+      slot: new Fr(14n),
     }
-      } as ContractStorageLayout<'admin' | 'auth_certs' | 'is_authorized' | 'attestor_depth' | 'trust_scores' | 'attestation_counts' | 'quarantine_flags' | 'attestations' | 'attest_claims' | 'credentials'>;
+      } as ContractStorageLayout<'admin' | 'auth_certs' | 'is_authorized' | 'attestor_depth' | 'trust_scores' | 'attestation_counts' | 'quarantine_flags' | 'attestations' | 'attest_claims' | 'credentials' | 'report_counts' | 'reports' | 'report_claims' | 'disclosures'>;
     }
     
 
@@ -132,8 +144,11 @@ credentials: {
     /** add_root_attestor(new_attestor: struct) */
     add_root_attestor: ((new_attestor: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** attest(skill_hash: field, quality: integer, claim_type: integer) */
-    attest: ((skill_hash: FieldLike, quality: (bigint | number), claim_type: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** amend_attestation(skill_hash: field, quality: integer, claim_type: integer, evidence_hash: field) */
+    amend_attestation: ((skill_hash: FieldLike, quality: (bigint | number), claim_type: (bigint | number), evidence_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** attest(skill_hash: field, quality: integer, claim_type: integer, evidence_hash: field) */
+    attest: ((skill_hash: FieldLike, quality: (bigint | number), claim_type: (bigint | number), evidence_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** constructor(admin: struct) */
     constructor: ((admin: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
@@ -141,6 +156,12 @@ credentials: {
     /** delete_credential(key_id: field) */
     delete_credential: ((key_id: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** disclose_attestation(skill_hash: field, recipient: struct) */
+    disclose_attestation: ((skill_hash: FieldLike, recipient: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_attestation_status(owner: struct, skill_hash: field) */
+    get_attestation_status: ((owner: AztecAddressLike, skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** get_attestation_count(skill_hash: field) */
     get_attestation_count: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
@@ -150,9 +171,15 @@ credentials: {
     /** get_credential(owner: struct, key_id: field) */
     get_credential: ((owner: AztecAddressLike, key_id: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** get_credential_entry(owner: struct, key_id: field) */
+    get_credential_entry: ((owner: AztecAddressLike, key_id: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** get_credential_for_skill(owner: struct, key_id: field, authwit_nonce: field) */
     get_credential_for_skill: ((owner: AztecAddressLike, key_id: FieldLike, authwit_nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** get_report_count(skill_hash: field) */
+    get_report_count: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** get_trust_score(skill_hash: field) */
     get_trust_score: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
@@ -162,6 +189,15 @@ credentials: {
     /** is_quarantined(skill_hash: field) */
     is_quarantined: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** list_attestations(owner: struct, offset: integer, limit: integer) */
+    list_attestations: ((owner: AztecAddressLike, offset: (bigint | number), limit: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** list_credentials(owner: struct, offset: integer, limit: integer) */
+    list_credentials: ((owner: AztecAddressLike, offset: (bigint | number), limit: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** list_disclosures(owner: struct, offset: integer, limit: integer) */
+    list_disclosures: ((owner: AztecAddressLike, offset: (bigint | number), limit: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** process_message(message_ciphertext: struct, message_context: struct) */
     process_message: ((message_ciphertext: FieldLike[], message_context: { tx_hash: FieldLike, unique_note_hashes_in_tx: FieldLike[], first_nullifier_in_tx: FieldLike, recipient: AztecAddressLike }) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
@@ -171,6 +207,9 @@ credentials: {
     /** quarantine(skill_hash: field) */
     quarantine: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** report_malicious(skill_hash: field, severity: integer, evidence_hash: field) */
+    report_malicious: ((skill_hash: FieldLike, severity: (bigint | number), evidence_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** revoke_attestation(skill_hash: field) */
     revoke_attestation: ((skill_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
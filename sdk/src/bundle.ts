@@ -0,0 +1,277 @@
+import { isnadError } from "./errors.js";
+import { fieldToHex, reduceToField, sha256 } from "./hash.js";
+import { toHex } from "./utils.js";
+
+/**
+ * One file of a skill bundle, as supplied to computeBundleHash().
+ */
+export interface BundleEntry {
+  /** Path relative to the bundle root. `\` and `/` are both accepted as separators. */
+  path: string;
+  /** Raw file bytes */
+  content: Uint8Array;
+}
+
+/**
+ * One file as recorded in a BundleManifest.
+ */
+export interface BundleManifestEntry {
+  /** Normalized path: `/`-separated, NFC, no leading `./` */
+  path: string;
+  /** File size in bytes */
+  size: number;
+  /** SHA256 of the file content, lowercase hex without 0x */
+  sha256: string;
+}
+
+/**
+ * The canonical description of exactly which bytes a bundle hash covers.
+ * Files are sorted by the UTF-8 bytes of their path.
+ */
+export interface BundleManifest {
+  /** Manifest format version. Bumped if leaf or node encoding ever changes. */
+  version: 1;
+  files: BundleManifestEntry[];
+  /** Merkle root before field reduction, lowercase hex without 0x */
+  merkleRoot: string;
+}
+
+/**
+ * Result of computeBundleHash().
+ */
+export interface BundleHashResult {
+  /**
+   * Merkle root reduced to a BN254 field element, as 0x + 64 hex.
+   * Use it wherever a skill hash is expected (getTrustScore, attest, ...).
+   */
+  skillHash: string;
+  manifest: BundleManifest;
+}
+
+/**
+ * Options for computeBundleHash().
+ */
+export interface BundleHashOptions {
+  /**
+   * Paths to leave out of the bundle, gitignore-style:
+   *   `*.log`      — a pattern without `/` matches a file or directory name at any depth
+   *   `dist/`      — a trailing `/` matches directories only
+   *   `docs/*.png` — a pattern with `/` is anchored at the bundle root
+   *   `**`         — matches any number of directories
+   * Or a predicate returning true for paths to ignore.
+   * Defaults to DEFAULT_BUNDLE_IGNORE.
+   */
+  ignore?: string[] | ((path: string) => boolean);
+}
+
+/** Ignored unless BundleHashOptions.ignore says otherwise: VCS metadata is never part of a skill. */
+export const DEFAULT_BUNDLE_IGNORE: readonly string[] = [".git/"];
+
+// Domain separation tags, so a leaf can never be mistaken for an internal node.
+const LEAF_TAG = 0x00;
+const NODE_TAG = 0x01;
+
+/**
+ * Compute the canonical hash of a multi-file skill bundle.
+ *
+ * Standard (manifest version 1):
+ *   1. Normalize every path (`/` separators, Unicode NFC, no `.` segments) and sort
+ *      by UTF-8 bytes. Absolute paths, `..` segments and duplicates are rejected.
+ *   2. leaf   = SHA256(0x00 ‖ u32be(len(path)) ‖ utf8(path) ‖ SHA256(content))
+ *   3. node   = SHA256(0x01 ‖ left ‖ right); an odd node out is carried up unchanged
+ *   4. The root is reduced modulo BN254 exactly like computeSkillHash.
+ *
+ * Any change to any file's bytes, name or presence changes the hash, so swapping a
+ * helper script invalidates prior attestations just like editing SKILL.md does.
+ *
+ * Usage:
+ * ```typescript
+ * import { computeBundleHash } from '@nullius/isnad';
+ *
+ * const { skillHash, manifest } = await computeBundleHash('./skills/weather', {
+ *   ignore: ['node_modules/', '*.log'],
+ * });
+ * const trust = await isnad.getTrustScore(skillHash);
+ * ```
+ *
+ * @param source  A directory path (Node.js only) or a list of in-memory entries
+ * @param opts    Ignore rules
+ */
+export async function computeBundleHash(
+  source: string | BundleEntry[],
+  opts?: BundleHashOptions,
+): Promise<BundleHashResult> {
+  const files: { pathBytes: Uint8Array; entry: BundleManifestEntry; digest: Uint8Array }[] = [];
+  for (const { path, content } of await readBundle(source, opts)) {
+    const digest = await sha256(content);
+    files.push({
+      pathBytes: new TextEncoder().encode(path),
+      entry: { path, size: content.length, sha256: toHex(digest) },
+      digest,
+    });
+  }
+  if (files.length === 0) {
+    throw isnadError("INVALID_ARGUMENT", "Skill bundle is empty (every file was ignored or none were given)");
+  }
+
+  files.sort((a, b) => compareBytes(a.pathBytes, b.pathBytes));
+
+  let level = await Promise.all(files.map(({ pathBytes, digest }) => {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, pathBytes.length);
+    return sha256(Uint8Array.of(LEAF_TAG), length, pathBytes, digest);
+  }));
+  while (level.length > 1) {
+    const next: Promise<Uint8Array>[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(
+        i + 1 < level.length
+          ? sha256(Uint8Array.of(NODE_TAG), level[i], level[i + 1])
+          : Promise.resolve(level[i]),
+      );
+    }
+    level = await Promise.all(next);
+  }
+  const root = level[0];
+
+  return {
+    skillHash: fieldToHex(reduceToField(root)),
+    manifest: {
+      version: 1,
+      files: files.map((f) => f.entry),
+      merkleRoot: toHex(root),
+    },
+  };
+}
+
+/**
+ * The files of a bundle exactly as computeBundleHash() covers them: paths
+ * normalized, ignored files dropped, in input (or directory walk) order.
+ * Use it to inspect the same bytes the hash commits to, e.g. with scanSkill().
+ *
+ * @param source  A directory path (Node.js only) or a list of in-memory entries
+ * @param opts    Ignore rules
+ * @throws Error for bad or duplicate paths
+ */
+export async function readBundle(source: string | BundleEntry[], opts?: BundleHashOptions): Promise<BundleEntry[]> {
+  const isIgnored = compileIgnore(opts?.ignore ?? DEFAULT_BUNDLE_IGNORE);
+  const raw = typeof source === "string" ? await readBundleDir(source, isIgnored) : source;
+
+  const seen = new Set<string>();
+  const entries: BundleEntry[] = [];
+  for (const { path, content } of raw) {
+    const normalized = normalizeBundlePath(path);
+    if (isIgnored(normalized, false)) continue;
+    if (seen.has(normalized)) throw isnadError("INVALID_ARGUMENT", `Duplicate path in skill bundle: ${normalized}`);
+    seen.add(normalized);
+    entries.push({ path: normalized, content });
+  }
+  return entries;
+}
+
+/**
+ * Normalize a bundle-relative path to its canonical form.
+ *
+ * @throws Error for empty, absolute or parent-escaping (`..`) paths
+ */
+export function normalizeBundlePath(path: string): string {
+  const unified = path.normalize("NFC").replace(/\\/g, "/");
+  if (unified.startsWith("/") || /^[A-Za-z]:\//.test(unified)) {
+    throw isnadError("INVALID_ARGUMENT", `Skill bundle paths must be relative: ${path}`);
+  }
+  const segments = unified.split("/").filter((s) => s !== "" && s !== ".");
+  if (segments.includes("..")) {
+    throw isnadError("INVALID_ARGUMENT", `Skill bundle paths must not contain "..": ${path}`);
+  }
+  if (segments.length === 0) throw isnadError("INVALID_ARGUMENT", `Empty path in skill bundle: "${path}"`);
+  return segments.join("/");
+}
+
+// ─── DIRECTORY INPUT ─────────────────────────────────────────────────────────
+
+async function readBundleDir(
+  root: string,
+  isIgnored: (path: string, isDir: boolean) => boolean,
+): Promise<BundleEntry[]> {
+  const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+  const { join } = await import(/* webpackIgnore: true */ "node:path");
+
+  const entries: BundleEntry[] = [];
+  const walk = async (rel: string): Promise<void> => {
+    const dirents = await fs.readdir(join(root, rel), { withFileTypes: true });
+    for (const dirent of dirents) {
+      const path = rel ? `${rel}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        if (!isIgnored(path, true)) await walk(path);
+      } else if (dirent.isFile()) {
+        if (!isIgnored(path, false)) entries.push({ path, content: await fs.readFile(join(root, path)) });
+      } else if (!isIgnored(path, false)) {
+        // A symlink could point outside the bundle, and its target is not what an auditor reviewed.
+        throw isnadError(
+          "INVALID_ARGUMENT",
+          `Unsupported file type in skill bundle (symlink, socket or device): ${path}`,
+        );
+      }
+    }
+  };
+  await walk("");
+  return entries;
+}
+
+// ─── IGNORE RULES ────────────────────────────────────────────────────────────
+
+function compileIgnore(
+  ignore: readonly string[] | ((path: string) => boolean),
+): (path: string, isDir: boolean) => boolean {
+  if (typeof ignore === "function") return (path) => ignore(path);
+
+  const rules = ignore.map((pattern) => {
+    const dirOnly = pattern.endsWith("/");
+    const body = pattern.replace(/^\/|\/$/g, "");
+    const anchored = body.includes("/");
+    return { dirOnly, regex: globToRegExp(anchored ? body : `**/${body}`) };
+  });
+
+  // A path is ignored if it, or any directory above it, matches a rule.
+  return (path, isDir) => {
+    const segments = path.split("/");
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join("/");
+      const prefixIsDir = i < segments.length || isDir;
+      if (rules.some((r) => (!r.dirOnly || prefixIsDir) && r.regex.test(prefix))) return true;
+    }
+    return false;
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // `**/` matches zero or more directories; a bare `**` matches anything
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
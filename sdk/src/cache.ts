@@ -0,0 +1,457 @@
+import type { Fr } from "@aztec/aztec.js/fields";
+import type { BatchTrustOptions, SkillTrustInfo, TrustRefreshTier } from "./types.js";
+import { QUARANTINE_STALENESS_CEILING_MS, TRUST_REFRESH_INTERVALS } from "./types.js";
+import { batchTrustScores, toSkillField } from "./utils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The subset of IsnadSDK that TrustCache reads from.
+ * IsnadSDK satisfies it directly; tests and read-only clients can supply their own.
+ */
+export interface TrustSource {
+  getTrustScore(skillHash: string | Fr): Promise<SkillTrustInfo>;
+  isQuarantined(skillHash: string | Fr): Promise<boolean>;
+}
+
+/**
+ * A cached trust lookup plus the bookkeeping needed to pick its refresh tier.
+ * All timestamps are milliseconds since the epoch.
+ */
+export interface CachedTrustEntry {
+  info: SkillTrustInfo;
+  /** When info was last read in full from the source */
+  fetchedAt: number;
+  /** When the quarantine flag was last confirmed against the source */
+  quarantineCheckedAt: number;
+  /** When this cache first saw the skill (stand-in for skill age) */
+  firstSeenAt: number;
+  /** When score, count or quarantine status last changed between refreshes */
+  lastChangedAt: number;
+}
+
+/**
+ * Pluggable persistence for TrustCache.
+ * Keys are normalized skill hashes (0x + 64 hex, as in SkillTrustInfo.skillHash).
+ */
+export interface TrustCacheStore {
+  get(skillHash: string): Promise<CachedTrustEntry | undefined>;
+  set(skillHash: string, entry: CachedTrustEntry): Promise<void>;
+  delete(skillHash: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Options for constructing a TrustCache.
+ */
+export interface TrustCacheOptions {
+  /** Where entries are kept. Defaults to a fresh MemoryTrustStore. */
+  store?: TrustCacheStore;
+  /** Per-tier TTL overrides in milliseconds. Defaults to TRUST_REFRESH_INTERVALS. */
+  ttl?: Partial<Record<TrustRefreshTier, number>>;
+  /**
+   * Maximum age of a quarantine flag before it is re-read from the source.
+   * Defaults to QUARANTINE_STALENESS_CEILING_MS (5 minutes).
+   */
+  quarantineCeilingMs?: number;
+  /**
+   * Serve an expired entry immediately and refresh it in the background.
+   * Never applies to the quarantine flag past quarantineCeilingMs. Defaults to false.
+   */
+  staleWhileRevalidate?: boolean;
+  /** Called when a background revalidation fails. The stale entry stays in place. */
+  onRevalidateError?: (skillHash: string, error: unknown) => void;
+  /** Clock override for tests. Defaults to Date.now. */
+  now?: () => number;
+}
+
+/**
+ * Options for a single cached read.
+ */
+export interface CachedReadOptions {
+  /** Bypass the cache and read from the source, then store the result. */
+  forceRefresh?: boolean;
+}
+
+/**
+ * TrustCache — a read-through cache in front of IsnadSDK.getTrustScore.
+ *
+ * Follows the INTEGRATION.md §4 refresh strategy: each skill is placed in a tier
+ * (new / active / stable) and re-read once its tier's TTL has passed. The quarantine
+ * flag is held to a much shorter ceiling so that a skill the admin has just
+ * quarantined is never reported as trusted from cache for long.
+ *
+ * Usage:
+ * ```typescript
+ * import { IsnadSDK, TrustCache, JsonFileTrustStore } from '@nullius/isnad';
+ *
+ * const isnad = await IsnadSDK.connect(wallet, walletAddress, contractAddress);
+ * const trust = new TrustCache(isnad, {
+ *   store: new JsonFileTrustStore('.isnad/trust-cache.json'),
+ *   staleWhileRevalidate: true,
+ * });
+ *
+ * const info = await trust.getTrustScore(skillHash);           // cached
+ * const fresh = await trust.getTrustScore(skillHash, { forceRefresh: true });
+ * ```
+ */
+export class TrustCache {
+  private readonly store: TrustCacheStore;
+  private readonly ttl: Record<TrustRefreshTier, number>;
+  private readonly quarantineCeilingMs: number;
+  private readonly staleWhileRevalidate: boolean;
+  private readonly onRevalidateError?: (skillHash: string, error: unknown) => void;
+  private readonly now: () => number;
+  /** In-flight full reads, so concurrent misses for one skill share a single lookup. */
+  private readonly inFlight = new Map<string, Promise<SkillTrustInfo>>();
+
+  constructor(
+    private readonly source: TrustSource,
+    opts?: TrustCacheOptions,
+  ) {
+    this.store = opts?.store ?? new MemoryTrustStore();
+    this.ttl = { ...TRUST_REFRESH_INTERVALS, ...opts?.ttl };
+    this.quarantineCeilingMs = opts?.quarantineCeilingMs ?? QUARANTINE_STALENESS_CEILING_MS;
+    this.staleWhileRevalidate = opts?.staleWhileRevalidate ?? false;
+    this.onRevalidateError = opts?.onRevalidateError;
+    this.now = opts?.now ?? Date.now;
+  }
+
+  /**
+   * Read trust info for a skill, from cache when the entry is still fresh.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   * @param opts       forceRefresh to bypass the cache
+   */
+  async getTrustScore(skillHash: string | Fr, opts?: CachedReadOptions): Promise<SkillTrustInfo> {
+    const hash = toSkillField(skillHash);
+    const key = hash.toString();
+
+    const entry = opts?.forceRefresh ? undefined : await this.store.get(key);
+    if (!entry) return this._fetch(key, hash);
+
+    const now = this.now();
+    const fresh = now - entry.fetchedAt < this.ttl[TrustCache.tierFor(entry, now)];
+    const quarantineFresh = now - entry.quarantineCheckedAt <= this.quarantineCeilingMs;
+
+    if (!fresh && !this.staleWhileRevalidate) return this._fetch(key, hash);
+
+    if (!quarantineFresh) {
+      const quarantined = await this.source.isQuarantined(hash);
+      if (quarantined !== entry.info.isQuarantined) {
+        // Quarantine also zeroes the score — the whole entry is out of date.
+        return this._fetch(key, hash);
+      }
+      entry.quarantineCheckedAt = now;
+      await this.store.set(key, entry);
+    }
+
+    if (!fresh) this._revalidate(key, hash);
+    return entry.info;
+  }
+
+  /**
+   * Read trust info for many skills through the cache.
+   * Mirrors IsnadSDK.getTrustScores: deduplicated inputs, bounded concurrency,
+   * and per-hash errors reported through opts.onError instead of failing the batch.
+   */
+  async getTrustScores(
+    skillHashes: Iterable<string | Fr>,
+    opts?: BatchTrustOptions & CachedReadOptions,
+  ): Promise<Map<string, SkillTrustInfo>> {
+    return batchTrustScores(skillHashes, opts, (hash) => this.getTrustScore(hash, opts));
+  }
+
+  /** Force a full re-read of one skill. Equivalent to getTrustScore(hash, { forceRefresh: true }). */
+  async refresh(skillHash: string | Fr): Promise<SkillTrustInfo> {
+    return this.getTrustScore(skillHash, { forceRefresh: true });
+  }
+
+  /** Drop one skill from the cache. */
+  async invalidate(skillHash: string | Fr): Promise<void> {
+    const hash = toSkillField(skillHash);
+    await this.store.delete(hash.toString());
+  }
+
+  /** Drop every cached skill. */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Classify a cached entry into its INTEGRATION.md §4 refresh tier.
+   *
+   *   new    — no attestations and first seen less than 7 days ago
+   *   active — something changed in the last 30 days
+   *   stable — nothing changed in 30+ days
+   */
+  static tierFor(entry: CachedTrustEntry, now: number): TrustRefreshTier {
+    if (entry.info.attestationCount === 0n && now - entry.firstSeenAt < 7 * DAY_MS) return "new";
+    if (now - entry.lastChangedAt < 30 * DAY_MS) return "active";
+    return "stable";
+  }
+
+  private _fetch(key: string, hash: Fr): Promise<SkillTrustInfo> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const info = await this.source.getTrustScore(hash);
+      const previous = await this.store.get(key);
+      const now = this.now();
+      const unchanged = previous !== undefined
+        && previous.info.trustScore === info.trustScore
+        && previous.info.attestationCount === info.attestationCount
+        && previous.info.isQuarantined === info.isQuarantined
+        && previous.info.reportCount === info.reportCount;
+      await this.store.set(key, {
+        info,
+        fetchedAt: now,
+        quarantineCheckedAt: now,
+        firstSeenAt: previous?.firstSeenAt ?? now,
+        lastChangedAt: unchanged ? previous.lastChangedAt : now,
+      });
+      return info;
+    })().finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private _revalidate(key: string, hash: Fr): void {
+    this._fetch(key, hash).catch((err) => this.onRevalidateError?.(key, err));
+  }
+}
+
+// ─── STORES ──────────────────────────────────────────────────────────────────
+
+/**
+ * In-process store. Entries are lost when the process exits.
+ */
+export class MemoryTrustStore implements TrustCacheStore {
+  private readonly entries = new Map<string, CachedTrustEntry>();
+
+  async get(skillHash: string): Promise<CachedTrustEntry | undefined> {
+    const entry = this.entries.get(skillHash);
+    return entry && cloneEntry(entry);
+  }
+
+  async set(skillHash: string, entry: CachedTrustEntry): Promise<void> {
+    this.entries.set(skillHash, cloneEntry(entry));
+  }
+
+  async delete(skillHash: string): Promise<void> {
+    this.entries.delete(skillHash);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Node.js store backed by a single JSON file. Survives restarts, which is what an
+ * agent that re-checks its installed skills at boot wants.
+ *
+ * The file is read once on first access and rewritten (write-then-rename) on every
+ * change. bigint fields are stored as decimal strings.
+ */
+export class JsonFileTrustStore implements TrustCacheStore {
+  private entries: Promise<Map<string, CachedTrustEntry>> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(skillHash: string): Promise<CachedTrustEntry | undefined> {
+    const entry = (await this._load()).get(skillHash);
+    return entry && cloneEntry(entry);
+  }
+
+  async set(skillHash: string, entry: CachedTrustEntry): Promise<void> {
+    (await this._load()).set(skillHash, cloneEntry(entry));
+    await this._persist();
+  }
+
+  async delete(skillHash: string): Promise<void> {
+    if ((await this._load()).delete(skillHash)) await this._persist();
+  }
+
+  async clear(): Promise<void> {
+    (await this._load()).clear();
+    await this._persist();
+  }
+
+  /** Shared by concurrent first callers, so they all work on one map. A failed read is retried next time. */
+  private _load(): Promise<Map<string, CachedTrustEntry>> {
+    this.entries ??= this._read().catch((err) => {
+      this.entries = null;
+      throw err;
+    });
+    return this.entries;
+  }
+
+  private async _read(): Promise<Map<string, CachedTrustEntry>> {
+    const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+    let raw: string | null = null;
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+    const parsed: Record<string, SerializedTrustEntry> = raw ? JSON.parse(raw) : {};
+    return new Map(Object.entries(parsed).map(([key, value]) => [key, deserializeEntry(value)]));
+  }
+
+  private _persist(): Promise<void> {
+    // Chain writes so two concurrent sets cannot interleave their renames. A failed
+    // write is reported to its own caller and does not stop the ones queued after it.
+    this.writes = this.writes.catch(() => {}).then(async () => {
+      const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+      const { dirname } = await import(/* webpackIgnore: true */ "node:path");
+      const body: Record<string, SerializedTrustEntry> = {};
+      for (const [key, entry] of await this._load()) body[key] = serializeEntry(entry);
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(body, null, 2));
+      await fs.rename(tmp, this.path);
+    });
+    return this.writes;
+  }
+}
+
+/**
+ * Browser store backed by IndexedDB, for the frontend and in-browser agents.
+ *
+ * Entries are stored as-is (IndexedDB's structured clone supports bigint).
+ * Pass a factory explicitly when running outside a window (e.g. fake-indexeddb in tests).
+ */
+export class IndexedDbTrustStore implements TrustCacheStore {
+  private db: Promise<IdbDatabase> | null = null;
+
+  constructor(
+    private readonly dbName = "isnad-trust-cache",
+    private readonly factory: IdbFactory | undefined = (globalThis as { indexedDB?: IdbFactory }).indexedDB,
+  ) {}
+
+  async get(skillHash: string): Promise<CachedTrustEntry | undefined> {
+    const result = await this._request("readonly", (s) => s.get(skillHash));
+    return (result as CachedTrustEntry | undefined) ?? undefined;
+  }
+
+  async set(skillHash: string, entry: CachedTrustEntry): Promise<void> {
+    await this._request("readwrite", (s) => s.put(cloneEntry(entry), skillHash));
+  }
+
+  async delete(skillHash: string): Promise<void> {
+    await this._request("readwrite", (s) => s.delete(skillHash));
+  }
+
+  async clear(): Promise<void> {
+    await this._request("readwrite", (s) => s.clear());
+  }
+
+  /** Shared by concurrent first callers, so they all use one connection. A failed open is retried next time. */
+  private _open(): Promise<IdbDatabase> {
+    if (!this.db) {
+      const factory = this.factory;
+      if (!factory) {
+        throw new Error("IndexedDB is not available in this environment — use JsonFileTrustStore or MemoryTrustStore");
+      }
+      this.db = new Promise<IdbDatabase>((resolve, reject) => {
+        const req = factory.open(this.dbName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      }).catch((err) => {
+        this.db = null;
+        throw err;
+      });
+    }
+    return this.db;
+  }
+
+  private async _request(
+    mode: "readonly" | "readwrite",
+    op: (store: IdbObjectStore) => IdbRequest<unknown>,
+  ): Promise<unknown> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const req = op(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+const IDB_STORE = "trust";
+
+// Minimal structural types for the parts of IndexedDB used above.
+// The SDK compiles without the DOM lib, so the global IDB* types are not available.
+interface IdbRequest<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+interface IdbOpenRequest extends IdbRequest<IdbDatabase> {
+  onupgradeneeded: (() => void) | null;
+}
+interface IdbObjectStore {
+  get(key: string): IdbRequest<unknown>;
+  put(value: unknown, key: string): IdbRequest<unknown>;
+  delete(key: string): IdbRequest<unknown>;
+  clear(): IdbRequest<unknown>;
+}
+interface IdbDatabase {
+  createObjectStore(name: string): unknown;
+  transaction(name: string, mode: "readonly" | "readwrite"): {
+    objectStore(name: string): IdbObjectStore;
+  };
+}
+interface IdbFactory {
+  open(name: string, version: number): IdbOpenRequest;
+}
+
+// ─── SERIALIZATION ───────────────────────────────────────────────────────────
+
+interface SerializedTrustEntry {
+  info: {
+    skillHash: string;
+    trustScore: string;
+    attestationCount: string;
+    isQuarantined: boolean;
+    reportCount?: string;
+  };
+  fetchedAt: number;
+  quarantineCheckedAt: number;
+  firstSeenAt: number;
+  lastChangedAt: number;
+}
+
+function serializeEntry(entry: CachedTrustEntry): SerializedTrustEntry {
+  return {
+    ...entry,
+    info: {
+      ...entry.info,
+      trustScore: entry.info.trustScore.toString(),
+      attestationCount: entry.info.attestationCount.toString(),
+      reportCount: entry.info.reportCount?.toString(),
+    },
+  };
+}
+
+function deserializeEntry(entry: SerializedTrustEntry): CachedTrustEntry {
+  return {
+    ...entry,
+    info: {
+      ...entry.info,
+      trustScore: BigInt(entry.info.trustScore),
+      attestationCount: BigInt(entry.info.attestationCount),
+      reportCount: entry.info.reportCount === undefined ? undefined : BigInt(entry.info.reportCount),
+    },
+  };
+}
+
+function cloneEntry(entry: CachedTrustEntry): CachedTrustEntry {
+  return { ...entry, info: { ...entry.info } };
+}
@@ -0,0 +1,195 @@
+import { Fr } from "@aztec/aztec.js/fields";
+import { sha256 } from "./hash.js";
+import { isnadError } from "./errors.js";
+import type { CredentialContentType } from "./types.js";
+
+/**
+ * Credential value encoding for CredentialNote.value ([Field; 4]).
+ *
+ * Every value starts with a head note stored under the credential's key ID. Field 0
+ * of the head is a header; fields 1-3 carry the first 93 bytes of the value. Longer
+ * values continue in notes stored under derived key IDs (see chunkKeyId), 124 bytes
+ * each. All payload fields are packed at a fixed 31 bytes, so any byte sequence —
+ * NULs, leading zeros, non-UTF-8 — round-trips exactly.
+ *
+ * Head field 0 (31 bytes, big-endian), format version 2:
+ *   0xff | version u8 | contentType u8 | length u32 | chunkCount u16 | generation u32 | sha256[0:18]
+ *
+ * 0xff never begins UTF-8 text, so a header can never be mistaken for a note written
+ * by SDK versions before the header existed. Those legacy notes hold UTF-8 text packed
+ * in 31-byte big-endian chunks with zero bytes dropped; they are still decoded.
+ * Version 1 headers (chunked UTF-8 only, no content type) are also still decoded.
+ */
+
+/** Bytes one CredentialNote can hold: 4 Fields × 31 bytes. */
+export const CREDENTIAL_NOTE_BYTES = 124;
+
+/** Bytes of value the head note carries after its header; shorter values need one note. */
+export const CREDENTIAL_HEAD_BYTES = 93;
+
+/** Notes per list_credentials page: the contract's MAX_CREDENTIAL_NOTES. */
+export const CREDENTIAL_PAGE_SIZE = 10;
+
+const CONTENT_TYPE_TAGS: CredentialContentType[] = ["utf8", "binary", "json"];
+
+const FIELD_BYTES = 31;
+const HEADER_MARKER = 0xff;
+const FORMAT_VERSION = 2;
+
+export type CredentialFields = [Fr, Fr, Fr, Fr];
+
+/** Parsed header of a head note. */
+export interface CredentialHeader {
+  /** Encoding format version (1 or 2) */
+  version: number;
+  contentType: CredentialContentType;
+  /** Total value length in bytes */
+  length: number;
+  /** Number of continuation notes after the head */
+  chunkCount: number;
+  /** Tag mixed into the continuation key IDs, so a rotation never overwrites live chunks */
+  generation: number;
+  /** Leading bytes of SHA256(value) */
+  digest: Uint8Array;
+}
+
+/**
+ * Encode a value as a head note and its continuation notes (none for values of up
+ * to CREDENTIAL_HEAD_BYTES).
+ */
+export async function encodeCredential(
+  bytes: Uint8Array,
+  contentType: CredentialContentType,
+  generation: number,
+): Promise<{ head: CredentialFields; chunks: CredentialFields[] }> {
+  const chunkCount = Math.ceil(Math.max(0, bytes.length - CREDENTIAL_HEAD_BYTES) / CREDENTIAL_NOTE_BYTES);
+  if (chunkCount > 0xffff) {
+    throw isnadError("CREDENTIAL_TOO_LARGE", `Credential value is too large to chunk (${bytes.length} bytes)`);
+  }
+
+  const header = new Uint8Array(FIELD_BYTES);
+  const view = new DataView(header.buffer);
+  header[0] = HEADER_MARKER;
+  header[1] = FORMAT_VERSION;
+  header[2] = CONTENT_TYPE_TAGS.indexOf(contentType);
+  view.setUint32(3, bytes.length);
+  view.setUint16(7, chunkCount);
+  view.setUint32(9, generation);
+  header.set((await sha256(bytes)).subarray(0, FIELD_BYTES - 13), 13);
+
+  const head: CredentialFields = [
+    packField(header, 0),
+    packField(bytes, 0),
+    packField(bytes, FIELD_BYTES),
+    packField(bytes, 2 * FIELD_BYTES),
+  ];
+  const chunks: CredentialFields[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    const start = CREDENTIAL_HEAD_BYTES + i * CREDENTIAL_NOTE_BYTES;
+    chunks.push([0, 1, 2, 3].map((j) => packField(bytes, start + j * FIELD_BYTES)) as CredentialFields);
+  }
+  return { head, chunks };
+}
+
+/**
+ * Read the header of a head note, or null for a legacy note (see decodeLegacyNote).
+ *
+ * @throws Error if the note has a header in an unknown format version or content type
+ */
+export function parseCredentialHeader(head: CredentialFields): CredentialHeader | null {
+  const header = unpackField(head[0]);
+  if (header[0] !== HEADER_MARKER) return null;
+  const view = new DataView(header.buffer);
+
+  switch (header[1]) {
+    case 1:
+      // 0xff | 1 | length u32 | chunkCount u16 | generation u32 | sha256[0:19]
+      return {
+        version: 1,
+        contentType: "utf8",
+        length: view.getUint32(2),
+        chunkCount: view.getUint16(6),
+        generation: view.getUint32(8),
+        digest: header.slice(12),
+      };
+    case 2: {
+      const contentType = CONTENT_TYPE_TAGS[header[2]];
+      if (!contentType) {
+        throw isnadError("UNSUPPORTED_FORMAT", `Unknown credential content type tag ${header[2]} — upgrade @nullius/isnad`);
+      }
+      return {
+        version: 2,
+        contentType,
+        length: view.getUint32(3),
+        chunkCount: view.getUint16(7),
+        generation: view.getUint32(9),
+        digest: header.slice(13),
+      };
+    }
+    default:
+      throw isnadError("UNSUPPORTED_FORMAT", `Unsupported credential format version ${header[1]} — upgrade @nullius/isnad`);
+  }
+}
+
+/**
+ * Reassemble a value from its head and continuation notes and verify it against
+ * the header's length and digest.
+ *
+ * @throws Error if the chunks do not reproduce the value the header describes
+ */
+export async function assembleCredential(
+  header: CredentialHeader,
+  head: CredentialFields,
+  chunks: CredentialFields[],
+): Promise<Uint8Array> {
+  const fields = [...head.slice(1), ...chunks.flat()];
+  const bytes = new Uint8Array(fields.length * FIELD_BYTES);
+  fields.forEach((field, i) => bytes.set(unpackField(field), i * FIELD_BYTES));
+  const value = bytes.subarray(0, header.length);
+
+  const digest = (await sha256(value)).subarray(0, header.digest.length);
+  if (chunks.length !== header.chunkCount || bytes.length < header.length || !equalBytes(digest, header.digest)) {
+    throw isnadError("CREDENTIAL_CORRUPT", "Credential failed its integrity check: a chunk is missing, stale or corrupt");
+  }
+  return value;
+}
+
+/**
+ * Decode a note written before headers existed: UTF-8 text in 31-byte big-endian
+ * chunks. Zero bytes were indistinguishable from padding and are dropped.
+ */
+export function decodeLegacyNote(fields: CredentialFields): Uint8Array {
+  const bytes: number[] = [];
+  for (const field of fields) {
+    let value = field.toBigInt();
+    const chunk: number[] = [];
+    while (value > 0n) {
+      chunk.unshift(Number(value & 0xffn));
+      value >>= 8n;
+    }
+    bytes.push(...chunk);
+  }
+  return new Uint8Array(bytes.filter((b) => b !== 0));
+}
+
+function packField(bytes: Uint8Array, start: number): Fr {
+  let value = 0n;
+  for (let i = start; i < start + FIELD_BYTES; i++) {
+    value = (value << 8n) | BigInt(bytes[i] ?? 0);
+  }
+  return new Fr(value);
+}
+
+function unpackField(field: Fr): Uint8Array {
+  const bytes = new Uint8Array(FIELD_BYTES);
+  let value = field.toBigInt();
+  for (let i = FIELD_BYTES - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,181 @@
+/**
+ * Typed errors thrown by IsnadSDK.
+ *
+ * Every SDK method throws an IsnadError (or a subclass) with a stable `code`, so
+ * callers can branch on `err.code === "NOT_ADMIN"` instead of matching contract
+ * revert strings or Aztec node messages. The original error is kept as `cause`.
+ *
+ * Browser-safe: no Node built-ins, importable as '@nullius/isnad/errors'.
+ */
+
+/** Stable error codes. New codes may be added; existing ones never change meaning. */
+export type IsnadErrorCode =
+  /** Caller is not the contract admin (add_root_attestor, quarantine, unquarantine) */
+  | "NOT_ADMIN"
+  /** Caller holds no authorization certificate (attest, vouch, report_malicious) */
+  | "NOT_AUTHORIZED_ATTESTOR"
+  /** The auditor already attested this skill (SingleUseClaim nullifier already spent) */
+  | "ALREADY_ATTESTED"
+  /** The auditor already reported this skill malicious (report SingleUseClaim nullifier already spent) */
+  | "ALREADY_REPORTED"
+  /** The address is already an authorized attestor */
+  | "ALREADY_AUTHORIZED"
+  /** The skill is quarantined. Only reported by preflight: attesting it still succeeds */
+  | "SKILL_QUARANTINED"
+  /** The voucher sits at the maximum vouching chain depth */
+  | "DEPTH_LIMIT"
+  /** No active attestation by the caller for this skill */
+  | "ATTESTATION_NOT_FOUND"
+  /** No credential with this key ID in the vault */
+  | "CREDENTIAL_NOT_FOUND"
+  /** The credential value is over maxCredentialBytes */
+  | "CREDENTIAL_TOO_LARGE"
+  /** A stored credential is incomplete or fails its integrity check */
+  | "CREDENTIAL_CORRUPT"
+  /** A stored credential uses an encoding this SDK version does not know */
+  | "UNSUPPORTED_FORMAT"
+  /** An argument is out of range or malformed */
+  | "INVALID_ARGUMENT"
+  /** The PXE or node could not be reached */
+  | "PXE_UNREACHABLE"
+  /** The transaction was dropped before it was mined */
+  | "TX_DROPPED"
+  /** Timed out waiting for the transaction to be mined */
+  | "TX_TIMEOUT"
+  /** Anything not recognised above; see `cause` */
+  | "UNKNOWN";
+
+/** Base class of every error the SDK throws. */
+export class IsnadError extends Error {
+  readonly code: IsnadErrorCode;
+
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "IsnadError";
+    this.code = code;
+  }
+}
+
+/** The caller lacks the role the call requires: NOT_ADMIN, NOT_AUTHORIZED_ATTESTOR, DEPTH_LIMIT. */
+export class IsnadPermissionError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadPermissionError";
+  }
+}
+
+/** The call would repeat something already done: ALREADY_ATTESTED, ALREADY_REPORTED, ALREADY_AUTHORIZED. */
+export class IsnadConflictError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadConflictError";
+  }
+}
+
+/** The note the call needs does not exist: ATTESTATION_NOT_FOUND, CREDENTIAL_NOT_FOUND. */
+export class IsnadNotFoundError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadNotFoundError";
+  }
+}
+
+/** Rejected before anything was sent: INVALID_ARGUMENT, CREDENTIAL_TOO_LARGE. */
+export class IsnadValidationError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadValidationError";
+  }
+}
+
+/** A stored credential cannot be decoded: CREDENTIAL_CORRUPT, UNSUPPORTED_FORMAT. */
+export class IsnadCredentialError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadCredentialError";
+  }
+}
+
+/** The PXE, node or transaction pipeline failed: PXE_UNREACHABLE, TX_DROPPED, TX_TIMEOUT. */
+export class IsnadNetworkError extends IsnadError {
+  constructor(code: IsnadErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+    this.name = "IsnadNetworkError";
+  }
+}
+
+const ERROR_CLASSES: Partial<Record<IsnadErrorCode, typeof IsnadError>> = {
+  NOT_ADMIN: IsnadPermissionError,
+  NOT_AUTHORIZED_ATTESTOR: IsnadPermissionError,
+  DEPTH_LIMIT: IsnadPermissionError,
+  ALREADY_ATTESTED: IsnadConflictError,
+  ALREADY_REPORTED: IsnadConflictError,
+  ALREADY_AUTHORIZED: IsnadConflictError,
+  ATTESTATION_NOT_FOUND: IsnadNotFoundError,
+  CREDENTIAL_NOT_FOUND: IsnadNotFoundError,
+  CREDENTIAL_TOO_LARGE: IsnadValidationError,
+  INVALID_ARGUMENT: IsnadValidationError,
+  CREDENTIAL_CORRUPT: IsnadCredentialError,
+  UNSUPPORTED_FORMAT: IsnadCredentialError,
+  PXE_UNREACHABLE: IsnadNetworkError,
+  TX_DROPPED: IsnadNetworkError,
+  TX_TIMEOUT: IsnadNetworkError,
+};
+
+/** Create an error of the subclass that owns `code`. */
+export function isnadError(code: IsnadErrorCode, message: string, cause?: unknown): IsnadError {
+  const ErrorClass = ERROR_CLASSES[code] ?? IsnadError;
+  return new ErrorClass(code, message, cause === undefined ? undefined : { cause });
+}
+
+/**
+ * Contract revert strings (see contracts/isnad_registry/src/main.nr) and Aztec node
+ * messages, in match order.
+ */
+const ERROR_PATTERNS: Array<[RegExp, IsnadErrorCode]> = [
+  [/only the admin can/i, "NOT_ADMIN"],
+  [/not an authorized attestor|does not have an authorization certificate/i, "NOT_AUTHORIZED_ATTESTOR"],
+  [/already an authorized attestor/i, "ALREADY_AUTHORIZED"],
+  [/chain depth limit reached/i, "DEPTH_LIMIT"],
+  [/no attestation found/i, "ATTESTATION_NOT_FOUND"],
+  [/credential (not )?found for key_id/i, "CREDENTIAL_NOT_FOUND"],
+  [/quality must be in range|claim_type must be|severity must be/i, "INVALID_ARGUMENT"],
+  [/fetch failed|failed to fetch|ECONNREFUSED|ENOTFOUND|ECONNRESET|socket hang up|networkerror/i, "PXE_UNREACHABLE"],
+  [/dropped/i, "TX_DROPPED"],
+  [/timeout|timed out/i, "TX_TIMEOUT"],
+];
+
+const NULLIFIER_COLLISION = /nullifier collision|duplicate nullifier|existing nullifier|nullifier already exists/i;
+
+/**
+ * Translate anything thrown by Aztec or the contract into an IsnadError.
+ * IsnadErrors pass through unchanged.
+ *
+ * @param err    The caught value
+ * @param hints  nullifierCollision: the code a nullifier collision means for this call
+ *               (e.g. ALREADY_ATTESTED for attest, where the SingleUseClaim nullifier
+ *               is what collides). Without it a collision maps to UNKNOWN.
+ */
+export function toIsnadError(err: unknown, hints?: { nullifierCollision?: IsnadErrorCode }): IsnadError {
+  if (err instanceof IsnadError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (NULLIFIER_COLLISION.test(message)) {
+    return isnadError(hints?.nullifierCollision ?? "UNKNOWN", message, err);
+  }
+  for (const [pattern, code] of ERROR_PATTERNS) {
+    if (pattern.test(message)) return isnadError(code, message, err);
+  }
+  return isnadError("UNKNOWN", message, err);
+}
+
+/**
+ * True if `err` is an IsnadError (optionally with the given code). Also recognises
+ * errors from another copy of the SDK, e.g. one loaded through a dynamic import.
+ */
+export function isIsnadError(err: unknown, code?: IsnadErrorCode): err is IsnadError {
+  const isIsnad =
+    err instanceof IsnadError ||
+    (err instanceof Error && err.name.startsWith("Isnad") && typeof (err as IsnadError).code === "string");
+  return isIsnad && (code === undefined || (err as IsnadError).code === code);
+}
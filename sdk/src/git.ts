@@ -0,0 +1,100 @@
+import {
+  computeBundleHash,
+  type BundleEntry,
+  type BundleHashOptions,
+  type BundleHashResult,
+} from "./bundle.js";
+
+/**
+ * Options for readGitTree() and computeGitTreeHash().
+ */
+export interface GitTreeOptions extends BundleHashOptions {
+  /** Commit, tag or branch to read. Defaults to "HEAD". */
+  rev?: string;
+  /** Subdirectory of the repository that holds the skill. Defaults to the repository root. */
+  path?: string;
+}
+
+/**
+ * Read the files of a committed git tree from a local clone (Node.js only; needs the
+ * `git` executable on PATH).
+ *
+ * Reads objects straight from the repository, so the working copy, .gitattributes
+ * export rules and file modes play no part — only committed paths and bytes do.
+ * Symlinks and submodules are rejected.
+ *
+ * @param repoDir  Path to a local clone (or any directory inside one)
+ * @param opts     rev and subdirectory
+ */
+export async function readGitTree(repoDir: string, opts?: GitTreeOptions): Promise<BundleEntry[]> {
+  const rev = opts?.rev ?? "HEAD";
+  const treeish = opts?.path ? `${rev}:${opts.path.replace(/^\/+|\/+$/g, "")}` : `${rev}^{tree}`;
+
+  const listing = utf8(await git(repoDir, ["ls-tree", "-r", "-z", treeish]));
+  const blobs: { path: string; sha: string }[] = [];
+  for (const line of listing.split("\0")) {
+    if (!line) continue;
+    const tab = line.indexOf("\t");
+    const [mode, type, sha] = line.slice(0, tab).split(" ");
+    const path = line.slice(tab + 1);
+    if (mode === "120000") throw new Error(`Unsupported file type in skill bundle (symlink): ${path}`);
+    if (type === "commit") throw new Error(`Git submodules are not supported in skill bundles: ${path}`);
+    if (type === "blob") blobs.push({ path, sha });
+  }
+  if (blobs.length === 0) return [];
+
+  // One `cat-file --batch` process for every blob: "<sha> blob <size>\n<content>\n" per object.
+  const output = await git(repoDir, ["cat-file", "--batch"], blobs.map((b) => b.sha).join("\n") + "\n");
+  const entries: BundleEntry[] = [];
+  let offset = 0;
+  for (const { path, sha } of blobs) {
+    const newline = output.indexOf(0x0a, offset);
+    const [gotSha, type, size] = utf8(output.subarray(offset, newline)).split(" ");
+    if (gotSha !== sha || type !== "blob") throw new Error(`git cat-file returned an unexpected object for ${path}`);
+    const start = newline + 1;
+    const end = start + Number(size);
+    entries.push({ path, content: output.subarray(start, end) });
+    offset = end + 1;
+  }
+  return entries;
+}
+
+/**
+ * Compute the bundle hash of a committed git tree.
+ * Equivalent to computeBundleHash(await readGitTree(repoDir, opts), opts).
+ *
+ * Usage:
+ * ```typescript
+ * import { computeGitTreeHash } from '@nullius/isnad';
+ *
+ * const { skillHash } = await computeGitTreeHash('./skills-repo', { rev: 'v1.2.0', path: 'weather' });
+ * ```
+ */
+export async function computeGitTreeHash(repoDir: string, opts?: GitTreeOptions): Promise<BundleHashResult> {
+  return computeBundleHash(await readGitTree(repoDir, opts), opts);
+}
+
+async function git(cwd: string, args: string[], stdin?: string): Promise<Uint8Array> {
+  const { spawn } = await import(/* webpackIgnore: true */ "node:child_process");
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd, stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Uint8Array[] = [];
+    const stderr: Uint8Array[] = [];
+    child.stdout.on("data", (chunk: Uint8Array) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Uint8Array) => stderr.push(chunk));
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      reject(err.code === "ENOENT" ? new Error("git executable not found on PATH") : err);
+    });
+    child.on("close", (code) => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`git ${args[0]} failed: ${utf8(Buffer.concat(stderr)).trim()}`));
+    });
+    // If git exits early (bad rev), the close handler reports it; don't also fail on EPIPE.
+    child.stdin.on("error", () => {});
+    child.stdin.end(stdin ?? "");
+  });
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,73 @@
+import { isnadError } from "./errors.js";
+import { concatBytes } from "./utils.js";
+
+/**
+ * Skill hashing that runs unchanged in browsers and Node.js.
+ *
+ * Uses WebCrypto (globalThis.crypto.subtle) rather than node:crypto, and has no
+ * Aztec dependencies, so the frontend can import it from '@nullius/isnad/hash'
+ * and produce exactly the hashes the SDK and the contract use.
+ */
+
+/** BN254 scalar field order — the modulus of an Aztec Field. */
+export const BN254_MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * SHA256 of the concatenation of `parts`, via WebCrypto.
+ */
+export async function sha256(...parts: Uint8Array[]): Promise<Uint8Array> {
+  const data = parts.length === 1 ? parts[0] : concatBytes(parts);
+  return new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", data as Uint8Array<ArrayBuffer>));
+}
+
+/**
+ * Interpret a digest as a big-endian integer and reduce it modulo BN254_MODULUS.
+ * SHA256 is 256 bits and the field ~254, so about 1 in 4 digests changes here.
+ */
+export function reduceToField(digest: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of digest) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value % BN254_MODULUS;
+}
+
+/**
+ * Format a field value the way SkillTrustInfo.skillHash and Fr.toString() do: 0x + 64 lowercase hex.
+ */
+export function fieldToHex(value: bigint): string {
+  return "0x" + value.toString(16).padStart(64, "0");
+}
+
+/**
+ * Compute the canonical skill hash of a single skill file: SHA256 of the content,
+ * reduced to a BN254 field element. Same value as IsnadSDK.computeSkillHash, as a
+ * hex string, without needing node:crypto or @aztec/aztec.js.
+ *
+ * ```typescript
+ * import { computeSkillHash } from '@nullius/isnad/hash';
+ *
+ * const hash = await computeSkillHash(new Uint8Array(await file.arrayBuffer()));
+ * // '0x1a2b...' — pass straight to getTrustScore()
+ * ```
+ */
+export async function computeSkillHash(content: Uint8Array): Promise<string> {
+  return fieldToHex(reduceToField(await sha256(content)));
+}
+
+/**
+ * Normalize a user-supplied skill hash to canonical form (0x + 64 lowercase hex).
+ *
+ * Accepts upper or lower case, with or without 0x, surrounding whitespace, and up
+ * to 64 hex digits. A raw SHA256 hex digest (e.g. from `sha256sum`) is reduced
+ * modulo BN254, so it matches the hash the SDK computes for the same file instead
+ * of being rejected as out of range.
+ *
+ * @throws Error if the input is not 1-64 hex digits
+ */
+export function normalizeSkillHash(hash: string): string {
+  const match = /^(?:0x)?([0-9a-f]{1,64})$/i.exec(hash.trim());
+  if (!match) throw isnadError("INVALID_ARGUMENT", `Invalid skill hash: expected up to 64 hex digits, got "${hash}"`);
+  return fieldToHex(BigInt("0x" + match[1]) % BN254_MODULUS);
+}
@@ -20,24 +20,210 @@
  */
 
 export { IsnadSDK } from "./isnad.js";
+export type { PreflightMethod } from "./isnad.js";
+export { IsnadReader } from "./reader.js";
+export { DEFAULT_INDEXER_BATCH_SIZE, IsnadIndexer, JsonFileIndexerStore, MemoryIndexerStore } from "./indexer.js";
+export type { IndexedSkill, IndexerStore, IsnadIndexerOptions, TrustHistoryEntry, TrustValues } from "./indexer.js";
+export { DEFAULT_WATCH_POLL_INTERVAL } from "./watch.js";
+export type {
+  CountChangedEvent,
+  PolicyRecheck,
+  QuarantineChangedEvent,
+  ReportCountChangedEvent,
+  ScoreChangedEvent,
+  TrustChangeEvent,
+  TrustChangeHandler,
+  TrustWatch,
+  WatchOptions,
+} from "./watch.js";
+export {
+  computeArchiveHash,
+  detectArchiveFormat,
+  readArchive,
+  readTar,
+  readZip,
+} from "./archive.js";
+export type { ArchiveFormat, ArchiveOptions } from "./archive.js";
+export {
+  computeBundleHash,
+  DEFAULT_BUNDLE_IGNORE,
+  normalizeBundlePath,
+  readBundle,
+} from "./bundle.js";
+export type {
+  BundleEntry,
+  BundleHashOptions,
+  BundleHashResult,
+  BundleManifest,
+  BundleManifestEntry,
+} from "./bundle.js";
+export { computeGitTreeHash, readGitTree } from "./git.js";
+export type { GitTreeOptions } from "./git.js";
+export {
+  BN254_MODULUS,
+  computeSkillHash,
+  fieldToHex,
+  normalizeSkillHash,
+  reduceToField,
+  sha256,
+} from "./hash.js";
+export {
+  AUDIT_REPORT_JSON_SCHEMA,
+  AUDIT_REPORT_SCHEMA,
+  AUDIT_REPORT_V1_JSON_SCHEMA,
+  AUDIT_REPORT_VERSION,
+  buildAuditReport,
+  canonicalizeAuditReport,
+  computeReportHash,
+  FINDING_PENALTIES,
+  FINDING_SEVERITIES,
+  suggestQuality,
+  validateAuditReport,
+  verifyAuditReport,
+} from "./report.js";
+export type {
+  AnyAuditReport,
+  AuditCommand,
+  AuditFinding,
+  AuditLocation,
+  AuditReport,
+  AuditReportInput,
+  AuditReportV1,
+  AuditReproducibility,
+  AuditTool,
+  FindingSeverity,
+} from "./report.js";
+export {
+  DEFAULT_MAX_SCAN_FILE_SIZE,
+  DEFAULT_SCAN_RULES,
+  isDeclaredHost,
+  MAX_FINDING_LOCATIONS,
+  SCAN_RULES_VERSION,
+  SCANNER_TOOL,
+  scanSkill,
+} from "./scan.js";
+export type {
+  ScanCategory,
+  ScanContext,
+  ScanFile,
+  ScanMatch,
+  ScanOptions,
+  ScanResult,
+  ScanRule,
+  SkippedFile,
+} from "./scan.js";
+export {
+  DEFAULT_SANDBOX_TIMEOUT,
+  FAKE_CREDENTIALS,
+  runSandbox,
+  SANDBOX_HARNESS_VERSION,
+  SANDBOX_TOOL,
+} from "./sandbox.js";
+export type {
+  SandboxAccess,
+  SandboxIsolation,
+  SandboxOptions,
+  SandboxRun,
+  SandboxTestCase,
+  SandboxTestResult,
+} from "./sandbox.js";
+export {
+  IsnadConflictError,
+  IsnadCredentialError,
+  IsnadError,
+  isIsnadError,
+  isnadError,
+  IsnadNetworkError,
+  IsnadNotFoundError,
+  IsnadPermissionError,
+  IsnadValidationError,
+  toIsnadError,
+} from "./errors.js";
+export type { IsnadErrorCode } from "./errors.js";
+export {
+  CHUNK_KEY_ID_DOMAIN_SEPARATOR,
+  chunkKeyId,
+  hashKeyId,
+  KEY_ID_DOMAIN_SEPARATOR,
+  legacyKeyIdField,
+  NAME_KEY_ID_DOMAIN_SEPARATOR,
+  nameKeyId,
+} from "./keyid.js";
+export { CREDENTIAL_HEAD_BYTES, CREDENTIAL_NOTE_BYTES, CREDENTIAL_PAGE_SIZE } from "./credential.js";
+export {
+  IndexedDbTrustStore,
+  JsonFileTrustStore,
+  MemoryTrustStore,
+  TrustCache,
+} from "./cache.js";
+export type {
+  CachedReadOptions,
+  CachedTrustEntry,
+  TrustCacheOptions,
+  TrustCacheStore,
+  TrustSource,
+} from "./cache.js";
+export {
+  DEFAULT_INSTALL_POLICY,
+  InstallPolicyEngine,
+  parseInstallPolicy,
+} from "./policy.js";
+export type {
+  InstallPolicy,
+  PolicyContext,
+  PolicyDecision,
+  PolicyOverride,
+  PolicyRule,
+  PolicyThresholds,
+  PolicyTraceStep,
+} from "./policy.js";
 export {
   ClaimType,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_MAX_CREDENTIAL_BYTES,
   INSTALL_THRESHOLD_COUNT,
+  INSTALL_THRESHOLD_REPORTS,
   INSTALL_THRESHOLD_SCORE,
   INSTALL_THRESHOLD_WEIGHTED_SCORE,
+  MAX_CHAIN_DEPTH,
+  QUARANTINE_STALENESS_CEILING_MS,
+  ReportSeverity,
+  TRUST_REFRESH_INTERVALS,
 } from "./types.js";
 export type {
   AttestOptions,
+  AttestationDisclosure,
+  AttestationState,
+  AttestationStatus,
   AttestorInfo,
+  BatchTrustOptions,
   ClaimType as ClaimTypeValue,
+  CredentialContentType,
+  CredentialInfo,
+  CredentialMigrationResult,
+  CredentialReadAs,
   CredentialResult,
   DelegatedCredentialOptions,
+  DiscloseAttestationOptions,
   GrantAccessOptions,
   InstallPolicyOptions,
   InstallVerdict,
+  IsnadSDKOptions,
+  MigrateCredentialsOptions,
+  MyAttestation,
+  PreflightIssue,
+  PreflightResult,
+  ReadCredentialOptions,
+  ReportMaliciousOptions,
+  ReportSeverity as ReportSeverityValue,
   RotateCredentialOptions,
   SkillTrustInfo,
   StoreCredentialOptions,
+  TrustRefreshTier,
+  TxEventListener,
+  TxLifecycleEvent,
+  TxPhase,
+  WriteOptions,
 } from "./types.js";
 export {
   IsnadRegistryContract,
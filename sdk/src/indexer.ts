@@ -0,0 +1,501 @@
+/**
+ * IsnadIndexer — per-skill trust timelines rebuilt from the chain.
+ *
+ * The registry keeps only aggregates (trust_scores, attestation_counts,
+ * quarantine_flags, report_counts) and emits no events, so a skill's history has to be recovered
+ * from the public state writes in each block. The indexer walks blocks from an
+ * Aztec node, matches each transaction's public data writes against the storage
+ * slots of the skills it tracks, and records every change with its block number,
+ * block timestamp and transaction hash.
+ *
+ * Public data writes are keyed by a hash of the contract address and storage slot,
+ * so skills cannot be discovered from blocks: the indexer only knows about skills
+ * it has been asked to track. A newly tracked skill is backfilled from `fromBlock`.
+ *
+ * @example
+ * ```typescript
+ * import { IsnadIndexer, JsonFileIndexerStore } from '@nullius/isnad/indexer';
+ *
+ * const indexer = IsnadIndexer.connect('http://localhost:8080', contractAddress, {
+ *   store: new JsonFileIndexerStore('.isnad/history.json'),
+ * });
+ * const history = await indexer.getHistory(skillHash); // oldest first
+ * ```
+ */
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import type { Fr } from "@aztec/aztec.js/fields";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { computePublicDataTreeLeafSlot } from "@aztec/stdlib/hash";
+import { isnadError, toIsnadError } from "./errors.js";
+import { publicMapSlot, type PublicMap } from "./slots.js";
+import { toSkillField } from "./utils.js";
+
+/** Blocks fetched per getBlocks() request. */
+export const DEFAULT_INDEXER_BATCH_SIZE = 50;
+
+/**
+ * A skill's public trust state as stored. Unlike SkillTrustInfo.trustScore, trustScore
+ * here is not forced to 0 while the skill is quarantined.
+ */
+export interface TrustValues {
+  trustScore: bigint;
+  attestationCount: bigint;
+  isQuarantined: boolean;
+  /** Malicious reports (report_counts) */
+  reportCount: bigint;
+}
+
+/**
+ * One transaction's effect on one skill: its trust state before and after.
+ * Transactions that wrote a value without changing it are not recorded.
+ */
+export interface TrustHistoryEntry {
+  /** Normalized skill hash (0x + 64 hex, as in SkillTrustInfo.skillHash) */
+  skillHash: string;
+  blockNumber: number;
+  /** Block timestamp, milliseconds since the epoch */
+  timestamp: number;
+  txHash: string;
+  before: TrustValues;
+  after: TrustValues;
+}
+
+/** A tracked skill and how far it has been indexed. */
+export interface IndexedSkill {
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  /** Last block whose writes have been applied to `values` */
+  indexedTo: number;
+  /** Trust state as of the end of `indexedTo` */
+  values: TrustValues;
+}
+
+/**
+ * Pluggable persistence for IsnadIndexer. Keys are normalized skill hashes.
+ * Implement it over SQLite or any other database; MemoryIndexerStore and
+ * JsonFileIndexerStore are provided.
+ */
+export interface IndexerStore {
+  getSkill(skillHash: string): Promise<IndexedSkill | undefined>;
+  listSkills(): Promise<IndexedSkill[]>;
+  /**
+   * Save a skill's progress together with the history entries found since its last
+   * save. Stores that can should do both atomically; a store that crashes between
+   * the two must keep the entries, as a replayed block range skips nothing it has.
+   */
+  commit(skill: IndexedSkill, entries: TrustHistoryEntry[]): Promise<void>;
+  /** Every entry recorded for a skill, oldest first. */
+  getHistory(skillHash: string): Promise<TrustHistoryEntry[]>;
+}
+
+/**
+ * Options for IsnadIndexer.connect().
+ */
+export interface IsnadIndexerOptions {
+  /** Where progress and history are kept. Defaults to a fresh MemoryIndexerStore. */
+  store?: IndexerStore;
+  /**
+   * First block to index for a newly tracked skill. Defaults to 1, the whole chain.
+   * A later block skips older history; the skill's state before it is read from the node.
+   */
+  fromBlock?: number;
+  /** Blocks fetched per node request. Defaults to DEFAULT_INDEXER_BATCH_SIZE (50). */
+  batchSize?: number;
+}
+
+type BlockNumber = Parameters<AztecNode["getBlocks"]>[0];
+
+/** The maps a skill's trust state lives in, and the TrustValues field each one feeds. */
+const SKILL_MAPS: Array<[PublicMap, keyof TrustValues]> = [
+  ["trust_scores", "trustScore"],
+  ["attestation_counts", "attestationCount"],
+  ["quarantine_flags", "isQuarantined"],
+  ["report_counts", "reportCount"],
+];
+
+const ZERO_VALUES: TrustValues = { trustScore: 0n, attestationCount: 0n, isQuarantined: false, reportCount: 0n };
+
+export class IsnadIndexer {
+  private readonly store: IndexerStore;
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+  /** Leaf slot → the skill and field it holds, per skill hash already computed. */
+  private readonly leafSlots = new Map<string, { skillHash: string; field: keyof TrustValues }>();
+  private readonly slotted = new Set<string>();
+  private readonly entryListeners = new Set<(entry: TrustHistoryEntry) => void | Promise<void>>();
+  /** Serializes sync() so overlapping callers share one walk. */
+  private syncing: Promise<number> | null = null;
+
+  private constructor(
+    private readonly node: AztecNode,
+    private readonly contractAddress: AztecAddress,
+    opts: IsnadIndexerOptions = {},
+  ) {
+    this.store = opts.store ?? new MemoryIndexerStore();
+    this.fromBlock = opts.fromBlock ?? 1;
+    this.batchSize = opts.batchSize ?? DEFAULT_INDEXER_BATCH_SIZE;
+    if (!Number.isInteger(this.fromBlock) || this.fromBlock < 1) {
+      throw isnadError("INVALID_ARGUMENT", `fromBlock must be a positive integer, got ${this.fromBlock}`);
+    }
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw isnadError("INVALID_ARGUMENT", `batchSize must be a positive integer, got ${this.batchSize}`);
+    }
+  }
+
+  /**
+   * Create an indexer for a deployed IsnadRegistry. Nothing is fetched until the
+   * first sync.
+   *
+   * @param node             URL of an Aztec node, or a node client
+   * @param contractAddress  Address of the deployed IsnadRegistry contract
+   * @param opts             store, fromBlock and batch size
+   */
+  static connect(
+    node: string | AztecNode,
+    contractAddress: AztecAddress | string,
+    opts?: IsnadIndexerOptions,
+  ): IsnadIndexer {
+    let address: AztecAddress;
+    try {
+      address = typeof contractAddress === "string" ? AztecAddress.fromString(contractAddress) : contractAddress;
+    } catch (err) {
+      throw isnadError("INVALID_ARGUMENT", `Invalid contract address '${contractAddress}'`, err);
+    }
+    return new IsnadIndexer(typeof node === "string" ? createAztecNodeClient(node) : node, address, opts);
+  }
+
+  /**
+   * Start tracking skills. Their history is backfilled from `fromBlock` by the next
+   * sync(). Skills already tracked are left as they are.
+   *
+   * @param skillHashes  Skill hashes as hex strings or Fr
+   */
+  async track(skillHashes: Iterable<string | Fr>): Promise<void> {
+    for (const skillHash of skillHashes) {
+      const hash = toSkillField(skillHash);
+      if (await this.store.getSkill(hash.toString())) continue;
+      const values = this.fromBlock > 1 ? await this._readValues(hash, this.fromBlock - 1) : ZERO_VALUES;
+      await this.store.commit({ skillHash: hash.toString(), indexedTo: this.fromBlock - 1, values }, []);
+    }
+  }
+
+  /**
+   * Index every tracked skill up to the node's latest block.
+   * Progress is saved after each batch of blocks, so an interrupted sync resumes
+   * where it stopped.
+   *
+   * @returns  The block every tracked skill is now indexed to
+   */
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this._sync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Be told about each history entry sync() finds, in chain order.
+   *
+   * Listeners are awaited before the entry is saved, so an entry is never saved
+   * without having been delivered. A listener that throws fails the sync, and the
+   * same blocks are walked again by the next one.
+   *
+   * @returns  A function that removes the listener
+   */
+  onEntry(listener: (entry: TrustHistoryEntry) => void | Promise<void>): () => void {
+    this.entryListeners.add(listener);
+    return () => {
+      this.entryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * A skill's trust timeline, oldest first. The skill is tracked (and backfilled)
+   * if it was not already, and indexed up to the latest block.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async getHistory(skillHash: string | Fr): Promise<TrustHistoryEntry[]> {
+    const hash = toSkillField(skillHash);
+    await this.track([hash]);
+    await this.sync();
+    return this.store.getHistory(hash.toString());
+  }
+
+  private async _sync(): Promise<number> {
+    const tip = await this._call(() => this.node.getBlockNumber());
+    const skills = new Map((await this.store.listSkills()).map((s) => [s.skillHash, s]));
+    const pending = [...skills.values()].filter((s) => s.indexedTo < tip);
+    if (pending.length === 0) return tip;
+    for (const skill of pending) await this._slotSkill(skill.skillHash);
+
+    let next = Math.min(...pending.map((s) => s.indexedTo)) + 1;
+    while (next <= tip) {
+      const limit = Math.min(this.batchSize, tip - next + 1);
+      const blocks = await this._call(() => this.node.getBlocks(next as BlockNumber, limit));
+      if (blocks.length === 0) break;
+
+      const found = new Map<string, TrustHistoryEntry[]>();
+      const ordered: TrustHistoryEntry[] = [];
+      for (const block of blocks) {
+        const blockNumber = Number(block.number);
+        for (const effect of block.body.txEffects) {
+          // Values this transaction wrote, per skill, applied over the skill's state
+          const written = new Map<string, TrustValues>();
+          for (const write of effect.publicDataWrites) {
+            const hit = this.leafSlots.get(write.leafSlot.toString());
+            if (!hit) continue;
+            const skill = skills.get(hit.skillHash);
+            if (!skill || skill.indexedTo >= blockNumber) continue;
+            const values = written.get(hit.skillHash) ?? { ...skill.values };
+            const raw = write.value.toBigInt();
+            if (hit.field === "isQuarantined") values.isQuarantined = raw !== 0n;
+            else values[hit.field] = raw;
+            written.set(hit.skillHash, values);
+          }
+          for (const [skillHash, after] of written) {
+            const skill = skills.get(skillHash)!;
+            if (sameValues(skill.values, after)) continue;
+            const entry: TrustHistoryEntry = {
+              skillHash,
+              blockNumber,
+              timestamp: Number(block.timestamp) * 1000,
+              txHash: effect.txHash.toString(),
+              before: skill.values,
+              after,
+            };
+            found.set(skillHash, [...(found.get(skillHash) ?? []), entry]);
+            ordered.push(entry);
+            skill.values = after;
+          }
+        }
+      }
+
+      for (const entry of ordered) {
+        for (const listener of this.entryListeners) await listener(entry);
+      }
+
+      const last = Number(blocks[blocks.length - 1].number);
+      for (const skill of pending) {
+        if (skill.indexedTo >= last) continue;
+        skill.indexedTo = last;
+        await this.store.commit({ ...skill }, found.get(skill.skillHash) ?? []);
+      }
+      next = last + 1;
+    }
+    return tip;
+  }
+
+  /** Register the public data tree leaf slots of a skill's trust values. */
+  private async _slotSkill(skillHash: string): Promise<void> {
+    if (this.slotted.has(skillHash)) return;
+    const hash = toSkillField(skillHash);
+    for (const [map, field] of SKILL_MAPS) {
+      const leaf = await computePublicDataTreeLeafSlot(this.contractAddress, await publicMapSlot(map, hash));
+      this.leafSlots.set(leaf.toString(), { skillHash, field });
+    }
+    this.slotted.add(skillHash);
+  }
+
+  private async _readValues(hash: Fr, block: number): Promise<TrustValues> {
+    const [trustScore, attestationCount, quarantined, reportCount] = await Promise.all(
+      SKILL_MAPS.map(async ([map]) =>
+        this._call(async () =>
+          this.node.getPublicStorageAt(block as BlockNumber, this.contractAddress, await publicMapSlot(map, hash)),
+        ),
+      ),
+    );
+    return {
+      trustScore: trustScore.toBigInt(),
+      attestationCount: attestationCount.toBigInt(),
+      isQuarantined: !quarantined.isZero(),
+      reportCount: reportCount.toBigInt(),
+    };
+  }
+
+  private async _call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (err) {
+      throw toIsnadError(err);
+    }
+  }
+}
+
+function sameValues(a: TrustValues, b: TrustValues): boolean {
+  return (
+    a.trustScore === b.trustScore &&
+    a.attestationCount === b.attestationCount &&
+    a.isQuarantined === b.isQuarantined &&
+    a.reportCount === b.reportCount
+  );
+}
+
+// ─── STORES ──────────────────────────────────────────────────────────────────
+
+/**
+ * In-memory store. History is lost when the process exits, so every start re-walks
+ * the chain for the skills it tracks.
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private readonly skills = new Map<string, IndexedSkill>();
+  private readonly history = new Map<string, TrustHistoryEntry[]>();
+
+  async getSkill(skillHash: string): Promise<IndexedSkill | undefined> {
+    const skill = this.skills.get(skillHash);
+    return skill && cloneSkill(skill);
+  }
+
+  async listSkills(): Promise<IndexedSkill[]> {
+    return [...this.skills.values()].map(cloneSkill);
+  }
+
+  async commit(skill: IndexedSkill, entries: TrustHistoryEntry[]): Promise<void> {
+    this.skills.set(skill.skillHash, cloneSkill(skill));
+    if (entries.length > 0) {
+      this.history.set(skill.skillHash, [...(this.history.get(skill.skillHash) ?? []), ...entries]);
+    }
+  }
+
+  async getHistory(skillHash: string): Promise<TrustHistoryEntry[]> {
+    return [...(this.history.get(skillHash) ?? [])];
+  }
+}
+
+/**
+ * Node.js store backed by a single JSON file, so indexing resumes across restarts.
+ *
+ * The file is loaded on first use and rewritten on every commit. Writes go to a
+ * temporary file first and are renamed into place.
+ */
+export class JsonFileIndexerStore implements IndexerStore {
+  private state: Promise<IndexState> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async getSkill(skillHash: string): Promise<IndexedSkill | undefined> {
+    const skill = (await this._load()).skills.get(skillHash);
+    return skill && cloneSkill(skill);
+  }
+
+  async listSkills(): Promise<IndexedSkill[]> {
+    return [...(await this._load()).skills.values()].map(cloneSkill);
+  }
+
+  async commit(skill: IndexedSkill, entries: TrustHistoryEntry[]): Promise<void> {
+    const state = await this._load();
+    state.skills.set(skill.skillHash, cloneSkill(skill));
+    if (entries.length > 0) {
+      state.history.set(skill.skillHash, [...(state.history.get(skill.skillHash) ?? []), ...entries]);
+    }
+    await this._persist();
+  }
+
+  async getHistory(skillHash: string): Promise<TrustHistoryEntry[]> {
+    return [...((await this._load()).history.get(skillHash) ?? [])];
+  }
+
+  /** Shared by concurrent first callers, so they all work on one state. A failed read is retried next time. */
+  private _load(): Promise<IndexState> {
+    this.state ??= this._read().catch((err) => {
+      this.state = null;
+      throw err;
+    });
+    return this.state;
+  }
+
+  private async _read(): Promise<IndexState> {
+    const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+    let raw: string | null = null;
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+    const parsed: SerializedIndex = raw ? JSON.parse(raw) : { skills: {}, history: {} };
+    return {
+      skills: new Map(Object.entries(parsed.skills).map(([key, s]) => [key, { ...s, values: parseValues(s.values) }])),
+      history: new Map(
+        Object.entries(parsed.history).map(([key, entries]) => [
+          key,
+          entries.map((e) => ({ ...e, before: parseValues(e.before), after: parseValues(e.after) })),
+        ]),
+      ),
+    };
+  }
+
+  private _persist(): Promise<void> {
+    // Chain writes so two concurrent commits cannot interleave their renames. A failed
+    // write is reported to its own caller and does not stop the ones queued after it.
+    this.writes = this.writes.catch(() => {}).then(async () => {
+      const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+      const { dirname } = await import(/* webpackIgnore: true */ "node:path");
+      const state = await this._load();
+      const body: SerializedIndex = { skills: {}, history: {} };
+      for (const [key, skill] of state.skills) {
+        body.skills[key] = { ...skill, values: serializeValues(skill.values) };
+      }
+      for (const [key, entries] of state.history) {
+        body.history[key] = entries.map((e) => ({
+          ...e,
+          before: serializeValues(e.before),
+          after: serializeValues(e.after),
+        }));
+      }
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(body, null, 2));
+      await fs.rename(tmp, this.path);
+    });
+    return this.writes;
+  }
+}
+
+// ─── SERIALIZATION ───────────────────────────────────────────────────────────
+
+/** JsonFileIndexerStore's in-memory copy of the file. */
+interface IndexState {
+  skills: Map<string, IndexedSkill>;
+  history: Map<string, TrustHistoryEntry[]>;
+}
+
+interface SerializedValues {
+  trustScore: string;
+  attestationCount: string;
+  isQuarantined: boolean;
+  /** Missing from files written before report counts were indexed */
+  reportCount?: string;
+}
+
+interface SerializedIndex {
+  skills: Record<string, Omit<IndexedSkill, "values"> & { values: SerializedValues }>;
+  history: Record<
+    string,
+    Array<Omit<TrustHistoryEntry, "before" | "after"> & { before: SerializedValues; after: SerializedValues }>
+  >;
+}
+
+function serializeValues(values: TrustValues): SerializedValues {
+  return {
+    ...values,
+    trustScore: values.trustScore.toString(),
+    attestationCount: values.attestationCount.toString(),
+    reportCount: values.reportCount.toString(),
+  };
+}
+
+function parseValues(values: SerializedValues): TrustValues {
+  return {
+    ...values,
+    trustScore: BigInt(values.trustScore),
+    attestationCount: BigInt(values.attestationCount),
+    reportCount: BigInt(values.reportCount ?? 0),
+  };
+}
+
+function cloneSkill(skill: IndexedSkill): IndexedSkill {
+  return { ...skill, values: { ...skill.values } };
+}
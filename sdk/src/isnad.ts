@@ -2,24 +2,116 @@ import { createHash } from "node:crypto";
 import { Fr } from "@aztec/aztec.js/fields";
 import type { Wallet } from "@aztec/aztec.js/wallet";
 import type { AztecAddress } from "@aztec/aztec.js/addresses";
+import { NO_WAIT, type ContractFunctionInteraction } from "@aztec/aztec.js/contracts";
+import { waitForTx } from "@aztec/aztec.js/node";
 import type {
+  AttestationDisclosure,
+  AttestationState,
+  AttestationStatus,
   AttestOptions,
   AttestorInfo,
+  BatchTrustOptions,
+  CredentialContentType,
+  CredentialInfo,
+  CredentialMigrationResult,
+  CredentialReadAs,
   CredentialResult,
   DelegatedCredentialOptions,
+  DiscloseAttestationOptions,
   GrantAccessOptions,
   InstallPolicyOptions,
   InstallVerdict,
+  IsnadSDKOptions,
+  MigrateCredentialsOptions,
+  MyAttestation,
+  PreflightIssue,
+  PreflightResult,
+  ReadCredentialOptions,
+  ReportMaliciousOptions,
   RotateCredentialOptions,
   SkillTrustInfo,
   StoreCredentialOptions,
+  TxEventListener,
+  TxLifecycleEvent,
+  TxPhase,
+  WriteOptions,
 } from "./types.js";
 import {
   ClaimType,
+  DEFAULT_MAX_CREDENTIAL_BYTES,
   INSTALL_THRESHOLD_COUNT,
+  INSTALL_THRESHOLD_REPORTS,
   INSTALL_THRESHOLD_SCORE,
+  MAX_CHAIN_DEPTH,
+  ReportSeverity,
 } from "./types.js";
 import { IsnadRegistryContract } from "./artifacts/IsnadRegistry.js";
+import {
+  IsnadNetworkError,
+  IsnadValidationError,
+  isnadError,
+  toIsnadError,
+  type IsnadErrorCode,
+} from "./errors.js";
+import {
+  computeBundleHash,
+  type BundleEntry,
+  type BundleHashOptions,
+  type BundleHashResult,
+} from "./bundle.js";
+import { DEFAULT_INSTALL_POLICY, InstallPolicyEngine, type InstallPolicy } from "./policy.js";
+import { reduceToField } from "./hash.js";
+import { watchTrust, type PolicyRecheck, type TrustChangeHandler, type TrustWatch, type WatchOptions } from "./watch.js";
+import { chunkKeyId, hashKeyId, legacyKeyIdField, nameKeyId } from "./keyid.js";
+import {
+  assembleCredential,
+  CREDENTIAL_PAGE_SIZE,
+  decodeLegacyNote,
+  encodeCredential,
+  parseCredentialHeader,
+  type CredentialFields,
+  type CredentialHeader,
+} from "./credential.js";
+import { batchTrustScores, toSkillField, weightForDepth } from "./utils.js";
+
+/** Attestations per list_attestations page: the contract's MAX_ATTESTATION_NOTES. */
+const ATTESTATION_PAGE_SIZE = 10;
+
+/** Disclosures per list_disclosures page: the contract's MAX_DISCLOSURE_NOTES. */
+const DISCLOSURE_PAGE_SIZE = 10;
+
+type RegistryMethods = IsnadRegistryContract["methods"];
+
+/** A contract call as _send() takes it: function name, arguments, error hints. */
+type RegistryCall<M extends keyof RegistryMethods = keyof RegistryMethods> = [
+  method: M,
+  args: Parameters<RegistryMethods[M]>,
+  hints?: { nullifierCollision?: IsnadErrorCode },
+];
+
+/** IsnadSDK write methods that support `{ dryRun: true }` and preflight(). */
+export type PreflightMethod =
+  | "attest"
+  | "revokeAttestation"
+  | "amendAttestation"
+  | "discloseAttestation"
+  | "reportMalicious"
+  | "vouch"
+  | "addRootAttestor"
+  | "quarantine"
+  | "unquarantine"
+  | "storeCredential"
+  | "deleteCredential"
+  | "rotateCredential";
+
+/** A dry run's state checks report through this; the first report of a code wins. */
+type ReportIssue = (code: IsnadErrorCode, severity: PreflightIssue["severity"], message: string) => void;
+
+/** What a dry run found out about a call, and the transaction to simulate if nothing failed. */
+interface PreflightPlan {
+  transactions: number;
+  simulate?: RegistryCall;
+}
 
 /**
  * IsnadSDK — TypeScript interface to the IsnadRegistry Aztec contract.
@@ -43,13 +135,20 @@ import { IsnadRegistryContract } from "./artifacts/IsnadRegistry.js";
  *   label: 'OpenAI API Key',
  * });
  * ```
+ *
+ * Every method throws IsnadError (see errors.ts) with a stable `code` such as
+ * NOT_ADMIN or ALREADY_ATTESTED; the underlying Aztec error is kept as `cause`.
  */
 export class IsnadSDK {
+  private readonly txListeners = new Set<TxEventListener>();
+  private txCount = 0;
+
   private constructor(
     private readonly wallet: Wallet,
     private readonly from: AztecAddress,
     private readonly contractAddress: AztecAddress,
     private readonly contract: IsnadRegistryContract,
+    private readonly options: IsnadSDKOptions = {},
   ) {}
 
   /**
@@ -58,19 +157,47 @@ export class IsnadSDK {
    * @param wallet           An Aztec wallet (PXE-backed, holds private keys)
    * @param from             The AztecAddress of the calling agent
    * @param contractAddress  The deployed IsnadRegistry contract address
+   * @param opts             Optional settings, e.g. maxCredentialBytes
    */
   static async connect(
     wallet: Wallet,
     from: AztecAddress,
     contractAddress: AztecAddress,
+    opts?: IsnadSDKOptions,
   ): Promise<IsnadSDK> {
-    const contract = await IsnadRegistryContract.at(contractAddress, wallet);
-    return new IsnadSDK(wallet, from, contractAddress, contract);
+    try {
+      const contract = await IsnadRegistryContract.at(contractAddress, wallet);
+      return new IsnadSDK(wallet, from, contractAddress, contract, opts);
+    } catch (err) {
+      throw toIsnadError(err);
+    }
   }
 
   /**
-   * Read the trust score, attestation count, and quarantine status for a skill.
-   * No authentication needed — this reads public state.
+   * Subscribe to lifecycle events of every transaction this SDK sends:
+   * simulating → proving → sent → mined, or failed / dropped.
+   *
+   * ```typescript
+   * const off = isnad.onTxEvent((e) => console.log(e.method, e.phase, `${e.elapsedMs}ms`, e.txHash ?? ''));
+   * await isnad.attest({ skillHash, quality: 90 });
+   * off();
+   * ```
+   *
+   * Pass `node` to connect() for a "sent" event as soon as the node accepts the
+   * transaction; without it "sent" arrives with "mined".
+   *
+   * @returns  A function that removes the listener
+   */
+  onTxEvent(listener: TxEventListener): () => void {
+    this.txListeners.add(listener);
+    return () => {
+      this.txListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read the trust score, attestation count, quarantine status and malicious report
+   * count for a skill. No authentication needed — this reads public state.
    *
    * The returned trustScore is 0 for quarantined skills regardless of attestations.
    * Use isQuarantined to distinguish between:
@@ -80,12 +207,13 @@ export class IsnadSDK {
    * @param skillHash  SHA256 of the skill file, as a hex string or Fr
    */
   async getTrustScore(skillHash: string | Fr): Promise<SkillTrustInfo> {
-    const hash = typeof skillHash === "string" ? Fr.fromHexString(skillHash) : skillHash;
+    const hash = toSkillField(skillHash);
 
-    const [trustScore, attestationCount, quarantined] = await Promise.all([
-      this.contract.methods.get_trust_score(hash).simulate({ from: this.from }),
-      this.contract.methods.get_attestation_count(hash).simulate({ from: this.from }),
-      this.contract.methods.is_quarantined(hash).simulate({ from: this.from }),
+    const [trustScore, attestationCount, quarantined, reportCount] = await Promise.all([
+      this._simulate(this.contract.methods.get_trust_score(hash)),
+      this._simulate(this.contract.methods.get_attestation_count(hash)),
+      this._simulate(this.contract.methods.is_quarantined(hash)),
+      this._simulate(this.contract.methods.get_report_count(hash)),
     ]);
 
     return {
@@ -93,36 +221,103 @@ export class IsnadSDK {
       trustScore: BigInt(trustScore as bigint | number),
       attestationCount: BigInt(attestationCount as bigint | number),
       isQuarantined: Boolean(quarantined),
+      reportCount: BigInt(reportCount as bigint | number),
     };
   }
 
+  /**
+   * Read trust info for many skills at once.
+   *
+   * Inputs are deduplicated by field value, so '0x7f3a' and '0x00...7f3a' are
+   * queried once. At most `concurrency` skills are in flight at a time (each
+   * skill is still four simulate calls, as in getTrustScore).
+   *
+   * A failing skill does not fail the batch: it is left out of the returned map
+   * and reported through opts.onError. This includes hashes that are not valid
+   * field elements.
+   *
+   * Usage — agent boot check:
+   * ```typescript
+   * const scores = await isnad.getTrustScores(installedSkillHashes, {
+   *   onError: (hash, err) => console.warn(`trust lookup failed for ${hash}`, err),
+   * });
+   * for (const [hash, info] of scores) {
+   *   if (IsnadSDK.checkInstallPolicy(info) === 'deny') disable(hash);
+   * }
+   * ```
+   *
+   * @param skillHashes  Skill hashes as hex strings or Fr
+   * @param opts         concurrency limit and per-hash error callback
+   * @returns            Map keyed by the normalized skill hash (SkillTrustInfo.skillHash)
+   */
+  async getTrustScores(
+    skillHashes: Iterable<string | Fr>,
+    opts?: BatchTrustOptions,
+  ): Promise<Map<string, SkillTrustInfo>> {
+    return batchTrustScores(skillHashes, opts, (hash) => this.getTrustScore(hash));
+  }
+
+  /**
+   * Watch skills for trust changes: score, attestor count and quarantine.
+   *
+   * Polls the node's blocks every `pollInterval` ms and calls `handler` with a typed
+   * event (ScoreChanged, CountChanged, Quarantined, Unquarantined) for each change,
+   * with the value before and after. Needs `node` in IsnadSDKOptions.
+   *
+   * ```typescript
+   * const watch = isnad.watch(installedHashes, (e) => {
+   *   if (e.type === 'Quarantined') disable(e.skillHash);
+   * }, { store: new JsonFileIndexerStore('.isnad/watch.json') });
+   * // later: watch.stop();
+   * ```
+   *
+   * With a persistent store the watch resumes from the last block it processed,
+   * so changes made while the agent was down are delivered when it restarts.
+   *
+   * @param skillHashes  Skill hashes as hex strings or Fr
+   * @param handler      Called for each event, in chain order
+   * @param opts         pollInterval, fromBlock, store and onError
+   */
+  watch(skillHashes: Iterable<string | Fr>, handler: TrustChangeHandler, opts?: WatchOptions): TrustWatch {
+    if (!this.options.node) {
+      throw isnadError("INVALID_ARGUMENT", "watch() reads blocks from a node: pass `node` to IsnadSDK.connect()");
+    }
+    return watchTrust(this.options.node, this.contractAddress, skillHashes, handler, opts);
+  }
+
   /**
    * Submit an anonymous attestation for a skill.
    *
    * Generates a ZK proof that you submitted a valid attestation, then increments
    * the skill's public trust score. Your identity is never recorded on-chain.
-   * The claim_type is stored privately in your AttestationNote — never visible on-chain.
+   * The claim_type and evidence hash are stored privately in your AttestationNote —
+   * never visible on-chain.
    *
    * Proof generation takes 10-60 seconds depending on hardware.
    * The returned promise resolves when the transaction is confirmed.
    *
-   * @param opts  skillHash + quality score (0-100) + optional claimType
-   * @throws      If you have already attested this skill (double-attestation prevented)
+   * @param opts   skillHash + quality score (0-100) + optional claimType and evidenceHash
+   * @param write  `{ dryRun: true }` to check the attestation without sending it (see preflight())
+   * @throws       ALREADY_ATTESTED if you have already attested this skill, NOT_AUTHORIZED_ATTESTOR
+   *               if you are not in the Isnad chain, INVALID_ARGUMENT for a bad hash or quality
    */
-  async attest(opts: AttestOptions): Promise<{ txHash: string }> {
-    const hash = typeof opts.skillHash === "string"
-      ? Fr.fromHexString(opts.skillHash)
-      : opts.skillHash;
+  async attest(opts: AttestOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async attest(opts: AttestOptions, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async attest(opts: AttestOptions, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightAttest(opts);
+    const hash = toSkillField(opts.skillHash);
 
     if (opts.quality < 0 || opts.quality > 100) {
-      throw new Error(`quality must be 0-100, got ${opts.quality}`);
+      throw isnadError("INVALID_ARGUMENT", `quality must be 0-100, got ${opts.quality}`);
     }
 
     const claimType = opts.claimType ?? ClaimType.CODE_REVIEW;
+    const evidenceHash = toEvidenceField(opts.evidenceHash ?? Fr.ZERO);
 
-    const receipt = await this.contract.methods
-      .attest(hash, opts.quality, claimType)
-      .send({ from: this.from });
+    // A second attest() spends the same SingleUseClaim nullifier
+    const receipt = await this._send("attest", [hash, opts.quality, claimType, evidenceHash], {
+      nullifierCollision: "ALREADY_ATTESTED",
+    });
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -132,16 +327,35 @@ export class IsnadSDK {
    * The credential is encrypted with your PXE key before being stored on-chain.
    * Nobody else can read it — not the network, not the sequencer, not the contract.
    *
-   * @param opts  keyId, value (the secret), and label (display name)
+   * The value is stored with its length and a content-type tag (utf8, binary, json),
+   * so arbitrary bytes round-trip exactly. Values over 93 bytes (PEM keys,
+   * service-account JSON) are split across several notes, one transaction each. The
+   * continuation notes are stored first and the head note last, so a partially
+   * stored value is never visible to getCredential(). The key ID itself is recorded in
+   * one more note (one more transaction, the first time a key ID is stored) so that
+   * listCredentials() can name it.
+   *
+   * @param opts   keyId, value (the secret, text or bytes), optional contentType, and label
+   * @param write  `{ dryRun: true }` to check the store and count its transactions without sending
+   * @throws CREDENTIAL_TOO_LARGE over maxCredentialBytes; INVALID_ARGUMENT if not JSON for contentType "json"
    */
-  async storeCredential(opts: StoreCredentialOptions): Promise<{ txHash: string }> {
-    const keyId = this._hashKeyId(opts.keyId);
-    const value = this._encodeValue(opts.value);
+  async storeCredential(opts: StoreCredentialOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async storeCredential(
+    opts: StoreCredentialOptions,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async storeCredential(
+    opts: StoreCredentialOptions,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightStoreCredential(opts);
+    const keyId = await hashKeyId(opts.keyId);
+    const bytes = this._credentialBytes(opts.value, opts.contentType);
+    await this._storeCredentialName(keyId, opts.keyId);
+    const head = await this._writeCredentialChunks(keyId, bytes);
     const label = this._encodeLabel(opts.label);
 
-    const receipt = await this.contract.methods
-      .store_credential(keyId, value, label)
-      .send({ from: this.from });
+    const receipt = await this._send("store_credential", [keyId, head, label]);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -150,19 +364,79 @@ export class IsnadSDK {
    *
    * Reads from your local PXE cache — no on-chain transaction needed.
    * Returns null if no credential with the given keyId is found.
+   * Chunked values are reassembled and checked against their length and digest.
+   *
+   * `value` is a string by default (binary credentials base64-encoded). Pass
+   * { as: "bytes" } for the exact stored bytes, or { as: "json" } to parse JSON.
    *
    * @param keyId  The credential identifier (e.g. 'openai-api-key')
+   * @param opts   Optional return shape
+   * @throws CREDENTIAL_CORRUPT if a chunked value is missing a chunk or fails its integrity check
    */
-  async getCredential(keyId: string): Promise<CredentialResult | null> {
-    const keyIdHash = this._hashKeyId(keyId);
+  async getCredential(keyId: string, opts?: { as?: "string" }): Promise<CredentialResult | null>;
+  async getCredential(keyId: string, opts: { as: "bytes" }): Promise<CredentialResult<Uint8Array> | null>;
+  async getCredential<T = unknown>(keyId: string, opts: { as: "json" }): Promise<CredentialResult<T> | null>;
+  async getCredential(keyId: string, opts?: ReadCredentialOptions): Promise<CredentialResult<unknown> | null> {
+    const keyIdHash = await hashKeyId(keyId);
+    const head = await this._readCredentialEntry(keyIdHash);
+    if (!head) return null;
+    const read = (chunkKey: Fr) => this._readCredentialFields(chunkKey);
+    const result = await this._readCredential(keyId, keyIdHash, head.value, read, opts?.as);
+    return { ...result, label: this._decodeLabel(head.label) };
+  }
 
-    const result = await this.contract.methods
-      .get_credential(this.from, keyIdHash)
-      .simulate({ from: this.from });
-    // get_credential returns Option<[Field; 4]> — check if Some
-    if (!result || (result as any).is_none?.()) return null;
-    const rawValue = (result as any).unwrap?.() ?? result;
-    return { keyId, value: this._decodeValue(rawValue as [Fr, Fr, Fr, Fr]), label: "" };
+  /**
+   * List the credentials in your vault: key IDs, labels and sizes, never values.
+   *
+   * Reads your CredentialNotes through the list_credentials utility view — no
+   * transaction. Continuation and key-name notes are folded into the credential they
+   * belong to. Credentials stored before key names were recorded are listed with
+   * keyId null.
+   */
+  async listCredentials(): Promise<CredentialInfo[]> {
+    const notes = await this._listCredentialNotes();
+    const byKey = new Map(notes.map((note) => [note.keyId.toString(), note]));
+    const read = async (key: Fr) => byKey.get(key.toString())?.value ?? null;
+
+    const headers = new Map<string, CredentialHeader | null>();
+    const folded = new Set<string>();
+    for (const note of notes) {
+      let header: CredentialHeader | null = null;
+      try {
+        header = parseCredentialHeader(note.value);
+      } catch {
+        // Written by a newer SDK; list it without size or content type
+      }
+      headers.set(note.keyId.toString(), header);
+      for (const chunk of await this._chunkKeys(note.keyId, header)) folded.add(chunk.toString());
+    }
+
+    const names = new Map<string, string>();
+    for (const note of notes) {
+      const nameKey = await nameKeyId(note.keyId);
+      const nameNote = byKey.get(nameKey.toString());
+      if (!nameNote) continue;
+      folded.add(nameKey.toString());
+      try {
+        const { value } = await this._readCredential("", nameKey, nameNote.value, read);
+        names.set(note.keyId.toString(), value as string);
+      } catch {
+        // A damaged name note leaves the credential unnamed rather than hiding it
+      }
+    }
+
+    return notes
+      .filter((note) => !folded.has(note.keyId.toString()))
+      .map((note) => {
+        const header = headers.get(note.keyId.toString()) ?? null;
+        return {
+          keyId: names.get(note.keyId.toString()) ?? null,
+          keyIdHash: note.keyId.toString(),
+          label: this._decodeLabel(note.label),
+          contentType: header?.contentType ?? "utf8",
+          size: header?.length ?? null,
+        };
+      });
   }
 
   /**
@@ -173,20 +447,33 @@ export class IsnadSDK {
    * The AuthWit is single-use — authwitNonce must be unique per grant.
    *
    * The owner can call this directly by passing authwitNonce = 0n.
+   * A chunked value costs one transaction per note; grantCredentialAccess() covers them all.
+   * `opts.as` selects the return shape, as for getCredential(). `label` is always
+   * empty: the label stays in the owner's notes, which a delegated read cannot list.
    *
-   * @param opts  owner, keyId, authwitNonce
+   * @param opts  owner, keyId, authwitNonce, optional return shape
    */
-  async getCredentialForSkill(opts: DelegatedCredentialOptions): Promise<CredentialResult | null> {
-    const keyId = this._hashKeyId(opts.keyId);
-    const nonce = opts.authwitNonce ?? 0n;
+  async getCredentialForSkill(
+    opts: DelegatedCredentialOptions & { as?: "string" },
+  ): Promise<CredentialResult | null>;
+  async getCredentialForSkill(
+    opts: DelegatedCredentialOptions & { as: "bytes" },
+  ): Promise<CredentialResult<Uint8Array> | null>;
+  async getCredentialForSkill<T = unknown>(
+    opts: DelegatedCredentialOptions & { as: "json" },
+  ): Promise<CredentialResult<T> | null>;
+  async getCredentialForSkill(opts: DelegatedCredentialOptions): Promise<CredentialResult<unknown> | null> {
+    const keyId = await hashKeyId(opts.keyId);
+    const nonce = new Fr(opts.authwitNonce ?? 0n);
+    const read = async (key: Fr) => {
+      const receipt = await this._send("get_credential_for_skill", [opts.owner, key, nonce]);
+      // Return value is carried in the receipt (private tx return value via PXE)
+      return ((receipt as any).returnValue as CredentialFields | undefined) ?? null;
+    };
 
-    const receipt = await this.contract.methods
-      .get_credential_for_skill(opts.owner, keyId, new Fr(nonce))
-      .send({ from: this.from });
-    // Return value is carried in the receipt (private tx return value via PXE)
-    const rawValue = (receipt as any).returnValue as [Fr, Fr, Fr, Fr];
-    if (!rawValue) return null;
-    return { keyId: opts.keyId, value: this._decodeValue(rawValue), label: "" };
+    const head = await read(keyId);
+    if (!head) return null;
+    return this._readCredential(opts.keyId, keyId, head, read, opts.as);
   }
 
   /**
@@ -196,17 +483,22 @@ export class IsnadSDK {
    * (skillAddress, get_credential_for_skill, owner, keyId, nonce) tuple.
    * The skill cannot use this to access any other credential.
    * The AuthWit is single-use — each delegation needs a unique nonce.
+   * For a chunked value, one AuthWit per note is created under the same nonce.
    *
    * @param opts  keyId, skillAddress, optional nonce
    */
   async grantCredentialAccess(opts: GrantAccessOptions): Promise<{ authwitNonce: bigint }> {
-    const keyId = this._hashKeyId(opts.keyId);
+    const keyId = await hashKeyId(opts.keyId);
     const nonce = opts.nonce ?? BigInt(Date.now());
 
-    const action = this.contract.methods
-      .get_credential_for_skill(this.from, keyId, new Fr(nonce));
-    const call = await action.getFunctionCall();
-    await this.wallet.createAuthWit(this.from, { caller: opts.skillAddress, call });
+    const head = await this._readCredentialFields(keyId);
+    const keys = [keyId, ...(head ? await this._chunkKeys(keyId, parseCredentialHeader(head)) : [])];
+    for (const key of keys) {
+      const action = this.contract.methods
+        .get_credential_for_skill(this.from, key, new Fr(nonce));
+      const call = await action.getFunctionCall();
+      await this.wallet.createAuthWit(this.from, { caller: opts.skillAddress, call });
+    }
     return { authwitNonce: nonce };
   }
 
@@ -220,12 +512,20 @@ export class IsnadSDK {
    * Only the address set as admin at deployment can call this.
    *
    * @param attestorAddress  Aztec address of the new root attestor
-   * @throws If caller is not admin, or address is already authorized
+   * @param write            `{ dryRun: true }` to check the call without sending it
+   * @throws NOT_ADMIN if caller is not admin, ALREADY_AUTHORIZED if the address is already authorized
    */
-  async addRootAttestor(attestorAddress: AztecAddress): Promise<{ txHash: string }> {
-    const receipt = await this.contract.methods
-      .add_root_attestor(attestorAddress)
-      .send({ from: this.from });
+  async addRootAttestor(attestorAddress: AztecAddress, write: { dryRun: true }): Promise<PreflightResult>;
+  async addRootAttestor(
+    attestorAddress: AztecAddress,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async addRootAttestor(
+    attestorAddress: AztecAddress,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightAddRootAttestor(attestorAddress);
+    const receipt = await this._send("add_root_attestor", [attestorAddress]);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -240,12 +540,15 @@ export class IsnadSDK {
    * The vouching chain is PUBLIC — anyone can verify who vouched whom.
    *
    * @param attestorAddress  Aztec address of the new chain member
-   * @throws If caller is not authorized, or address is already authorized
+   * @param write            `{ dryRun: true }` to check the call without sending it
+   * @throws NOT_AUTHORIZED_ATTESTOR if caller is not in the chain, ALREADY_AUTHORIZED if the address
+   *         is already authorized, DEPTH_LIMIT if caller is at the maximum chain depth
    */
-  async vouch(attestorAddress: AztecAddress): Promise<{ txHash: string }> {
-    const receipt = await this.contract.methods
-      .vouch(attestorAddress)
-      .send({ from: this.from });
+  async vouch(attestorAddress: AztecAddress, write: { dryRun: true }): Promise<PreflightResult>;
+  async vouch(attestorAddress: AztecAddress, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async vouch(attestorAddress: AztecAddress, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightVouch(attestorAddress);
+    const receipt = await this._send("vouch", [attestorAddress]);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -256,9 +559,7 @@ export class IsnadSDK {
    * @param address  Aztec address to check
    */
   async isAuthorizedAttestor(address: AztecAddress): Promise<boolean> {
-    const result = await this.contract.methods
-      .is_authorized_attestor(address)
-      .simulate({ from: this.from });
+    const result = await this._simulate(this.contract.methods.is_authorized_attestor(address));
     return Boolean(result);
   }
 
@@ -271,14 +572,14 @@ export class IsnadSDK {
    */
   async getAttestorDepth(address: AztecAddress): Promise<AttestorInfo> {
     const [authorized, depth] = await Promise.all([
-      this.contract.methods.is_authorized_attestor(address).simulate({ from: this.from }),
-      this.contract.methods.get_attestor_depth(address).simulate({ from: this.from }),
+      this._simulate(this.contract.methods.is_authorized_attestor(address)),
+      this._simulate(this.contract.methods.get_attestor_depth(address)),
     ]);
     return {
       address: address.toString(),
       isAuthorized: Boolean(authorized),
       depth: Number(depth),
-      weight: this._weightForDepth(Number(depth)),
+      weight: weightForDepth(Number(depth)),
     };
   }
 
@@ -292,16 +593,228 @@ export class IsnadSDK {
    * claim was consumed when you originally attested.
    *
    * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   * @param write      `{ dryRun: true }` to check the revocation without sending it
+   * @throws ATTESTATION_NOT_FOUND if you have no active attestation for the skill
+   */
+  async revokeAttestation(skillHash: string | Fr, write: { dryRun: true }): Promise<PreflightResult>;
+  async revokeAttestation(
+    skillHash: string | Fr,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async revokeAttestation(
+    skillHash: string | Fr,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightSimple(() => ["revoke_attestation", [toSkillField(skillHash)]]);
+    const hash = toSkillField(skillHash);
+
+    const receipt = await this._send("revoke_attestation", [hash]);
+    return { txHash: receipt.txHash.toString() };
+  }
+
+  /**
+   * Change the quality (and claim type and evidence hash) of a prior attestation.
+   *
+   * Replaces your AttestationNote and moves the skill's public trust score by the
+   * difference between the new and old weighted contributions, in one transaction.
+   * Unlike revokeAttestation(), your vote is kept: the attestation count is unchanged
+   * and you can amend again later. The weight is that of your chain depth when you
+   * first attested.
+   *
+   * ```typescript
+   * // New findings: lower a 90 to 40
+   * await isnad.amendAttestation({ skillHash, quality: 40, claimType: ClaimType.BEHAVIORAL });
+   * ```
+   *
+   * @param opts   skillHash + new quality score (0-100) + claimType and evidenceHash (each defaults to the
+   *               value your current note holds, so an omitted one is kept)
+   * @param write  `{ dryRun: true }` to check the amendment without sending it
+   * @throws       ATTESTATION_NOT_FOUND if you have no active attestation for the skill (never
+   *               attested, or revoked), INVALID_ARGUMENT for a bad hash or quality
+   */
+  async amendAttestation(opts: AttestOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async amendAttestation(opts: AttestOptions, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async amendAttestation(opts: AttestOptions, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightAmend(opts);
+    const hash = toSkillField(opts.skillHash);
+
+    if (opts.quality < 0 || opts.quality > 100) {
+      throw isnadError("INVALID_ARGUMENT", `quality must be 0-100, got ${opts.quality}`);
+    }
+
+    const [claimType, evidenceHash] = await this._amendedFields(hash, opts);
+    const receipt = await this._send("amend_attestation", [hash, opts.quality, claimType, evidenceHash]);
+    return { txHash: receipt.txHash.toString() };
+  }
+
+  /**
+   * Report a skill as malicious.
+   *
+   * Increments the skill's public report count (see getReportCount()) without
+   * touching its trust score or attestation count — unlike attesting with quality 0,
+   * a report never makes a skill look more examined. The severity and evidence hash
+   * are kept in a private ReportNote; your identity never appears on-chain.
+   *
+   * Each auditor can report each skill once. Reporting is separate from attesting:
+   * you may report a skill you attested (and should revoke or amend the attestation).
+   *
+   * ```typescript
+   * await isnad.reportMalicious({
+   *   skillHash,
+   *   severity: ReportSeverity.CRITICAL,
+   *   evidenceHash: '0x…', // e.g. SHA256 of your findings document
+   * });
+   * ```
+   *
+   * @param opts   skillHash + severity + evidenceHash
+   * @param write  `{ dryRun: true }` to check the report without sending it
+   * @throws       ALREADY_REPORTED if you have already reported this skill, NOT_AUTHORIZED_ATTESTOR
+   *               if you are not in the Isnad chain, INVALID_ARGUMENT for a bad hash or severity
+   */
+  async reportMalicious(opts: ReportMaliciousOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async reportMalicious(
+    opts: ReportMaliciousOptions,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async reportMalicious(
+    opts: ReportMaliciousOptions,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightReport(opts);
+    const hash = toSkillField(opts.skillHash);
+    const evidenceHash = toEvidenceField(opts.evidenceHash);
+    checkSeverity(opts.severity);
+
+    // A second report spends the same report SingleUseClaim nullifier
+    const receipt = await this._send("report_malicious", [hash, opts.severity, evidenceHash], {
+      nullifierCollision: "ALREADY_REPORTED",
+    });
+    return { txHash: receipt.txHash.toString() };
+  }
+
+  /**
+   * Whether you have attested a skill, and whether you still can.
+   *
+   * Reads your AttestationNotes and your (auditor, skill) SingleUseClaim nullifier
+   * through the get_attestation_status utility view — no transaction. Revoking keeps
+   * the claim spent, so a revoked skill can never be attested again by you:
+   *
+   * ```typescript
+   * const { state } = await isnad.hasAttested(skillHash);
+   * if (state === 'revoked') console.warn('You revoked this skill and cannot attest it again');
+   * ```
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async hasAttested(skillHash: string | Fr): Promise<AttestationStatus> {
+    const hash = toSkillField(skillHash);
+    const status = Number(await this._simulate(this.contract.methods.get_attestation_status(this.from, hash)));
+    const state: AttestationState = status === 1 ? "attested" : status === 2 ? "revoked" : "none";
+    return {
+      skillHash: hash.toString(),
+      state,
+      claimUsed: state !== "none",
+      hasActiveNote: state === "attested",
+    };
+  }
+
+  /**
+   * List your active attestations: skill, quality, claim type and chain depth.
+   *
+   * Decodes the AttestationNotes in your PXE through the list_attestations utility
+   * view — no transaction, and nothing leaves the PXE. Revoked attestations are
+   * nullified and not listed. Works from any device that holds your account keys.
    */
-  async revokeAttestation(skillHash: string | Fr): Promise<{ txHash: string }> {
-    const hash = typeof skillHash === "string" ? Fr.fromHexString(skillHash) : skillHash;
+  async listMyAttestations(): Promise<MyAttestation[]> {
+    const attestations: MyAttestation[] = [];
+    for (let offset = 0; ; offset += ATTESTATION_PAGE_SIZE) {
+      const result = await this._simulate(
+        this.contract.methods.list_attestations(this.from, offset, ATTESTATION_PAGE_SIZE),
+      );
+      // list_attestations returns BoundedVec<AttestationEntry, N> — only the first `len` slots are set
+      const entries: any[] = Array.isArray(result) ? result : result.storage.slice(0, Number(result.len));
+      for (const entry of entries) {
+        const quality = Number(entry.quality);
+        const depth = Number(entry.depth_at_attestation);
+        const evidenceHash = toFr(entry.evidence_hash ?? 0n);
+        attestations.push({
+          skillHash: toFr(entry.skill_hash).toString(),
+          quality,
+          claimType: Number(entry.claim_type) as ClaimType,
+          depthAtAttestation: depth,
+          effectiveQuality: quality * weightForDepth(depth),
+          ...(!evidenceHash.isZero() && { evidenceHash: evidenceHash.toString() }),
+        });
+      }
+      if (entries.length < ATTESTATION_PAGE_SIZE) return attestations;
+    }
+  }
 
-    const receipt = await this.contract.methods
-      .revoke_attestation(hash)
-      .send({ from: this.from });
+  /**
+   * Reveal one of your attestations to a third party, and nothing else.
+   *
+   * The contract copies your AttestationNote for the skill — quality, claim type,
+   * depth and evidence hash — into a note only the recipient can read, so they can
+   * trust the values without trusting you. Your other attestations stay private, and
+   * nothing public changes. Send the audit report itself off-chain; the recipient
+   * checks it against the disclosed evidence hash:
+   *
+   * ```typescript
+   * await isnad.discloseAttestation({ skillHash, recipient: reviewerAddress });
+   * // reviewer, with the report JSON you sent them:
+   * const [d] = (await reviewerSdk.listDisclosures()).filter((d) => d.skillHash === skillHash);
+   * await verifyAuditReport(report, d.evidenceHash!);  // true
+   * ```
+   *
+   * The disclosure is a snapshot: amending or revoking later does not change it.
+   *
+   * @param opts   skillHash + recipient
+   * @param write  `{ dryRun: true }` to check the disclosure without sending it
+   * @throws       ATTESTATION_NOT_FOUND if you have no active attestation for the skill,
+   *               INVALID_ARGUMENT for a bad hash
+   */
+  async discloseAttestation(opts: DiscloseAttestationOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async discloseAttestation(
+    opts: DiscloseAttestationOptions,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async discloseAttestation(
+    opts: DiscloseAttestationOptions,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightDisclose(opts);
+    const hash = toSkillField(opts.skillHash);
+    const receipt = await this._send("disclose_attestation", [hash, opts.recipient]);
     return { txHash: receipt.txHash.toString() };
   }
 
+  /**
+   * List the attestations other auditors disclosed to you with discloseAttestation(),
+   * decoded from the DisclosureNotes in your PXE — no transaction.
+   */
+  async listDisclosures(): Promise<AttestationDisclosure[]> {
+    const disclosures: AttestationDisclosure[] = [];
+    for (let offset = 0; ; offset += DISCLOSURE_PAGE_SIZE) {
+      const result = await this._simulate(
+        this.contract.methods.list_disclosures(this.from, offset, DISCLOSURE_PAGE_SIZE),
+      );
+      // BoundedVec<DisclosureEntry, N>, as in listMyAttestations()
+      const entries: any[] = Array.isArray(result) ? result : result.storage.slice(0, Number(result.len));
+      for (const entry of entries) {
+        const evidenceHash = toFr(entry.evidence_hash);
+        disclosures.push({
+          auditor: entry.auditor.toString(),
+          skillHash: toFr(entry.skill_hash).toString(),
+          quality: Number(entry.quality),
+          claimType: Number(entry.claim_type) as ClaimType,
+          depthAtAttestation: Number(entry.depth_at_attestation),
+          ...(!evidenceHash.isZero() && { evidenceHash: evidenceHash.toString() }),
+        });
+      }
+      if (entries.length < DISCLOSURE_PAGE_SIZE) return disclosures;
+    }
+  }
+
   // ─── QUARANTINE MANAGEMENT ─────────────────────────────────────────────────
 
   /**
@@ -314,13 +827,15 @@ export class IsnadSDK {
    * The attestation count remains visible so observers can see the history.
    *
    * @param skillHash  SHA256 of the skill file, as a hex string or Fr
-   * @throws If caller is not the contract admin
+   * @param write      `{ dryRun: true }` to check the call without sending it
+   * @throws NOT_ADMIN if caller is not the contract admin
    */
-  async quarantine(skillHash: string | Fr): Promise<{ txHash: string }> {
-    const hash = typeof skillHash === "string" ? Fr.fromHexString(skillHash) : skillHash;
-    const receipt = await this.contract.methods
-      .quarantine(hash)
-      .send({ from: this.from });
+  async quarantine(skillHash: string | Fr, write: { dryRun: true }): Promise<PreflightResult>;
+  async quarantine(skillHash: string | Fr, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async quarantine(skillHash: string | Fr, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightSimple(() => ["quarantine", [toSkillField(skillHash)]]);
+    const hash = toSkillField(skillHash);
+    const receipt = await this._send("quarantine", [hash]);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -330,13 +845,15 @@ export class IsnadSDK {
    * After unquarantine, getTrustScore() returns the actual accumulated score again.
    *
    * @param skillHash  SHA256 of the skill file, as a hex string or Fr
-   * @throws If caller is not the contract admin
+   * @param write      `{ dryRun: true }` to check the call without sending it
+   * @throws NOT_ADMIN if caller is not the contract admin
    */
-  async unquarantine(skillHash: string | Fr): Promise<{ txHash: string }> {
-    const hash = typeof skillHash === "string" ? Fr.fromHexString(skillHash) : skillHash;
-    const receipt = await this.contract.methods
-      .unquarantine(hash)
-      .send({ from: this.from });
+  async unquarantine(skillHash: string | Fr, write: { dryRun: true }): Promise<PreflightResult>;
+  async unquarantine(skillHash: string | Fr, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async unquarantine(skillHash: string | Fr, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightSimple(() => ["unquarantine", [toSkillField(skillHash)]]);
+    const hash = toSkillField(skillHash);
+    const receipt = await this._send("unquarantine", [hash]);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -350,27 +867,45 @@ export class IsnadSDK {
    * @param skillHash  SHA256 of the skill file, as a hex string or Fr
    */
   async isQuarantined(skillHash: string | Fr): Promise<boolean> {
-    const hash = typeof skillHash === "string" ? Fr.fromHexString(skillHash) : skillHash;
-    const result = await this.contract.methods
-      .is_quarantined(hash)
-      .simulate({ from: this.from });
+    const hash = toSkillField(skillHash);
+    const result = await this._simulate(this.contract.methods.is_quarantined(hash));
     return Boolean(result);
   }
 
+  /**
+   * Number of unique authorized auditors who reported a skill malicious
+   * (reportMalicious()). No auth needed. Not affected by quarantine.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async getReportCount(skillHash: string | Fr): Promise<bigint> {
+    const hash = toSkillField(skillHash);
+    const result = await this._simulate(this.contract.methods.get_report_count(hash));
+    return BigInt(result as bigint | number);
+  }
+
   /**
    * Delete a credential from your vault.
    *
    * Nullifies the CredentialNote permanently. The credential becomes inaccessible.
    * For replacing a credential, prefer rotateCredential() which is atomic.
+   * A chunked value's head note is deleted first, then its continuation notes, then
+   * the note recording its key ID.
    *
    * @param keyId  The credential identifier to delete (e.g. 'openai-api-key')
+   * @param write  `{ dryRun: true }` to check the delete and count its transactions without sending
+   * @throws CREDENTIAL_NOT_FOUND if there is nothing to delete
    */
-  async deleteCredential(keyId: string): Promise<{ txHash: string }> {
-    const keyIdHash = this._hashKeyId(keyId);
+  async deleteCredential(keyId: string, write: { dryRun: true }): Promise<PreflightResult>;
+  async deleteCredential(keyId: string, write?: WriteOptions & { dryRun?: false }): Promise<{ txHash: string }>;
+  async deleteCredential(keyId: string, write?: WriteOptions): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightDeleteCredential(keyId);
+    const keyIdHash = await hashKeyId(keyId);
+    const head = await this._readCredentialFields(keyIdHash);
 
-    const receipt = await this.contract.methods
-      .delete_credential(keyIdHash)
-      .send({ from: this.from });
+    const receipt = await this._send("delete_credential", [keyIdHash]);
+    if (head) await this._deleteCredentialChunks(keyIdHash, parseCredentialHeader(head));
+    await this._deleteCredentialName(keyIdHash);
     return { txHash: receipt.txHash.toString() };
   }
 
@@ -381,19 +916,123 @@ export class IsnadSDK {
    * in a single transaction. Safer than deleteCredential + storeCredential because
    * the vault is never transiently empty.
    *
-   * @param opts  keyId (existing credential to replace), newValue, newLabel
+   * For chunked values the new continuation notes are written under a fresh
+   * generation before the head is swapped, and the old ones are deleted after, so
+   * readers see either the complete old value or the complete new one.
+   *
+   * @param opts   keyId (existing credential to replace), newValue, optional contentType, newLabel
+   * @param write  `{ dryRun: true }` to check the rotation and count its transactions without sending
+   * @throws CREDENTIAL_TOO_LARGE over maxCredentialBytes; INVALID_ARGUMENT if not JSON for contentType "json";
+   *         CREDENTIAL_NOT_FOUND if there is nothing to rotate
    */
-  async rotateCredential(opts: RotateCredentialOptions): Promise<{ txHash: string }> {
-    const keyIdHash = this._hashKeyId(opts.keyId);
-    const newValue = this._encodeValue(opts.newValue);
+  async rotateCredential(opts: RotateCredentialOptions, write: { dryRun: true }): Promise<PreflightResult>;
+  async rotateCredential(
+    opts: RotateCredentialOptions,
+    write?: WriteOptions & { dryRun?: false },
+  ): Promise<{ txHash: string }>;
+  async rotateCredential(
+    opts: RotateCredentialOptions,
+    write?: WriteOptions,
+  ): Promise<{ txHash: string } | PreflightResult> {
+    if (write?.dryRun) return this._preflightRotateCredential(opts);
+    const keyIdHash = await hashKeyId(opts.keyId);
+    const bytes = this._credentialBytes(opts.newValue, opts.contentType);
+    const oldHead = await this._readCredentialFields(keyIdHash);
+    // Before any chunk is written, so a missing key leaves no orphaned notes behind
+    if (!oldHead) {
+      throw isnadError("CREDENTIAL_NOT_FOUND", `No credential found for '${opts.keyId}' -- cannot rotate it`);
+    }
+    const oldHeader = parseCredentialHeader(oldHead);
+    const newValue = await this._writeCredentialChunks(keyIdHash, bytes, oldHeader?.generation);
     const newLabel = this._encodeLabel(opts.newLabel);
 
-    const receipt = await this.contract.methods
-      .rotate_credential(keyIdHash, newValue, newLabel)
-      .send({ from: this.from });
+    const receipt = await this._send("rotate_credential", [keyIdHash, newValue, newLabel]);
+    await this._deleteCredentialChunks(keyIdHash, oldHeader);
     return { txHash: receipt.txHash.toString() };
   }
 
+  /**
+   * Move credentials stored by older SDK versions to their poseidon2 key IDs.
+   *
+   * Older versions derived the on-chain key_id from the first 31 bytes of the key ID,
+   * so long key IDs sharing a prefix overwrote each other's lookups. For each key ID
+   * this copies the note found under the legacy encoding to the new one, and only
+   * then deletes the legacy note, so the vault is never without the credential. A
+   * run interrupted between the two transactions can simply be repeated.
+   *
+   * The contract cannot enumerate key IDs, so pass every key ID you have stored.
+   * Key IDs whose legacy encodings collide are reported as "ambiguous" and left
+   * untouched: there is no way to tell which note belongs to which ID. Re-store them
+   * with storeCredential() and delete the legacy note by hand.
+   *
+   * @param keyIds  Every credential key ID to migrate (e.g. ['openai-api-key'])
+   * @param opts    Optional labels for the migrated notes (the vault does not expose them)
+   */
+  async migrateLegacyCredentials(
+    keyIds: string[],
+    opts?: MigrateCredentialsOptions,
+  ): Promise<CredentialMigrationResult[]> {
+    const legacyOwners = new Map<string, Set<string>>();
+    for (const keyId of new Set(keyIds)) {
+      const legacy = legacyKeyIdField(keyId).toString();
+      legacyOwners.set(legacy, (legacyOwners.get(legacy) ?? new Set()).add(keyId));
+    }
+
+    const results: CredentialMigrationResult[] = [];
+    for (const keyId of new Set(keyIds)) {
+      const legacy = legacyKeyIdField(keyId);
+      const next = await hashKeyId(keyId);
+      const legacyValue = await this._readCredentialFields(legacy);
+      if (!legacyValue) {
+        results.push({ keyId, status: "not-found" });
+        continue;
+      }
+      if (legacyOwners.get(legacy.toString())!.size > 1) {
+        results.push({ keyId, status: "ambiguous" });
+        continue;
+      }
+
+      let storeTxHash: string | undefined;
+      const existing = await this._readCredentialFields(next);
+      if (existing && !existing.every((field, i) => field.equals(legacyValue[i]))) {
+        // A different value already lives under the new key ID — keep both and let the caller decide
+        results.push({ keyId, status: "conflict" });
+        continue;
+      }
+      await this._storeCredentialName(next, keyId);
+      if (!existing) {
+        const label = this._encodeLabel(opts?.labels?.[keyId] ?? "");
+        const receipt = await this._send("store_credential", [next, legacyValue, label]);
+        storeTxHash = receipt.txHash.toString();
+      }
+
+      const receipt = await this._send("delete_credential", [legacy]);
+      results.push({ keyId, status: "migrated", storeTxHash, deleteTxHash: receipt.txHash.toString() });
+    }
+    return results;
+  }
+
+  // ─── PREFLIGHT ─────────────────────────────────────────────────────────────
+
+  /**
+   * Check a write without sending it — the same as calling the method with
+   * `{ dryRun: true }`.
+   *
+   * A dry run reads the state the call depends on (chain membership, quarantine,
+   * existing credentials), then simulates the transaction itself if nothing has
+   * failed yet. Every problem found is reported as an issue carrying the IsnadErrorCode
+   * the real call would throw; warnings (e.g. attesting a quarantined skill) do not
+   * make `ok` false. `transactions` is the number of transactions the call would send.
+   * Nothing is proved or sent. Network failures are still thrown.
+   *
+   * @param method  The write to check (e.g. 'attest')
+   * @param arg     The method's first argument
+   */
+  async preflight<M extends PreflightMethod>(method: M, arg: Parameters<IsnadSDK[M]>[0]): Promise<PreflightResult> {
+    const write = this[method] as (arg: unknown, write: { dryRun: true }) => Promise<PreflightResult>;
+    return write.call(this, arg, { dryRun: true });
+  }
+
   // ─── HELPER UTILITIES ──────────────────────────────────────────────────────
 
   /**
@@ -403,31 +1042,50 @@ export class IsnadSDK {
    * Uses Node.js built-in `node:crypto` (available in Node.js 18+).
    * The SHA256 output (32 bytes) is interpreted as a big-endian 256-bit integer
    * and reduced modulo the BN254 scalar field order. The bias is negligible (~2^-4).
+   * For browsers, use the async computeSkillHash from '@nullius/isnad/hash' — it
+   * returns the same value as a hex string via WebCrypto.
    *
    * @param content  The raw bytes of the skill file (e.g. fs.readFileSync(path))
    */
   static computeSkillHash(content: Uint8Array): Fr {
     const hashBytes = createHash("sha256").update(content).digest();
-    let value = 0n;
-    for (const byte of hashBytes) {
-      value = (value << 8n) | BigInt(byte);
-    }
     // Reduce modulo BN254 scalar field order — SHA256 is 256 bits, field is ~254 bits.
     // Roughly 1/4 of hashes exceed the field modulus and need reduction; bias is negligible.
-    const BN254_P = 21888242871839275222246405745257275088548364400416034343698204186575808495617n;
-    return new Fr(value % BN254_P);
+    return new Fr(reduceToField(hashBytes));
+  }
+
+  /**
+   * Compute the canonical hash of a multi-file skill bundle (SKILL.md plus scripts,
+   * prompts and assets). See computeBundleHash in bundle.ts for the manifest standard.
+   *
+   * Usage:
+   * ```typescript
+   * const { skillHash, manifest } = await IsnadSDK.computeBundleHash('./skills/weather');
+   * console.log(manifest.files.map((f) => f.path));  // exactly what an attestation covers
+   * ```
+   *
+   * @param source  A directory path (Node.js only) or a list of { path, content } entries
+   * @param opts    Ignore rules (defaults to DEFAULT_BUNDLE_IGNORE)
+   */
+  static computeBundleHash(
+    source: string | BundleEntry[],
+    opts?: BundleHashOptions,
+  ): Promise<BundleHashResult> {
+    return computeBundleHash(source, opts);
   }
 
   /**
    * Apply an install policy to a SkillTrustInfo result.
    *
    * Verdicts:
-   *   deny    — skill is quarantined (KNOWN MALICIOUS) or has zero attestations
+   *   deny    — skill is quarantined (KNOWN MALICIOUS), has info.reportCount at or above
+   *             the report threshold, or has zero attestations
    *   sandbox — has attestations but below the score or count threshold
    *   allow   — meets both the score threshold and the count threshold
    *
-   * By default uses INSTALL_THRESHOLD_SCORE (300n) and INSTALL_THRESHOLD_COUNT (3n).
-   * Pass opts to use a stricter or more relaxed policy.
+   * By default uses INSTALL_THRESHOLD_SCORE (300n), INSTALL_THRESHOLD_COUNT (3n) and
+   * INSTALL_THRESHOLD_REPORTS (3n). Pass opts to use a stricter or more relaxed policy.
+   * Infos without a reportCount skip the report check.
    *
    * Usage — default policy:
    * ```typescript
@@ -445,6 +1103,10 @@ export class IsnadSDK {
    * });
    * ```
    *
+   * For category thresholds, allow/deny lists, overrides or an explanation of the
+   * verdict, use InstallPolicyEngine — this method evaluates DEFAULT_INSTALL_POLICY
+   * with the given thresholds.
+   *
    * The trustScore from getTrustScore() is already depth-weighted by the contract
    * (root attestors at depth=0 contribute quality × 4, depth-1 contributes quality × 3, etc.).
    * INSTALL_THRESHOLD_WEIGHTED_SCORE (1200n) is calibrated against this system, representing
@@ -454,67 +1116,559 @@ export class IsnadSDK {
     info: SkillTrustInfo,
     opts?: InstallPolicyOptions,
   ): InstallVerdict {
-    if (info.isQuarantined || info.attestationCount === 0n) return "deny";
-    const scoreThreshold = opts?.scoreThreshold ?? INSTALL_THRESHOLD_SCORE;
-    const countThreshold = opts?.countThreshold ?? INSTALL_THRESHOLD_COUNT;
-    if (info.attestationCount >= countThreshold && info.trustScore >= scoreThreshold) {
-      return "allow";
+    const policy: InstallPolicy = {
+      ...DEFAULT_INSTALL_POLICY,
+      default: {
+        ...DEFAULT_INSTALL_POLICY.default,
+        scoreThreshold: opts?.scoreThreshold ?? INSTALL_THRESHOLD_SCORE,
+        countThreshold: opts?.countThreshold ?? INSTALL_THRESHOLD_COUNT,
+        reportThreshold: opts?.reportThreshold ?? INSTALL_THRESHOLD_REPORTS,
+      },
+    };
+    return new InstallPolicyEngine(policy).evaluate(info).verdict;
+  }
+
+  /**
+   * A watch() handler that re-runs checkInstallPolicy() after every change.
+   *
+   * `onVerdict` is called once per transaction that changed a skill, with the
+   * verdict before and after it.
+   *
+   * ```typescript
+   * isnad.watch(installedHashes, IsnadSDK.policyWatcher(({ skillHash, verdict, previousVerdict }) => {
+   *   if (verdict !== previousVerdict) applyVerdict(skillHash, verdict);
+   * }));
+   * ```
+   *
+   * @param onVerdict  Receives the re-evaluated policy
+   * @param opts       Thresholds, as for checkInstallPolicy()
+   */
+  static policyWatcher(
+    onVerdict: (check: PolicyRecheck) => void | Promise<void>,
+    opts?: InstallPolicyOptions,
+  ): TrustChangeHandler {
+    let lastTx = "";
+    return (event) => {
+      // One transaction can produce several events; check the policy once for it
+      const tx = `${event.skillHash}:${event.txHash}`;
+      if (tx === lastTx) return;
+      lastTx = tx;
+      return onVerdict({
+        skillHash: event.skillHash,
+        verdict: IsnadSDK.checkInstallPolicy(event.info, opts),
+        previousVerdict: IsnadSDK.checkInstallPolicy(event.previous, opts),
+        info: event.info,
+        event,
+      });
+    };
+  }
+
+  /**
+   * Send a transaction, emitting its lifecycle events and translating failures into
+   * IsnadErrors. The call is simulated first so that a revert fails before proving.
+   * Resolves with the receipt once the transaction is mined.
+   */
+  private async _send<M extends keyof RegistryMethods>(
+    method: M,
+    args: Parameters<RegistryMethods[M]>,
+    hints?: { nullifierCollision?: IsnadErrorCode },
+  ): Promise<any> {
+    const txId = ++this.txCount;
+    const startedAt = Date.now();
+    let txHash: string | undefined;
+    const emit = (phase: TxPhase, extra?: Partial<TxLifecycleEvent>) => {
+      const at = Date.now();
+      this._emitTx({ phase, method, txId, at, elapsedMs: at - startedAt, txHash, ...extra });
+    };
+
+    try {
+      const interaction = this._interaction(method, args);
+      emit("simulating");
+      await interaction.simulate({ from: this.from });
+
+      emit("proving");
+      const node = this.options.node;
+      if (!node) {
+        // The wallet proves, sends and waits in one call
+        const receipt = await interaction.send({ from: this.from });
+        txHash = receipt.txHash.toString();
+        emit("sent");
+        emit("mined", { blockNumber: toBlockNumber(receipt.blockNumber) });
+        return receipt;
+      }
+
+      const sentHash = await interaction.send({ from: this.from, wait: NO_WAIT });
+      txHash = sentHash.toString();
+      emit("sent");
+      const receipt = await waitForTx(node, sentHash, { timeout: this.options.txTimeoutSeconds });
+      emit("mined", { blockNumber: toBlockNumber(receipt.blockNumber) });
+      return receipt;
+    } catch (err) {
+      const error = toIsnadError(err, hints);
+      emit(error.code === "TX_DROPPED" ? "dropped" : "failed", { error });
+      throw error;
     }
-    return "sandbox";
   }
 
-  private _hashKeyId(keyId: string): Fr {
-    // Convert string key identifier to a Field using poseidon2 of UTF-8 bytes
-    // For now, use a simple encoding — will be replaced with poseidon2 call
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(keyId);
-    // Pack first 31 bytes as a Field (Aztec's str->Field convention)
-    let value = 0n;
-    for (let i = 0; i < Math.min(bytes.length, 31); i++) {
-      value = (value << 8n) | BigInt(bytes[i]);
+  private _interaction<M extends keyof RegistryMethods>(
+    method: M,
+    args: Parameters<RegistryMethods[M]>,
+  ): ContractFunctionInteraction {
+    return (this.contract.methods[method] as (...a: unknown[]) => ContractFunctionInteraction)(...args);
+  }
+
+  /** Deliver an event to every onTxEvent() listener. A throwing listener does not affect the others. */
+  private _emitTx(event: TxLifecycleEvent): void {
+    for (const listener of this.txListeners) {
+      try {
+        listener(event);
+      } catch {
+        // Listeners are observers; their failures must not fail the transaction
+      }
     }
-    return new Fr(value);
   }
 
-  private _encodeValue(value: string): [Fr, Fr, Fr, Fr] {
-    // Encode a string credential value as [Field; 4] (128 bytes max)
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(value);
-    const fields: [Fr, Fr, Fr, Fr] = [Fr.ZERO, Fr.ZERO, Fr.ZERO, Fr.ZERO];
-    for (let i = 0; i < 4; i++) {
-      const chunk = bytes.slice(i * 31, (i + 1) * 31);
-      let fieldVal = 0n;
-      for (let j = 0; j < chunk.length; j++) {
-        fieldVal = (fieldVal << 8n) | BigInt(chunk[j]);
+  /** Simulate a view or utility call, translating failures into IsnadErrors. */
+  private async _simulate(interaction: ContractFunctionInteraction): Promise<any> {
+    try {
+      return await interaction.simulate({ from: this.from });
+    } catch (err) {
+      throw toIsnadError(err);
+    }
+  }
+
+  /**
+   * Claim type and evidence hash for amend_attestation: those in `opts`, else the ones
+   * your current note holds. Without a note the attest() defaults are used; the
+   * contract rejects the amendment anyway.
+   */
+  private async _amendedFields(hash: Fr, opts: AttestOptions): Promise<[ClaimType, Fr]> {
+    let current: MyAttestation | undefined;
+    if (opts.claimType === undefined || opts.evidenceHash === undefined) {
+      current = (await this.listMyAttestations()).find((a) => a.skillHash === hash.toString());
+    }
+    return [
+      opts.claimType ?? current?.claimType ?? ClaimType.CODE_REVIEW,
+      toEvidenceField(opts.evidenceHash ?? current?.evidenceHash ?? Fr.ZERO),
+    ];
+  }
+
+  /**
+   * Run a dry run: `plan` checks state and reports issues, then the planned call is
+   * simulated unless an error has already been reported. Validation errors thrown by
+   * the plan and simulation reverts become issues; network errors are rethrown.
+   */
+  private async _dryRun(plan: (report: ReportIssue) => Promise<PreflightPlan>): Promise<PreflightResult> {
+    const issues: PreflightIssue[] = [];
+    const report: ReportIssue = (code, severity, message) => {
+      if (!issues.some((issue) => issue.code === code)) issues.push({ code, severity, message });
+    };
+    const hasErrors = () => issues.some((issue) => issue.severity === "error");
+    const fail = (err: unknown) => {
+      const error = toIsnadError(err);
+      if (error instanceof IsnadNetworkError) throw error;
+      report(error.code, "error", error.message);
+    };
+
+    let transactions = 0;
+    try {
+      const planned = await plan(report);
+      transactions = planned.transactions;
+      if (planned.simulate && !hasErrors()) {
+        const [method, args, hints] = planned.simulate;
+        try {
+          await this._interaction(method, args).simulate({ from: this.from });
+        } catch (err) {
+          fail(toIsnadError(err, hints));
+        }
       }
-      fields[i] = new Fr(fieldVal);
+    } catch (err) {
+      if (!(err instanceof IsnadValidationError)) throw err;
+      fail(err);
     }
-    return fields;
+    return { ok: !hasErrors(), issues, transactions };
   }
 
-  private _decodeValue(fields: [Fr, Fr, Fr, Fr]): string {
-    // Decode [Field; 4] back to a string credential value
-    const bytes: number[] = [];
-    for (const field of fields) {
-      let val = field.toBigInt();
-      const chunk: number[] = [];
-      while (val > 0n) {
-        chunk.unshift(Number(val & 0xffn));
-        val >>= 8n;
+  /** Dry run for a write whose only precondition is what the contract itself asserts. */
+  private _preflightSimple(call: () => RegistryCall): Promise<PreflightResult> {
+    return this._dryRun(async () => ({ transactions: 1, simulate: call() }));
+  }
+
+  private _preflightAttest(opts: AttestOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const hash = toSkillField(opts.skillHash);
+      const evidenceHash = toEvidenceField(opts.evidenceHash ?? Fr.ZERO);
+      const claimType = opts.claimType ?? ClaimType.CODE_REVIEW;
+      if (!Number.isInteger(opts.quality) || opts.quality < 0 || opts.quality > 100) {
+        report("INVALID_ARGUMENT", "error", `quality must be 0-100, got ${opts.quality}`);
+      }
+      if (!Object.values(ClaimType).includes(claimType)) {
+        report("INVALID_ARGUMENT", "error", `claimType must be 0, 1 or 2, got ${claimType}`);
+      }
+      const [authorized, quarantined, status] = await Promise.all([
+        this.isAuthorizedAttestor(this.from),
+        this.isQuarantined(hash),
+        this.hasAttested(hash),
+      ]);
+      if (!authorized) {
+        report(
+          "NOT_AUTHORIZED_ATTESTOR",
+          "error",
+          "You are not an authorized attestor -- ask a chain member to vouch for you",
+        );
+      }
+      if (status.state === "attested") {
+        report("ALREADY_ATTESTED", "error", "You have already attested this skill");
+      } else if (status.state === "revoked") {
+        report("ALREADY_ATTESTED", "error", "You revoked your attestation of this skill and cannot attest it again");
+      }
+      if (quarantined) {
+        report(
+          "SKILL_QUARANTINED",
+          "warning",
+          "This skill is quarantined; the attestation will not lift its score above zero",
+        );
+      }
+      return {
+        transactions: 1,
+        simulate: ["attest", [hash, opts.quality, claimType, evidenceHash], { nullifierCollision: "ALREADY_ATTESTED" }],
+      };
+    });
+  }
+
+  private _preflightAmend(opts: AttestOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const hash = toSkillField(opts.skillHash);
+      const [claimType, evidenceHash] = await this._amendedFields(hash, opts);
+      if (!Number.isInteger(opts.quality) || opts.quality < 0 || opts.quality > 100) {
+        report("INVALID_ARGUMENT", "error", `quality must be 0-100, got ${opts.quality}`);
+      }
+      if (!Object.values(ClaimType).includes(claimType)) {
+        report("INVALID_ARGUMENT", "error", `claimType must be 0, 1 or 2, got ${claimType}`);
+      }
+      const status = await this.hasAttested(hash);
+      if (status.state === "none") {
+        report("ATTESTATION_NOT_FOUND", "error", "You have not attested this skill, so there is nothing to amend");
+      } else if (status.state === "revoked") {
+        report("ATTESTATION_NOT_FOUND", "error", "You revoked your attestation of this skill; it cannot be amended");
+      }
+      return { transactions: 1, simulate: ["amend_attestation", [hash, opts.quality, claimType, evidenceHash]] };
+    });
+  }
+
+  private _preflightDisclose(opts: DiscloseAttestationOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const hash = toSkillField(opts.skillHash);
+      const status = await this.hasAttested(hash);
+      if (status.state !== "attested") {
+        report("ATTESTATION_NOT_FOUND", "error", "You have no active attestation of this skill to disclose");
+      }
+      return { transactions: 1, simulate: ["disclose_attestation", [hash, opts.recipient]] };
+    });
+  }
+
+  private _preflightReport(opts: ReportMaliciousOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const hash = toSkillField(opts.skillHash);
+      const evidenceHash = toEvidenceField(opts.evidenceHash);
+      checkSeverity(opts.severity);
+      if (!(await this.isAuthorizedAttestor(this.from))) {
+        report(
+          "NOT_AUTHORIZED_ATTESTOR",
+          "error",
+          "You are not an authorized attestor -- ask a chain member to vouch for you",
+        );
+      }
+      // No view exposes the report claim; the simulation reports ALREADY_REPORTED
+      return {
+        transactions: 1,
+        simulate: [
+          "report_malicious",
+          [hash, opts.severity, evidenceHash],
+          { nullifierCollision: "ALREADY_REPORTED" },
+        ],
+      };
+    });
+  }
+
+  private _preflightVouch(attestorAddress: AztecAddress): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const [self, target] = await Promise.all([
+        this.getAttestorDepth(this.from),
+        this.isAuthorizedAttestor(attestorAddress),
+      ]);
+      if (!self.isAuthorized) {
+        report("NOT_AUTHORIZED_ATTESTOR", "error", "You are not an authorized attestor, so you cannot vouch");
+      } else if (self.depth >= MAX_CHAIN_DEPTH) {
+        report(
+          "DEPTH_LIMIT",
+          "error",
+          `You are at chain depth ${self.depth}; the deepest that may vouch is ${MAX_CHAIN_DEPTH - 1}`,
+        );
+      }
+      if (target) report("ALREADY_AUTHORIZED", "error", "That address is already an authorized attestor");
+      return { transactions: 1, simulate: ["vouch", [attestorAddress]] };
+    });
+  }
+
+  private _preflightAddRootAttestor(attestorAddress: AztecAddress): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      if (await this.isAuthorizedAttestor(attestorAddress)) {
+        report("ALREADY_AUTHORIZED", "error", "That address is already an authorized attestor");
+      }
+      // Only the contract knows the admin; the simulation reports NOT_ADMIN
+      return { transactions: 1, simulate: ["add_root_attestor", [attestorAddress]] };
+    });
+  }
+
+  private _preflightStoreCredential(opts: StoreCredentialOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const keyId = await hashKeyId(opts.keyId);
+      const value = this._credentialBytes(opts.value, opts.contentType);
+      const [existing, name] = await Promise.all([
+        this._readCredentialFields(keyId),
+        this._readCredentialFields(await nameKeyId(keyId)),
+      ]);
+      if (existing) {
+        report(
+          "INVALID_ARGUMENT",
+          "warning",
+          `A credential is already stored under '${opts.keyId}'; use rotateCredential() to replace it atomically`,
+        );
+      }
+      const { head, chunks } = await encodeCredential(value.bytes, value.contentType, 0);
+      const nameTransactions = name ? 0 : await this._encodedNoteCount(opts.keyId);
+      return {
+        transactions: nameTransactions + chunks.length + 1,
+        simulate: ["store_credential", [keyId, head, this._encodeLabel(opts.label)]],
+      };
+    });
+  }
+
+  private _preflightDeleteCredential(keyId: string): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const keyIdHash = await hashKeyId(keyId);
+      const [head, name] = await Promise.all([
+        this._readCredentialFields(keyIdHash),
+        this._readCredentialFields(await nameKeyId(keyIdHash)),
+      ]);
+      if (!head) {
+        report("CREDENTIAL_NOT_FOUND", "error", `No credential found for '${keyId}' -- nothing to delete`);
+        return { transactions: 0 };
+      }
+      const nameTransactions = name ? 1 + (parseCredentialHeader(name)?.chunkCount ?? 0) : 0;
+      return {
+        transactions: 1 + (parseCredentialHeader(head)?.chunkCount ?? 0) + nameTransactions,
+        simulate: ["delete_credential", [keyIdHash]],
+      };
+    });
+  }
+
+  private _preflightRotateCredential(opts: RotateCredentialOptions): Promise<PreflightResult> {
+    return this._dryRun(async (report) => {
+      const keyIdHash = await hashKeyId(opts.keyId);
+      const value = this._credentialBytes(opts.newValue, opts.contentType);
+      const oldHead = await this._readCredentialFields(keyIdHash);
+      if (!oldHead) {
+        report("CREDENTIAL_NOT_FOUND", "error", `No credential found for '${opts.keyId}' -- cannot rotate it`);
+        return { transactions: 0 };
+      }
+      const { head, chunks } = await encodeCredential(value.bytes, value.contentType, 0);
+      return {
+        transactions: chunks.length + 1 + (parseCredentialHeader(oldHead)?.chunkCount ?? 0),
+        simulate: ["rotate_credential", [keyIdHash, head, this._encodeLabel(opts.newLabel)]],
+      };
+    });
+  }
+
+  /** Notes (and so transactions) needed to store a UTF-8 string, e.g. a key ID's name note. */
+  private async _encodedNoteCount(text: string): Promise<number> {
+    const { chunks } = await encodeCredential(new TextEncoder().encode(text), "utf8", 0);
+    return 1 + chunks.length;
+  }
+
+  private async _readCredentialFields(keyIdHash: Fr): Promise<CredentialFields | null> {
+    const result = await this._simulate(this.contract.methods.get_credential(this.from, keyIdHash));
+    // get_credential returns Option<[Field; 4]> — check if Some
+    if (!result || (result as any).is_none?.() || (result as any)._is_some === false) return null;
+    const value = (result as any).unwrap?.() ?? (result as any)._value ?? result;
+    return value.map(toFr) as CredentialFields;
+  }
+
+  /** A credential's head note with its label, via get_credential_entry (get_credential returns the value only). */
+  private async _readCredentialEntry(keyIdHash: Fr): Promise<{ value: CredentialFields; label: Fr } | null> {
+    const result = await this._simulate(this.contract.methods.get_credential_entry(this.from, keyIdHash));
+    // get_credential_entry returns Option<CredentialEntry> — check if Some
+    if (!result || (result as any).is_none?.() || (result as any)._is_some === false) return null;
+    const entry = (result as any).unwrap?.() ?? (result as any)._value ?? result;
+    return { value: entry.value.map(toFr) as CredentialFields, label: toFr(entry.label) };
+  }
+
+  /**
+   * Every CredentialNote in the caller's vault, via the list_credentials utility view.
+   * Pages CREDENTIAL_PAGE_SIZE notes at a time until a short page marks the end.
+   */
+  private async _listCredentialNotes(): Promise<Array<{ keyId: Fr; value: CredentialFields; label: Fr }>> {
+    const notes: Array<{ keyId: Fr; value: CredentialFields; label: Fr }> = [];
+    for (let offset = 0; ; offset += CREDENTIAL_PAGE_SIZE) {
+      const result = await this._simulate(
+        this.contract.methods.list_credentials(this.from, offset, CREDENTIAL_PAGE_SIZE),
+      );
+      // list_credentials returns BoundedVec<CredentialEntry, N> — only the first `len` slots are set
+      const entries: any[] = Array.isArray(result) ? result : result.storage.slice(0, Number(result.len));
+      for (const entry of entries) {
+        notes.push({
+          keyId: toFr(entry.key_id),
+          value: entry.value.map(toFr) as CredentialFields,
+          label: toFr(entry.label),
+        });
+      }
+      if (entries.length < CREDENTIAL_PAGE_SIZE) return notes;
+    }
+  }
+
+  /** Record a credential's key ID in its name note, unless one is already there. */
+  private async _storeCredentialName(keyIdHash: Fr, keyId: string): Promise<void> {
+    const nameKey = await nameKeyId(keyIdHash);
+    if (await this._readCredentialFields(nameKey)) return;
+    const head = await this._writeCredentialChunks(nameKey, {
+      bytes: new TextEncoder().encode(keyId),
+      contentType: "utf8",
+    });
+    await this._send("store_credential", [nameKey, head, Fr.ZERO]);
+  }
+
+  private async _deleteCredentialName(keyIdHash: Fr): Promise<void> {
+    const nameKey = await nameKeyId(keyIdHash);
+    const head = await this._readCredentialFields(nameKey);
+    if (!head) return;
+    await this._send("delete_credential", [nameKey]);
+    await this._deleteCredentialChunks(nameKey, parseCredentialHeader(head));
+  }
+
+  /** Encode a credential value with its content type and enforce maxCredentialBytes. */
+  private _credentialBytes(
+    value: string | Uint8Array,
+    contentType?: CredentialContentType,
+  ): { bytes: Uint8Array; contentType: CredentialContentType } {
+    const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+    const type = contentType ?? (typeof value === "string" ? "utf8" : "binary");
+    const max = this.options.maxCredentialBytes ?? DEFAULT_MAX_CREDENTIAL_BYTES;
+    if (bytes.length > max) {
+      throw isnadError(
+        "CREDENTIAL_TOO_LARGE",
+        `Credential value is ${bytes.length} bytes, over the ${max}-byte limit (raise maxCredentialBytes in IsnadSDK.connect to allow it)`,
+      );
+    }
+    if (type === "json") {
+      try {
+        JSON.parse(new TextDecoder("utf-8", { fatal: true }).decode(bytes));
+      } catch (err) {
+        throw isnadError(
+          "INVALID_ARGUMENT",
+          `Credential value is not valid JSON: ${err instanceof Error ? err.message : err}`,
+          err,
+        );
       }
-      bytes.push(...chunk);
     }
-    // Remove null bytes
-    const nonNull = bytes.filter((b) => b !== 0);
-    return new TextDecoder().decode(new Uint8Array(nonNull));
+    return { bytes, contentType: type };
   }
 
-  /** Returns the trust score weight multiplier for a given chain depth. */
-  private _weightForDepth(depth: number): number {
-    if (depth === 0) return 4;
-    if (depth === 1) return 3;
-    if (depth === 2) return 2;
-    return 1;
+  /**
+   * Store the continuation notes of a value (if it needs any) and return the head
+   * note's fields, which the caller stores or rotates in last.
+   */
+  private async _writeCredentialChunks(
+    keyIdHash: Fr,
+    value: { bytes: Uint8Array; contentType: CredentialContentType },
+    avoidGeneration?: number,
+  ): Promise<CredentialFields> {
+    let generation: number;
+    do {
+      generation = globalThis.crypto.getRandomValues(new Uint32Array(1))[0];
+    } while (generation === avoidGeneration);
+    const { head, chunks } = await encodeCredential(value.bytes, value.contentType, generation);
+    for (let i = 0; i < chunks.length; i++) {
+      const chunkKey = await chunkKeyId(keyIdHash, generation, i + 1);
+      await this._send("store_credential", [chunkKey, chunks[i], Fr.ZERO]);
+    }
+    return head;
+  }
+
+  private async _deleteCredentialChunks(keyIdHash: Fr, header: CredentialHeader | null): Promise<void> {
+    for (const key of await this._chunkKeys(keyIdHash, header)) {
+      await this._send("delete_credential", [key]);
+    }
+  }
+
+  private async _chunkKeys(keyIdHash: Fr, header: CredentialHeader | null): Promise<Fr[]> {
+    if (!header) return [];
+    return Promise.all(
+      Array.from({ length: header.chunkCount }, (_, i) => chunkKeyId(keyIdHash, header.generation, i + 1)),
+    );
+  }
+
+  /**
+   * Decode a head note — fetching and verifying continuation notes when there are
+   * any — and shape the value as requested. The label is left empty for the caller
+   * to fill in: a head note read by key does not carry it.
+   */
+  private async _readCredential(
+    keyId: string,
+    keyIdHash: Fr,
+    head: CredentialFields,
+    read: (key: Fr) => Promise<CredentialFields | null>,
+    as: CredentialReadAs = "string",
+  ): Promise<CredentialResult<unknown>> {
+    const header = parseCredentialHeader(head);
+    const contentType = header?.contentType ?? "utf8";
+    let bytes: Uint8Array;
+    if (!header) {
+      bytes = decodeLegacyNote(head);
+    } else {
+      const chunks: CredentialFields[] = [];
+      const keys = await this._chunkKeys(keyIdHash, header);
+      for (let i = 0; i < keys.length; i++) {
+        const chunk = await read(keys[i]);
+        if (!chunk) {
+          throw isnadError(
+            "CREDENTIAL_CORRUPT",
+            `Credential '${keyId}' is incomplete: chunk ${i + 1} of ${keys.length} is missing`,
+          );
+        }
+        chunks.push(chunk);
+      }
+      try {
+        bytes = await assembleCredential(header, head, chunks);
+      } catch (err) {
+        const cause = toIsnadError(err);
+        throw isnadError(cause.code, `Credential '${keyId}': ${cause.message}`, err);
+      }
+    }
+
+    let value: unknown;
+    if (as === "bytes") {
+      value = bytes;
+    } else if (as === "json") {
+      try {
+        value = JSON.parse(new TextDecoder().decode(bytes));
+      } catch {
+        throw isnadError("INVALID_ARGUMENT", `Credential '${keyId}' (${contentType}) does not hold valid JSON`);
+      }
+    } else {
+      value = contentType === "binary" ? Buffer.from(bytes).toString("base64") : new TextDecoder().decode(bytes);
+    }
+    return { keyId, value, label: "", contentType };
+  }
+
+  private _decodeLabel(label: Fr): string {
+    let value = label.toBigInt();
+    const bytes: number[] = [];
+    while (value > 0n) {
+      bytes.unshift(Number(value & 0xffn));
+      value >>= 8n;
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
   }
 
   private _encodeLabel(label: string): Fr {
@@ -528,3 +1682,29 @@ export class IsnadSDK {
     return new Fr(value);
   }
 }
+
+/** Parse a hex evidence hash into a Field. */
+function toEvidenceField(evidenceHash: string | Fr): Fr {
+  if (typeof evidenceHash !== "string") return evidenceHash;
+  try {
+    return Fr.fromHexString(evidenceHash);
+  } catch (err) {
+    throw isnadError("INVALID_ARGUMENT", `Invalid evidence hash '${evidenceHash}'`, err);
+  }
+}
+
+function checkSeverity(severity: number): void {
+  if (!Object.values(ReportSeverity).includes(severity as ReportSeverity)) {
+    throw isnadError("INVALID_ARGUMENT", `severity must be 0, 1 or 2, got ${severity}`);
+  }
+}
+
+/** Simulation results decode Fields as bigints; fakes and older clients return Fr. */
+function toFr(value: Fr | bigint | string | number): Fr {
+  return value instanceof Fr ? value : new Fr(BigInt(value));
+}
+
+/** Receipts carry the block number as a branded number, or nothing before inclusion. */
+function toBlockNumber(blockNumber: unknown): number | undefined {
+  return blockNumber === undefined || blockNumber === null ? undefined : Number(blockNumber);
+}
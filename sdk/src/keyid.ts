@@ -0,0 +1,70 @@
+import { Fr } from "@aztec/aztec.js/fields";
+import { poseidon2HashWithSeparator } from "@aztec/foundation/crypto/poseidon";
+
+/**
+ * Credential key ID hashing.
+ *
+ * The contract stores credentials under an opaque `key_id: Field`. The SDK derives
+ * that field from the human-readable key ID ('openai-api-key') so callers never
+ * handle field elements directly.
+ */
+
+/** Domain separator for key ID hashes ("isnk" as a big-endian u32). */
+export const KEY_ID_DOMAIN_SEPARATOR = 0x69736e6b;
+
+/**
+ * Hash a credential key ID to a Field: poseidon2 over [byteLength, ...31-byte chunks]
+ * of its UTF-8 encoding, with KEY_ID_DOMAIN_SEPARATOR.
+ *
+ * Any length is accepted, and distinct key IDs give distinct fields. The length
+ * prefix keeps 'a' and 'a\0' apart, which zero-padded chunks alone would not.
+ */
+export async function hashKeyId(keyId: string): Promise<Fr> {
+  const bytes = new TextEncoder().encode(keyId);
+  const fields: bigint[] = [BigInt(bytes.length)];
+  for (let i = 0; i < bytes.length; i += 31) {
+    let value = 0n;
+    for (const byte of bytes.subarray(i, i + 31)) {
+      value = (value << 8n) | BigInt(byte);
+    }
+    fields.push(value);
+  }
+  return poseidon2HashWithSeparator(fields, KEY_ID_DOMAIN_SEPARATOR);
+}
+
+/**
+ * The pre-poseidon2 key ID encoding: the first 31 UTF-8 bytes packed big-endian.
+ *
+ * Key IDs sharing a 31-byte prefix collide under this encoding. Only used to find
+ * credentials stored by older SDK versions — see IsnadSDK.migrateLegacyCredentials().
+ */
+export function legacyKeyIdField(keyId: string): Fr {
+  const bytes = new TextEncoder().encode(keyId);
+  let value = 0n;
+  for (let i = 0; i < Math.min(bytes.length, 31); i++) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return new Fr(value);
+}
+
+/** Domain separator for continuation-note key IDs ("isnc" as a big-endian u32). */
+export const CHUNK_KEY_ID_DOMAIN_SEPARATOR = 0x69736e63;
+
+/**
+ * Key ID of continuation note `index` (1-based) of a chunked credential.
+ * The generation tag keeps a rotation's new chunks apart from the ones it replaces.
+ */
+export async function chunkKeyId(keyIdHash: Fr, generation: number, index: number): Promise<Fr> {
+  return poseidon2HashWithSeparator([keyIdHash, BigInt(generation), BigInt(index)], CHUNK_KEY_ID_DOMAIN_SEPARATOR);
+}
+
+/** Domain separator for key-name note key IDs ("isnn" as a big-endian u32). */
+export const NAME_KEY_ID_DOMAIN_SEPARATOR = 0x69736e6e;
+
+/**
+ * Key ID of the note recording a credential's human-readable key ID.
+ * The contract only sees hashed key IDs; listCredentials() reads the names back from these.
+ */
+export async function nameKeyId(keyIdHash: Fr): Promise<Fr> {
+  return poseidon2HashWithSeparator([keyIdHash], NAME_KEY_ID_DOMAIN_SEPARATOR);
+}
@@ -0,0 +1,423 @@
+import { parse as parseYaml } from "yaml";
+import { isnadError, type IsnadError } from "./errors.js";
+import { normalizeSkillHash } from "./hash.js";
+import type { InstallVerdict, SkillTrustInfo } from "./types.js";
+import { INSTALL_THRESHOLD_COUNT, INSTALL_THRESHOLD_REPORTS, INSTALL_THRESHOLD_SCORE } from "./types.js";
+
+/**
+ * Thresholds a skill must meet for "allow". Missing fields in a category
+ * fall back to the policy's default thresholds.
+ */
+export interface PolicyThresholds {
+  /** Minimum depth-weighted trust score */
+  scoreThreshold: bigint;
+  /** Minimum number of unique attestors */
+  countThreshold: bigint;
+  /**
+   * Number of malicious reports (SkillTrustInfo.reportCount) at which the skill is
+   * denied. 0 disables the check.
+   */
+  reportThreshold: bigint;
+  /**
+   * Minimum number of root attestors (depth=0) among the skill's attestors.
+   * The contract does not expose per-depth counts, so this is checked against
+   * PolicyContext.rootAttestorCount. 0 disables the check.
+   */
+  minRootAttestors: number;
+}
+
+/**
+ * A time-limited exception for one skill hash.
+ */
+export interface PolicyOverride {
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  /** Verdict to return while the override is active */
+  verdict: InstallVerdict;
+  /** Expiry, in milliseconds since the epoch */
+  expiresAt: number;
+  /** Why the override exists — surfaced in the decision trace */
+  reason?: string;
+}
+
+/**
+ * A validated install policy, ready for InstallPolicyEngine.
+ * Produce one from a file with parseInstallPolicy() or the InstallPolicyEngine.from* helpers.
+ */
+export interface InstallPolicy {
+  /** Thresholds for skills with no category, or a category the policy does not list */
+  default: PolicyThresholds;
+  /** Per-category thresholds, e.g. { financial: { scoreThreshold: 1200n, ... } } */
+  categories: Record<string, PolicyThresholds>;
+  /** Skill hashes that are always allowed (unless quarantined) */
+  allow: string[];
+  /** Skill hashes that are always denied */
+  deny: string[];
+  /** Time-limited per-skill verdicts */
+  overrides: PolicyOverride[];
+}
+
+/**
+ * Facts about the skill that are not part of SkillTrustInfo.
+ */
+export interface PolicyContext {
+  /** The skill's category, selecting per-category thresholds (e.g. "financial") */
+  category?: string;
+  /** Number of root attestors (depth=0) among the skill's attestors, if known */
+  rootAttestorCount?: number;
+  /** Evaluation time for override expiry, in ms. Defaults to Date.now(). */
+  now?: number;
+}
+
+/** The rule that produced a verdict. Rules are checked in this order. */
+export type PolicyRule =
+  | "quarantine"
+  | "denylist"
+  | "override"
+  | "allowlist"
+  | "reports"
+  | "unattested"
+  | "thresholds";
+
+/**
+ * One step of a decision trace.
+ *
+ *   match — the rule applied and decided the verdict
+ *   pass  — the rule was checked and did not apply
+ *   skip  — the rule was not evaluated (e.g. an expired override)
+ */
+export interface PolicyTraceStep {
+  rule: PolicyRule;
+  outcome: "match" | "pass" | "skip";
+  detail: string;
+}
+
+/**
+ * The result of InstallPolicyEngine.evaluate(): the verdict plus an explanation.
+ */
+export interface PolicyDecision {
+  verdict: InstallVerdict;
+  /** The rule that decided the verdict */
+  rule: PolicyRule;
+  /** Human-readable reason, the detail of the deciding trace step */
+  reason: string;
+  /** Every rule that was checked, in order */
+  trace: PolicyTraceStep[];
+}
+
+/**
+ * The built-in policy: the community baseline from types.ts.
+ *
+ *   deny    — quarantined, reported malicious ≥ INSTALL_THRESHOLD_REPORTS (3) times, or zero attestations
+ *   allow   — count ≥ INSTALL_THRESHOLD_COUNT (3) and score ≥ INSTALL_THRESHOLD_SCORE (300)
+ *   sandbox — anything in between
+ *
+ * IsnadSDK.checkInstallPolicy() evaluates this policy.
+ */
+export const DEFAULT_INSTALL_POLICY: InstallPolicy = {
+  default: {
+    scoreThreshold: INSTALL_THRESHOLD_SCORE,
+    countThreshold: INSTALL_THRESHOLD_COUNT,
+    reportThreshold: INSTALL_THRESHOLD_REPORTS,
+    minRootAttestors: 0,
+  },
+  categories: {},
+  allow: [],
+  deny: [],
+  overrides: [],
+};
+
+/**
+ * InstallPolicyEngine — evaluates a declarative install policy against a skill's trust info.
+ *
+ * Rules are applied in a fixed order, first match wins:
+ *
+ *   1. quarantine  — a quarantined skill is always denied; nothing overrides this
+ *   2. denylist    — hash is in `deny`
+ *   3. override    — an unexpired override for the hash returns its verdict
+ *   4. allowlist   — hash is in `allow`
+ *   5. reports     — reportCount at or above the category (or default) reportThreshold is denied
+ *   6. unattested  — zero attestations is denied
+ *   7. thresholds  — category (or default) thresholds decide allow vs. sandbox
+ *
+ * Policy file (YAML shown; JSON has the same shape):
+ * ```yaml
+ * default:
+ *   scoreThreshold: 300
+ *   countThreshold: 3
+ * categories:
+ *   financial:
+ *     scoreThreshold: 1200
+ *     reportThreshold: 1
+ *     minRootAttestors: 1
+ * allow:
+ *   - "0x1a2b..."
+ * deny:
+ *   - "0x3c4d..."
+ * overrides:
+ *   - skillHash: "0x5e6f..."
+ *     verdict: allow
+ *     expires: "2026-06-30T00:00:00Z"
+ *     reason: internal tool, audit scheduled
+ * ```
+ *
+ * Usage:
+ * ```typescript
+ * import { InstallPolicyEngine } from '@nullius/isnad';
+ *
+ * const engine = await InstallPolicyEngine.fromFile('./isnad-policy.yaml');
+ * const decision = engine.evaluate(info, { category: 'financial', rootAttestorCount: 1 });
+ * if (decision.verdict !== 'allow') console.warn(decision.reason);
+ * ```
+ */
+export class InstallPolicyEngine {
+  private readonly allow: Set<string>;
+  private readonly deny: Set<string>;
+
+  constructor(readonly policy: InstallPolicy = DEFAULT_INSTALL_POLICY) {
+    this.allow = new Set(policy.allow);
+    this.deny = new Set(policy.deny);
+  }
+
+  /** Build an engine from an already-parsed policy document (e.g. JSON.parse output). */
+  static fromObject(raw: unknown): InstallPolicyEngine {
+    return new InstallPolicyEngine(parseInstallPolicy(raw));
+  }
+
+  /** Build an engine from JSON text. Malformed JSON throws INVALID_ARGUMENT, as an invalid policy does. */
+  static fromJson(text: string): InstallPolicyEngine {
+    return InstallPolicyEngine.fromObject(parsePolicyText(text, "JSON"));
+  }
+
+  /** Build an engine from YAML text. Malformed YAML throws INVALID_ARGUMENT, as an invalid policy does. */
+  static fromYaml(text: string): InstallPolicyEngine {
+    return InstallPolicyEngine.fromObject(parsePolicyText(text, "YAML"));
+  }
+
+  /**
+   * Load a policy file (Node.js only). `.yaml` / `.yml` files are parsed as YAML,
+   * anything else as JSON.
+   */
+  static async fromFile(path: string): Promise<InstallPolicyEngine> {
+    const fs = await import(/* webpackIgnore: true */ "node:fs/promises");
+    const text = await fs.readFile(path, "utf8");
+    return /\.ya?ml$/i.test(path) ? InstallPolicyEngine.fromYaml(text) : InstallPolicyEngine.fromJson(text);
+  }
+
+  /**
+   * Evaluate the policy for one skill.
+   *
+   * @param info  Trust info from getTrustScore()
+   * @param ctx   Category, root attestor count and evaluation time
+   * @returns     The verdict, the deciding rule, and the full trace
+   */
+  evaluate(info: SkillTrustInfo, ctx?: PolicyContext): PolicyDecision {
+    const trace: PolicyTraceStep[] = [];
+    const decide = (rule: PolicyRule, verdict: InstallVerdict, detail: string): PolicyDecision => {
+      trace.push({ rule, outcome: "match", detail });
+      return { verdict, rule, reason: detail, trace };
+    };
+    const pass = (rule: PolicyRule, detail: string) => trace.push({ rule, outcome: "pass", detail });
+
+    let hash: string | undefined;
+    try {
+      hash = normalizeSkillHash(info.skillHash);
+    } catch {
+      // Not a hex hash — it cannot appear in any list or override.
+    }
+    const now = ctx?.now ?? Date.now();
+
+    if (info.isQuarantined) {
+      return decide("quarantine", "deny", "skill is quarantined by the registry admin (KNOWN MALICIOUS)");
+    }
+    pass("quarantine", "skill is not quarantined");
+
+    if (hash && this.deny.has(hash)) return decide("denylist", "deny", "skill hash is on the policy denylist");
+    pass("denylist", "skill hash is not on the denylist");
+
+    for (const override of this.policy.overrides) {
+      if (override.skillHash !== hash) continue;
+      const until = new Date(override.expiresAt).toISOString();
+      if (override.expiresAt <= now) {
+        trace.push({ rule: "override", outcome: "skip", detail: `override to "${override.verdict}" expired at ${until}` });
+        continue;
+      }
+      const why = override.reason ? ` (${override.reason})` : "";
+      return decide("override", override.verdict, `override to "${override.verdict}" active until ${until}${why}`);
+    }
+    pass("override", "no active override for this skill");
+
+    if (hash && this.allow.has(hash)) return decide("allowlist", "allow", "skill hash is on the policy allowlist");
+    pass("allowlist", "skill hash is not on the allowlist");
+
+    const category = ctx?.category;
+    // Own properties only, so a category named "constructor" or "toString" does not hit Object.prototype.
+    const categoryThresholds =
+      category !== undefined && Object.hasOwn(this.policy.categories, category)
+        ? this.policy.categories[category]
+        : undefined;
+    const thresholds = categoryThresholds ?? this.policy.default;
+    const source = categoryThresholds ? `category "${category}"` : "default";
+
+    const reports = info.reportCount;
+    if (thresholds.reportThreshold === 0n) {
+      trace.push({ rule: "reports", outcome: "skip", detail: `${source} policy ignores malicious reports` });
+    } else if (reports === undefined) {
+      trace.push({ rule: "reports", outcome: "skip", detail: "report count unknown" });
+    } else if (reports >= thresholds.reportThreshold) {
+      return decide(
+        "reports",
+        "deny",
+        `skill reported malicious by ${reports} auditor(s) (${source} threshold ${thresholds.reportThreshold})`,
+      );
+    } else {
+      pass("reports", `skill reported malicious by ${reports} auditor(s), below ${thresholds.reportThreshold}`);
+    }
+
+    if (info.attestationCount === 0n) return decide("unattested", "deny", "skill has zero attestations");
+    pass("unattested", `skill has ${info.attestationCount} attestation(s)`);
+
+    const shortfalls: string[] = [];
+    if (info.attestationCount < thresholds.countThreshold) {
+      shortfalls.push(`count ${info.attestationCount} < ${thresholds.countThreshold}`);
+    }
+    if (info.trustScore < thresholds.scoreThreshold) {
+      shortfalls.push(`score ${info.trustScore} < ${thresholds.scoreThreshold}`);
+    }
+    if (thresholds.minRootAttestors > 0) {
+      const roots = ctx?.rootAttestorCount;
+      if (roots === undefined) {
+        shortfalls.push(`root attestor count unknown (need ${thresholds.minRootAttestors})`);
+      } else if (roots < thresholds.minRootAttestors) {
+        shortfalls.push(`root attestors ${roots} < ${thresholds.minRootAttestors}`);
+      }
+    }
+
+    if (shortfalls.length > 0) {
+      return decide("thresholds", "sandbox", `below ${source} thresholds: ${shortfalls.join(", ")}`);
+    }
+    return decide(
+      "thresholds",
+      "allow",
+      `meets ${source} thresholds (count ${info.attestationCount} ≥ ${thresholds.countThreshold}, ` +
+        `score ${info.trustScore} ≥ ${thresholds.scoreThreshold})`,
+    );
+  }
+}
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+const VERDICTS: readonly InstallVerdict[] = ["allow", "sandbox", "deny"];
+
+function parsePolicyText(text: string, format: "JSON" | "YAML"): unknown {
+  try {
+    return format === "JSON" ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw isnadError(
+      "INVALID_ARGUMENT",
+      `Policy is not valid ${format}: ${err instanceof Error ? err.message : err}`,
+      err,
+    );
+  }
+}
+
+/**
+ * Validate a policy document (parsed JSON or YAML) and convert it to an InstallPolicy.
+ *
+ * Thresholds may be numbers or decimal strings (for values above 2^53).
+ * Hashes are normalized as normalizeSkillHash() does, so they match on-chain hashes
+ * however they are spelled. Override `expires` is an ISO 8601 date.
+ * Omitted sections fall back to DEFAULT_INSTALL_POLICY.
+ *
+ * @throws IsnadError INVALID_ARGUMENT naming the offending field when the document is malformed
+ */
+export function parseInstallPolicy(raw: unknown): InstallPolicy {
+  const doc = expectObject(raw ?? {}, "policy");
+  const defaults = parseThresholds(doc.default ?? {}, "default", DEFAULT_INSTALL_POLICY.default);
+
+  // fromEntries defines own properties, so a "__proto__" category stays a category instead of a prototype.
+  const categories: Record<string, PolicyThresholds> = Object.fromEntries(
+    Object.entries(expectObject(doc.categories ?? {}, "categories")).map(([name, value]) => [
+      name,
+      parseThresholds(value, `categories.${name}`, defaults),
+    ]),
+  );
+
+  return {
+    default: defaults,
+    categories,
+    allow: parseHashList(doc.allow, "allow"),
+    deny: parseHashList(doc.deny, "deny"),
+    overrides: expectArray(doc.overrides ?? [], "overrides").map((value, i) => {
+      const path = `overrides[${i}]`;
+      const o = expectObject(value, path);
+      if (!VERDICTS.includes(o.verdict as InstallVerdict)) {
+        throw policyError(`${path}.verdict`, `must be one of ${VERDICTS.join(", ")}`);
+      }
+      const expiresAt = typeof o.expires === "string" ? Date.parse(o.expires) : NaN;
+      if (Number.isNaN(expiresAt)) throw policyError(`${path}.expires`, "must be an ISO 8601 date");
+      if (o.reason !== undefined && typeof o.reason !== "string") {
+        throw policyError(`${path}.reason`, "must be a string");
+      }
+      return {
+        skillHash: parseHash(o.skillHash, `${path}.skillHash`),
+        verdict: o.verdict as InstallVerdict,
+        expiresAt,
+        reason: o.reason as string | undefined,
+      };
+    }),
+  };
+}
+
+function parseThresholds(raw: unknown, path: string, fallback: PolicyThresholds): PolicyThresholds {
+  const t = expectObject(raw, path);
+  return {
+    scoreThreshold: t.scoreThreshold === undefined
+      ? fallback.scoreThreshold
+      : parseBigint(t.scoreThreshold, `${path}.scoreThreshold`),
+    countThreshold: t.countThreshold === undefined
+      ? fallback.countThreshold
+      : parseBigint(t.countThreshold, `${path}.countThreshold`),
+    reportThreshold: t.reportThreshold === undefined
+      ? fallback.reportThreshold
+      : parseBigint(t.reportThreshold, `${path}.reportThreshold`),
+    minRootAttestors: t.minRootAttestors === undefined
+      ? fallback.minRootAttestors
+      : Number(parseBigint(t.minRootAttestors, `${path}.minRootAttestors`)),
+  };
+}
+
+function parseBigint(value: unknown, path: string): bigint {
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  throw policyError(path, "must be a non-negative integer");
+}
+
+function parseHashList(value: unknown, path: string): string[] {
+  return expectArray(value ?? [], path).map((h, i) => parseHash(h, `${path}[${i}]`));
+}
+
+function parseHash(value: unknown, path: string): string {
+  if (typeof value !== "string") throw policyError(path, "must be a hex skill hash");
+  try {
+    return normalizeSkillHash(value);
+  } catch {
+    throw policyError(path, `"${value}" is not a valid skill hash`);
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw policyError(path, "must be an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw policyError(path, "must be an array");
+  return value;
+}
+
+function policyError(path: string, message: string): IsnadError {
+  return isnadError("INVALID_ARGUMENT", `Invalid install policy: ${path} ${message}`);
+}
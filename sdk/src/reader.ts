@@ -0,0 +1,197 @@
+/**
+ * IsnadReader — wallet-free access to the IsnadRegistry's public state.
+ *
+ * Everything the registry exposes through its public views (trust scores,
+ * attestation counts, quarantine flags, the vouching chain) lives in public
+ * storage, so it can be read straight from an Aztec node: no PXE account,
+ * no wallet, no `from` address. Directories and installers that only check trust
+ * should use this instead of IsnadSDK.connect().
+ *
+ * @example
+ * ```typescript
+ * import { IsnadReader } from '@nullius/isnad/reader';
+ *
+ * const reader = IsnadReader.connect('https://devnet.aztec-labs.com', contractAddress);
+ * const info = await reader.getTrustScore(skillHash);
+ * ```
+ */
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { createAztecNodeClient, type AztecNode } from "@aztec/aztec.js/node";
+import { isnadError, toIsnadError } from "./errors.js";
+import type { AttestorInfo, BatchTrustOptions, SkillTrustInfo } from "./types.js";
+import { publicMapSlot, type PublicMap } from "./slots.js";
+import { batchTrustScores, toSkillField, weightForDepth } from "./utils.js";
+import { watchTrust, type TrustChangeHandler, type TrustWatch, type WatchOptions } from "./watch.js";
+
+/** A block to read at: a block number from the node, or its latest block. */
+type ReadBlock = Parameters<AztecNode["getPublicStorageAt"]>[0];
+
+export class IsnadReader {
+  private constructor(
+    private readonly node: AztecNode,
+    private readonly contractAddress: AztecAddress,
+  ) {}
+
+  /**
+   * Create a reader for a deployed IsnadRegistry.
+   *
+   * Nothing is fetched until the first read, so this never fails for an
+   * unreachable node; the reads throw PXE_UNREACHABLE instead.
+   *
+   * @param node             URL of an Aztec node (a local network serves one next to its PXE), or a node client
+   * @param contractAddress  Address of the deployed IsnadRegistry contract
+   */
+  static connect(node: string | AztecNode, contractAddress: AztecAddress | string): IsnadReader {
+    let address: AztecAddress;
+    try {
+      address = typeof contractAddress === "string" ? AztecAddress.fromString(contractAddress) : contractAddress;
+    } catch (err) {
+      throw isnadError("INVALID_ARGUMENT", `Invalid contract address '${contractAddress}'`, err);
+    }
+    return new IsnadReader(typeof node === "string" ? createAztecNodeClient(node) : node, address);
+  }
+
+  /**
+   * Read the trust score, attestation count, quarantine status and malicious
+   * report count for a skill, with the same semantics as IsnadSDK.getTrustScore():
+   * trustScore is 0 while the skill is quarantined.
+   *
+   * All four values are read at the same block, so they are always consistent
+   * with each other.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async getTrustScore(skillHash: string | Fr): Promise<SkillTrustInfo> {
+    const hash = toSkillField(skillHash);
+    const block = await this._blockNumber();
+    const [score, count, quarantined, reports] = await Promise.all([
+      this._read("trust_scores", hash, block),
+      this._read("attestation_counts", hash, block),
+      this._read("quarantine_flags", hash, block),
+      this._read("report_counts", hash, block),
+    ]);
+    return {
+      skillHash: hash.toString(),
+      trustScore: quarantined.isZero() ? score.toBigInt() : 0n,
+      attestationCount: count.toBigInt(),
+      isQuarantined: !quarantined.isZero(),
+      reportCount: reports.toBigInt(),
+    };
+  }
+
+  /**
+   * Read trust info for many skills at once, with the same deduplication and
+   * per-skill error handling as IsnadSDK.getTrustScores().
+   *
+   * @param skillHashes  Skill hashes as hex strings or Fr
+   * @param opts         concurrency limit and per-hash error callback
+   * @returns            Map keyed by the normalized skill hash (SkillTrustInfo.skillHash)
+   */
+  async getTrustScores(
+    skillHashes: Iterable<string | Fr>,
+    opts?: BatchTrustOptions,
+  ): Promise<Map<string, SkillTrustInfo>> {
+    return batchTrustScores(skillHashes, opts, (hash) => this.getTrustScore(hash));
+  }
+
+  /**
+   * Number of unique auditors with an active attestation for a skill.
+   * Not affected by quarantine.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async getAttestationCount(skillHash: string | Fr): Promise<bigint> {
+    const count = await this._read("attestation_counts", toSkillField(skillHash));
+    return count.toBigInt();
+  }
+
+  /**
+   * Whether a skill is under admin quarantine (KNOWN MALICIOUS).
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async isQuarantined(skillHash: string | Fr): Promise<boolean> {
+    const flag = await this._read("quarantine_flags", toSkillField(skillHash));
+    return !flag.isZero();
+  }
+
+  /**
+   * Number of auditors who have reported a skill as malicious.
+   *
+   * @param skillHash  SHA256 of the skill file, as a hex string or Fr
+   */
+  async getReportCount(skillHash: string | Fr): Promise<bigint> {
+    const count = await this._read("report_counts", toSkillField(skillHash));
+    return count.toBigInt();
+  }
+
+  /**
+   * Check whether an address is an authorized attestor in the Isnad chain.
+   *
+   * @param address  Aztec address to check
+   */
+  async isAuthorizedAttestor(address: AztecAddress | string): Promise<boolean> {
+    const flag = await this._read("is_authorized", this._address(address));
+    return !flag.isZero();
+  }
+
+  /**
+   * Authorization, vouching chain depth and attestation weight of an address,
+   * read at the same block.
+   *
+   * @param address  Aztec address to query
+   */
+  async getAttestorDepth(address: AztecAddress | string): Promise<AttestorInfo> {
+    const key = this._address(address);
+    const block = await this._blockNumber();
+    const [authorized, depth] = await Promise.all([
+      this._read("is_authorized", key, block),
+      this._read("attestor_depth", key, block),
+    ]);
+    return {
+      address: key.toString(),
+      isAuthorized: !authorized.isZero(),
+      depth: Number(depth.toBigInt()),
+      weight: weightForDepth(Number(depth.toBigInt())),
+    };
+  }
+
+  /**
+   * Watch skills for trust changes, as IsnadSDK.watch() does.
+   *
+   * @param skillHashes  Skill hashes as hex strings or Fr
+   * @param handler      Called for each event, in chain order
+   * @param opts         pollInterval, fromBlock, store and onError
+   */
+  watch(skillHashes: Iterable<string | Fr>, handler: TrustChangeHandler, opts?: WatchOptions): TrustWatch {
+    return watchTrust(this.node, this.contractAddress, skillHashes, handler, opts);
+  }
+
+  /** Read one entry of a public map: the raw field stored under `key` (zero when unset). */
+  private async _read(map: PublicMap, key: Fr | AztecAddress, block: ReadBlock = "latest"): Promise<Fr> {
+    try {
+      return await this.node.getPublicStorageAt(block, this.contractAddress, await publicMapSlot(map, key));
+    } catch (err) {
+      throw toIsnadError(err);
+    }
+  }
+
+  private async _blockNumber(): Promise<ReadBlock> {
+    try {
+      return await this.node.getBlockNumber();
+    } catch (err) {
+      throw toIsnadError(err);
+    }
+  }
+
+  private _address(address: AztecAddress | string): AztecAddress {
+    if (typeof address !== "string") return address;
+    try {
+      return AztecAddress.fromString(address);
+    } catch (err) {
+      throw isnadError("INVALID_ARGUMENT", `Invalid address '${address}'`, err);
+    }
+  }
+}
+
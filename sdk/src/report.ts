@@ -0,0 +1,558 @@
+import { isnadError, type IsnadError } from "./errors.js";
+import { fieldToHex, normalizeSkillHash, reduceToField, sha256 } from "./hash.js";
+import type { ClaimType } from "./types.js";
+
+/**
+ * Structured audit reports — what an attestation's evidence_hash commits to.
+ *
+ * An auditor records what they looked at in an AuditReport: findings with the
+ * files and lines they concern, the methodology behind the claim type, the tools
+ * they ran and what someone needs to repeat the audit. They attest with
+ * evidenceHash set to computeReportHash(report) and keep the report off-chain.
+ * Later they can disclose one attestation to a third party
+ * (IsnadSDK.discloseAttestation) and hand over the report; the third party checks
+ * it with verifyAuditReport().
+ *
+ * buildAuditReport() writes version 2. Version 1 reports (no locations, methodology
+ * or reproducibility section) are still validated and verified, so evidence hashes
+ * committed to them stay checkable.
+ *
+ * Runs unchanged in browsers and Node.js: '@nullius/isnad/report'.
+ */
+
+/** The `schema` value of every audit report. */
+export const AUDIT_REPORT_SCHEMA = "isnad.audit-report";
+
+/** The report version buildAuditReport() writes. */
+export const AUDIT_REPORT_VERSION = 2;
+
+/** How serious a finding is, from informational to critical. */
+export type FindingSeverity = "info" | "low" | "medium" | "high" | "critical";
+
+export const FINDING_SEVERITIES: readonly FindingSeverity[] = ["info", "low", "medium", "high", "critical"];
+
+/**
+ * Quality points suggestQuality() takes off 100 per finding of each severity. One
+ * critical finding is enough to suggest 0.
+ */
+export const FINDING_PENALTIES: Readonly<Record<FindingSeverity, number>> = {
+  info: 0,
+  low: 5,
+  medium: 15,
+  high: 40,
+  critical: 100,
+};
+
+/**
+ * Where a finding is: a file in the skill bundle and optionally a line range.
+ */
+export interface AuditLocation {
+  /** Bundle path, '/'-separated as in the bundle manifest (e.g. "scripts/fetch.js") */
+  file: string;
+  /** First line, 1-based */
+  startLine?: number;
+  /** Last line, inclusive; needs startLine */
+  endLine?: number;
+}
+
+/**
+ * One thing the auditor found.
+ */
+export interface AuditFinding {
+  /** Short identifier, unique within the report (e.g. "ENV-READ-1") */
+  id: string;
+  severity: FindingSeverity;
+  title: string;
+  description?: string;
+  /** Files and lines the finding concerns (version 2) */
+  locations?: AuditLocation[];
+}
+
+/**
+ * A tool the auditor ran, pinned to the version used.
+ */
+export interface AuditTool {
+  name: string;
+  version: string;
+}
+
+/**
+ * A command the auditor ran, so the audit can be repeated.
+ */
+export interface AuditCommand {
+  command: string;
+  exitCode?: number;
+}
+
+/**
+ * What someone needs to repeat the audit and get the same findings.
+ */
+export interface AuditReproducibility {
+  /** Commands in the order they were run */
+  commands: AuditCommand[];
+  /** Where the audited code came from (e.g. a git URL and commit, or an archive URL) */
+  source?: string;
+  /** OS, runtime and sandbox the audit ran in */
+  environment?: string;
+  notes?: string;
+}
+
+/**
+ * A validated audit report (version 2). Produce one with buildAuditReport() or
+ * validateAuditReport().
+ */
+export interface AuditReport {
+  schema: typeof AUDIT_REPORT_SCHEMA;
+  version: 2;
+  /** Normalized skill hash (0x + 64 hex) of the audited skill */
+  skillHash: string;
+  /** How the audit was done: the claimType the attestation will carry */
+  claimType: ClaimType;
+  /** What was reviewed, run or traced under that claim type */
+  methodology?: string;
+  findings: AuditFinding[];
+  tools: AuditTool[];
+  reproducibility: AuditReproducibility;
+  /** When the audit finished, ISO 8601 */
+  createdAt: string;
+  /** Free-form summary */
+  summary?: string;
+}
+
+/**
+ * A version 1 report: commands at the top level, findings without locations.
+ */
+export interface AuditReportV1 {
+  schema: typeof AUDIT_REPORT_SCHEMA;
+  version: 1;
+  skillHash: string;
+  claimType: ClaimType;
+  findings: Omit<AuditFinding, "locations">[];
+  tools: AuditTool[];
+  commands: AuditCommand[];
+  createdAt: string;
+  summary?: string;
+}
+
+/** A report of any supported version. Check `version` before reading version 2 fields. */
+export type AnyAuditReport = AuditReport | AuditReportV1;
+
+/**
+ * Input to buildAuditReport(). Lists default to empty and createdAt to now.
+ */
+export interface AuditReportInput {
+  skillHash: string;
+  claimType: ClaimType;
+  methodology?: string;
+  findings?: AuditFinding[];
+  tools?: AuditTool[];
+  reproducibility?: Partial<AuditReproducibility>;
+  createdAt?: Date | string;
+  summary?: string;
+}
+
+const TOOL_JSON_SCHEMA = {
+  type: "object",
+  required: ["name", "version"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1 },
+    version: { type: "string", minLength: 1 },
+  },
+} as const;
+
+const COMMAND_JSON_SCHEMA = {
+  type: "object",
+  required: ["command"],
+  additionalProperties: false,
+  properties: {
+    command: { type: "string", minLength: 1 },
+    exitCode: { type: "integer" },
+  },
+} as const;
+
+const FINDING_V1_PROPERTIES = {
+  id: { type: "string", minLength: 1 },
+  severity: { enum: FINDING_SEVERITIES },
+  title: { type: "string", minLength: 1 },
+  description: { type: "string" },
+} as const;
+
+/**
+ * JSON Schema (draft 2020-12) for version 2 reports, for validating reports with
+ * tools outside this SDK. validateAuditReport() enforces the same rules, plus
+ * unique finding ids and endLine >= startLine.
+ */
+export const AUDIT_REPORT_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "urn:isnad:audit-report:2",
+  title: "Isnad audit report",
+  type: "object",
+  required: ["schema", "version", "skillHash", "claimType", "findings", "tools", "reproducibility", "createdAt"],
+  additionalProperties: false,
+  properties: {
+    schema: { const: AUDIT_REPORT_SCHEMA },
+    version: { const: 2 },
+    skillHash: { type: "string", pattern: "^0x[0-9a-f]{64}$" },
+    claimType: { enum: [0, 1, 2] },
+    methodology: { type: "string" },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "severity", "title"],
+        additionalProperties: false,
+        properties: {
+          ...FINDING_V1_PROPERTIES,
+          locations: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["file"],
+              dependentRequired: { endLine: ["startLine"] },
+              additionalProperties: false,
+              properties: {
+                file: { type: "string", minLength: 1 },
+                startLine: { type: "integer", minimum: 1 },
+                endLine: { type: "integer", minimum: 1 },
+              },
+            },
+          },
+        },
+      },
+    },
+    tools: { type: "array", items: TOOL_JSON_SCHEMA },
+    reproducibility: {
+      type: "object",
+      required: ["commands"],
+      additionalProperties: false,
+      properties: {
+        commands: { type: "array", items: COMMAND_JSON_SCHEMA },
+        source: { type: "string" },
+        environment: { type: "string" },
+        notes: { type: "string" },
+      },
+    },
+    createdAt: { type: "string", format: "date-time" },
+    summary: { type: "string" },
+  },
+} as const;
+
+/** JSON Schema (draft 2020-12) for version 1 reports. */
+export const AUDIT_REPORT_V1_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "urn:isnad:audit-report:1",
+  title: "Isnad audit report (version 1)",
+  type: "object",
+  required: ["schema", "version", "skillHash", "claimType", "findings", "tools", "commands", "createdAt"],
+  additionalProperties: false,
+  properties: {
+    schema: { const: AUDIT_REPORT_SCHEMA },
+    version: { const: 1 },
+    skillHash: { type: "string", pattern: "^0x[0-9a-f]{64}$" },
+    claimType: { enum: [0, 1, 2] },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "severity", "title"],
+        additionalProperties: false,
+        properties: FINDING_V1_PROPERTIES,
+      },
+    },
+    tools: { type: "array", items: TOOL_JSON_SCHEMA },
+    commands: { type: "array", items: COMMAND_JSON_SCHEMA },
+    createdAt: { type: "string", format: "date-time" },
+    summary: { type: "string" },
+  },
+} as const;
+
+/**
+ * Build and validate a version 2 audit report.
+ *
+ * ```typescript
+ * import { buildAuditReport, computeReportHash, suggestQuality } from '@nullius/isnad/report';
+ *
+ * const report = buildAuditReport({
+ *   skillHash,
+ *   claimType: ClaimType.CODE_REVIEW,
+ *   methodology: 'Read every script; ran semgrep with the default rules',
+ *   findings: [
+ *     {
+ *       id: 'NET-1',
+ *       severity: 'low',
+ *       title: 'Fetches weather API over HTTPS',
+ *       locations: [{ file: 'scripts/fetch.js', startLine: 1, endLine: 3 }],
+ *     },
+ *   ],
+ *   tools: [{ name: 'semgrep', version: '1.90.0' }],
+ *   reproducibility: { commands: [{ command: 'semgrep --config auto .', exitCode: 0 }] },
+ * });
+ * await isnad.attest({
+ *   skillHash,
+ *   quality: suggestQuality(report.findings),
+ *   evidenceHash: await computeReportHash(report),
+ * });
+ * ```
+ *
+ * @throws INVALID_ARGUMENT naming the offending field
+ */
+export function buildAuditReport(input: AuditReportInput): AuditReport {
+  const createdAt = input.createdAt instanceof Date ? input.createdAt.toISOString() : input.createdAt;
+  const { commands, ...reproducibility } = input.reproducibility ?? {};
+  return validateAuditReport({
+    schema: AUDIT_REPORT_SCHEMA,
+    version: AUDIT_REPORT_VERSION,
+    skillHash: input.skillHash,
+    claimType: input.claimType,
+    ...(input.methodology !== undefined && { methodology: input.methodology }),
+    findings: input.findings ?? [],
+    tools: input.tools ?? [],
+    reproducibility: { commands: commands ?? [], ...reproducibility },
+    createdAt: createdAt ?? new Date().toISOString(),
+    ...(input.summary !== undefined && { summary: input.summary }),
+  }) as AuditReport;
+}
+
+/**
+ * Check that a parsed JSON document is a valid audit report of a supported version
+ * and return it with its skill hash normalized. Unknown fields are rejected, so two
+ * reports with the same hash always say the same thing.
+ *
+ * @throws INVALID_ARGUMENT naming the offending field
+ */
+export function validateAuditReport(raw: unknown): AnyAuditReport {
+  const doc = expectObject(raw, "report");
+  if (doc.version !== 1 && doc.version !== AUDIT_REPORT_VERSION) {
+    throw reportError("version", `must be 1 or ${AUDIT_REPORT_VERSION}`);
+  }
+  const v2 = doc.version === AUDIT_REPORT_VERSION;
+  checkKeys(
+    doc,
+    "",
+    v2
+      ? [
+          "schema",
+          "version",
+          "skillHash",
+          "claimType",
+          "methodology",
+          "findings",
+          "tools",
+          "reproducibility",
+          "createdAt",
+          "summary",
+        ]
+      : ["schema", "version", "skillHash", "claimType", "findings", "tools", "commands", "createdAt", "summary"],
+  );
+  if (doc.schema !== AUDIT_REPORT_SCHEMA) throw reportError("schema", `must be "${AUDIT_REPORT_SCHEMA}"`);
+
+  let skillHash: string;
+  try {
+    skillHash = normalizeSkillHash(expectString(doc.skillHash, "skillHash"));
+  } catch {
+    throw reportError("skillHash", `"${doc.skillHash}" is not a valid skill hash`);
+  }
+  if (doc.claimType !== 0 && doc.claimType !== 1 && doc.claimType !== 2) {
+    throw reportError("claimType", "must be 0, 1 or 2");
+  }
+  const createdAt = expectString(doc.createdAt, "createdAt");
+  if (Number.isNaN(Date.parse(createdAt))) throw reportError("createdAt", "must be an ISO 8601 date");
+
+  const findings = readFindings(doc.findings, v2);
+  const tools = expectArray(doc.tools, "tools").map((value, i): AuditTool => {
+    const path = `tools[${i}]`;
+    const t = expectObject(value, path);
+    checkKeys(t, path, ["name", "version"]);
+    return {
+      name: expectString(t.name, `${path}.name`, true),
+      version: expectString(t.version, `${path}.version`, true),
+    };
+  });
+  const summary = optionalString(doc.summary, "summary");
+
+  if (!v2) {
+    return {
+      schema: AUDIT_REPORT_SCHEMA,
+      version: 1,
+      skillHash,
+      claimType: doc.claimType,
+      findings,
+      tools,
+      commands: readCommands(doc.commands, "commands"),
+      createdAt,
+      ...summary,
+    };
+  }
+
+  const r = expectObject(doc.reproducibility, "reproducibility");
+  checkKeys(r, "reproducibility", ["commands", "source", "environment", "notes"]);
+  return {
+    schema: AUDIT_REPORT_SCHEMA,
+    version: AUDIT_REPORT_VERSION,
+    skillHash,
+    claimType: doc.claimType,
+    ...optionalString(doc.methodology, "methodology"),
+    findings,
+    tools,
+    reproducibility: {
+      commands: readCommands(r.commands, "reproducibility.commands"),
+      ...optionalString(r.source, "reproducibility.source"),
+      ...optionalString(r.environment, "reproducibility.environment"),
+      ...optionalString(r.notes, "reproducibility.notes"),
+    },
+    createdAt,
+    ...summary,
+  };
+}
+
+/**
+ * A starting quality score for an attestation, from the report's findings: 100
+ * minus FINDING_PENALTIES for each finding, floored at 0. A suggestion only; the
+ * auditor decides the quality they attest.
+ */
+export function suggestQuality(findings: readonly Pick<AuditFinding, "severity">[]): number {
+  const penalty = findings.reduce((sum, f) => sum + (FINDING_PENALTIES[f.severity] ?? 0), 0);
+  return Math.max(0, 100 - penalty);
+}
+
+/**
+ * The canonical JSON text of a report: object keys sorted, no whitespace. This is
+ * the exact byte string computeReportHash() hashes, so publish it rather than a
+ * pretty-printed copy if byte-for-byte reproduction matters.
+ */
+export function canonicalizeAuditReport(report: AnyAuditReport): string {
+  return canonicalJson(validateAuditReport(report));
+}
+
+/**
+ * The evidence hash of a report: SHA256 of its canonical JSON (UTF-8), reduced to a
+ * BN254 field element, as 0x + 64 hex. Pass it as AttestOptions.evidenceHash.
+ *
+ * @throws INVALID_ARGUMENT if the report is not valid
+ */
+export async function computeReportHash(report: AnyAuditReport): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalizeAuditReport(report));
+  return fieldToHex(reduceToField(await sha256(bytes)));
+}
+
+/**
+ * Check a report handed over by an auditor against the evidence hash of their
+ * attestation (AttestationDisclosure.evidenceHash from IsnadSDK.listDisclosures()).
+ * Returns false for a mismatch or an invalid report; never throws.
+ */
+export async function verifyAuditReport(report: unknown, evidenceHash: string): Promise<boolean> {
+  try {
+    const expected = normalizeSkillHash(evidenceHash);
+    return (await computeReportHash(validateAuditReport(report))) === expected;
+  } catch {
+    return false;
+  }
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+function readFindings(value: unknown, withLocations: boolean): AuditFinding[] {
+  const ids = new Set<string>();
+  return expectArray(value, "findings").map((item, i): AuditFinding => {
+    const path = `findings[${i}]`;
+    const f = expectObject(item, path);
+    const keys = ["id", "severity", "title", "description"];
+    checkKeys(f, path, withLocations ? [...keys, "locations"] : keys);
+    const id = expectString(f.id, `${path}.id`, true);
+    if (ids.has(id)) throw reportError(`${path}.id`, `"${id}" is used by an earlier finding`);
+    ids.add(id);
+    if (!FINDING_SEVERITIES.includes(f.severity as FindingSeverity)) {
+      throw reportError(`${path}.severity`, `must be one of ${FINDING_SEVERITIES.join(", ")}`);
+    }
+    return {
+      id,
+      severity: f.severity as FindingSeverity,
+      title: expectString(f.title, `${path}.title`, true),
+      ...optionalString(f.description, `${path}.description`),
+      ...(f.locations !== undefined && { locations: readLocations(f.locations, `${path}.locations`) }),
+    };
+  });
+}
+
+function readLocations(value: unknown, path: string): AuditLocation[] {
+  return expectArray(value, path).map((item, i): AuditLocation => {
+    const at = `${path}[${i}]`;
+    const l = expectObject(item, at);
+    checkKeys(l, at, ["file", "startLine", "endLine"]);
+    for (const key of ["startLine", "endLine"] as const) {
+      if (l[key] !== undefined && (!Number.isInteger(l[key]) || (l[key] as number) < 1)) {
+        throw reportError(`${at}.${key}`, "must be a positive integer");
+      }
+    }
+    if (l.endLine !== undefined) {
+      if (l.startLine === undefined) throw reportError(`${at}.endLine`, "needs startLine");
+      if ((l.endLine as number) < (l.startLine as number)) throw reportError(`${at}.endLine`, "must be >= startLine");
+    }
+    return {
+      file: expectString(l.file, `${at}.file`, true),
+      ...(l.startLine !== undefined && { startLine: l.startLine as number }),
+      ...(l.endLine !== undefined && { endLine: l.endLine as number }),
+    };
+  });
+}
+
+function readCommands(value: unknown, path: string): AuditCommand[] {
+  return expectArray(value, path).map((item, i): AuditCommand => {
+    const at = `${path}[${i}]`;
+    const c = expectObject(item, at);
+    checkKeys(c, at, ["command", "exitCode"]);
+    if (c.exitCode !== undefined && !Number.isInteger(c.exitCode)) {
+      throw reportError(`${at}.exitCode`, "must be an integer");
+    }
+    return {
+      command: expectString(c.command, `${at}.command`, true),
+      ...(c.exitCode !== undefined && { exitCode: c.exitCode as number }),
+    };
+  });
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function checkKeys(value: Record<string, unknown>, path: string, allowed: readonly string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) throw reportError(path ? `${path}.${key}` : key, "is not a report field");
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw reportError(path, "must be an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw reportError(path, "must be an array");
+  return value;
+}
+
+function expectString(value: unknown, path: string, nonEmpty = false): string {
+  if (typeof value !== "string") throw reportError(path, "must be a string");
+  if (nonEmpty && value.trim() === "") throw reportError(path, "must not be empty");
+  return value;
+}
+
+/** `{ [last path segment]: value }` for a present optional string, `{}` when absent. */
+function optionalString(value: unknown, path: string): Record<string, string> {
+  if (value === undefined) return {};
+  return { [path.slice(path.lastIndexOf(".") + 1)]: expectString(value, path) };
+}
+
+function reportError(path: string, message: string): IsnadError {
+  return isnadError("INVALID_ARGUMENT", `Invalid audit report: ${path} ${message}`);
+}
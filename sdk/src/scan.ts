@@ -0,0 +1,444 @@
+import { detectArchiveFormat, readArchive } from "./archive.js";
+import { readBundle, type BundleEntry, type BundleHashOptions } from "./bundle.js";
+import { isnadError } from "./errors.js";
+import {
+  FINDING_SEVERITIES,
+  type AuditFinding,
+  type AuditLocation,
+  type AuditTool,
+  type FindingSeverity,
+} from "./report.js";
+
+/**
+ * Offline static scanner for skills — run before attesting.
+ *
+ * scanSkill() reads a skill file, bundle or archive and tests every text file
+ * against a rule set aimed at what malicious skills actually do: read .env files
+ * and dump process.env, send the result to webhook sites, hide payloads in
+ * base64 and shell out. Nothing is fetched or executed.
+ *
+ * Findings come out in the audit report format (one AuditFinding per rule, with a
+ * location per matching line), ready for buildAuditReport(). Rules are plain data
+ * plus an optional function, so a rule set is extended by appending to
+ * DEFAULT_SCAN_RULES.
+ *
+ * A clean scan is not a clean bill of health: rules catch known patterns, not
+ * intent. Treat findings as leads for the review.
+ *
+ * Runs unchanged in browsers and Node.js: '@nullius/isnad/scan'.
+ */
+
+/** Version of the default rule set; bumped whenever DEFAULT_SCAN_RULES changes. */
+export const SCAN_RULES_VERSION = "1.0.0";
+
+/** The scanner as an audit report tool entry: `tools: [SCANNER_TOOL]`. */
+export const SCANNER_TOOL: AuditTool = { name: "isnad-scan", version: SCAN_RULES_VERSION };
+
+/** Files larger than this are skipped unless ScanOptions.maxFileSize says otherwise (1 MiB). */
+export const DEFAULT_MAX_SCAN_FILE_SIZE = 1024 * 1024;
+
+/** Locations recorded per finding; further matches are counted in the description. */
+export const MAX_FINDING_LOCATIONS = 20;
+
+/** What a rule looks for. */
+export type ScanCategory = "credential-exfiltration" | "network" | "obfuscation" | "shell-execution";
+
+/**
+ * One text file as rules see it.
+ */
+export interface ScanFile {
+  /** Normalized bundle path */
+  path: string;
+  text: string;
+  /** `text` split on line breaks; index 0 is line 1 */
+  lines: string[];
+}
+
+/**
+ * Bundle-wide facts a custom rule may need.
+ */
+export interface ScanContext {
+  /** Every text file in the bundle */
+  files: ScanFile[];
+  /** Hosts the skill declares: ScanOptions.declaredHosts plus hosts named in SKILL.md, lowercase */
+  declaredHosts: ReadonlySet<string>;
+}
+
+/**
+ * A match reported by a rule: a 1-based line in the file being tested.
+ */
+export interface ScanMatch {
+  line: number;
+}
+
+/**
+ * A detection rule, in the spirit of a YARA rule: named patterns and a condition
+ * on how many of them must appear in a file.
+ *
+ * ```typescript
+ * const noTelemetry: ScanRule = {
+ *   id: 'NET-TELEMETRY',
+ *   category: 'network',
+ *   severity: 'low',
+ *   title: 'Sends telemetry',
+ *   patterns: [/segment\.io|mixpanel\.com/i],
+ * };
+ * await scanSkill(bytes, { rules: [...DEFAULT_SCAN_RULES, noTelemetry] });
+ * ```
+ */
+export interface ScanRule {
+  /** Unique within the rule set; becomes the finding id */
+  id: string;
+  category: ScanCategory;
+  severity: FindingSeverity;
+  title: string;
+  description?: string;
+  /** Only test files whose path matches (e.g. /\.(js|ts)$/). Defaults to every text file. */
+  files?: RegExp;
+  /**
+   * Tested line by line. Every line matching any pattern is a location once the
+   * condition holds for the file. The g and y flags are rejected: they make test()
+   * resume from the previous match.
+   */
+  patterns?: RegExp[];
+  /**
+   * How many distinct patterns must match somewhere in the file: "any" (default),
+   * "all", or a number.
+   */
+  condition?: "any" | "all" | number;
+  /** Custom matcher, for checks patterns cannot express. Runs in addition to patterns. */
+  match?: (file: ScanFile, context: ScanContext) => ScanMatch[];
+}
+
+/**
+ * Options for scanSkill().
+ */
+export interface ScanOptions extends BundleHashOptions {
+  /** Rule set to run. Defaults to DEFAULT_SCAN_RULES. */
+  rules?: readonly ScanRule[];
+  /** Hosts the skill is expected to contact, in addition to those named in SKILL.md */
+  declaredHosts?: string[];
+  /** Path to give a single file passed as bytes. Defaults to "SKILL.md". */
+  fileName?: string;
+  /** Skip files larger than this many bytes. Defaults to DEFAULT_MAX_SCAN_FILE_SIZE. */
+  maxFileSize?: number;
+}
+
+/**
+ * A file scanSkill() did not read, and why.
+ */
+export interface SkippedFile {
+  path: string;
+  reason: "binary" | "too-large";
+}
+
+/**
+ * Result of scanSkill().
+ */
+export interface ScanResult {
+  /** One finding per rule that matched, most severe first, in audit report format */
+  findings: AuditFinding[];
+  /** Number of text files scanned */
+  scannedFiles: number;
+  skipped: SkippedFile[];
+  /** The tool entry for the report's `tools` */
+  tool: AuditTool;
+}
+
+// ─── DEFAULT RULES ───────────────────────────────────────────────────────────
+
+/** Services that accept arbitrary HTTP requests and let the sender read them back. */
+const EXFIL_HOSTS =
+  /(?:webhook\.site|requestbin\.(?:com|net)|pipedream\.net|ngrok(?:-free)?\.(?:io|app)|burpcollaborator\.net|oastify\.com|interact\.sh|canarytokens\.com|hooks\.slack\.com|discord(?:app)?\.com\/api\/webhooks|api\.telegram\.org\/bot)/i;
+
+const SENDS =
+  /\b(?:fetch|axios|XMLHttpRequest|sendBeacon|https?\.request|got|request|urlopen|requests\.(?:get|post|put))\s*\(|\b(?:curl|wget|nc|netcat)\s/;
+
+const URL_HOST = /\b(?:https?|wss?):\/\/([a-z0-9.-]+\.[a-z]{2,}|\d{1,3}(?:\.\d{1,3}){3})(?::\d+)?/gi;
+
+/** Reading a .env file. */
+const ENV_FILE_READS = [
+  /['"`][^'"`\n]*\.env['"`]/,
+  /\b(?:cat|source|less|head|tail)\s+[^\n|;]*\.env\b/,
+  /~\/\.[a-z]+\/\.env\b/,
+];
+
+/** Serializing or iterating every environment variable. */
+const ENV_DUMPS = [
+  /JSON\.stringify\(\s*process\.env\s*\)/,
+  /Object\.(?:keys|entries|values|assign)\([^)]*process\.env\s*\)/,
+  /\.\.\.process\.env\b/,
+  /\b(?:dict|json\.dumps)\(\s*os\.environ\s*\)/,
+  /os\.environ\.(?:items|copy)\(\)/,
+  /(?:^|[;&|]\s*)(?:printenv|env)\s*(?:$|[|>])/,
+];
+
+/** Documentation files, where mentioning a pattern is not doing it. */
+const DOCS = /\.(?:md|markdown|txt|rst)$/i;
+
+export const DEFAULT_SCAN_RULES: readonly ScanRule[] = [
+  // Credential exfiltration
+  {
+    id: "EXFIL-ENV-SEND",
+    category: "credential-exfiltration",
+    severity: "critical",
+    title: "Harvests environment secrets and sends data over the network",
+    description:
+      "The same file reads a .env file or dumps the whole environment and makes an outbound request: " +
+      "the shape of a credential stealer.",
+    // Any one of them, against the send; reading a single variable such as an API key is not enough
+    patterns: [new RegExp([...ENV_FILE_READS, ...ENV_DUMPS].map((p) => `(?:${p.source})`).join("|")), SENDS],
+    condition: "all",
+  },
+  {
+    id: "EXFIL-ENV-FILE",
+    category: "credential-exfiltration",
+    severity: "high",
+    title: "Reads a .env file",
+    description: "Skills should receive the secrets they need, not read the agent's .env file.",
+    patterns: ENV_FILE_READS,
+  },
+  {
+    id: "EXFIL-ENV-DUMP",
+    category: "credential-exfiltration",
+    severity: "high",
+    title: "Dumps the whole environment",
+    description: "Serializing or iterating every environment variable collects all of the agent's secrets at once.",
+    patterns: ENV_DUMPS,
+  },
+  {
+    id: "EXFIL-SECRET-FILES",
+    category: "credential-exfiltration",
+    severity: "high",
+    title: "Reads credential files",
+    description: "SSH keys, cloud credentials and package-manager tokens have no place in a skill's inputs.",
+    patterns: [
+      /\.ssh\/(?:id_[a-z0-9]+|authorized_keys)/,
+      /\.aws\/credentials/,
+      /\.(?:npmrc|netrc|pypirc)\b/,
+      /\.config\/gcloud/,
+      /\.kube\/config/,
+    ],
+  },
+  {
+    id: "EXFIL-WEBHOOK",
+    category: "credential-exfiltration",
+    severity: "critical",
+    title: "Contacts a request-capture or webhook service",
+    description: "Request-capture services let an attacker read whatever the skill sends.",
+    patterns: [EXFIL_HOSTS],
+  },
+  // Network
+  {
+    id: "NET-UNDECLARED-HOST",
+    category: "network",
+    severity: "medium",
+    title: "Contacts a host not named in SKILL.md",
+    description: "Every host a skill talks to should be declared where users can see it.",
+    match: (file, { declaredHosts }) => {
+      if (DOCS.test(file.path)) return [];
+      const matches: ScanMatch[] = [];
+      file.lines.forEach((line, i) => {
+        for (const [, host] of line.matchAll(URL_HOST)) {
+          if (!isDeclaredHost(host, declaredHosts)) {
+            matches.push({ line: i + 1 });
+            break;
+          }
+        }
+      });
+      return matches;
+    },
+  },
+  {
+    id: "NET-RAW-IP",
+    category: "network",
+    severity: "medium",
+    title: "Contacts a raw IP address",
+    patterns: [/\b(?:https?|wss?):\/\/(?!127\.0\.0\.1|0\.0\.0\.0|localhost)\d{1,3}(?:\.\d{1,3}){3}\b/],
+  },
+  // Obfuscation
+  {
+    id: "OBF-DECODE-EXEC",
+    category: "obfuscation",
+    severity: "critical",
+    title: "Decodes and executes a payload",
+    description: "Running decoded text hides the real behaviour from reviewers.",
+    patterns: [
+      /\beval\s*\(\s*(?:atob|Buffer\.from|unescape|decodeURIComponent)\s*\(/,
+      /new\s+Function\s*\(\s*(?:atob|Buffer\.from)\s*\(/,
+      /\bexec\s*\(\s*(?:base64\.b64decode|codecs\.decode|zlib\.decompress)\s*\(/,
+      /base64\s+(?:-d|--decode)[^\n|]*\|\s*(?:ba|z)?sh\b/,
+    ],
+  },
+  {
+    id: "OBF-BASE64-BLOB",
+    category: "obfuscation",
+    severity: "medium",
+    title: "Contains a long base64 blob",
+    description: "Long encoded strings can hide code or URLs from a reviewer; decode and review them.",
+    patterns: [/[A-Za-z0-9+/]{200,}={0,2}/],
+  },
+  {
+    id: "OBF-ESCAPED-STRING",
+    category: "obfuscation",
+    severity: "low",
+    title: "Contains a long hex- or unicode-escaped string",
+    patterns: [/(?:\\x[0-9a-fA-F]{2}){20,}|(?:\\u[0-9a-fA-F]{4}){20,}/],
+  },
+  // Shell execution
+  {
+    id: "SHELL-PIPE-TO-SHELL",
+    category: "shell-execution",
+    severity: "critical",
+    title: "Pipes a download into a shell",
+    description: "Whatever the server returns at run time is executed; the reviewed code is not what runs.",
+    patterns: [
+      /\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+)?(?:ba|z|da)?sh\b/,
+      /\b(?:iex|Invoke-Expression)\b[^\n]*DownloadString/i,
+    ],
+  },
+  {
+    id: "SHELL-EXEC",
+    category: "shell-execution",
+    severity: "medium",
+    title: "Runs shell commands",
+    description: "Check every command the skill runs and where its arguments come from.",
+    files: /\.(?:[cm]?[jt]sx?|py|rb)$/,
+    patterns: [
+      /\b(?:require|import)\s*\(?\s*['"](?:node:)?child_process['"]/,
+      /from\s+['"](?:node:)?child_process['"]/,
+      /\b(?:execSync|execFileSync|spawnSync)\s*\(/,
+      /\bsubprocess\.(?:run|call|check_output|Popen)\s*\(/,
+      /\bos\.(?:system|popen)\s*\(/,
+    ],
+  },
+];
+
+// ─── SCANNER ─────────────────────────────────────────────────────────────────
+
+/**
+ * Scan a skill offline with a rule set.
+ *
+ * ```typescript
+ * import { scanSkill } from '@nullius/isnad/scan';
+ * import { buildAuditReport } from '@nullius/isnad/report';
+ *
+ * const scan = await scanSkill(new Uint8Array(await fs.readFile('./weather-1.2.0.tgz')));
+ * const report = buildAuditReport({
+ *   skillHash,
+ *   claimType: ClaimType.CODE_REVIEW,
+ *   findings: scan.findings,
+ *   tools: [scan.tool],
+ * });
+ * ```
+ *
+ * @param source  A directory path (Node.js only), bundle entries, or the bytes of a
+ *                .zip/.tar/.tgz archive or of a single file
+ * @param opts    Rules, declared hosts, ignore rules and limits
+ * @throws INVALID_ARGUMENT for duplicate rule ids or a bad maxFileSize
+ * @throws Error for unreadable archives and bad bundle paths, as computeBundleHash()
+ */
+export async function scanSkill(
+  source: string | Uint8Array | BundleEntry[],
+  opts: ScanOptions = {},
+): Promise<ScanResult> {
+  const rules = opts.rules ?? DEFAULT_SCAN_RULES;
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) throw isnadError("INVALID_ARGUMENT", `Duplicate scan rule id: ${rule.id}`);
+    ids.add(rule.id);
+    for (const pattern of [...(rule.patterns ?? []), ...(rule.files ? [rule.files] : [])]) {
+      if (pattern.global || pattern.sticky) {
+        throw isnadError("INVALID_ARGUMENT", `Scan rule ${rule.id}: ${pattern} must not use the g or y flag`);
+      }
+    }
+  }
+  const maxFileSize = opts.maxFileSize ?? DEFAULT_MAX_SCAN_FILE_SIZE;
+  if (!Number.isFinite(maxFileSize) || maxFileSize <= 0) {
+    throw isnadError("INVALID_ARGUMENT", `maxFileSize must be a positive number, got ${maxFileSize}`);
+  }
+
+  const entries = await toEntries(source, opts);
+  const skipped: SkippedFile[] = [];
+  const files: ScanFile[] = [];
+  for (const { path, content } of entries) {
+    if (content.length > maxFileSize) skipped.push({ path, reason: "too-large" });
+    else if (isBinary(content)) skipped.push({ path, reason: "binary" });
+    else {
+      const text = new TextDecoder().decode(content);
+      files.push({ path, text, lines: text.split(/\r?\n/) });
+    }
+  }
+
+  const context: ScanContext = { files, declaredHosts: declaredHosts(files, opts.declaredHosts ?? []) };
+  const findings: AuditFinding[] = [];
+  for (const rule of rules) {
+    const locations: AuditLocation[] = [];
+    for (const file of files) {
+      if (rule.files && !rule.files.test(file.path)) continue;
+      for (const line of matchRule(rule, file, context)) locations.push({ file: file.path, startLine: line });
+    }
+    if (locations.length === 0) continue;
+    const extra = locations.length - MAX_FINDING_LOCATIONS;
+    const description = [rule.description, extra > 0 ? `${extra} more match(es) not listed.` : undefined]
+      .filter(Boolean)
+      .join(" ");
+    findings.push({
+      id: rule.id,
+      severity: rule.severity,
+      title: rule.title,
+      ...(description && { description }),
+      locations: locations.slice(0, MAX_FINDING_LOCATIONS),
+    });
+  }
+  const rank = (s: FindingSeverity) => -FINDING_SEVERITIES.indexOf(s);
+  findings.sort((a, b) => rank(a.severity) - rank(b.severity));
+
+  return { findings, scannedFiles: files.length, skipped, tool: SCANNER_TOOL };
+}
+
+// ─── HELPERS ─────────────────────────────────────────────────────────────────
+
+async function toEntries(source: string | Uint8Array | BundleEntry[], opts: ScanOptions): Promise<BundleEntry[]> {
+  if (!(source instanceof Uint8Array)) return readBundle(source, opts);
+  if (detectArchiveFormat(source)) return readBundle(await readArchive(source, opts), opts);
+  return [{ path: opts.fileName ?? "SKILL.md", content: source }];
+}
+
+/** Sorted, de-duplicated 1-based lines where `rule` fires in `file`. */
+function matchRule(rule: ScanRule, file: ScanFile, context: ScanContext): number[] {
+  const lines = new Set<number>();
+  const patterns = rule.patterns ?? [];
+  if (patterns.length > 0) {
+    const hits = patterns.map((p) => file.lines.flatMap((line, i) => (p.test(line) ? [i + 1] : [])));
+    const matched = hits.filter((h) => h.length > 0).length;
+    const condition = rule.condition ?? "any";
+    const needed = condition === "any" ? 1 : condition === "all" ? patterns.length : condition;
+    if (matched >= needed) for (const h of hits) for (const line of h) lines.add(line);
+  }
+  for (const m of rule.match?.(file, context) ?? []) lines.add(m.line);
+  return [...lines].sort((a, b) => a - b);
+}
+
+/** A NUL byte in the first 8 KiB marks a binary file, as git does. */
+function isBinary(content: Uint8Array): boolean {
+  return content.subarray(0, 8192).includes(0);
+}
+
+function declaredHosts(files: ScanFile[], extra: string[]): Set<string> {
+  const hosts = new Set(extra.map((h) => h.toLowerCase()));
+  const skill = files.find((f) => f.path.toLowerCase() === "skill.md");
+  for (const [, host] of skill?.text.matchAll(URL_HOST) ?? []) hosts.add(host.toLowerCase());
+  return hosts;
+}
+
+/**
+ * Whether `host` or one of its parent domains is in `declared` (lowercase, as in
+ * ScanContext.declaredHosts): declaring example.com covers api.example.com.
+ */
+export function isDeclaredHost(host: string, declared: ReadonlySet<string>): boolean {
+  for (let h = host.toLowerCase(); h.includes("."); h = h.slice(h.indexOf(".") + 1)) {
+    if (declared.has(h)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,22 @@
+/**
+ * Storage layout of the registry's public maps, shared by IsnadReader and
+ * IsnadIndexer. Not part of the public API.
+ */
+import type { AztecAddress } from "@aztec/aztec.js/addresses";
+import type { Fr } from "@aztec/aztec.js/fields";
+import { deriveStorageSlotInMap } from "@aztec/stdlib/hash";
+import { IsnadRegistryContract } from "./artifacts/IsnadRegistry.js";
+
+/** The public storage maps the registry's views read from. */
+export type PublicMap =
+  | "is_authorized"
+  | "attestor_depth"
+  | "trust_scores"
+  | "attestation_counts"
+  | "quarantine_flags"
+  | "report_counts";
+
+/** Storage slot of `key` in one of the registry's public maps. */
+export function publicMapSlot(map: PublicMap, key: Fr | AztecAddress): Promise<Fr> {
+  return deriveStorageSlotInMap(IsnadRegistryContract.storage[map].slot, key);
+}
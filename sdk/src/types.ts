@@ -1,5 +1,7 @@
 import type { AztecAddress } from "@aztec/aztec.js/addresses";
 import type { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import type { IsnadError, IsnadErrorCode } from "./errors.js";
 
 /**
  * Minimum cumulative trust score before an agent should auto-allow a skill install.
@@ -53,6 +55,15 @@ export const INSTALL_THRESHOLD_WEIGHTED_SCORE = 1200n;
  */
 export const INSTALL_THRESHOLD_COUNT = 3n;
 
+/**
+ * Number of malicious reports at which checkInstallPolicy() denies a skill, whatever its score.
+ *
+ * Reports come from authorized attestors only, one per auditor per skill (report_malicious),
+ * so three means three independent chain members found the skill harmful — the same bar
+ * as INSTALL_THRESHOLD_COUNT for trusting it. Pass reportThreshold: 0n to ignore reports.
+ */
+export const INSTALL_THRESHOLD_REPORTS = 3n;
+
 /**
  * Options for overriding the default install policy thresholds in checkInstallPolicy().
  *
@@ -75,6 +86,11 @@ export interface InstallPolicyOptions {
    * Use INSTALL_THRESHOLD_WEIGHTED_SCORE (1200n) for stricter depth-aware enforcement.
    */
   scoreThreshold?: bigint;
+  /**
+   * Number of malicious reports at which the skill is denied. 0n ignores reports.
+   * Defaults to INSTALL_THRESHOLD_REPORTS (3n).
+   */
+  reportThreshold?: bigint;
   /**
    * Minimum number of unique attestors required for "allow".
    * Defaults to INSTALL_THRESHOLD_COUNT (3n).
@@ -87,7 +103,8 @@ export interface InstallPolicyOptions {
  *
  *   allow   — meets both INSTALL_THRESHOLD_COUNT and INSTALL_THRESHOLD_SCORE
  *   sandbox — has attestations but below threshold (proceed with caution)
- *   deny    — quarantined (KNOWN MALICIOUS) or zero attestations
+ *   deny    — quarantined (KNOWN MALICIOUS), reported malicious INSTALL_THRESHOLD_REPORTS times,
+ *             or zero attestations
  */
 export type InstallVerdict = "allow" | "sandbox" | "deny";
 
@@ -110,8 +127,65 @@ export interface SkillTrustInfo {
    * Distinguish from an unattested skill (isQuarantined=false, attestationCount=0).
    */
   isQuarantined: boolean;
+  /**
+   * Number of unique authorized auditors who reported this skill malicious (report_malicious).
+   * Counted apart from attestationCount and unaffected by quarantine. Set by getTrustScore()
+   * and in watch events.
+   */
+  reportCount?: bigint;
+}
+
+/**
+ * Default number of skills getTrustScores() queries in parallel.
+ *
+ * Each skill costs four simulate calls against the PXE, so 8 skills means up to
+ * 32 concurrent requests. Raise it for a local PXE, lower it for a shared remote one.
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 8;
+
+/**
+ * Options for IsnadSDK.getTrustScores().
+ */
+export interface BatchTrustOptions {
+  /**
+   * Maximum number of skills queried at the same time.
+   * Defaults to DEFAULT_BATCH_CONCURRENCY (8).
+   */
+  concurrency?: number;
+  /**
+   * Called once for every skill whose lookup failed (invalid hash, PXE error, ...).
+   * The failed skill is left out of the returned map; the rest of the batch continues.
+   */
+  onError?: (skillHash: string, error: unknown) => void;
 }
 
+/**
+ * Refresh intervals for cached trust scores, per INTEGRATION.md §4 (Score Refresh Strategy).
+ *
+ *   new    — unattested and first seen less than 7 days ago: every 6 hours
+ *   active — score, count or quarantine changed in the last 30 days: every 24 hours
+ *   stable — no change in 30+ days: every 72 hours
+ *
+ * Used as the default TTLs by TrustCache.
+ */
+export const TRUST_REFRESH_INTERVALS = {
+  new: 6 * 60 * 60 * 1000,
+  active: 24 * 60 * 60 * 1000,
+  stable: 72 * 60 * 60 * 1000,
+} as const;
+
+/** The refresh tier a cached skill falls into. See TRUST_REFRESH_INTERVALS. */
+export type TrustRefreshTier = keyof typeof TRUST_REFRESH_INTERVALS;
+
+/**
+ * Longest time TrustCache will report a quarantine flag without re-reading it (5 minutes).
+ *
+ * The tiered TTLs are hours long, but a newly quarantined skill must stop being
+ * reported as trusted quickly. Past this ceiling the cache re-checks is_quarantined
+ * before serving, even when the rest of the entry is still fresh.
+ */
+export const QUARANTINE_STALENESS_CEILING_MS = 5 * 60 * 1000;
+
 /**
  * Attestation methodology — what kind of audit was performed.
  *
@@ -123,12 +197,50 @@ export const ClaimType = {
   CODE_REVIEW: 0,
   /** Runtime behavior monitoring (syscall tracing, tool-call auditing, network inspection) */
   BEHAVIORAL: 1,
-  /** Execution in an isolated sandbox with output verification against a test harness */
+  /** Execution in an isolated sandbox with output verification against a test harness (runSandbox()) */
   SANDBOXED_EXECUTION: 2,
 } as const;
 
 export type ClaimType = (typeof ClaimType)[keyof typeof ClaimType];
 
+/**
+ * How bad a malicious report's finding is.
+ *
+ * Encoded as u8 on-chain; stored privately in the ReportNote.
+ * Only the report count is public — never who reported or how severe they judged it.
+ */
+export const ReportSeverity = {
+  /** Unexpected behavior, not yet confirmed harmful */
+  SUSPICIOUS: 0,
+  /** Confirmed harmful behavior (exfiltration, destructive actions) */
+  MALICIOUS: 1,
+  /** Actively exploited, or steals credentials or keys */
+  CRITICAL: 2,
+} as const;
+
+export type ReportSeverity = (typeof ReportSeverity)[keyof typeof ReportSeverity];
+
+/**
+ * Options for reporting a skill as malicious.
+ */
+export interface ReportMaliciousOptions {
+  /** SHA256 of the skill file content bytes. Use computeSkillHash() for consistency. */
+  skillHash: string | Fr;
+  /** How bad the finding is. Stored privately in your ReportNote. */
+  severity: ReportSeverity;
+  /**
+   * Commitment to your off-chain evidence, e.g. the SHA256 of a findings document, as a
+   * hex string or Fr. Stored privately; the contract never reads it.
+   */
+  evidenceHash: string | Fr;
+}
+
+/**
+ * Deepest position in the vouching chain that may still vouch (MAX_CHAIN_DEPTH in the
+ * contract). An attestor at this depth gets DEPTH_LIMIT from vouch().
+ */
+export const MAX_CHAIN_DEPTH = 100;
+
 /**
  * Options for submitting an attestation.
  */
@@ -143,11 +255,111 @@ export interface AttestOptions {
    * Use ClaimType.BEHAVIORAL or ClaimType.SANDBOXED_EXECUTION for higher-assurance audits.
    */
   claimType?: ClaimType;
+  /**
+   * Commitment to your audit report: computeReportHash(report) from '@nullius/isnad/report'.
+   * Stored privately in your AttestationNote; omit it to attach no report. Share the report
+   * later with discloseAttestation().
+   */
+  evidenceHash?: string | Fr;
+}
+
+/**
+ * Options for discloseAttestation().
+ */
+export interface DiscloseAttestationOptions {
+  /** The skill whose attestation to disclose */
+  skillHash: string | Fr;
+  /** Who receives the disclosure. Only they can read it. */
+  recipient: AztecAddress;
+}
+
+/**
+ * Where you stand with a skill, from hasAttested():
+ *   attested — you have an active attestation; revokeAttestation() can succeed
+ *   revoked  — you attested and revoked; the claim is spent, so attest() will always fail
+ *   none     — you never attested; attest() can succeed
+ */
+export type AttestationState = "attested" | "revoked" | "none";
+
+/**
+ * Your attestation status for one skill. Returned by hasAttested().
+ */
+export interface AttestationStatus {
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  state: AttestationState;
+  /** Whether your (auditor, skill) SingleUseClaim is spent: true for "attested" and "revoked" */
+  claimUsed: boolean;
+  /** Whether your AttestationNote still exists: true only for "attested" */
+  hasActiveNote: boolean;
+}
+
+/**
+ * One of your active attestations, decoded from an AttestationNote in your PXE.
+ * Returned by listMyAttestations().
+ */
+export interface MyAttestation {
+  /** Normalized skill hash (0x + 64 hex, as in SkillTrustInfo.skillHash) */
+  skillHash: string;
+  /** Quality score given: 0-100 */
+  quality: number;
+  claimType: ClaimType;
+  /** Your vouching chain depth when you attested */
+  depthAtAttestation: number;
+  /** What the attestation adds to the skill's trust score: quality × weight(depthAtAttestation) */
+  effectiveQuality: number;
+  /** The audit report commitment attached to the attestation (0x + 64 hex), if any */
+  evidenceHash?: string;
+}
+
+/**
+ * An attestation another auditor disclosed to you with discloseAttestation().
+ * Returned by listDisclosures(). The values were copied from the auditor's
+ * AttestationNote by the contract, as of the time of disclosure.
+ */
+export interface AttestationDisclosure {
+  /** The auditor who disclosed it */
+  auditor: string;
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  /** Quality score given: 0-100 */
+  quality: number;
+  claimType: ClaimType;
+  /** The auditor's vouching chain depth when they attested */
+  depthAtAttestation: number;
+  /** The audit report commitment; check a report against it with verifyAuditReport() */
+  evidenceHash?: string;
 }
 
 /**
  * Options for storing a credential in the private vault.
  */
+/**
+ * How a credential's bytes are interpreted.
+ *
+ *   utf8   — text (API keys, PEM keys); the default for string values
+ *   binary — arbitrary bytes (DER keys, keystores); the default for Uint8Array values
+ *   json   — UTF-8 JSON text (service-account files, OAuth bundles)
+ */
+export type CredentialContentType = "utf8" | "binary" | "json";
+
+/**
+ * Shape of the value getCredential() / getCredentialForSkill() return.
+ *
+ *   string — text; binary credentials come back base64-encoded (the default)
+ *   bytes  — the exact stored bytes as a Uint8Array
+ *   json   — the value parsed with JSON.parse (any content type holding JSON text)
+ */
+export type CredentialReadAs = "string" | "bytes" | "json";
+
+/**
+ * Options for reading a credential.
+ */
+export interface ReadCredentialOptions {
+  /** Return shape of `value`. Defaults to "string". */
+  as?: CredentialReadAs;
+}
+
 export interface StoreCredentialOptions {
   /**
    * Identifier for this credential key. Recommended: use a descriptive string
@@ -155,21 +367,136 @@ export interface StoreCredentialOptions {
    */
   keyId: string;
   /**
-   * The credential value (the actual API key, token, etc.)
-   * Up to 128 bytes. Stored encrypted in your PXE — nobody else can read it.
+   * The credential value (the actual API key, token, PEM key, etc.) as text or bytes.
+   * Up to maxCredentialBytes; values over 93 bytes are chunked across several notes.
+   * Stored encrypted in your PXE — nobody else can read it.
+   */
+  value: string | Uint8Array;
+  /**
+   * Content type recorded with the value. Defaults to "utf8" for strings and
+   * "binary" for Uint8Array. "json" requires the value to be valid JSON text.
    */
-  value: string;
+  contentType?: CredentialContentType;
   /** Human-readable label for display in UIs. Up to 31 ASCII chars. */
   label: string;
 }
 
 /**
  * A credential retrieved from the private vault.
+ * `value` is a string unless read with { as: "bytes" } or { as: "json" }.
  */
-export interface CredentialResult {
+export interface CredentialResult<T = string> {
   keyId: string;
-  value: string;
+  value: T;
+  /** Label stored with the credential ("" for none, and for delegated reads via getCredentialForSkill) */
+  label: string;
+  /** Content type recorded when the value was stored ("utf8" for notes written before tags existed) */
+  contentType: CredentialContentType;
+}
+
+/**
+ * A credential in the vault as listed by listCredentials() — metadata only, no value.
+ */
+export interface CredentialInfo {
+  /**
+   * The human-readable key ID, or null for credentials stored by SDK versions that
+   * did not record it (re-store them to give them a name).
+   */
+  keyId: string | null;
+  /** The on-chain key_id (poseidon2 hash of keyId), as hex */
+  keyIdHash: string;
   label: string;
+  contentType: CredentialContentType;
+  /** Value size in bytes (null for notes written before the versioned header) */
+  size: number | null;
+}
+
+/**
+ * Default upper bound on a credential value, in bytes (UTF-8).
+ *
+ * Values over 93 bytes are chunked at 124 bytes per note, so 4096 bytes is 34 notes
+ * and as many transactions to store. Raise it with IsnadSDKOptions.maxCredentialBytes.
+ */
+export const DEFAULT_MAX_CREDENTIAL_BYTES = 4096;
+
+/**
+ * Options for IsnadSDK.connect().
+ */
+export interface IsnadSDKOptions {
+  /**
+   * Largest credential value storeCredential() and rotateCredential() accept, in bytes.
+   * Defaults to DEFAULT_MAX_CREDENTIAL_BYTES (4096).
+   */
+  maxCredentialBytes?: number;
+  /**
+   * Aztec node to wait for transaction receipts on. With it, write methods emit "sent"
+   * as soon as the node accepts a transaction and "mined" once it is included. Without
+   * it the wallet waits for the receipt itself, so "sent" and "mined" arrive together.
+   */
+  node?: AztecNode;
+  /** Seconds to wait for a sent transaction to be mined (with `node`). Defaults to 300, as in aztec.js. */
+  txTimeoutSeconds?: number;
+}
+
+/**
+ * Phase of one transaction sent by an IsnadSDK write method, in order:
+ *   simulating → proving → sent → mined, or failed / dropped from any phase.
+ *
+ * "proving" covers proof generation and submission to the node; the wallet does both
+ * in one call.
+ */
+export type TxPhase = "simulating" | "proving" | "sent" | "mined" | "failed" | "dropped";
+
+/**
+ * A transaction lifecycle event. Subscribe with IsnadSDK.onTxEvent().
+ */
+export interface TxLifecycleEvent {
+  phase: TxPhase;
+  /** Contract function being called, e.g. "attest" or "store_credential" */
+  method: string;
+  /**
+   * Identifies one transaction across its events. Some SDK methods send several
+   * transactions (chunked credentials), each with its own txId.
+   */
+  txId: number;
+  /** When this event was emitted (ms since epoch) */
+  at: number;
+  /** Milliseconds since this transaction's "simulating" event */
+  elapsedMs: number;
+  /** Transaction hash, from "sent" on */
+  txHash?: string;
+  /** Block the transaction was included in ("mined" only) */
+  blockNumber?: number;
+  /** Why the transaction failed ("failed" and "dropped" only) */
+  error?: IsnadError;
+}
+
+/** Listener for IsnadSDK.onTxEvent(). */
+export type TxEventListener = (event: TxLifecycleEvent) => void;
+
+/**
+ * Options for IsnadSDK.migrateLegacyCredentials().
+ */
+export interface MigrateCredentialsOptions {
+  /** Labels for the migrated notes, by key ID (up to 31 ASCII chars; defaults to empty) */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Outcome of migrating one key ID in IsnadSDK.migrateLegacyCredentials().
+ *
+ *   migrated  — copied to the poseidon2 key ID and the legacy note deleted
+ *   not-found — no note under the legacy encoding (never stored, or already migrated)
+ *   conflict  — a different value already exists under the new key ID; nothing changed
+ *   ambiguous — another requested key ID shares the legacy encoding; nothing changed
+ */
+export interface CredentialMigrationResult {
+  keyId: string;
+  status: "migrated" | "not-found" | "conflict" | "ambiguous";
+  /** Transaction that stored the note under the new key ID (absent if it was already there) */
+  storeTxHash?: string;
+  /** Transaction that deleted the legacy note */
+  deleteTxHash?: string;
 }
 
 /**
@@ -185,6 +512,8 @@ export interface DelegatedCredentialOptions {
    * Pass 0n if the owner is calling directly (no delegation).
    */
   authwitNonce?: bigint;
+  /** Return shape of `value`. Defaults to "string". */
+  as?: CredentialReadAs;
 }
 
 /**
@@ -232,8 +561,45 @@ export interface AttestorInfo {
 export interface RotateCredentialOptions {
   /** The key identifier of the credential to replace */
   keyId: string;
-  /** The new credential value (up to 128 bytes) */
-  newValue: string;
+  /** The new credential value as text or bytes (up to maxCredentialBytes; chunked past 93 bytes) */
+  newValue: string | Uint8Array;
+  /** Content type of the new value; defaults as in StoreCredentialOptions.contentType */
+  contentType?: CredentialContentType;
   /** Human-readable label for the new credential (up to 31 ASCII chars) */
   newLabel: string;
 }
+
+/**
+ * Options accepted by every IsnadSDK write method.
+ */
+export interface WriteOptions {
+  /**
+   * Check the call instead of sending it: validate the arguments, read the state the
+   * contract asserts on, and simulate the private and public phases. Nothing is proved
+   * or sent; the method resolves with a PreflightResult.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * A failure (or a surprise) predicted by a dry run.
+ */
+export interface PreflightIssue {
+  /** The IsnadError code the real call would throw */
+  code: IsnadErrorCode;
+  /** "error": the call would revert or be rejected. "warning": it would succeed, but probably not as intended */
+  severity: "error" | "warning";
+  message: string;
+}
+
+/**
+ * Result of a dry run (`{ dryRun: true }` or IsnadSDK.preflight()).
+ */
+export interface PreflightResult {
+  /** True when no issue has severity "error" */
+  ok: boolean;
+  /** Every predicted problem, in the order the checks found them. Empty when the call is expected to go through cleanly */
+  issues: PreflightIssue[];
+  /** Transactions the call would send, each with its own proof (chunked credentials need several) */
+  transactions: number;
+}
@@ -0,0 +1,99 @@
+/**
+ * Internal helpers shared across SDK modules. Not part of the public API.
+ */
+import { Fr } from "@aztec/aztec.js/fields";
+import { isnadError } from "./errors.js";
+import type { BatchTrustOptions, SkillTrustInfo } from "./types.js";
+import { DEFAULT_BATCH_CONCURRENCY } from "./types.js";
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Resolves once every item has been processed; worker errors propagate.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * The getTrustScores() batch behind IsnadSDK, IsnadReader and TrustCache: inputs
+ * deduplicated by field value, at most opts.concurrency `read` calls in flight, and
+ * invalid hashes and failed reads reported through opts.onError and left out.
+ *
+ * @throws INVALID_ARGUMENT for a concurrency that is not a positive integer
+ */
+export async function batchTrustScores(
+  skillHashes: Iterable<string | Fr>,
+  opts: BatchTrustOptions | undefined,
+  read: (hash: Fr) => Promise<SkillTrustInfo>,
+): Promise<Map<string, SkillTrustInfo>> {
+  const concurrency = opts?.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw isnadError("INVALID_ARGUMENT", `concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  const unique = new Map<string, Fr>();
+  for (const skillHash of skillHashes) {
+    let hash: Fr;
+    try {
+      hash = toSkillField(skillHash);
+    } catch (err) {
+      opts?.onError?.(skillHash.toString(), err);
+      continue;
+    }
+    unique.set(hash.toString(), hash);
+  }
+
+  const results = new Map<string, SkillTrustInfo>();
+  await runWithConcurrency([...unique.entries()], concurrency, async ([key, hash]) => {
+    try {
+      results.set(key, await read(hash));
+    } catch (err) {
+      opts?.onError?.(key, err);
+    }
+  });
+  return results;
+}
+
+/** Concatenate byte arrays. */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/** Lowercase hex without 0x. */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Parse a hex skill hash into a Field. */
+export function toSkillField(skillHash: string | Fr): Fr {
+  if (typeof skillHash !== "string") return skillHash;
+  try {
+    return Fr.fromHexString(skillHash);
+  } catch (err) {
+    throw isnadError("INVALID_ARGUMENT", `Invalid skill hash '${skillHash}'`, err);
+  }
+}
+
+/** Returns the trust score weight multiplier for a given chain depth. */
+export function weightForDepth(depth: number): number {
+  if (depth === 0) return 4;
+  if (depth === 1) return 3;
+  if (depth === 2) return 2;
+  return 1;
+}
@@ -0,0 +1,245 @@
+/**
+ * Trust watches — push notifications for changes to installed skills.
+ *
+ * A watch polls an IsnadIndexer and turns each change it finds into typed events:
+ * ScoreChanged, CountChanged, ReportCountChanged, Quarantined and Unquarantined,
+ * each with the value before and after the transaction. Start one with
+ * IsnadSDK.watch() or IsnadReader.watch(); both need an Aztec node.
+ *
+ * With a persistent IndexerStore the watch resumes from the last block it saw,
+ * so changes made while the agent was offline are delivered on restart.
+ */
+import type { AztecAddress } from "@aztec/aztec.js/addresses";
+import type { Fr } from "@aztec/aztec.js/fields";
+import type { AztecNode } from "@aztec/aztec.js/node";
+import { isnadError, toIsnadError } from "./errors.js";
+import { IsnadIndexer, type IndexerStore, type TrustHistoryEntry, type TrustValues } from "./indexer.js";
+import type { InstallVerdict, SkillTrustInfo } from "./types.js";
+import { toSkillField } from "./utils.js";
+
+/** Milliseconds between polls when WatchOptions.pollInterval is not set. */
+export const DEFAULT_WATCH_POLL_INTERVAL = 10_000;
+
+/** Thrown from the entry listener to abort a sync after stop(). */
+const STOPPED = Symbol("watch stopped");
+
+interface TrustChangeBase {
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  blockNumber: number;
+  /** Block timestamp, milliseconds since the epoch */
+  timestamp: number;
+  txHash: string;
+  /** Trust info before the transaction, as getTrustScore() would have returned it */
+  previous: SkillTrustInfo;
+  /** Trust info after the transaction, as getTrustScore() returns it */
+  info: SkillTrustInfo;
+}
+
+/**
+ * The stored trust score changed. `before` and `after` are the stored scores, which
+ * quarantine does not touch: quarantining a skill is a Quarantined event only.
+ */
+export interface ScoreChangedEvent extends TrustChangeBase {
+  type: "ScoreChanged";
+  before: bigint;
+  after: bigint;
+}
+
+/** The number of attestors changed (an attestation or a revocation). */
+export interface CountChangedEvent extends TrustChangeBase {
+  type: "CountChanged";
+  before: bigint;
+  after: bigint;
+}
+
+/** The number of auditors who reported the skill malicious changed. */
+export interface ReportCountChangedEvent extends TrustChangeBase {
+  type: "ReportCountChanged";
+  before: bigint;
+  after: bigint;
+}
+
+/** The admin quarantined or released the skill. */
+export interface QuarantineChangedEvent extends TrustChangeBase {
+  type: "Quarantined" | "Unquarantined";
+  before: boolean;
+  after: boolean;
+}
+
+/**
+ * One change to a watched skill. A transaction that changes several values
+ * produces one event per value, in the order CountChanged, ScoreChanged,
+ * ReportCountChanged, then Quarantined or Unquarantined.
+ */
+export type TrustChangeEvent =
+  | ScoreChangedEvent
+  | CountChangedEvent
+  | ReportCountChangedEvent
+  | QuarantineChangedEvent;
+
+/** Receives watch events. Async handlers are awaited before the next event is delivered. */
+export type TrustChangeHandler = (event: TrustChangeEvent) => void | Promise<void>;
+
+/**
+ * The install policy re-evaluated after a change. Produced by IsnadSDK.policyWatcher().
+ */
+export interface PolicyRecheck {
+  /** Normalized skill hash (0x + 64 hex) */
+  skillHash: string;
+  /** Verdict after the change */
+  verdict: InstallVerdict;
+  /** Verdict before the change; compare with `verdict` to act only on transitions */
+  previousVerdict: InstallVerdict;
+  info: SkillTrustInfo;
+  /** The first event of the transaction that triggered the check */
+  event: TrustChangeEvent;
+}
+
+/**
+ * Options for IsnadSDK.watch() and IsnadReader.watch().
+ */
+export interface WatchOptions {
+  /** Milliseconds between polls. Defaults to DEFAULT_WATCH_POLL_INTERVAL (10 s). */
+  pollInterval?: number;
+  /**
+   * Replay changes from this block for skills the store has not seen. Defaults to
+   * the block after the current one: only changes from now on are delivered.
+   */
+  fromBlock?: number;
+  /**
+   * Where the watch keeps its block cursor. Pass a persistent store (e.g.
+   * JsonFileIndexerStore) to resume after a restart. Defaults to memory.
+   */
+  store?: IndexerStore;
+  /**
+   * Called with poll failures (as IsnadErrors) and handler errors. The watch keeps
+   * polling after either.
+   */
+  onError?: (err: unknown) => void;
+}
+
+/** A running watch. */
+export interface TrustWatch {
+  /** Resolves once the first poll has finished, whether or not it succeeded. */
+  ready: Promise<void>;
+  /**
+   * Stop polling. No events are delivered after this returns. Events of the
+   * current poll that were not delivered are not marked as seen in the store, so
+   * a watch on the same store delivers them again, along with the rest of their
+   * batch of blocks.
+   */
+  stop(): void;
+}
+
+/**
+ * Start a watch. Used by IsnadSDK.watch() and IsnadReader.watch().
+ * Invalid hashes and options throw INVALID_ARGUMENT here; everything after is
+ * reported through opts.onError.
+ */
+export function watchTrust(
+  node: AztecNode,
+  contractAddress: AztecAddress,
+  skillHashes: Iterable<string | Fr>,
+  handler: TrustChangeHandler,
+  opts: WatchOptions = {},
+): TrustWatch {
+  const hashes = [...skillHashes].map((h) => toSkillField(h));
+  const pollInterval = opts.pollInterval ?? DEFAULT_WATCH_POLL_INTERVAL;
+  if (!Number.isFinite(pollInterval) || pollInterval <= 0) {
+    throw isnadError("INVALID_ARGUMENT", `pollInterval must be a positive number, got ${pollInterval}`);
+  }
+  if (opts.fromBlock !== undefined && (!Number.isInteger(opts.fromBlock) || opts.fromBlock < 1)) {
+    throw isnadError("INVALID_ARGUMENT", `fromBlock must be a positive integer, got ${opts.fromBlock}`);
+  }
+
+  let indexer: IsnadIndexer | null = null;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const deliver = async (entry: TrustHistoryEntry) => {
+    for (const event of toTrustChanges(entry)) {
+      // Failing the sync keeps the indexer from saving its cursor past this entry
+      if (stopped) throw STOPPED;
+      try {
+        await handler(event);
+      } catch (err) {
+        opts.onError?.(err);
+      }
+    }
+  };
+
+  const poll = async () => {
+    try {
+      if (!indexer) {
+        let fromBlock = opts.fromBlock;
+        if (fromBlock === undefined) {
+          try {
+            fromBlock = (await node.getBlockNumber()) + 1;
+          } catch (err) {
+            throw toIsnadError(err);
+          }
+        }
+        const created = IsnadIndexer.connect(node, contractAddress, { store: opts.store, fromBlock });
+        await created.track(hashes);
+        created.onEntry(deliver);
+        indexer = created;
+      }
+      await indexer.sync();
+    } catch (err) {
+      if (err !== STOPPED) opts.onError?.(err);
+    }
+    if (!stopped) timer = setTimeout(poll, pollInterval);
+  };
+
+  return {
+    ready: poll(),
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+/** The events one history entry stands for, in the documented order. */
+function toTrustChanges(entry: TrustHistoryEntry): TrustChangeEvent[] {
+  const { before, after } = entry;
+  const base: TrustChangeBase = {
+    skillHash: entry.skillHash,
+    blockNumber: entry.blockNumber,
+    timestamp: entry.timestamp,
+    txHash: entry.txHash,
+    previous: toTrustInfo(entry.skillHash, before),
+    info: toTrustInfo(entry.skillHash, after),
+  };
+  const events: TrustChangeEvent[] = [];
+  if (before.attestationCount !== after.attestationCount) {
+    events.push({ ...base, type: "CountChanged", before: before.attestationCount, after: after.attestationCount });
+  }
+  if (before.trustScore !== after.trustScore) {
+    events.push({ ...base, type: "ScoreChanged", before: before.trustScore, after: after.trustScore });
+  }
+  if (before.reportCount !== after.reportCount) {
+    events.push({ ...base, type: "ReportCountChanged", before: before.reportCount, after: after.reportCount });
+  }
+  if (before.isQuarantined !== after.isQuarantined) {
+    events.push({
+      ...base,
+      type: after.isQuarantined ? "Quarantined" : "Unquarantined",
+      before: before.isQuarantined,
+      after: after.isQuarantined,
+    });
+  }
+  return events;
+}
+
+/** Stored values as getTrustScore() reports them: the score reads 0 while quarantined. */
+function toTrustInfo(skillHash: string, values: TrustValues): SkillTrustInfo {
+  return {
+    skillHash,
+    trustScore: values.isQuarantined ? 0n : values.trustScore,
+    attestationCount: values.attestationCount,
+    isQuarantined: values.isQuarantined,
+    reportCount: values.reportCount,
+  };
+}
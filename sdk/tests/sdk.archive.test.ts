@@ -0,0 +1,340 @@
+/**
+ * Archive and git-tree ingestion tests — zip, tar, tgz and committed git trees must
+ * all hash to the same bundle as the loose files, regardless of timestamps,
+ * permissions or compression.
+ *
+ * Archives are written by small helpers below so each test controls exactly which
+ * metadata varies. The git tests need the `git` executable.
+ *
+ * Run with: vitest run tests/sdk.archive.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateRawSync, gzipSync } from "node:zlib";
+import {
+  computeArchiveHash,
+  detectArchiveFormat,
+  readArchive,
+  readTar,
+} from "../src/archive.js";
+import { computeBundleHash, type BundleEntry } from "../src/bundle.js";
+import { computeGitTreeHash, readGitTree } from "../src/git.js";
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const enc = (s: string) => new TextEncoder().encode(s);
+
+const WEATHER: Record<string, string> = {
+  "SKILL.md": "# Weather\nFetches the forecast.\n",
+  "scripts/fetch.js": "export default async () => fetch('https://api.weather.example');\n",
+  "prompts/system.txt": "You are a weather assistant.\n",
+};
+
+const entries = (files: Record<string, string>, prefix = ""): BundleEntry[] =>
+  Object.entries(files).map(([path, text]) => ({ path: prefix + path, content: enc(text) }));
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipOptions {
+  method?: 0 | 8;
+  level?: number;
+  dosTime?: number;
+  /** Unix st_mode stored in the external attributes */
+  mode?: number;
+  dirs?: string[];
+}
+
+/** Minimal zip writer: one local header + central directory entry per file. */
+function makeZip(files: BundleEntry[], opts: ZipOptions = {}): Uint8Array {
+  const method = opts.method ?? 8;
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  const all = [
+    ...(opts.dirs ?? []).map((d) => ({ path: d, content: new Uint8Array(), mode: 0o40755 })),
+    ...files.map((f) => ({ ...f, mode: opts.mode ?? 0o100644 })),
+  ];
+  for (const { path, content, mode } of all) {
+    const name = Buffer.from(path, "utf8");
+    const data = method === 8 ? deflateRawSync(content, { level: opts.level ?? 6 }) : Buffer.from(content);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(opts.dosTime ?? 0, 10);
+    local.writeUInt32LE(crc32(content), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(opts.dosTime ?? 0, 12);
+    central.writeUInt32LE(crc32(content), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((mode << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+  const cd = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(all.length, 8);
+  eocd.writeUInt16LE(all.length, 10);
+  eocd.writeUInt32LE(cd.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, cd, eocd]));
+}
+
+interface TarOptions {
+  mtime?: number;
+  mode?: number;
+  type?: string;
+}
+
+function tarHeader(name: string, size: number, opts: TarOptions = {}): Buffer {
+  const h = Buffer.alloc(512);
+  h.write(name, 0, 100, "utf8");
+  h.write((opts.mode ?? 0o644).toString(8).padStart(7, "0") + "\0", 100);
+  h.write("0000000\0", 108);
+  h.write("0000000\0", 116);
+  h.write(size.toString(8).padStart(11, "0") + "\0", 124);
+  h.write((opts.mtime ?? 0).toString(8).padStart(11, "0") + "\0", 136);
+  h.write("        ", 148);
+  h.write(opts.type ?? "0", 156);
+  h.write("ustar\0", 257);
+  h.write("00", 263);
+  let sum = 0;
+  for (const b of h) sum += b;
+  h.write(sum.toString(8).padStart(6, "0") + "\0 ", 148);
+  return h;
+}
+
+const pad = (n: number) => Buffer.alloc((512 - (n % 512)) % 512);
+
+/** Minimal ustar writer. */
+function makeTar(files: BundleEntry[], opts: TarOptions = {}, extra: Buffer[] = []): Uint8Array {
+  const blocks: Buffer[] = [...extra];
+  for (const { path, content } of files) {
+    blocks.push(tarHeader(path, content.length, opts), Buffer.from(content), pad(content.length));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return new Uint8Array(Buffer.concat(blocks));
+}
+
+function paxHeader(records: Record<string, string>, type = "x"): Buffer[] {
+  const body = Buffer.concat(
+    Object.entries(records).map(([k, v]) => {
+      const rest = ` ${k}=${v}\n`;
+      let len = rest.length + 2;
+      if (String(len).length + rest.length !== len) len = String(len + 1).length + rest.length;
+      return Buffer.from(`${len}${rest}`);
+    }),
+  );
+  return [tarHeader("PaxHeader", body.length, { type }), body, pad(body.length)];
+}
+
+let expected: string;
+
+beforeEach(async () => {
+  expected = (await computeBundleHash(entries(WEATHER))).skillHash;
+});
+
+// ─── FORMAT DETECTION ────────────────────────────────────────────────────────
+
+describe("detectArchiveFormat", () => {
+  it("recognizes zip, tar and gzip by magic bytes", () => {
+    expect(detectArchiveFormat(makeZip(entries(WEATHER)))).toBe("zip");
+    expect(detectArchiveFormat(makeTar(entries(WEATHER)))).toBe("tar");
+    expect(detectArchiveFormat(gzipSync(makeTar(entries(WEATHER))))).toBe("tgz");
+    expect(detectArchiveFormat(enc("# just a markdown file"))).toBeNull();
+  });
+
+  it("readArchive rejects anything else", async () => {
+    await expect(readArchive(enc("# SKILL.md"))).rejects.toThrow("Unrecognized archive format");
+    await expect(readArchive(enc("# SKILL.md"))).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+  });
+});
+
+// ─── ZIP ─────────────────────────────────────────────────────────────────────
+
+describe("zip archives", () => {
+  it("hash the same as the loose files", async () => {
+    expect((await computeArchiveHash(makeZip(entries(WEATHER)))).skillHash).toBe(expected);
+  });
+
+  it("ignore timestamps, permissions, compression method and level", async () => {
+    const variants = [
+      makeZip(entries(WEATHER), { method: 0 }),
+      makeZip(entries(WEATHER), { level: 9, dosTime: 0x5a6b1234 }),
+      makeZip(entries(WEATHER), { mode: 0o100755 }),
+      makeZip(entries(WEATHER), { dirs: ["scripts/", "prompts/"] }),
+    ];
+    for (const zip of variants) {
+      expect((await computeArchiveHash(zip)).skillHash).toBe(expected);
+    }
+  });
+
+  it("strips a single shared top-level directory (GitHub downloads)", async () => {
+    const zip = makeZip(entries(WEATHER, "weather-skill-3f2a9c1/"), { dirs: ["weather-skill-3f2a9c1/"] });
+    expect((await computeArchiveHash(zip)).skillHash).toBe(expected);
+
+    const kept = await readArchive(zip, { stripRoot: false });
+    expect(kept.every((e) => e.path.startsWith("weather-skill-3f2a9c1/"))).toBe(true);
+  });
+
+  it("drops __MACOSX resource forks", async () => {
+    const zip = makeZip([...entries(WEATHER), { path: "__MACOSX/._SKILL.md", content: enc("fork") }]);
+    expect((await computeArchiveHash(zip)).skillHash).toBe(expected);
+  });
+
+  it("rejects symlinks", async () => {
+    const zip = makeZip([{ path: "link", content: enc("/etc/passwd") }], { mode: 0o120777 });
+    await expect(readArchive(zip)).rejects.toThrow("symlink");
+  });
+
+  it("rejects corrupted content via CRC32", async () => {
+    const zip = makeZip(entries(WEATHER), { method: 0 });
+    const i = Buffer.from(zip).indexOf("Weather");
+    zip[i] ^= 0xff;
+    await expect(readArchive(zip)).rejects.toThrow("checksum mismatch");
+  });
+
+  it("rejects entries that escape the bundle root", async () => {
+    const zip = makeZip([{ path: "../../.bashrc", content: enc("evil") }]);
+    await expect(computeArchiveHash(zip)).rejects.toThrow('must not contain ".."');
+  });
+});
+
+// ─── TAR / TGZ ───────────────────────────────────────────────────────────────
+
+describe("tar and tgz archives", () => {
+  it("hash the same as the loose files", async () => {
+    expect((await computeArchiveHash(makeTar(entries(WEATHER)))).skillHash).toBe(expected);
+    expect((await computeArchiveHash(gzipSync(makeTar(entries(WEATHER))))).skillHash).toBe(expected);
+  });
+
+  it("ignore mtimes, modes and gzip level", async () => {
+    const tar = makeTar(entries(WEATHER), { mtime: 1_700_000_000, mode: 0o755 });
+    expect((await computeArchiveHash(gzipSync(tar, { level: 1 }))).skillHash).toBe(expected);
+    expect((await computeArchiveHash(gzipSync(tar, { level: 9 }))).skillHash).toBe(expected);
+  });
+
+  it("strips the package/ prefix of npm tarballs", async () => {
+    const tgz = gzipSync(makeTar(entries(WEATHER, "package/")));
+    expect((await computeArchiveHash(tgz)).skillHash).toBe(expected);
+  });
+
+  it("reads pax long paths and skips global headers", async () => {
+    const longPath = "prompts/" + "nested/".repeat(20) + "system.txt";
+    const tar = makeTar(
+      [{ path: "placeholder", content: enc("x") }],
+      {},
+      [...paxHeader({ comment: "global" }, "g"), ...paxHeader({ path: longPath })],
+    );
+    const files = readTar(tar);
+    expect(files.map((f) => f.path)).toEqual([longPath]);
+  });
+
+  it("rejects symlink entries", () => {
+    const tar = makeTar([{ path: "link", content: new Uint8Array() }], { type: "2" });
+    expect(() => readTar(tar)).toThrow("tar type '2'");
+  });
+
+  it("rejects a corrupted header", () => {
+    const tar = makeTar(entries(WEATHER));
+    tar[0] ^= 0xff;
+    expect(() => readTar(tar)).toThrow("header checksum mismatch");
+  });
+});
+
+// ─── GIT TREES ───────────────────────────────────────────────────────────────
+
+describe("git trees", () => {
+  let repo: string;
+  const git = (...args: string[]) =>
+    execFileSync("git", args, {
+      cwd: repo,
+      env: { ...process.env, GIT_AUTHOR_NAME: "t", GIT_AUTHOR_EMAIL: "t@t", GIT_COMMITTER_NAME: "t", GIT_COMMITTER_EMAIL: "t@t" },
+    }).toString().trim();
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), "isnad-git-"));
+    git("init", "-q");
+    for (const [path, text] of Object.entries(WEATHER)) {
+      await mkdir(join(repo, "skills/weather", path, ".."), { recursive: true });
+      await writeFile(join(repo, "skills/weather", path), text);
+    }
+    await writeFile(join(repo, "README.md"), "# skills repo\n");
+    git("add", "-A");
+    git("commit", "-qm", "v1");
+    git("tag", "v1");
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("hashes a subdirectory of a commit the same as the loose files", async () => {
+    const { skillHash } = await computeGitTreeHash(repo, { path: "skills/weather" });
+    expect(skillHash).toBe(expected);
+  });
+
+  it("reads committed content, not the working copy", async () => {
+    await writeFile(join(repo, "skills/weather/scripts/fetch.js"), "exfiltrate(process.env)");
+    expect((await computeGitTreeHash(repo, { path: "skills/weather" })).skillHash).toBe(expected);
+
+    git("commit", "-qam", "v2");
+    expect((await computeGitTreeHash(repo, { path: "skills/weather" })).skillHash).not.toBe(expected);
+    expect((await computeGitTreeHash(repo, { rev: "v1", path: "skills/weather" })).skillHash).toBe(expected);
+  });
+
+  it("reads the whole repository by default", async () => {
+    const files = await readGitTree(repo);
+    expect(files.map((f) => f.path).sort()).toEqual([
+      "README.md",
+      "skills/weather/SKILL.md",
+      "skills/weather/prompts/system.txt",
+      "skills/weather/scripts/fetch.js",
+    ]);
+  });
+
+  it("ignores the executable bit", async () => {
+    git("update-index", "--chmod=+x", "skills/weather/scripts/fetch.js");
+    git("commit", "-qm", "chmod");
+    expect((await computeGitTreeHash(repo, { path: "skills/weather" })).skillHash).toBe(expected);
+  });
+
+  it("rejects committed symlinks", async () => {
+    await symlink("/etc/passwd", join(repo, "skills/weather/link"));
+    git("add", "-A");
+    git("commit", "-qm", "link");
+    await expect(readGitTree(repo, { path: "skills/weather" })).rejects.toThrow("symlink");
+  });
+
+  it("reports an unknown revision", async () => {
+    await expect(readGitTree(repo, { rev: "no-such-tag" })).rejects.toThrow("git ls-tree failed");
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Auditor-side attestation reads — listMyAttestations(), hasAttested() and
+ * listDisclosures().
+ *
+ * A fake contract answers list_attestations and list_disclosures the way the
+ * contract does: one page of at most MAX_ATTESTATION_NOTES / MAX_DISCLOSURE_NOTES
+ * entries, as a BoundedVec of bigints. It answers get_attestation_status from a map
+ * of skill hash to status code.
+ *
+ * Run with: vitest run tests/sdk.attestations.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import { ClaimType } from "../src/types.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+interface FakeNote {
+  skillHash: bigint;
+  quality: number;
+  claimType: number;
+  depth: number;
+  evidence?: bigint;
+}
+
+interface FakeDisclosure extends FakeNote {
+  auditor: bigint;
+}
+
+function makeFakeRegistry(
+  notes: FakeNote[],
+  opts: { networkDown?: boolean; statuses?: Map<string, number>; disclosures?: FakeDisclosure[] } = {},
+) {
+  const pages: Array<{ offset: number; limit: number }> = [];
+  const toEntry = (n: FakeNote) => ({
+    skill_hash: n.skillHash,
+    quality: BigInt(n.quality),
+    claim_type: BigInt(n.claimType),
+    depth_at_attestation: BigInt(n.depth),
+    evidence_hash: n.evidence ?? 0n,
+  });
+  const contract = {
+    methods: {
+      get_attestation_status: (_owner: Fr, skillHash: Fr) => ({
+        simulate: async () => {
+          if (opts.networkDown) throw new Error("fetch failed");
+          return BigInt(opts.statuses?.get(skillHash.toString()) ?? 0);
+        },
+      }),
+      list_attestations: (_owner: Fr, offset: number, limit: number) => ({
+        simulate: async () => {
+          if (opts.networkDown) throw new Error("fetch failed");
+          pages.push({ offset, limit });
+          const page = notes.slice(offset, offset + Math.min(limit, 10)).map(toEntry);
+          const empty = toEntry({ skillHash: 0n, quality: 0, claimType: 0, depth: 0 });
+          return { storage: [...page, ...Array(10 - page.length).fill(empty)], len: BigInt(page.length) };
+        },
+      }),
+      list_disclosures: (_owner: Fr, offset: number, limit: number) => ({
+        simulate: async () => {
+          if (opts.networkDown) throw new Error("fetch failed");
+          pages.push({ offset, limit });
+          const page = (opts.disclosures ?? [])
+            .slice(offset, offset + Math.min(limit, 10))
+            .map((d) => ({ ...toEntry(d), auditor: new Fr(d.auditor) }));
+          return { storage: page, len: BigInt(page.length) };
+        },
+      }),
+    },
+  };
+  return { contract, pages };
+}
+
+function connectFake(contract: unknown): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract);
+}
+
+// ─── listMyAttestations ──────────────────────────────────────────────────────
+
+describe("IsnadSDK.listMyAttestations", () => {
+  it("decodes skill, quality, claim type and depth, with the weighted contribution", async () => {
+    const { contract } = makeFakeRegistry([
+      { skillHash: 0xabcn, quality: 85, claimType: ClaimType.BEHAVIORAL, depth: 0 },
+      { skillHash: 0xdefn, quality: 40, claimType: ClaimType.SANDBOXED_EXECUTION, depth: 2 },
+    ]);
+
+    expect(await connectFake(contract).listMyAttestations()).toEqual([
+      {
+        skillHash: new Fr(0xabcn).toString(),
+        quality: 85,
+        claimType: ClaimType.BEHAVIORAL,
+        depthAtAttestation: 0,
+        effectiveQuality: 340,
+      },
+      {
+        skillHash: new Fr(0xdefn).toString(),
+        quality: 40,
+        claimType: ClaimType.SANDBOXED_EXECUTION,
+        depthAtAttestation: 2,
+        effectiveQuality: 80,
+      },
+    ]);
+  });
+
+  it("includes the evidence hash when one was recorded", async () => {
+    const { contract } = makeFakeRegistry([
+      { skillHash: 0xabcn, quality: 85, claimType: ClaimType.CODE_REVIEW, depth: 0, evidence: 0xe1dn },
+      { skillHash: 0xdefn, quality: 40, claimType: ClaimType.CODE_REVIEW, depth: 0 },
+    ]);
+
+    const [withEvidence, without] = await connectFake(contract).listMyAttestations();
+    expect(withEvidence.evidenceHash).toBe(new Fr(0xe1dn).toString());
+    expect(without).not.toHaveProperty("evidenceHash");
+  });
+
+  it("pages until a short page", async () => {
+    const notes = Array.from({ length: 23 }, (_, i) => ({
+      skillHash: BigInt(i + 1),
+      quality: 50,
+      claimType: ClaimType.CODE_REVIEW,
+      depth: 5,
+    }));
+    const { contract, pages } = makeFakeRegistry(notes);
+
+    const list = await connectFake(contract).listMyAttestations();
+
+    expect(list).toHaveLength(23);
+    expect(list[22]).toMatchObject({ skillHash: new Fr(23n).toString(), effectiveQuality: 50 });
+    expect(pages).toEqual([
+      { offset: 0, limit: 10 },
+      { offset: 10, limit: 10 },
+      { offset: 20, limit: 10 },
+    ]);
+  });
+
+  it("returns an empty list for an auditor with no attestations", async () => {
+    const { contract, pages } = makeFakeRegistry([]);
+    expect(await connectFake(contract).listMyAttestations()).toEqual([]);
+    expect(pages).toHaveLength(1);
+  });
+
+  it("reports an unreachable PXE as PXE_UNREACHABLE", async () => {
+    const { contract } = makeFakeRegistry([], { networkDown: true });
+    await expect(connectFake(contract).listMyAttestations()).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
+
+// ─── hasAttested ─────────────────────────────────────────────────────────────
+
+describe("IsnadSDK.hasAttested", () => {
+  const SKILL = "0x00" + "ab".repeat(31);
+
+  it("distinguishes attested, revoked and never attested", async () => {
+    const attested = new Fr(0xa1n);
+    const revoked = new Fr(0xa2n);
+    const statuses = new Map([
+      [attested.toString(), 1],
+      [revoked.toString(), 2],
+    ]);
+    const sdk = connectFake(makeFakeRegistry([], { statuses }).contract);
+
+    expect(await sdk.hasAttested(attested)).toEqual({
+      skillHash: attested.toString(),
+      state: "attested",
+      claimUsed: true,
+      hasActiveNote: true,
+    });
+    expect(await sdk.hasAttested(revoked)).toMatchObject({ state: "revoked", claimUsed: true, hasActiveNote: false });
+    expect(await sdk.hasAttested(SKILL)).toMatchObject({
+      skillHash: Fr.fromHexString(SKILL).toString(),
+      state: "none",
+      claimUsed: false,
+      hasActiveNote: false,
+    });
+  });
+
+  it("rejects a bad hash and reports an unreachable PXE", async () => {
+    await expect(connectFake(makeFakeRegistry([]).contract).hasAttested("0xnot-hex")).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    });
+    const { contract } = makeFakeRegistry([], { networkDown: true });
+    await expect(connectFake(contract).hasAttested(SKILL)).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
+
+// ─── listDisclosures ─────────────────────────────────────────────────────────
+
+describe("IsnadSDK.listDisclosures", () => {
+  it("decodes the disclosing auditor and the attestation snapshot", async () => {
+    const disclosures = [
+      {
+        auditor: 0xa11cen,
+        skillHash: 0xabcn,
+        quality: 90,
+        claimType: ClaimType.BEHAVIORAL,
+        depth: 1,
+        evidence: 0xe1dn,
+      },
+      { auditor: 0xb0bn, skillHash: 0xdefn, quality: 60, claimType: ClaimType.CODE_REVIEW, depth: 0 },
+    ];
+    const { contract } = makeFakeRegistry([], { disclosures });
+
+    expect(await connectFake(contract).listDisclosures()).toEqual([
+      {
+        auditor: new Fr(0xa11cen).toString(),
+        skillHash: new Fr(0xabcn).toString(),
+        quality: 90,
+        claimType: ClaimType.BEHAVIORAL,
+        depthAtAttestation: 1,
+        evidenceHash: new Fr(0xe1dn).toString(),
+      },
+      {
+        auditor: new Fr(0xb0bn).toString(),
+        skillHash: new Fr(0xdefn).toString(),
+        quality: 60,
+        claimType: ClaimType.CODE_REVIEW,
+        depthAtAttestation: 0,
+      },
+    ]);
+  });
+
+  it("pages until a short page and reports an unreachable PXE", async () => {
+    const disclosures = Array.from({ length: 12 }, (_, i) => ({
+      auditor: 1n,
+      skillHash: BigInt(i + 1),
+      quality: 50,
+      claimType: ClaimType.CODE_REVIEW,
+      depth: 0,
+    }));
+    const { contract, pages } = makeFakeRegistry([], { disclosures });
+    expect(await connectFake(contract).listDisclosures()).toHaveLength(12);
+    expect(pages).toEqual([
+      { offset: 0, limit: 10 },
+      { offset: 10, limit: 10 },
+    ]);
+
+    const down = makeFakeRegistry([], { networkDown: true });
+    await expect(connectFake(down.contract).listDisclosures()).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Batch trust lookup tests — IsnadSDK.getTrustScores().
+ *
+ * Uses a fake IsnadRegistryContract whose view functions resolve from an in-memory
+ * table, so the batching logic (dedupe, concurrency cap, per-hash errors) can be
+ * exercised without a PXE.
+ *
+ * Run with: vitest run tests/sdk.batch.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import { DEFAULT_BATCH_CONCURRENCY } from "../src/types.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+interface FakeSkill {
+  score: bigint;
+  count: bigint;
+  quarantined: boolean;
+  reports?: bigint;
+}
+
+function makeFakeContract(skills: Map<string, FakeSkill>, failing = new Set<string>()) {
+  const stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+
+  const view = (pick: (s: FakeSkill) => unknown, fallback: unknown) => (hash: Fr) => ({
+    simulate: async () => {
+      stats.calls++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((r) => setTimeout(r, 1));
+      stats.inFlight--;
+      const key = hash.toString();
+      if (failing.has(key)) throw new Error(`PXE error for ${key}`);
+      const skill = skills.get(key);
+      return skill ? pick(skill) : fallback;
+    },
+  });
+
+  const contract = {
+    methods: {
+      get_trust_score: view((s) => (s.quarantined ? 0n : s.score), 0n),
+      get_attestation_count: view((s) => s.count, 0n),
+      is_quarantined: view((s) => s.quarantined, false),
+      get_report_count: view((s) => s.reports ?? 0n, 0n),
+    },
+  };
+  return { contract, stats };
+}
+
+function connectFake(contract: unknown): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract);
+}
+
+function hashOf(n: number): string {
+  return new Fr(BigInt(n)).toString();
+}
+
+// ─── TESTS ────────────────────────────────────────────────────────────────────
+
+describe("IsnadSDK.getTrustScores — results", () => {
+  it("returns a SkillTrustInfo for every requested skill, keyed by normalized hash", async () => {
+    const skills = new Map<string, FakeSkill>([
+      [hashOf(1), { score: 400n, count: 1n, quarantined: false }],
+      [hashOf(2), { score: 900n, count: 3n, quarantined: true, reports: 2n }],
+    ]);
+    const { contract } = makeFakeContract(skills);
+    const sdk = connectFake(contract);
+
+    const result = await sdk.getTrustScores([hashOf(1), hashOf(2), hashOf(3)]);
+
+    expect(result.size).toBe(3);
+    expect(result.get(hashOf(1))).toEqual({
+      skillHash: hashOf(1),
+      trustScore: 400n,
+      attestationCount: 1n,
+      isQuarantined: false,
+      reportCount: 0n,
+    });
+    // Quarantined: contract forces score to 0, count preserved
+    expect(result.get(hashOf(2))?.trustScore).toBe(0n);
+    expect(result.get(hashOf(2))?.isQuarantined).toBe(true);
+    expect(result.get(hashOf(2))?.reportCount).toBe(2n);
+    // Unattested skill is present with zeros, not missing
+    expect(result.get(hashOf(3))?.attestationCount).toBe(0n);
+  });
+
+  it("returns an empty map for an empty input", async () => {
+    const { contract, stats } = makeFakeContract(new Map());
+    const result = await connectFake(contract).getTrustScores([]);
+    expect(result.size).toBe(0);
+    expect(stats.calls).toBe(0);
+  });
+
+  it("accepts Fr inputs alongside hex strings", async () => {
+    const { contract } = makeFakeContract(new Map());
+    const result = await connectFake(contract).getTrustScores([new Fr(7n), "0x08"]);
+    expect([...result.keys()]).toEqual([hashOf(7), hashOf(8)]);
+  });
+});
+
+describe("IsnadSDK.getTrustScores — dedupe", () => {
+  it("queries each distinct field value once", async () => {
+    const { contract, stats } = makeFakeContract(new Map());
+    const sdk = connectFake(contract);
+
+    // Same field value in three spellings, plus an Fr
+    const result = await sdk.getTrustScores(["0x7f3a", "0x7F3A", hashOf(0x7f3a), new Fr(0x7f3an)]);
+
+    expect(result.size).toBe(1);
+    expect(stats.calls).toBe(4); // one skill × four view calls
+  });
+});
+
+describe("IsnadSDK.getTrustScores — concurrency", () => {
+  it(`defaults to DEFAULT_BATCH_CONCURRENCY (${DEFAULT_BATCH_CONCURRENCY}) skills in flight`, async () => {
+    const { contract, stats } = makeFakeContract(new Map());
+    const hashes = Array.from({ length: 40 }, (_, i) => hashOf(i + 1));
+
+    const result = await connectFake(contract).getTrustScores(hashes);
+
+    expect(result.size).toBe(40);
+    // Each skill issues its four view calls in parallel
+    expect(stats.maxInFlight).toBeLessThanOrEqual(DEFAULT_BATCH_CONCURRENCY * 4);
+    expect(stats.maxInFlight).toBeGreaterThan(4);
+  });
+
+  it("honours a custom concurrency limit", async () => {
+    const { contract, stats } = makeFakeContract(new Map());
+    const hashes = Array.from({ length: 12 }, (_, i) => hashOf(i + 1));
+
+    await connectFake(contract).getTrustScores(hashes, { concurrency: 1 });
+
+    expect(stats.maxInFlight).toBe(4);
+    expect(stats.calls).toBe(48);
+  });
+
+  it("rejects a non-positive concurrency", async () => {
+    const { contract } = makeFakeContract(new Map());
+    await expect(
+      connectFake(contract).getTrustScores([hashOf(1)], { concurrency: 0 }),
+    ).rejects.toThrow("concurrency must be a positive integer");
+  });
+});
+
+describe("IsnadSDK.getTrustScores — per-hash errors", () => {
+  it("reports a failing lookup through onError and keeps the rest of the batch", async () => {
+    const { contract } = makeFakeContract(new Map(), new Set([hashOf(2)]));
+    const errors: Array<[string, unknown]> = [];
+
+    const result = await connectFake(contract).getTrustScores([hashOf(1), hashOf(2), hashOf(3)], {
+      onError: (hash, err) => errors.push([hash, err]),
+    });
+
+    expect([...result.keys()]).toEqual([hashOf(1), hashOf(3)]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0][0]).toBe(hashOf(2));
+    expect((errors[0][1] as Error).message).toContain("PXE error");
+  });
+
+  it("reports malformed hashes without querying them", async () => {
+    const { contract, stats } = makeFakeContract(new Map());
+    const failed: string[] = [];
+
+    const result = await connectFake(contract).getTrustScores(
+      ["0xnot-hex", "0x" + "f".repeat(64), hashOf(1)],
+      { onError: (hash) => failed.push(hash) },
+    );
+
+    expect(result.size).toBe(1);
+    expect(failed).toEqual(["0xnot-hex", "0x" + "f".repeat(64)]);
+    expect(stats.calls).toBe(4);
+  });
+
+  it("does not throw when errors occur and no onError is given", async () => {
+    const { contract } = makeFakeContract(new Map(), new Set([hashOf(1)]));
+    const result = await connectFake(contract).getTrustScores([hashOf(1)]);
+    expect(result.size).toBe(0);
+  });
+});
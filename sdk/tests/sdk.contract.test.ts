@@ -55,7 +55,8 @@ function encodeLabel(label: string): string {
 }
 
 function hashKeyId(keyId: string): string {
-  // Mirror IsnadSDK._hashKeyId: pack first 31 UTF-8 bytes as a bigint
+  // Stand-in for IsnadSDK key ID hashing — the contract treats key_id as an opaque
+  // Field, so the legacy 31-byte packing is enough for these short IDs
   const bytes = new TextEncoder().encode(keyId);
   let v = 0n;
   for (let i = 0; i < Math.min(bytes.length, 31); i++) v = (v << 8n) | BigInt(bytes[i]);
@@ -204,6 +205,41 @@ class MockIsnadRegistry {
     return this._mockTxHash();
   }
 
+  /**
+   * Maps to: #[external("private")] fn amend_attestation(skill_hash: Field, quality: u8, claim_type: u8)
+   *
+   *   1. Validate quality and claim_type
+   *   2. Pop the AttestationNote matching skill_hash and insert its replacement
+   *   3. Enqueue + execute _adjust_score(skill_hash, old, new) — count unchanged
+   *
+   * The SingleUseClaim is not touched: amending never spends or releases it.
+   */
+  amendAttestation(auditorAddress: string, skillHash: string, quality: number, claimType: number): string {
+    if (quality < 0 || quality > 100) {
+      throw new Error(`quality must be 0-100, got ${quality}`);
+    }
+    if (![0, 1, 2].includes(claimType)) {
+      throw new Error(`claimType must be 0, 1, or 2, got ${claimType}`);
+    }
+
+    const notes = this.attestationNotes.get(auditorAddress) ?? [];
+    const idx = notes.findIndex((n) => n.skillHash === skillHash);
+    if (idx === -1) {
+      throw new Error("No AttestationNote found for this skill — cannot amend");
+    }
+
+    const old = notes[idx];
+    this.spentNoteNonces.add(old.nonce);
+    notes.splice(idx, 1, { skillHash, quality, claimType, nonce: nextNonce() });
+
+    // Public phase: _adjust_score (same floor as _decrement_score)
+    const currentScore = this.trustScores.get(skillHash) ?? 0n;
+    const base = currentScore >= BigInt(old.quality) ? currentScore - BigInt(old.quality) : 0n;
+    this.trustScores.set(skillHash, base + BigInt(quality));
+
+    return this._mockTxHash();
+  }
+
   /**
    * Maps to: #[external("private")] fn store_credential(key_id: Field, value: [Field;4], label: Field)
    *
@@ -680,6 +716,62 @@ describe("Attestation revocation — revoke_attestation()", () => {
   });
 });
 
+// ─── ATTESTATION AMENDMENT ───────────────────────────────────────────────────
+
+describe("Attestation amendment — amend_attestation()", () => {
+  let registry: MockIsnadRegistry;
+
+  beforeEach(() => { registry = new MockIsnadRegistry(); });
+
+  it("amend moves the trust score by the quality difference and keeps the count", () => {
+    const h = makeSkillHash("amend-score-skill");
+    registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW);
+    registry.attest(BOB, h, 70, ClaimType.CODE_REVIEW);
+
+    registry.amendAttestation(ALICE, h, 40, ClaimType.BEHAVIORAL);
+
+    expect(registry.getTrustScore(h)).toBe(110n);
+    expect(registry.getAttestationCount(h)).toBe(2n);
+    expect(registry.getAuditorNoteCount(ALICE)).toBe(1); // replaced, not added
+  });
+
+  it("revoke after amend removes the amended quality", () => {
+    const h = makeSkillHash("amend-then-revoke-skill");
+    registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW);
+    registry.amendAttestation(ALICE, h, 40, ClaimType.CODE_REVIEW);
+    registry.amendAttestation(ALICE, h, 60, ClaimType.CODE_REVIEW);
+    expect(registry.getTrustScore(h)).toBe(60n);
+
+    registry.revokeAttestation(ALICE, h);
+    expect(registry.getTrustScore(h)).toBe(0n);
+    expect(registry.getAttestationCount(h)).toBe(0n);
+  });
+
+  it("amend does not release the claim", () => {
+    const h = makeSkillHash("amend-claim-skill");
+    registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW);
+    registry.amendAttestation(ALICE, h, 40, ClaimType.CODE_REVIEW);
+    expect(() => registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW)).toThrow("SingleUseClaim already consumed");
+  });
+
+  it("cannot amend without an active attestation", () => {
+    const h = makeSkillHash("amend-missing-skill");
+    expect(() => registry.amendAttestation(ALICE, h, 40, ClaimType.CODE_REVIEW)).toThrow("No AttestationNote found");
+
+    registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW);
+    registry.revokeAttestation(ALICE, h);
+    expect(() => registry.amendAttestation(ALICE, h, 40, ClaimType.CODE_REVIEW)).toThrow("No AttestationNote found");
+    expect(registry.getTrustScore(h)).toBe(0n);
+  });
+
+  it("amend validates quality like attest", () => {
+    const h = makeSkillHash("amend-quality-skill");
+    registry.attest(ALICE, h, 90, ClaimType.CODE_REVIEW);
+    expect(() => registry.amendAttestation(ALICE, h, 101, ClaimType.CODE_REVIEW)).toThrow("quality must be 0-100");
+    expect(registry.getTrustScore(h)).toBe(90n);
+  });
+});
+
 // ─── CREDENTIAL REGISTRATION ─────────────────────────────────────────────────
 
 describe("Credential registration — store_credential()", () => {
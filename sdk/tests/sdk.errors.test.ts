@@ -0,0 +1,201 @@
+/**
+ * Error tests — IsnadError codes, the revert-string mapping, and the errors IsnadSDK
+ * methods throw.
+ *
+ * The mapping is checked against every assert message in the Noir contract source,
+ * so a new or reworded revert string fails here until it is given a code.
+ *
+ * Run with: vitest run tests/sdk.errors.test.ts
+ */
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import {
+  IsnadConflictError,
+  IsnadError,
+  isIsnadError,
+  isnadError,
+  IsnadNetworkError,
+  IsnadNotFoundError,
+  IsnadPermissionError,
+  IsnadValidationError,
+  toIsnadError,
+  type IsnadErrorCode,
+} from "../src/errors.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+/** A contract whose every call fails with `message`, counting the calls that reach it. */
+function makeFailingContract(message: string) {
+  const calls: string[] = [];
+  const fail = (name: string) => ({
+    send: async () => {
+      calls.push(name);
+      throw new Error(message);
+    },
+    simulate: async () => {
+      calls.push(name);
+      throw new Error(message);
+    },
+  });
+  const contract = {
+    methods: new Proxy({}, { get: (_target, name: string) => () => fail(name) }),
+  };
+  return { contract, calls };
+}
+
+function connectFake(contract: unknown): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract);
+}
+
+async function codeOf(promise: Promise<unknown>): Promise<IsnadErrorCode | undefined> {
+  try {
+    await promise;
+  } catch (err) {
+    expect(err).toBeInstanceOf(IsnadError);
+    return (err as IsnadError).code;
+  }
+  return undefined;
+}
+
+const HASH = "0x00" + "ab".repeat(31);
+
+// ─── toIsnadError ────────────────────────────────────────────────────────────
+
+describe("toIsnadError", () => {
+  const contractSource = readFileSync(
+    new URL("../../contracts/isnad_registry/src/main.nr", import.meta.url),
+    "utf8",
+  );
+  const reverts = [...contractSource.matchAll(/assert\([^;]*?,\s*"([^"]+)"\s*\);/g)].map((m) => m[1]);
+
+  it("finds the contract's revert strings", () => {
+    expect(reverts.length).toBeGreaterThanOrEqual(10);
+  });
+
+  it.each(reverts)("gives %j a code", (message) => {
+    expect(toIsnadError(new Error(`Assertion failed: ${message}`)).code).not.toBe("UNKNOWN");
+  });
+
+  it.each([
+    ["only the admin can add root attestors", "NOT_ADMIN", IsnadPermissionError],
+    ["only the admin can quarantine or unquarantine skills", "NOT_ADMIN", IsnadPermissionError],
+    ["caller is not an authorized attestor -- must be in the Isnad chain", "NOT_AUTHORIZED_ATTESTOR", IsnadPermissionError],
+    ["caller does not have an authorization certificate", "NOT_AUTHORIZED_ATTESTOR", IsnadPermissionError],
+    ["vouching chain depth limit reached", "DEPTH_LIMIT", IsnadPermissionError],
+    ["address is already an authorized attestor", "ALREADY_AUTHORIZED", IsnadConflictError],
+    ["No attestation found for this skill", "ATTESTATION_NOT_FOUND", IsnadNotFoundError],
+    ["Credential not found for key_id", "CREDENTIAL_NOT_FOUND", IsnadNotFoundError],
+    ["No credential found for key_id -- nothing to delete", "CREDENTIAL_NOT_FOUND", IsnadNotFoundError],
+    ["quality must be in range 0-100", "INVALID_ARGUMENT", IsnadValidationError],
+    ["TypeError: fetch failed", "PXE_UNREACHABLE", IsnadNetworkError],
+    ["connect ECONNREFUSED 127.0.0.1:8080", "PXE_UNREACHABLE", IsnadNetworkError],
+    ["Tx 0x12 was dropped", "TX_DROPPED", IsnadNetworkError],
+    ["Timeout awaiting isMined", "TX_TIMEOUT", IsnadNetworkError],
+  ] as const)("maps %j to %s", (message, code, ErrorClass) => {
+    const err = toIsnadError(new Error(message));
+    expect(err.code).toBe(code);
+    expect(err).toBeInstanceOf(ErrorClass);
+    expect(err).toBeInstanceOf(IsnadError);
+    expect(err.message).toBe(message);
+  });
+
+  it("maps a nullifier collision by the caller's hint", () => {
+    const collision = new Error("Nullifier collision encountered when inserting revertible nullifiers");
+    expect(toIsnadError(collision, { nullifierCollision: "ALREADY_ATTESTED" }).code).toBe("ALREADY_ATTESTED");
+    expect(toIsnadError(collision).code).toBe("UNKNOWN");
+  });
+
+  it("keeps the original error as cause and passes IsnadErrors through", () => {
+    const original = new Error("something new");
+    const err = toIsnadError(original);
+    expect(err.code).toBe("UNKNOWN");
+    expect(err.cause).toBe(original);
+    expect(toIsnadError(err)).toBe(err);
+  });
+
+  it("accepts non-Error values", () => {
+    expect(toIsnadError("fetch failed").code).toBe("PXE_UNREACHABLE");
+  });
+});
+
+describe("isIsnadError", () => {
+  it("checks the code when given one", () => {
+    const err = isnadError("NOT_ADMIN", "nope");
+    expect(isIsnadError(err)).toBe(true);
+    expect(isIsnadError(err, "NOT_ADMIN")).toBe(true);
+    expect(isIsnadError(err, "DEPTH_LIMIT")).toBe(false);
+    expect(isIsnadError(new Error("nope"))).toBe(false);
+  });
+
+  it("recognises errors from another copy of the SDK", () => {
+    const foreign = Object.assign(new Error("nope"), { name: "IsnadPermissionError", code: "NOT_ADMIN" });
+    expect(isIsnadError(foreign, "NOT_ADMIN")).toBe(true);
+  });
+});
+
+// ─── IsnadSDK ────────────────────────────────────────────────────────────────
+
+describe("IsnadSDK errors", () => {
+  it("reports a second attestation as ALREADY_ATTESTED", async () => {
+    const { contract } = makeFailingContract("Existing nullifier in tx");
+    const err = await connectFake(contract)
+      .attest({ skillHash: HASH, quality: 80 })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(IsnadConflictError);
+    expect((err as IsnadError).code).toBe("ALREADY_ATTESTED");
+  });
+
+  it("translates contract reverts from sends", async () => {
+    const sdk = connectFake(makeFailingContract("Assertion failed: only the admin can add root attestors").contract);
+    expect(await codeOf(sdk.addRootAttestor(Fr.ONE as never))).toBe("NOT_ADMIN");
+    expect(await codeOf(sdk.quarantine(HASH))).toBe("NOT_ADMIN");
+  });
+
+  it("translates failures from views", async () => {
+    const sdk = connectFake(makeFailingContract("fetch failed").contract);
+    expect(await codeOf(sdk.getTrustScore(HASH))).toBe("PXE_UNREACHABLE");
+    expect(await codeOf(sdk.isQuarantined(HASH))).toBe("PXE_UNREACHABLE");
+    expect(await codeOf(sdk.getCredential("openai"))).toBe("PXE_UNREACHABLE");
+    expect(await codeOf(sdk.listCredentials())).toBe("PXE_UNREACHABLE");
+  });
+
+  it("rejects bad arguments before calling the contract", async () => {
+    const { contract, calls } = makeFailingContract("unreachable");
+    const sdk = connectFake(contract);
+
+    expect(await codeOf(sdk.attest({ skillHash: HASH, quality: 101 }))).toBe("INVALID_ARGUMENT");
+    expect(await codeOf(sdk.attest({ skillHash: "0xnot-hex", quality: 50 }))).toBe("INVALID_ARGUMENT");
+    expect(await codeOf(sdk.revokeAttestation("0x" + "f".repeat(64)))).toBe("INVALID_ARGUMENT");
+    expect(await codeOf(sdk.getTrustScores([HASH], { concurrency: 0 }))).toBe("INVALID_ARGUMENT");
+    expect(calls).toEqual([]);
+  });
+
+  it("reports oversized credentials as CREDENTIAL_TOO_LARGE before calling the contract", async () => {
+    const { contract, calls } = makeFailingContract("unreachable");
+    const err = await connectFake(contract)
+      .storeCredential({ keyId: "k", value: "x".repeat(5000), label: "" })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(IsnadValidationError);
+    expect((err as IsnadError).code).toBe("CREDENTIAL_TOO_LARGE");
+    expect(calls).toEqual([]);
+  });
+
+  it("reports a missing credential on delete as CREDENTIAL_NOT_FOUND", async () => {
+    const contract = {
+      methods: {
+        get_credential: () => ({ simulate: async () => null }),
+        // A revert surfaces in the simulation that precedes every send
+        delete_credential: () => ({
+          simulate: async () => {
+            throw new Error("Assertion failed: No credential found for key_id -- nothing to delete");
+          },
+        }),
+      },
+    };
+    expect(await codeOf(connectFake(contract).deleteCredential("gone"))).toBe("CREDENTIAL_NOT_FOUND");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Isomorphic hashing tests — the WebCrypto hash module must agree with
+ * IsnadSDK.computeSkillHash byte-for-byte, including for digests above the BN254
+ * modulus, and normalizeSkillHash must map raw SHA256 hex onto the same value.
+ *
+ * Run with: vitest run tests/sdk.hash.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { createHash } from "node:crypto";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import {
+  BN254_MODULUS,
+  computeSkillHash,
+  fieldToHex,
+  normalizeSkillHash,
+  reduceToField,
+  sha256,
+} from "../src/hash.js";
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const enc = (s: string) => new TextEncoder().encode(s);
+const rawSha256Hex = (data: Uint8Array) => createHash("sha256").update(data).digest("hex");
+
+/** Find a skill file whose SHA256 is ≥ the field modulus (about 3 in 4 inputs are not). */
+function contentAboveModulus(): Uint8Array {
+  for (let i = 0; ; i++) {
+    const content = enc(`# skill ${i}\n`);
+    if (BigInt("0x" + rawSha256Hex(content)) >= BN254_MODULUS) return content;
+  }
+}
+
+// ─── computeSkillHash ────────────────────────────────────────────────────────
+
+describe("computeSkillHash (hash module)", () => {
+  it("matches IsnadSDK.computeSkillHash for many inputs", async () => {
+    for (let i = 0; i < 64; i++) {
+      const content = enc(`skill-${i}\n`.repeat(i + 1));
+      expect(await computeSkillHash(content)).toBe(IsnadSDK.computeSkillHash(content).toString());
+    }
+  });
+
+  it("reduces digests above the BN254 modulus", async () => {
+    const content = contentAboveModulus();
+    const raw = BigInt("0x" + rawSha256Hex(content));
+    const hash = await computeSkillHash(content);
+
+    expect(BigInt(hash)).toBe(raw - BN254_MODULUS * (raw / BN254_MODULUS));
+    expect(BigInt(hash)).toBeLessThan(BN254_MODULUS);
+    expect(() => Fr.fromHexString(hash)).not.toThrow();
+  });
+
+  it("returns 0x + 64 lowercase hex", async () => {
+    expect(await computeSkillHash(new Uint8Array())).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+});
+
+describe("sha256 / reduceToField / fieldToHex", () => {
+  it("sha256 matches node:crypto, including multi-part input", async () => {
+    const digest = await sha256(enc("hello "), enc("world"));
+    expect(Buffer.from(digest).toString("hex")).toBe(rawSha256Hex(enc("hello world")));
+  });
+
+  it("reduceToField is big-endian", () => {
+    expect(reduceToField(Uint8Array.of(0x01, 0x00))).toBe(256n);
+  });
+
+  it("fieldToHex matches Fr.toString()", () => {
+    expect(fieldToHex(0x7f3an)).toBe(new Fr(0x7f3an).toString());
+  });
+});
+
+// ─── normalizeSkillHash ──────────────────────────────────────────────────────
+
+describe("normalizeSkillHash", () => {
+  it.each([
+    ["0x7f3a", "0x" + "0".repeat(60) + "7f3a"],
+    ["0X7F3A", "0x" + "0".repeat(60) + "7f3a"],
+    ["7f3a", "0x" + "0".repeat(60) + "7f3a"],
+    ["  0x7f3a\n", "0x" + "0".repeat(60) + "7f3a"],
+  ])("%j → canonical form", (input, expected) => {
+    expect(normalizeSkillHash(input)).toBe(expected);
+  });
+
+  it("maps a raw SHA256 digest (e.g. from sha256sum) to the SDK's skill hash", () => {
+    const content = contentAboveModulus();
+    const raw = rawSha256Hex(content);
+    expect(() => Fr.fromHexString("0x" + raw)).toThrow();
+    expect(normalizeSkillHash(raw)).toBe(IsnadSDK.computeSkillHash(content).toString());
+  });
+
+  it("is idempotent", () => {
+    const once = normalizeSkillHash("0x" + "f".repeat(64));
+    expect(normalizeSkillHash(once)).toBe(once);
+  });
+
+  it.each(["", "0x", "0xzz", "0x" + "1".repeat(65), "sk-123"])("rejects %j", (input) => {
+    expect(() => normalizeSkillHash(input)).toThrow("Invalid skill hash");
+    expect(() => normalizeSkillHash(input)).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * IsnadIndexer tests — per-skill trust history rebuilt from block public data writes.
+ *
+ * A fake node serves blocks whose transactions write the same public data tree
+ * leaf slots the contract's trust_scores, attestation_counts, quarantine_flags and
+ * report_counts maps would, plus getPublicStorageAt for indexers that start mid-chain.
+ *
+ * Run with: vitest run tests/sdk.indexer.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { computePublicDataTreeLeafSlot, deriveStorageSlotInMap } from "@aztec/stdlib/hash";
+import { IsnadIndexer, JsonFileIndexerStore, MemoryIndexerStore } from "../src/indexer.js";
+import { IsnadRegistryContract } from "../src/artifacts/IsnadRegistry.js";
+
+// ─── FAKE NODE ───────────────────────────────────────────────────────────────
+
+const CONTRACT = AztecAddress.fromBigInt(0xc0ffeen);
+const SKILL = "0x00" + "ab".repeat(31);
+const OTHER_SKILL = "0x00" + "cd".repeat(31);
+const KEY = Fr.fromHexString(SKILL).toString();
+
+type SkillMap = "trust_scores" | "attestation_counts" | "quarantine_flags" | "report_counts";
+type Write = [skill: string, map: SkillMap, value: bigint];
+
+async function leafSlot(skill: string, map: SkillMap): Promise<Fr> {
+  const slot = await deriveStorageSlotInMap(IsnadRegistryContract.storage[map].slot, Fr.fromHexString(skill));
+  return computePublicDataTreeLeafSlot(CONTRACT, slot);
+}
+
+function makeFakeNode() {
+  const blocks: unknown[] = [];
+  const requests: Array<[from: number, limit: number]> = [];
+  /** Storage slot → value per block, for getPublicStorageAt */
+  const history: Array<Map<string, Fr>> = [new Map()];
+  let down = false;
+
+  const node = {
+    getBlockNumber: async () => {
+      if (down) throw new Error("fetch failed");
+      return blocks.length;
+    },
+    getBlocks: async (from: number, limit: number) => {
+      if (down) throw new Error("fetch failed");
+      requests.push([from, limit]);
+      return blocks.slice(from - 1, from - 1 + limit);
+    },
+    getPublicStorageAt: async (block: number, _contract: AztecAddress, slot: Fr) =>
+      history[block].get(slot.toString()) ?? Fr.ZERO,
+  };
+
+  /** Append a block with one transaction per entry of `txs`. */
+  const mine = async (...txs: Write[][]) => {
+    const number = blocks.length + 1;
+    const storage = new Map(history[number - 1]);
+    const txEffects = [];
+    for (const [i, writes] of txs.entries()) {
+      const publicDataWrites = [];
+      for (const [skill, map, value] of writes) {
+        publicDataWrites.push({ leafSlot: await leafSlot(skill, map), value: new Fr(value) });
+        const slot = await deriveStorageSlotInMap(IsnadRegistryContract.storage[map].slot, Fr.fromHexString(skill));
+        storage.set(slot.toString(), new Fr(value));
+      }
+      // An unrelated write from another contract's state in the same transaction
+      publicDataWrites.push({ leafSlot: new Fr(BigInt(number * 100 + i)), value: Fr.ONE });
+      txEffects.push({ txHash: { toString: () => `0xtx${number}-${i}` }, publicDataWrites });
+    }
+    blocks.push({ number, timestamp: BigInt(1_700_000_000 + number * 10), body: { txEffects } });
+    history.push(storage);
+  };
+
+  return { node, mine, requests, goDown: () => (down = true) };
+}
+
+function indexerFor(fake: ReturnType<typeof makeFakeNode>, opts?: object): IsnadIndexer {
+  return IsnadIndexer.connect(fake.node as never, CONTRACT, opts);
+}
+
+// ─── HISTORY ─────────────────────────────────────────────────────────────────
+
+describe("IsnadIndexer history", () => {
+  it("records each transaction's before and after values with block timestamps", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([
+      [SKILL, "trust_scores", 320n],
+      [SKILL, "attestation_counts", 1n],
+    ]);
+    await fake.mine();
+    await fake.mine([[SKILL, "quarantine_flags", 1n]]);
+
+    const history = await indexerFor(fake).getHistory(SKILL);
+
+    expect(history).toEqual([
+      {
+        skillHash: KEY,
+        blockNumber: 1,
+        timestamp: 1_700_000_010_000,
+        txHash: "0xtx1-0",
+        before: { trustScore: 0n, attestationCount: 0n, isQuarantined: false, reportCount: 0n },
+        after: { trustScore: 320n, attestationCount: 1n, isQuarantined: false, reportCount: 0n },
+      },
+      {
+        skillHash: KEY,
+        blockNumber: 3,
+        timestamp: 1_700_000_030_000,
+        txHash: "0xtx3-0",
+        before: { trustScore: 320n, attestationCount: 1n, isQuarantined: false, reportCount: 0n },
+        after: { trustScore: 320n, attestationCount: 1n, isQuarantined: true, reportCount: 0n },
+      },
+    ]);
+  });
+
+  it("keeps skills apart and orders transactions within a block", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(
+      [
+        [SKILL, "trust_scores", 240n],
+        [SKILL, "attestation_counts", 1n],
+      ],
+      [[OTHER_SKILL, "attestation_counts", 1n]],
+      [
+        [SKILL, "trust_scores", 400n],
+        [SKILL, "attestation_counts", 2n],
+      ],
+    );
+    const indexer = indexerFor(fake);
+
+    const history = await indexer.getHistory(SKILL);
+    expect(history.map((e) => [e.txHash, e.after.trustScore])).toEqual([
+      ["0xtx1-0", 240n],
+      ["0xtx1-2", 400n],
+    ]);
+    expect((await indexer.getHistory(OTHER_SKILL)).map((e) => e.txHash)).toEqual(["0xtx1-1"]);
+  });
+
+  it("records report counts", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "report_counts", 1n]]);
+    await fake.mine([[SKILL, "report_counts", 2n]]);
+
+    const history = await indexerFor(fake).getHistory(SKILL);
+
+    expect(history.map((e) => [e.before.reportCount, e.after.reportCount])).toEqual([
+      [0n, 1n],
+      [1n, 2n],
+    ]);
+  });
+
+  it("skips writes that leave the values unchanged", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "quarantine_flags", 0n]]);
+    expect(await indexerFor(fake).getHistory(SKILL)).toEqual([]);
+  });
+
+  it("resumes from where the last sync stopped", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "attestation_counts", 1n]]);
+    const indexer = indexerFor(fake, { batchSize: 2 });
+    await indexer.getHistory(SKILL);
+
+    await fake.mine();
+    await fake.mine();
+    await fake.mine([[SKILL, "attestation_counts", 2n]]);
+    const history = await indexer.getHistory(SKILL);
+
+    expect(history.map((e) => e.after.attestationCount)).toEqual([1n, 2n]);
+    expect(fake.requests).toEqual([
+      [1, 1],
+      [2, 2],
+      [4, 1],
+    ]);
+  });
+
+  it("backfills a newly tracked skill without duplicating the others' history", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "attestation_counts", 1n]], [[OTHER_SKILL, "attestation_counts", 1n]]);
+    await fake.mine([[OTHER_SKILL, "attestation_counts", 2n]]);
+    const store = new MemoryIndexerStore();
+    const indexer = indexerFor(fake, { store });
+    await indexer.getHistory(SKILL);
+
+    const other = await indexer.getHistory(OTHER_SKILL);
+
+    expect(other.map((e) => e.after.attestationCount)).toEqual([1n, 2n]);
+    expect(await store.getHistory(KEY)).toHaveLength(1);
+  });
+
+  it("reads the starting values when indexing from a later block", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([
+      [SKILL, "trust_scores", 240n],
+      [SKILL, "attestation_counts", 1n],
+    ]);
+    await fake.mine([[SKILL, "attestation_counts", 2n]]);
+
+    const history = await indexerFor(fake, { fromBlock: 2 }).getHistory(SKILL);
+
+    expect(history).toHaveLength(1);
+    expect(history[0].before).toEqual({
+      trustScore: 240n,
+      attestationCount: 1n,
+      isQuarantined: false,
+      reportCount: 0n,
+    });
+    expect(history[0].after.attestationCount).toBe(2n);
+    expect(fake.requests).toEqual([[2, 1]]);
+  });
+
+  it("shares one walk between concurrent syncs", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "attestation_counts", 1n]]);
+    const indexer = indexerFor(fake);
+    await indexer.track([SKILL]);
+
+    expect(await Promise.all([indexer.sync(), indexer.sync()])).toEqual([1, 1]);
+    expect(fake.requests).toHaveLength(1);
+  });
+});
+
+// ─── STORES ──────────────────────────────────────────────────────────────────
+
+describe("JsonFileIndexerStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "isnad-indexer-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists progress and history across instances", async () => {
+    const fake = makeFakeNode();
+    await fake.mine([[SKILL, "trust_scores", 320n]]);
+    const path = join(dir, "nested", "history.json");
+    await indexerFor(fake, { store: new JsonFileIndexerStore(path) }).getHistory(SKILL);
+
+    const history = await indexerFor(fake, { store: new JsonFileIndexerStore(path) }).getHistory(SKILL);
+
+    expect(history.map((e) => e.after.trustScore)).toEqual([320n]);
+    expect(fake.requests).toHaveLength(1);
+    const body = JSON.parse(await readFile(path, "utf8"));
+    expect(body.skills[KEY]).toMatchObject({ indexedTo: 1, values: { trustScore: "320", reportCount: "0" } });
+  });
+
+  it("reads files written before report counts were indexed", async () => {
+    const path = join(dir, "history.json");
+    const values = { trustScore: "320", attestationCount: "1", isQuarantined: false };
+    await writeFile(path, JSON.stringify({ skills: { [KEY]: { skillHash: KEY, indexedTo: 1, values } }, history: {} }));
+
+    const skill = await new JsonFileIndexerStore(path).getSkill(KEY);
+
+    expect(skill?.values).toEqual({ trustScore: 320n, attestationCount: 1n, isQuarantined: false, reportCount: 0n });
+  });
+});
+
+// ─── ERRORS ──────────────────────────────────────────────────────────────────
+
+describe("IsnadIndexer errors", () => {
+  it("rejects bad options and hashes as INVALID_ARGUMENT", async () => {
+    const fake = makeFakeNode();
+    expect(() => indexerFor(fake, { fromBlock: 0 })).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    expect(() => indexerFor(fake, { batchSize: 1.5 })).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    await expect(indexerFor(fake).getHistory("0xnot-hex")).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+  });
+
+  it("reports an unreachable node as PXE_UNREACHABLE", async () => {
+    const fake = makeFakeNode();
+    fake.goDown();
+    await expect(indexerFor(fake).getHistory(SKILL)).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
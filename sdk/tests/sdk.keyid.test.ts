@@ -0,0 +1,227 @@
+/**
+ * Credential key ID tests — poseidon2 key ID hashing and the legacy migration.
+ *
+ * Uses a fake IsnadRegistryContract whose credential vault is an in-memory list of
+ * notes (duplicate key_ids allowed, as with the contract's PrivateSet), so
+ * migrateLegacyCredentials() can be exercised without a PXE.
+ *
+ * Run with: vitest run tests/sdk.keyid.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import { hashKeyId, legacyKeyIdField } from "../src/keyid.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+interface FakeNote {
+  keyId: string;
+  value: Fr[];
+  label: Fr;
+}
+
+function makeFakeVault(notes: FakeNote[] = []) {
+  const sends: string[] = [];
+  let tx = 0;
+  const send = (name: string, effect: () => void) => ({
+    simulate: async () => undefined,
+    send: async () => {
+      effect();
+      sends.push(name);
+      return { txHash: new Fr(BigInt(++tx)) };
+    },
+  });
+
+  const contract = {
+    methods: {
+      store_credential: (keyId: Fr, value: Fr[], label: Fr) =>
+        send("store_credential", () => notes.push({ keyId: keyId.toString(), value, label })),
+      get_credential: (_owner: Fr, keyId: Fr) => ({
+        simulate: async () => notes.find((n) => n.keyId === keyId.toString())?.value ?? null,
+      }),
+      get_credential_entry: (_owner: Fr, keyId: Fr) => ({
+        simulate: async () => {
+          const note = notes.find((n) => n.keyId === keyId.toString());
+          return note ? { key_id: BigInt(note.keyId), value: note.value, label: note.label } : null;
+        },
+      }),
+      delete_credential: (keyId: Fr) =>
+        send("delete_credential", () => {
+          const idx = notes.findIndex((n) => n.keyId === keyId.toString());
+          if (idx < 0) throw new Error("No credential found for key_id -- nothing to delete");
+          notes.splice(idx, 1);
+        }),
+    },
+  };
+  return { contract, notes, sends };
+}
+
+function connectFake(contract: unknown): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract);
+}
+
+function fields(n: number): Fr[] {
+  return [new Fr(BigInt(n)), Fr.ZERO, Fr.ZERO, Fr.ZERO];
+}
+
+function legacyNote(keyId: string, value: Fr[]): FakeNote {
+  return { keyId: legacyKeyIdField(keyId).toString(), value, label: Fr.ZERO };
+}
+
+const TEAM_A = "production-openai-api-key-team-a";
+const TEAM_B = "production-openai-api-key-team-b";
+
+// ─── hashKeyId ───────────────────────────────────────────────────────────────
+
+describe("hashKeyId", () => {
+  it("separates key IDs that share a 31-byte prefix", async () => {
+    expect(legacyKeyIdField(TEAM_A).equals(legacyKeyIdField(TEAM_B))).toBe(true);
+    expect((await hashKeyId(TEAM_A)).equals(await hashKeyId(TEAM_B))).toBe(false);
+  });
+
+  it("is deterministic", async () => {
+    expect((await hashKeyId("openai")).toString()).toBe((await hashKeyId("openai")).toString());
+  });
+
+  it("distinguishes trailing NUL bytes and the empty string", async () => {
+    const hashes = await Promise.all(["", "\0", "a", "a\0"].map(hashKeyId));
+    expect(new Set(hashes.map(String)).size).toBe(4);
+  });
+
+  it("accepts long key IDs", async () => {
+    const a = await hashKeyId("k".repeat(500));
+    const b = await hashKeyId("k".repeat(499) + "j");
+    expect(a.equals(b)).toBe(false);
+  });
+
+  it("differs from the legacy encoding", async () => {
+    expect((await hashKeyId("openai")).equals(legacyKeyIdField("openai"))).toBe(false);
+  });
+});
+
+describe("IsnadSDK credentials — poseidon2 key IDs", () => {
+  it("stores long key IDs independently", async () => {
+    const { contract } = makeFakeVault();
+    const sdk = connectFake(contract);
+
+    await sdk.storeCredential({ keyId: TEAM_A, value: "sk-team-a", label: "A" });
+    await sdk.storeCredential({ keyId: TEAM_B, value: "sk-team-b", label: "B" });
+
+    expect((await sdk.getCredential(TEAM_A))?.value).toBe("sk-team-a");
+    expect((await sdk.getCredential(TEAM_B))?.value).toBe("sk-team-b");
+  });
+
+  it("does not find credentials stored under the legacy encoding", async () => {
+    const { contract } = makeFakeVault([legacyNote("openai", fields(1))]);
+    expect(await connectFake(contract).getCredential("openai")).toBeNull();
+  });
+});
+
+// ─── migrateLegacyCredentials ────────────────────────────────────────────────
+
+describe("IsnadSDK.migrateLegacyCredentials", () => {
+  it("moves a legacy note to its poseidon2 key ID", async () => {
+    const { contract, notes } = makeFakeVault([legacyNote("openai", fields(7))]);
+    const sdk = connectFake(contract);
+
+    const [result] = await sdk.migrateLegacyCredentials(["openai"], { labels: { openai: "OpenAI" } });
+
+    expect(result.status).toBe("migrated");
+    expect(result.storeTxHash).toBeDefined();
+    expect(result.deleteTxHash).toBeDefined();
+    expect(notes).toHaveLength(2); // the credential and its key-name note
+    const expectedKeyId = (await hashKeyId("openai")).toString();
+    const migrated = notes.find((n) => n.keyId === expectedKeyId)!;
+    expect(migrated).toBeDefined();
+    expect(migrated.value).toEqual(fields(7));
+    expect(migrated.label.toBigInt()).toBe(BigInt("0x" + Buffer.from("OpenAI").toString("hex")));
+  });
+
+  it("stores the key name and the new note before deleting the legacy one", async () => {
+    const { contract, sends } = makeFakeVault([legacyNote("openai", fields(7))]);
+    await connectFake(contract).migrateLegacyCredentials(["openai"]);
+    expect(sends).toEqual(["store_credential", "store_credential", "delete_credential"]);
+  });
+
+  it("never leaves the vault without the credential, even if the delete fails", async () => {
+    const { contract, notes } = makeFakeVault([legacyNote("openai", fields(7))]);
+    contract.methods.delete_credential = () => ({
+      simulate: async () => undefined,
+      send: async () => {
+        throw new Error("dropped");
+      },
+    });
+    const sdk = connectFake(contract);
+
+    await expect(sdk.migrateLegacyCredentials(["openai"])).rejects.toThrow("dropped");
+    expect(notes).toHaveLength(3);
+    expect((await sdk.getCredential("openai"))?.value).toBe("\x07");
+  });
+
+  it("resumes an interrupted run without storing twice", async () => {
+    const { contract, notes, sends } = makeFakeVault([
+      legacyNote("openai", fields(7)),
+      { keyId: (await hashKeyId("openai")).toString(), value: fields(7), label: Fr.ZERO },
+    ]);
+
+    const [result] = await connectFake(contract).migrateLegacyCredentials(["openai"]);
+
+    expect(result.status).toBe("migrated");
+    expect(result.storeTxHash).toBeUndefined();
+    expect(sends).toEqual(["store_credential", "delete_credential"]); // the key-name note only
+    expect(notes).toHaveLength(2);
+  });
+
+  it("reports conflict and changes nothing when the new key ID holds a different value", async () => {
+    const { contract, notes, sends } = makeFakeVault([
+      legacyNote("openai", fields(7)),
+      { keyId: (await hashKeyId("openai")).toString(), value: fields(8), label: Fr.ZERO },
+    ]);
+
+    const [result] = await connectFake(contract).migrateLegacyCredentials(["openai"]);
+
+    expect(result).toEqual({ keyId: "openai", status: "conflict" });
+    expect(sends).toEqual([]);
+    expect(notes).toHaveLength(2);
+  });
+
+  it("reports not-found for key IDs without a legacy note", async () => {
+    const { contract, sends } = makeFakeVault();
+    expect(await connectFake(contract).migrateLegacyCredentials(["github"])).toEqual([
+      { keyId: "github", status: "not-found" },
+    ]);
+    expect(sends).toEqual([]);
+  });
+
+  it("leaves key IDs with colliding legacy encodings untouched", async () => {
+    const { contract, notes, sends } = makeFakeVault([
+      legacyNote(TEAM_A, fields(1)),
+      legacyNote(TEAM_B, fields(2)),
+    ]);
+
+    const results = await connectFake(contract).migrateLegacyCredentials([TEAM_A, TEAM_B, "openai"]);
+
+    expect(results.map((r) => r.status)).toEqual(["ambiguous", "ambiguous", "not-found"]);
+    expect(sends).toEqual([]);
+    expect(notes).toHaveLength(2);
+  });
+
+  it("migrates several key IDs and ignores duplicates in the input", async () => {
+    const { contract, notes } = makeFakeVault([
+      legacyNote("openai", fields(1)),
+      legacyNote("github", fields(2)),
+    ]);
+    const sdk = connectFake(contract);
+
+    const results = await sdk.migrateLegacyCredentials(["openai", "github", "openai"]);
+
+    expect(results.map((r) => [r.keyId, r.status])).toEqual([
+      ["openai", "migrated"],
+      ["github", "migrated"],
+    ]);
+    expect(notes).toHaveLength(4);
+    expect((await sdk.getCredential("github"))?.value).toBe("\x02");
+  });
+});
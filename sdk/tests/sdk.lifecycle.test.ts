@@ -0,0 +1,188 @@
+/**
+ * Transaction lifecycle tests — the events IsnadSDK.onTxEvent() delivers for each send.
+ *
+ * A fake contract stands in for IsnadRegistry; with `node` set, a fake node serves
+ * receipts to aztec.js's own waitForTx.
+ *
+ * Run with: vitest run tests/sdk.lifecycle.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { NO_WAIT } from "@aztec/aztec.js/contracts";
+import { TxExecutionResult, TxHash, TxReceipt, TxStatus } from "@aztec/aztec.js/tx";
+import { IsnadSDK } from "../src/isnad.js";
+import type { IsnadSDKOptions, TxLifecycleEvent } from "../src/types.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+const SKILL = "0x" + "0a".repeat(32);
+
+function minedReceipt(txHash: TxHash, blockNumber: number): TxReceipt {
+  return new TxReceipt(
+    txHash,
+    TxStatus.CHECKPOINTED,
+    TxExecutionResult.SUCCESS,
+    undefined,
+    undefined,
+    undefined,
+    blockNumber as never,
+  );
+}
+
+function makeFakeRegistry(opts: { simulateError?: string; sendError?: string } = {}) {
+  const sendOptions: unknown[] = [];
+  const txHash = TxHash.random();
+  const interaction = {
+    simulate: async () => {
+      if (opts.simulateError) throw new Error(opts.simulateError);
+    },
+    send: async (options: { wait?: unknown }) => {
+      sendOptions.push(options);
+      if (opts.sendError) throw new Error(opts.sendError);
+      return options.wait === NO_WAIT ? txHash : minedReceipt(txHash, 7);
+    },
+  };
+  const contract = {
+    methods: {
+      attest: () => interaction,
+      revoke_attestation: () => interaction,
+    },
+  };
+  return { contract, sendOptions, txHash };
+}
+
+function connectFake(contract: unknown, opts?: IsnadSDKOptions): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract, opts);
+}
+
+function record(sdk: IsnadSDK): TxLifecycleEvent[] {
+  const events: TxLifecycleEvent[] = [];
+  sdk.onTxEvent((e) => events.push(e));
+  return events;
+}
+
+// ─── onTxEvent ───────────────────────────────────────────────────────────────
+
+describe("IsnadSDK.onTxEvent", () => {
+  it("emits simulating, proving, sent and mined for one transaction", async () => {
+    const { contract, txHash } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+    const events = record(sdk);
+
+    const result = await sdk.attest({ skillHash: SKILL, quality: 80 });
+
+    expect(events.map((e) => e.phase)).toEqual(["simulating", "proving", "sent", "mined"]);
+    expect(new Set(events.map((e) => e.txId)).size).toBe(1);
+    expect(events.every((e) => e.method === "attest")).toBe(true);
+    expect(events[2].txHash).toBe(txHash.toString());
+    expect(events[3]).toMatchObject({ txHash: txHash.toString(), blockNumber: 7 });
+    expect(result.txHash).toBe(txHash.toString());
+  });
+
+  it("times each event from the start of its transaction", async () => {
+    const { contract } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+    const events = record(sdk);
+
+    await sdk.attest({ skillHash: SKILL, quality: 80 });
+
+    const elapsed = events.map((e) => e.elapsedMs);
+    expect(elapsed[0]).toBe(0);
+    expect(elapsed).toEqual([...elapsed].sort((a, b) => a - b));
+    expect(events[3].at - events[0].at).toBe(elapsed[3]);
+  });
+
+  it("gives each transaction its own txId", async () => {
+    const { contract } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+    const events = record(sdk);
+
+    await sdk.attest({ skillHash: SKILL, quality: 80 });
+    await sdk.revokeAttestation(SKILL);
+
+    const [first, second] = [events[0].txId, events[4].txId];
+    expect(second).not.toBe(first);
+    expect(events.slice(4).every((e) => e.method === "revoke_attestation" && e.txId === second)).toBe(true);
+  });
+
+  it("emits failed with the IsnadError when simulation reverts, before proving", async () => {
+    const { contract, sendOptions } = makeFakeRegistry({
+      simulateError: "Assertion failed: caller is not an authorized attestor -- must be in the Isnad chain",
+    });
+    const sdk = connectFake(contract);
+    const events = record(sdk);
+
+    await expect(sdk.attest({ skillHash: SKILL, quality: 80 })).rejects.toMatchObject({
+      code: "NOT_AUTHORIZED_ATTESTOR",
+    });
+    expect(events.map((e) => e.phase)).toEqual(["simulating", "failed"]);
+    expect(events[1].error?.code).toBe("NOT_AUTHORIZED_ATTESTOR");
+    expect(sendOptions).toEqual([]);
+  });
+
+  it("emits dropped when the network drops the transaction", async () => {
+    const { contract } = makeFakeRegistry({ sendError: "Transaction 0x01 was dropped. Reason: unknown" });
+    const sdk = connectFake(contract);
+    const events = record(sdk);
+
+    await expect(sdk.attest({ skillHash: SKILL, quality: 80 })).rejects.toMatchObject({ code: "TX_DROPPED" });
+    expect(events.map((e) => e.phase)).toEqual(["simulating", "proving", "dropped"]);
+  });
+
+  it("stops delivering after unsubscribe and survives a throwing listener", async () => {
+    const { contract } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+    const events: TxLifecycleEvent[] = [];
+    sdk.onTxEvent(() => {
+      throw new Error("listener bug");
+    });
+    const off = sdk.onTxEvent((e) => events.push(e));
+
+    await sdk.attest({ skillHash: SKILL, quality: 80 });
+    off();
+    await sdk.revokeAttestation(SKILL);
+
+    expect(events).toHaveLength(4);
+  });
+});
+
+describe("IsnadSDK.onTxEvent with a node", () => {
+  it("emits sent before waiting on the node for the receipt", async () => {
+    const { contract, sendOptions, txHash } = makeFakeRegistry();
+    const phasesAtPoll: string[][] = [];
+    let events: TxLifecycleEvent[] = [];
+    const node = {
+      getTxReceipt: async (hash: TxHash) => {
+        phasesAtPoll.push(events.map((e) => e.phase));
+        return minedReceipt(hash, 42);
+      },
+    };
+    const sdk = connectFake(contract, { node: node as never });
+    events = record(sdk);
+
+    await sdk.attest({ skillHash: SKILL, quality: 80 });
+
+    expect(sendOptions).toEqual([expect.objectContaining({ wait: NO_WAIT })]);
+    expect(phasesAtPoll[0]).toEqual(["simulating", "proving", "sent"]);
+    expect(events.map((e) => e.phase)).toEqual(["simulating", "proving", "sent", "mined"]);
+    expect(events[3]).toMatchObject({ txHash: txHash.toString(), blockNumber: 42 });
+  });
+
+  it("emits failed when the mined transaction reverted", async () => {
+    const { contract } = makeFakeRegistry();
+    const node = {
+      getTxReceipt: async (hash: TxHash) =>
+        new TxReceipt(hash, TxStatus.CHECKPOINTED, TxExecutionResult.APP_LOGIC_REVERTED, "quality must be in range 0-100"),
+    };
+    const sdk = connectFake(contract, { node: node as never });
+    const events = record(sdk);
+
+    await expect(sdk.attest({ skillHash: SKILL, quality: 80 })).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    });
+    expect(events.map((e) => e.phase)).toEqual(["simulating", "proving", "sent", "failed"]);
+    expect(events[3].txHash).toBeDefined();
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Install policy engine tests — rule order, category thresholds, allow/deny lists,
+ * root-attestor minimums, expiring overrides, explanation traces and policy parsing.
+ *
+ * Run with: vitest run tests/sdk.policy.test.ts
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { normalizeSkillHash } from "../src/hash.js";
+import { IsnadSDK } from "../src/isnad.js";
+import {
+  DEFAULT_INSTALL_POLICY,
+  InstallPolicyEngine,
+  parseInstallPolicy,
+} from "../src/policy.js";
+import {
+  INSTALL_THRESHOLD_COUNT,
+  INSTALL_THRESHOLD_REPORTS,
+  INSTALL_THRESHOLD_SCORE,
+  type SkillTrustInfo,
+} from "../src/types.js";
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const HASH_A = "0x" + "0a".repeat(31);
+const HASH_B = "0x" + "0b".repeat(31);
+const NOW = Date.parse("2026-03-01T00:00:00Z");
+
+function makeInfo(overrides: Partial<SkillTrustInfo> = {}): SkillTrustInfo {
+  return {
+    skillHash: HASH_A,
+    trustScore: 0n,
+    attestationCount: 0n,
+    isQuarantined: false,
+    ...overrides,
+  };
+}
+
+const TEAM_POLICY_YAML = `
+default:
+  scoreThreshold: 300
+  countThreshold: 3
+categories:
+  financial:
+    scoreThreshold: 1200
+    minRootAttestors: 1
+deny:
+  - "${HASH_B}"
+overrides:
+  - skillHash: "${HASH_A}"
+    verdict: allow
+    expires: "2026-04-01T00:00:00Z"
+    reason: internal tool, audit scheduled
+`;
+
+// ─── DEFAULT POLICY ──────────────────────────────────────────────────────────
+
+describe("DEFAULT_INSTALL_POLICY", () => {
+  it("is built from the types.ts constants", () => {
+    expect(DEFAULT_INSTALL_POLICY.default.scoreThreshold).toBe(INSTALL_THRESHOLD_SCORE);
+    expect(DEFAULT_INSTALL_POLICY.default.countThreshold).toBe(INSTALL_THRESHOLD_COUNT);
+    expect(DEFAULT_INSTALL_POLICY.default.reportThreshold).toBe(INSTALL_THRESHOLD_REPORTS);
+    expect(DEFAULT_INSTALL_POLICY.default.minRootAttestors).toBe(0);
+  });
+
+  it("agrees with checkInstallPolicy across the threshold boundaries", () => {
+    const engine = new InstallPolicyEngine();
+    for (const attestationCount of [0n, 1n, 2n, 3n, 10n]) {
+      for (const trustScore of [0n, 299n, 300n, 1200n]) {
+        for (const isQuarantined of [false, true]) {
+          for (const reportCount of [undefined, 2n, 3n]) {
+            const info = makeInfo({ attestationCount, trustScore, isQuarantined, reportCount });
+            expect(engine.evaluate(info).verdict).toBe(IsnadSDK.checkInstallPolicy(info));
+          }
+        }
+      }
+    }
+  });
+});
+
+// ─── RULES ───────────────────────────────────────────────────────────────────
+
+describe("InstallPolicyEngine.evaluate — rules", () => {
+  it("denies a quarantined skill even when it is allowlisted and overridden", () => {
+    const engine = InstallPolicyEngine.fromObject({
+      allow: [HASH_A],
+      overrides: [{ skillHash: HASH_A, verdict: "allow", expires: "2030-01-01T00:00:00Z" }],
+    });
+    const decision = engine.evaluate(makeInfo({ isQuarantined: true }), { now: NOW });
+    expect(decision.verdict).toBe("deny");
+    expect(decision.rule).toBe("quarantine");
+  });
+
+  it("denies a denylisted skill regardless of score", () => {
+    const engine = InstallPolicyEngine.fromObject({ deny: [HASH_A] });
+    const decision = engine.evaluate(makeInfo({ attestationCount: 10n, trustScore: 4000n }));
+    expect(decision).toMatchObject({ verdict: "deny", rule: "denylist" });
+  });
+
+  it("allows an allowlisted skill with zero attestations", () => {
+    const engine = InstallPolicyEngine.fromObject({ allow: [HASH_A] });
+    expect(engine.evaluate(makeInfo()).verdict).toBe("allow");
+  });
+
+  it("matches list entries regardless of hex case or zero-padding", () => {
+    const engine = InstallPolicyEngine.fromObject({ allow: ["0xABC"] });
+    const info = makeInfo({ skillHash: "0x" + "0".repeat(61) + "abc" });
+    expect(engine.evaluate(info).rule).toBe("allowlist");
+  });
+
+  it("matches a raw SHA256 above the field order to its on-chain hash", () => {
+    const raw = "0x" + "f".repeat(64);
+    const engine = InstallPolicyEngine.fromObject({ deny: [raw] });
+    const decision = engine.evaluate(makeInfo({ skillHash: normalizeSkillHash(raw) }));
+    expect(decision.rule).toBe("denylist");
+  });
+
+  it("denies a skill reported malicious by reportThreshold auditors, even with a high score", () => {
+    const engine = new InstallPolicyEngine();
+    const info = makeInfo({ attestationCount: 10n, trustScore: 4000n, reportCount: 3n });
+    const decision = engine.evaluate(info);
+    expect(decision).toMatchObject({ verdict: "deny", rule: "reports" });
+    expect(decision.reason).toContain("reported malicious by 3 auditor(s)");
+    expect(engine.evaluate({ ...info, reportCount: 2n }).verdict).toBe("allow");
+  });
+
+  it("ignores reports when reportThreshold is 0 or the count is unknown", () => {
+    const engine = InstallPolicyEngine.fromObject({ default: { reportThreshold: 0 } });
+    const info = makeInfo({ attestationCount: 3n, trustScore: 300n, reportCount: 50n });
+    expect(engine.evaluate(info).verdict).toBe("allow");
+    const unknown = new InstallPolicyEngine().evaluate(makeInfo({ attestationCount: 3n, trustScore: 300n }));
+    expect(unknown.trace.find((s) => s.rule === "reports")).toMatchObject({ outcome: "skip" });
+  });
+
+  it("applies category thresholds when the context names a known category", () => {
+    const engine = InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML);
+    const info = makeInfo({ skillHash: "0x01", attestationCount: 5n, trustScore: 900n });
+
+    expect(engine.evaluate(info).verdict).toBe("allow");
+    const financial = engine.evaluate(info, { category: "financial", rootAttestorCount: 2 });
+    expect(financial.verdict).toBe("sandbox");
+    expect(financial.reason).toContain('category "financial"');
+    expect(financial.reason).toContain("score 900 < 1200");
+  });
+
+  it("falls back to the default thresholds for an unknown category", () => {
+    const engine = InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML);
+    const info = makeInfo({ skillHash: "0x01", attestationCount: 3n, trustScore: 300n });
+    expect(engine.evaluate(info, { category: "games" }).verdict).toBe("allow");
+  });
+
+  it.each(["constructor", "toString", "__proto__"])("treats an undeclared %j category as unknown", (category) => {
+    const engine = InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML);
+    const info = makeInfo({ skillHash: "0x01", attestationCount: 3n, trustScore: 300n });
+    const decision = engine.evaluate(info, { category });
+    expect(decision.verdict).toBe("allow");
+    expect(decision.reason).not.toContain("category");
+  });
+
+  it("keeps a category named \"__proto__\" as a category", () => {
+    const engine = InstallPolicyEngine.fromJson('{"categories": {"__proto__": {"scoreThreshold": 1200}}}');
+    const info = makeInfo({ skillHash: "0x01", attestationCount: 5n, trustScore: 900n });
+
+    expect(Object.getPrototypeOf(engine.policy.categories)).toBe(Object.prototype);
+    expect(engine.evaluate(info, { category: "__proto__" }).reason).toContain("score 900 < 1200");
+    expect(engine.evaluate(info, { category: "financial" }).verdict).toBe("allow");
+  });
+
+  it("category thresholds inherit unspecified fields from default", () => {
+    const policy = parseInstallPolicy({
+      default: { countThreshold: 5 },
+      categories: { financial: { scoreThreshold: 1200 } },
+    });
+    expect(policy.categories.financial.countThreshold).toBe(5n);
+  });
+
+  it("sandboxes when the root attestor minimum is not met or unknown", () => {
+    const engine = InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML);
+    const info = makeInfo({ skillHash: "0x01", attestationCount: 4n, trustScore: 1600n });
+
+    expect(engine.evaluate(info, { category: "financial", rootAttestorCount: 1 }).verdict).toBe("allow");
+    expect(engine.evaluate(info, { category: "financial", rootAttestorCount: 0 }).reason)
+      .toContain("root attestors 0 < 1");
+    expect(engine.evaluate(info, { category: "financial" }).reason)
+      .toContain("root attestor count unknown");
+  });
+});
+
+// ─── OVERRIDES ───────────────────────────────────────────────────────────────
+
+describe("InstallPolicyEngine.evaluate — overrides", () => {
+  const engine = InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML);
+
+  it("applies an override before its expiry", () => {
+    const decision = engine.evaluate(makeInfo(), { now: NOW });
+    expect(decision).toMatchObject({ verdict: "allow", rule: "override" });
+    expect(decision.reason).toContain("internal tool, audit scheduled");
+  });
+
+  it("ignores an expired override and records it in the trace", () => {
+    const decision = engine.evaluate(makeInfo(), { now: Date.parse("2026-04-02T00:00:00Z") });
+    expect(decision).toMatchObject({ verdict: "deny", rule: "unattested" });
+    expect(decision.trace).toContainEqual(
+      expect.objectContaining({ rule: "override", outcome: "skip" }),
+    );
+  });
+
+  it("does not let an override lift a denylist entry", () => {
+    const e = InstallPolicyEngine.fromObject({
+      deny: [HASH_A],
+      overrides: [{ skillHash: HASH_A, verdict: "allow", expires: "2030-01-01T00:00:00Z" }],
+    });
+    expect(e.evaluate(makeInfo(), { now: NOW }).rule).toBe("denylist");
+  });
+
+  it("can tighten a verdict to sandbox", () => {
+    const e = InstallPolicyEngine.fromObject({
+      overrides: [{ skillHash: HASH_A, verdict: "sandbox", expires: "2030-01-01T00:00:00Z" }],
+    });
+    const info = makeInfo({ attestationCount: 10n, trustScore: 4000n });
+    expect(e.evaluate(info, { now: NOW }).verdict).toBe("sandbox");
+  });
+});
+
+// ─── TRACE ───────────────────────────────────────────────────────────────────
+
+describe("InstallPolicyEngine.evaluate — trace", () => {
+  it("lists every rule checked, in order, ending with the deciding match", () => {
+    const decision = new InstallPolicyEngine().evaluate(
+      makeInfo({ attestationCount: 3n, trustScore: 300n, reportCount: 0n }),
+    );
+    expect(decision.trace.map((s) => s.rule)).toEqual([
+      "quarantine",
+      "denylist",
+      "override",
+      "allowlist",
+      "reports",
+      "unattested",
+      "thresholds",
+    ]);
+    expect(decision.trace.at(-1)).toEqual({ rule: "thresholds", outcome: "match", detail: decision.reason });
+    expect(decision.trace.slice(0, -1).every((s) => s.outcome === "pass")).toBe(true);
+  });
+
+  it("stops at the first matching rule", () => {
+    const decision = new InstallPolicyEngine().evaluate(makeInfo({ isQuarantined: true }));
+    expect(decision.trace).toHaveLength(1);
+  });
+});
+
+// ─── PARSING ─────────────────────────────────────────────────────────────────
+
+describe("parseInstallPolicy", () => {
+  it("parses the same policy from JSON and YAML", () => {
+    const json = JSON.stringify({
+      default: { scoreThreshold: 300, countThreshold: 3 },
+      categories: { financial: { scoreThreshold: 1200, minRootAttestors: 1 } },
+      deny: [HASH_B],
+      overrides: [{
+        skillHash: HASH_A,
+        verdict: "allow",
+        expires: "2026-04-01T00:00:00Z",
+        reason: "internal tool, audit scheduled",
+      }],
+    });
+    expect(InstallPolicyEngine.fromJson(json).policy).toEqual(InstallPolicyEngine.fromYaml(TEAM_POLICY_YAML).policy);
+  });
+
+  it("accepts decimal-string thresholds", () => {
+    const policy = parseInstallPolicy({ default: { scoreThreshold: "9007199254740993" } });
+    expect(policy.default.scoreThreshold).toBe(9007199254740993n);
+  });
+
+  it("returns the default policy for an empty document", () => {
+    expect(parseInstallPolicy({})).toEqual(DEFAULT_INSTALL_POLICY);
+    expect(parseInstallPolicy(null)).toEqual(DEFAULT_INSTALL_POLICY);
+  });
+
+  it.each([
+    [{ default: { scoreThreshold: -1 } }, "default.scoreThreshold must be a non-negative integer"],
+    [{ categories: { financial: { countThreshold: 1.5 } } }, "categories.financial.countThreshold"],
+    [{ allow: "0x01" }, "allow must be an array"],
+    [{ deny: ["not-a-hash"] }, 'deny[0] "not-a-hash" is not a valid skill hash'],
+    [{ overrides: [{ skillHash: HASH_A, verdict: "maybe", expires: "2026-01-01" }] }, "overrides[0].verdict"],
+    [{ overrides: [{ skillHash: HASH_A, verdict: "allow", expires: "soon" }] }, "overrides[0].expires"],
+    [{ overrides: [{ skillHash: HASH_A, verdict: "allow" }] }, "overrides[0].expires"],
+  ])("rejects %j", (raw, message) => {
+    expect(() => parseInstallPolicy(raw)).toThrow(message);
+    expect(() => parseInstallPolicy(raw)).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+  });
+
+  it("rejects malformed JSON and YAML as INVALID_ARGUMENT", () => {
+    expect(() => InstallPolicyEngine.fromJson('{"default": {')).toThrow("Policy is not valid JSON");
+    expect(() => InstallPolicyEngine.fromJson("{")).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    expect(() => InstallPolicyEngine.fromYaml("default: [unclosed")).toThrow("Policy is not valid YAML");
+    expect(() => InstallPolicyEngine.fromYaml("a: : b")).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+  });
+});
+
+describe("InstallPolicyEngine.fromFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "isnad-policy-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads .yaml as YAML and .json as JSON", async () => {
+    await writeFile(join(dir, "policy.yaml"), TEAM_POLICY_YAML);
+    await writeFile(join(dir, "policy.json"), JSON.stringify({ deny: [HASH_B] }));
+
+    const fromYaml = await InstallPolicyEngine.fromFile(join(dir, "policy.yaml"));
+    const fromJson = await InstallPolicyEngine.fromFile(join(dir, "policy.json"));
+
+    expect(fromYaml.policy.categories.financial.scoreThreshold).toBe(1200n);
+    expect(fromJson.evaluate(makeInfo({ skillHash: HASH_B })).rule).toBe("denylist");
+  });
+});
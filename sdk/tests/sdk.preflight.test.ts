@@ -0,0 +1,382 @@
+/**
+ * Preflight tests — `{ dryRun: true }` on IsnadSDK writes and IsnadSDK.preflight().
+ *
+ * A fake contract answers the views a dry run reads and records every simulate and
+ * send, so the tests can check that nothing is ever sent.
+ *
+ * Run with: vitest run tests/sdk.preflight.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { Fr } from "@aztec/aztec.js/fields";
+import { IsnadSDK } from "../src/isnad.js";
+import { hashKeyId } from "../src/keyid.js";
+import { MAX_CHAIN_DEPTH } from "../src/types.js";
+
+// ─── FAKE CONTRACT ────────────────────────────────────────────────────────────
+
+const SKILL = "0x00" + "cd".repeat(31);
+const OTHER = Fr.fromString("0x1234") as never;
+
+interface FakeState {
+  authorized?: boolean;
+  depth?: number;
+  targetAuthorized?: boolean;
+  quarantined?: boolean;
+  /** get_attestation_status result: 0 none, 1 attested, 2 revoked */
+  attestation?: number;
+  /** AttestationEntry values list_attestations returns */
+  notes?: Array<Record<string, unknown>>;
+  /** Credential notes by key_id field, as get_credential returns them */
+  credentials?: Map<string, Fr[]>;
+  /** Revert message thrown by the simulation of every write */
+  revert?: string;
+  networkDown?: boolean;
+}
+
+const VIEWS = new Set([
+  "is_authorized_attestor",
+  "get_attestor_depth",
+  "is_quarantined",
+  "get_attestation_status",
+  "get_credential",
+  "list_attestations",
+]);
+
+function makeFakeRegistry(state: FakeState = {}) {
+  const simulated: string[] = [];
+  const simulatedArgs: unknown[][] = [];
+  const sent: string[] = [];
+  const view = (name: string, args: unknown[]) => {
+    if (state.networkDown) throw new Error("fetch failed");
+    switch (name) {
+      case "is_authorized_attestor":
+        return Fr.ZERO.equals(args[0] as Fr) ? (state.authorized ?? true) : (state.targetAuthorized ?? false);
+      case "get_attestor_depth":
+        return BigInt(state.depth ?? 0);
+      case "is_quarantined":
+        return state.quarantined ?? false;
+      case "get_attestation_status":
+        return BigInt(state.attestation ?? 0);
+      case "get_credential": {
+        const value = state.credentials?.get((args[1] as Fr).toString());
+        return value ? { _is_some: true, _value: value } : { _is_some: false, _value: [] };
+      }
+      case "list_attestations":
+        return (state.notes ?? []).slice(Number(args[1]), Number(args[1]) + Number(args[2]));
+    }
+  };
+  const contract = {
+    methods: new Proxy(
+      {},
+      {
+        get:
+          (_target, name: string) =>
+          (...args: unknown[]) => ({
+            simulate: async () => {
+              if (VIEWS.has(name)) return view(name, args);
+              simulated.push(name);
+              simulatedArgs.push(args);
+              if (state.revert) throw new Error(state.revert);
+            },
+            send: async () => {
+              sent.push(name);
+              throw new Error("dry runs must not send");
+            },
+          }),
+      },
+    ),
+  };
+  return { contract, simulated, simulatedArgs, sent };
+}
+
+function connectFake(contract: unknown): IsnadSDK {
+  // The constructor is private; connect() needs a live wallet, so build directly.
+  const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+  return new Ctor({}, Fr.ZERO, Fr.ZERO, contract);
+}
+
+// ─── attest ──────────────────────────────────────────────────────────────────
+
+describe("attest({ dryRun: true })", () => {
+  it("simulates the attestation and sends nothing", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry();
+    const result = await connectFake(contract).attest({ skillHash: SKILL, quality: 80 }, { dryRun: true });
+
+    expect(result).toEqual({ ok: true, issues: [], transactions: 1 });
+    expect(simulated).toEqual(["attest"]);
+    expect(sent).toEqual([]);
+  });
+
+  it("reports every failed check and skips the simulation", async () => {
+    const { contract, simulated } = makeFakeRegistry({ authorized: false, quarantined: true });
+    const result = await connectFake(contract).attest({ skillHash: SKILL, quality: 120 }, { dryRun: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => [i.code, i.severity])).toEqual([
+      ["INVALID_ARGUMENT", "error"],
+      ["NOT_AUTHORIZED_ATTESTOR", "error"],
+      ["SKILL_QUARANTINED", "warning"],
+    ]);
+    expect(simulated).toEqual([]);
+  });
+
+  it("passes with only a quarantine warning", async () => {
+    const { contract } = makeFakeRegistry({ quarantined: true });
+    const result = await connectFake(contract).attest({ skillHash: SKILL, quality: 80 }, { dryRun: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.issues).toEqual([expect.objectContaining({ code: "SKILL_QUARANTINED", severity: "warning" })]);
+  });
+
+  it("reports an existing or revoked attestation as ALREADY_ATTESTED before simulating", async () => {
+    for (const attestation of [1, 2]) {
+      const { contract, simulated } = makeFakeRegistry({ attestation });
+      const result = await connectFake(contract).attest({ skillHash: SKILL, quality: 80 }, { dryRun: true });
+
+      expect(result.ok).toBe(false);
+      expect(result.issues.map((i) => i.code)).toEqual(["ALREADY_ATTESTED"]);
+      expect(simulated).toEqual([]);
+    }
+  });
+
+  it("maps a simulated revert to its code", async () => {
+    const { contract } = makeFakeRegistry({ revert: "Existing nullifier in tx" });
+    const result = await connectFake(contract).attest({ skillHash: SKILL, quality: 80 }, { dryRun: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => i.code)).toEqual(["ALREADY_ATTESTED"]);
+  });
+
+  it("reports a bad skill hash as an issue", async () => {
+    const { contract } = makeFakeRegistry();
+    const result = await connectFake(contract).attest({ skillHash: "0xnot-hex", quality: 80 }, { dryRun: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues[0].code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("still throws network failures", async () => {
+    const { contract } = makeFakeRegistry({ networkDown: true });
+    await expect(
+      connectFake(contract).attest({ skillHash: SKILL, quality: 80 }, { dryRun: true }),
+    ).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
+
+// ─── amendAttestation ────────────────────────────────────────────────────────
+
+describe("amendAttestation({ dryRun: true })", () => {
+  it("simulates the amendment of an active attestation", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry({ attestation: 1 });
+    const result = await connectFake(contract).amendAttestation({ skillHash: SKILL, quality: 40 }, { dryRun: true });
+
+    expect(result).toEqual({ ok: true, issues: [], transactions: 1 });
+    expect(simulated).toEqual(["amend_attestation"]);
+    expect(sent).toEqual([]);
+  });
+
+  it("reports a missing or revoked attestation as ATTESTATION_NOT_FOUND", async () => {
+    for (const attestation of [0, 2]) {
+      const { contract, simulated } = makeFakeRegistry({ attestation });
+      const result = await connectFake(contract).preflight("amendAttestation", { skillHash: SKILL, quality: 40 });
+
+      expect(result.ok).toBe(false);
+      expect(result.issues.map((i) => i.code)).toEqual(["ATTESTATION_NOT_FOUND"]);
+      expect(simulated).toEqual([]);
+    }
+  });
+
+  it("checks the claim type like attest", async () => {
+    const { contract, simulated } = makeFakeRegistry({ attestation: 1 });
+    const result = await connectFake(contract).amendAttestation(
+      { skillHash: SKILL, quality: 40, claimType: 7 as never },
+      { dryRun: true },
+    );
+
+    expect(result.issues.map((i) => i.message)).toEqual(["claimType must be 0, 1 or 2, got 7"]);
+    expect(simulated).toEqual([]);
+  });
+
+  it("keeps the claim type and evidence hash of the current note unless given", async () => {
+    const note = {
+      skill_hash: BigInt(SKILL),
+      quality: 90n,
+      claim_type: 2n,
+      depth_at_attestation: 0n,
+      evidence_hash: 0xe5n,
+    };
+    const { contract, simulatedArgs } = makeFakeRegistry({ attestation: 1, notes: [note] });
+    const sdk = connectFake(contract);
+
+    await sdk.amendAttestation({ skillHash: SKILL, quality: 40 }, { dryRun: true });
+    await sdk.amendAttestation({ skillHash: SKILL, quality: 40, claimType: 1, evidenceHash: "0xf0" }, { dryRun: true });
+
+    const [kept, changed] = simulatedArgs.map(([, , claimType, evidence]) => [claimType, (evidence as Fr).toBigInt()]);
+    expect(kept).toEqual([2, 0xe5n]);
+    expect(changed).toEqual([1, 0xf0n]);
+  });
+});
+
+// ─── reportMalicious ─────────────────────────────────────────────────────────
+
+describe("reportMalicious({ dryRun: true })", () => {
+  const REPORT = { skillHash: SKILL, severity: 1 as const, evidenceHash: "0xe51d3ce" };
+
+  it("simulates the report and sends nothing", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry();
+    const result = await connectFake(contract).reportMalicious(REPORT, { dryRun: true });
+
+    expect(result).toEqual({ ok: true, issues: [], transactions: 1 });
+    expect(simulated).toEqual(["report_malicious"]);
+    expect(sent).toEqual([]);
+  });
+
+  it("reports a non-member and a bad severity before simulating", async () => {
+    const { contract, simulated } = makeFakeRegistry({ authorized: false });
+    const sdk = connectFake(contract);
+
+    const outsider = await sdk.preflight("reportMalicious", REPORT);
+    expect(outsider.issues.map((i) => i.code)).toEqual(["NOT_AUTHORIZED_ATTESTOR"]);
+    const severity = await sdk.preflight("reportMalicious", { ...REPORT, severity: 5 as never });
+    expect(severity.issues.map((i) => i.message)).toEqual(["severity must be 0, 1 or 2, got 5"]);
+    expect(simulated).toEqual([]);
+  });
+
+  it("maps a second report's nullifier collision to ALREADY_REPORTED", async () => {
+    const { contract } = makeFakeRegistry({ revert: "Existing nullifier in tx" });
+    const result = await connectFake(contract).reportMalicious(REPORT, { dryRun: true });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => i.code)).toEqual(["ALREADY_REPORTED"]);
+  });
+});
+
+// ─── discloseAttestation ─────────────────────────────────────────────────────
+
+describe("discloseAttestation({ dryRun: true })", () => {
+  const DISCLOSE = { skillHash: SKILL, recipient: OTHER };
+
+  it("simulates the disclosure of an active attestation", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry({ attestation: 1 });
+    const result = await connectFake(contract).discloseAttestation(DISCLOSE, { dryRun: true });
+
+    expect(result).toEqual({ ok: true, issues: [], transactions: 1 });
+    expect(simulated).toEqual(["disclose_attestation"]);
+    expect(sent).toEqual([]);
+  });
+
+  it("reports a missing or revoked attestation as ATTESTATION_NOT_FOUND", async () => {
+    for (const attestation of [0, 2]) {
+      const { contract, simulated } = makeFakeRegistry({ attestation });
+      const result = await connectFake(contract).preflight("discloseAttestation", DISCLOSE);
+
+      expect(result.issues.map((i) => i.code)).toEqual(["ATTESTATION_NOT_FOUND"]);
+      expect(simulated).toEqual([]);
+    }
+  });
+
+  it("reports a bad evidence hash on attest as INVALID_ARGUMENT", async () => {
+    const { contract, simulated } = makeFakeRegistry();
+    const result = await connectFake(contract).attest(
+      { skillHash: SKILL, quality: 80, evidenceHash: "0xnot-hex" },
+      { dryRun: true },
+    );
+
+    expect(result.issues.map((i) => i.message)).toEqual(["Invalid evidence hash '0xnot-hex'"]);
+    expect(simulated).toEqual([]);
+  });
+});
+
+// ─── CHAIN OF TRUST ──────────────────────────────────────────────────────────
+
+describe("chain-of-trust dry runs", () => {
+  it("reports DEPTH_LIMIT and ALREADY_AUTHORIZED for vouch", async () => {
+    const { contract, simulated } = makeFakeRegistry({ depth: MAX_CHAIN_DEPTH, targetAuthorized: true });
+    const result = await connectFake(contract).vouch(OTHER, { dryRun: true });
+
+    expect(result.issues.map((i) => i.code)).toEqual(["DEPTH_LIMIT", "ALREADY_AUTHORIZED"]);
+    expect(simulated).toEqual([]);
+  });
+
+  it("reports a non-member's vouch as NOT_AUTHORIZED_ATTESTOR", async () => {
+    const { contract } = makeFakeRegistry({ authorized: false });
+    const result = await connectFake(contract).vouch(OTHER, { dryRun: true });
+
+    expect(result.issues.map((i) => i.code)).toEqual(["NOT_AUTHORIZED_ATTESTOR"]);
+  });
+
+  it("learns NOT_ADMIN from the simulation", async () => {
+    const { contract } = makeFakeRegistry({ revert: "Assertion failed: only the admin can add root attestors" });
+    const result = await connectFake(contract).addRootAttestor(OTHER, { dryRun: true });
+
+    expect(result).toMatchObject({ ok: false, transactions: 1 });
+    expect(result.issues.map((i) => i.code)).toEqual(["NOT_ADMIN"]);
+  });
+
+  it("is what preflight() runs", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry({
+      revert: "Assertion failed: only the admin can quarantine or unquarantine skills",
+    });
+    const result = await connectFake(contract).preflight("quarantine", SKILL);
+
+    expect(result.issues.map((i) => i.code)).toEqual(["NOT_ADMIN"]);
+    expect(simulated).toEqual(["quarantine"]);
+    expect(sent).toEqual([]);
+  });
+});
+
+// ─── VAULT ───────────────────────────────────────────────────────────────────
+
+describe("vault dry runs", () => {
+  it("counts the name note, continuation notes and head note of a new credential", async () => {
+    const { contract, simulated, sent } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+
+    const short = await sdk.storeCredential({ keyId: "k", value: "sk-short", label: "" }, { dryRun: true });
+    const long = await sdk.storeCredential({ keyId: "k", value: "x".repeat(300), label: "" }, { dryRun: true });
+
+    expect(short).toEqual({ ok: true, issues: [], transactions: 2 });
+    // 300 bytes: 93 in the head note, 207 across two 124-byte continuation notes
+    expect(long.transactions).toBe(4);
+    expect(simulated).toEqual(["store_credential", "store_credential"]);
+    expect(sent).toEqual([]);
+  });
+
+  it("reports an oversized value without reading the vault", async () => {
+    const { contract, simulated } = makeFakeRegistry();
+    const result = await connectFake(contract).preflight("storeCredential", {
+      keyId: "k",
+      value: "x".repeat(5000),
+      label: "",
+    });
+
+    expect(result.issues.map((i) => i.code)).toEqual(["CREDENTIAL_TOO_LARGE"]);
+    expect(simulated).toEqual([]);
+  });
+
+  it("warns before overwriting a stored credential and counts its delete", async () => {
+    // A legacy single-note value: no header, so no continuation notes to delete
+    const credentials = new Map([[(await hashKeyId("k")).toString(), [Fr.ONE, Fr.ZERO, Fr.ZERO, Fr.ZERO]]]);
+    const sdk = connectFake(makeFakeRegistry({ credentials }).contract);
+
+    const stored = await sdk.storeCredential({ keyId: "k", value: "v", label: "" }, { dryRun: true });
+    const deleted = await sdk.deleteCredential("k", { dryRun: true });
+
+    expect(stored.ok).toBe(true);
+    expect(stored.issues).toEqual([expect.objectContaining({ code: "INVALID_ARGUMENT", severity: "warning" })]);
+    expect(deleted).toEqual({ ok: true, issues: [], transactions: 1 });
+  });
+
+  it("reports a missing credential for delete and rotate", async () => {
+    const { contract, simulated } = makeFakeRegistry();
+    const sdk = connectFake(contract);
+
+    const deleted = await sdk.deleteCredential("gone", { dryRun: true });
+    const rotated = await sdk.rotateCredential({ keyId: "gone", newValue: "v", newLabel: "" }, { dryRun: true });
+
+    expect(deleted).toMatchObject({ ok: false, transactions: 0 });
+    expect(deleted.issues.map((i) => i.code)).toEqual(["CREDENTIAL_NOT_FOUND"]);
+    expect(rotated.issues.map((i) => i.code)).toEqual(["CREDENTIAL_NOT_FOUND"]);
+    expect(simulated).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * IsnadReader tests — public trust data read from node storage, no wallet.
+ *
+ * A fake node serves getPublicStorageAt from a slot map built with the same
+ * storage layout and map-slot derivation the contract uses.
+ *
+ * Run with: vitest run tests/sdk.reader.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { deriveStorageSlotInMap } from "@aztec/stdlib/hash";
+import { IsnadReader } from "../src/reader.js";
+import { IsnadRegistryContract } from "../src/artifacts/IsnadRegistry.js";
+import { TrustCache } from "../src/cache.js";
+
+// ─── FAKE NODE ───────────────────────────────────────────────────────────────
+
+const CONTRACT = AztecAddress.fromBigInt(0xc0ffeen);
+const AUDITOR = AztecAddress.fromBigInt(0xa11cen);
+const SKILL = "0x00" + "ef".repeat(31);
+
+type MapName = keyof typeof IsnadRegistryContract.storage;
+
+function makeFakeNode() {
+  const storage = new Map<string, Fr>();
+  const reads: Array<{ block: unknown; contract: string }> = [];
+  const blockNumber = 12;
+  let down = false;
+
+  const node = {
+    getBlockNumber: async () => {
+      if (down) throw new Error("fetch failed");
+      return blockNumber;
+    },
+    getPublicStorageAt: async (block: unknown, contract: AztecAddress, slot: Fr) => {
+      if (down) throw new Error("fetch failed");
+      reads.push({ block, contract: contract.toString() });
+      return storage.get(slot.toString()) ?? Fr.ZERO;
+    },
+  };
+
+  const set = async (map: MapName, key: Fr | AztecAddress, value: bigint | boolean) => {
+    const slot = await deriveStorageSlotInMap(IsnadRegistryContract.storage[map].slot, key);
+    storage.set(slot.toString(), new Fr(typeof value === "boolean" ? BigInt(value) : value));
+  };
+  return {
+    node,
+    reads,
+    set,
+    goDown: () => (down = true),
+  };
+}
+
+function readerFor(fake: ReturnType<typeof makeFakeNode>): IsnadReader {
+  return IsnadReader.connect(fake.node as never, CONTRACT);
+}
+
+// ─── TRUST DATA ──────────────────────────────────────────────────────────────
+
+describe("IsnadReader trust reads", () => {
+  it("reads score, count, quarantine flag and report count at one block", async () => {
+    const fake = makeFakeNode();
+    await fake.set("trust_scores", Fr.fromHexString(SKILL), 240n);
+    await fake.set("attestation_counts", Fr.fromHexString(SKILL), 3n);
+    await fake.set("report_counts", Fr.fromHexString(SKILL), 1n);
+
+    const info = await readerFor(fake).getTrustScore(SKILL);
+
+    expect(info).toEqual({
+      skillHash: Fr.fromHexString(SKILL).toString(),
+      trustScore: 240n,
+      attestationCount: 3n,
+      isQuarantined: false,
+      reportCount: 1n,
+    });
+    expect(fake.reads.map((r) => r.block)).toEqual([12, 12, 12, 12]);
+    expect(fake.reads.every((r) => r.contract === CONTRACT.toString())).toBe(true);
+  });
+
+  it("reports a quarantined skill's score as 0 but keeps its count", async () => {
+    const fake = makeFakeNode();
+    const hash = Fr.fromHexString(SKILL);
+    await fake.set("trust_scores", hash, 240n);
+    await fake.set("attestation_counts", hash, 3n);
+    await fake.set("quarantine_flags", hash, true);
+    const reader = readerFor(fake);
+
+    expect(await reader.getTrustScore(SKILL)).toMatchObject({
+      trustScore: 0n,
+      attestationCount: 3n,
+      isQuarantined: true,
+    });
+    expect(await reader.isQuarantined(SKILL)).toBe(true);
+    expect(await reader.getAttestationCount(SKILL)).toBe(3n);
+    expect(await reader.getReportCount(SKILL)).toBe(0n);
+  });
+
+  it("returns zeros for an unknown skill", async () => {
+    const info = await readerFor(makeFakeNode()).getTrustScore("0x1234");
+    expect(info).toMatchObject({ trustScore: 0n, attestationCount: 0n, isQuarantined: false });
+  });
+
+  it("batches with deduplication and per-skill errors", async () => {
+    const fake = makeFakeNode();
+    await fake.set("attestation_counts", Fr.fromHexString(SKILL), 1n);
+    const errors: string[] = [];
+
+    // The same field with and without its leading zero byte
+    const results = await readerFor(fake).getTrustScores([SKILL, "0x" + "ef".repeat(31), "0xzz"], {
+      onError: (hash) => errors.push(hash),
+    });
+
+    expect([...results.keys()]).toEqual([Fr.fromHexString(SKILL).toString()]);
+    expect(errors).toEqual(["0xzz"]);
+  });
+
+  it("works as a TrustCache source", async () => {
+    const fake = makeFakeNode();
+    await fake.set("trust_scores", Fr.fromHexString(SKILL), 90n);
+    const cache = new TrustCache(readerFor(fake));
+
+    expect((await cache.getTrustScore(SKILL)).trustScore).toBe(90n);
+  });
+});
+
+// ─── CHAIN OF TRUST ──────────────────────────────────────────────────────────
+
+describe("IsnadReader chain reads", () => {
+  it("reads authorization and depth by address", async () => {
+    const fake = makeFakeNode();
+    await fake.set("is_authorized", AUDITOR, true);
+    await fake.set("attestor_depth", AUDITOR, 2n);
+    const reader = readerFor(fake);
+
+    expect(await reader.isAuthorizedAttestor(AUDITOR.toString())).toBe(true);
+    expect(await reader.getAttestorDepth(AUDITOR)).toEqual({
+      address: AUDITOR.toString(),
+      isAuthorized: true,
+      depth: 2,
+      weight: 2,
+    });
+    expect(await reader.isAuthorizedAttestor(CONTRACT)).toBe(false);
+  });
+});
+
+// ─── ERRORS ──────────────────────────────────────────────────────────────────
+
+describe("IsnadReader errors", () => {
+  it("rejects bad addresses and hashes as INVALID_ARGUMENT", async () => {
+    expect(() => IsnadReader.connect("http://localhost:8080", "not-an-address")).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+    );
+    const reader = readerFor(makeFakeNode());
+    await expect(reader.getTrustScore("0xnot-hex")).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+    await expect(reader.isAuthorizedAttestor("nope")).rejects.toMatchObject({ code: "INVALID_ARGUMENT" });
+  });
+
+  it("reports an unreachable node as PXE_UNREACHABLE", async () => {
+    const fake = makeFakeNode();
+    fake.goDown();
+    await expect(readerFor(fake).getTrustScore(SKILL)).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+    await expect(readerFor(fake).isQuarantined(SKILL)).rejects.toMatchObject({ code: "PXE_UNREACHABLE" });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Audit report tests — building, validation (versions 1 and 2), quality
+ * suggestions, canonical JSON, the evidence hash and verification against an
+ * attestation's evidenceHash.
+ *
+ * Run with: vitest run tests/sdk.report.test.ts
+ */
+import { describe, expect, it } from "vitest";
+import { createHash } from "node:crypto";
+import {
+  AUDIT_REPORT_SCHEMA,
+  buildAuditReport,
+  canonicalizeAuditReport,
+  computeReportHash,
+  suggestQuality,
+  validateAuditReport,
+  verifyAuditReport,
+  type AuditReportInput,
+} from "../src/report.js";
+import { BN254_MODULUS } from "../src/hash.js";
+import { ClaimType } from "../src/types.js";
+
+// ── helpers ──────────────────────────────────────────────────────────────────
+
+const SKILL = "0x00" + "ab".repeat(31);
+
+const INPUT: AuditReportInput = {
+  skillHash: SKILL.toUpperCase().replace("0X", "0x"),
+  claimType: ClaimType.CODE_REVIEW,
+  methodology: "Read every script; ran semgrep with the default rules",
+  findings: [
+    {
+      id: "NET-1",
+      severity: "low",
+      title: "Fetches weather API over HTTPS",
+      locations: [{ file: "scripts/fetch.js", startLine: 1, endLine: 3 }],
+    },
+    { id: "ENV-1", severity: "info", title: "Reads no environment variables", description: "grep for process.env" },
+  ],
+  tools: [{ name: "semgrep", version: "1.90.0" }],
+  reproducibility: {
+    commands: [{ command: "semgrep --config auto .", exitCode: 0 }],
+    source: "https://example.com/weather-skill.tgz",
+    environment: "node 22, linux x64",
+  },
+  createdAt: "2026-01-15T12:00:00.000Z",
+  summary: "No issues beyond outbound HTTPS.",
+};
+
+const V1 = {
+  schema: AUDIT_REPORT_SCHEMA,
+  version: 1,
+  skillHash: SKILL,
+  claimType: ClaimType.CODE_REVIEW,
+  findings: [{ id: "NET-1", severity: "low", title: "Fetches weather API over HTTPS" }],
+  tools: [{ name: "semgrep", version: "1.90.0" }],
+  commands: [{ command: "semgrep --config auto ." }],
+  createdAt: "2025-12-01T00:00:00.000Z",
+};
+
+// ─── BUILD / VALIDATE ────────────────────────────────────────────────────────
+
+describe("buildAuditReport", () => {
+  it("fills in schema, version and defaults and normalizes the skill hash", () => {
+    const report = buildAuditReport({ skillHash: SKILL, claimType: ClaimType.BEHAVIORAL });
+    expect(report).toMatchObject({
+      schema: AUDIT_REPORT_SCHEMA,
+      version: 2,
+      skillHash: SKILL,
+      claimType: ClaimType.BEHAVIORAL,
+      findings: [],
+      tools: [],
+      reproducibility: { commands: [] },
+    });
+    expect(report).not.toHaveProperty("methodology");
+    expect(Number.isNaN(Date.parse(report.createdAt))).toBe(false);
+    expect(buildAuditReport(INPUT).skillHash).toBe(SKILL);
+  });
+
+  it("accepts a Date for createdAt", () => {
+    const report = buildAuditReport({ ...INPUT, createdAt: new Date(Date.UTC(2026, 0, 15, 12)) });
+    expect(report.createdAt).toBe("2026-01-15T12:00:00.000Z");
+  });
+});
+
+describe("validateAuditReport", () => {
+  const valid = () => JSON.parse(JSON.stringify(buildAuditReport(INPUT)));
+
+  it("round-trips a report parsed from JSON", () => {
+    expect(validateAuditReport(valid())).toEqual(buildAuditReport(INPUT));
+  });
+
+  it.each([
+    ["an unknown field", (r: any) => (r.quality = 85), "quality is not a report field"],
+    ["an unknown finding field", (r: any) => (r.findings[0].cvss = 3.1), "findings[0].cvss is not a report field"],
+    ["a wrong schema", (r: any) => (r.schema = "other"), "schema must be"],
+    ["a future version", (r: any) => (r.version = 9), "version must be 1 or 2"],
+    ["a bad skill hash", (r: any) => (r.skillHash = "0xnot-hex"), "skillHash"],
+    ["a bad claim type", (r: any) => (r.claimType = 3), "claimType must be 0, 1 or 2"],
+    ["a bad date", (r: any) => (r.createdAt = "yesterday"), "createdAt must be an ISO 8601 date"],
+    ["a bad severity", (r: any) => (r.findings[1].severity = "severe"), "findings[1].severity must be one of"],
+    ["an empty title", (r: any) => (r.findings[0].title = " "), "findings[0].title must not be empty"],
+    ["a duplicate finding id", (r: any) => (r.findings[1].id = "NET-1"), 'findings[1].id "NET-1" is used'],
+    ["a missing tool version", (r: any) => delete r.tools[0].version, "tools[0].version must be a string"],
+    [
+      "a fractional exit code",
+      (r: any) => (r.reproducibility.commands[0].exitCode = 0.5),
+      "reproducibility.commands[0].exitCode must be an integer",
+    ],
+    ["a missing reproducibility section", (r: any) => delete r.reproducibility, "reproducibility must be an object"],
+    ["an unknown reproducibility field", (r: any) => (r.reproducibility.os = "linux"), "reproducibility.os is not"],
+    ["an empty file", (r: any) => (r.findings[0].locations[0].file = ""), "locations[0].file must not be empty"],
+    ["line 0", (r: any) => (r.findings[0].locations[0].startLine = 0), "startLine must be a positive integer"],
+    ["a fractional line", (r: any) => (r.findings[0].locations[0].endLine = 2.5), "endLine must be a positive"],
+    ["an end before the start", (r: any) => (r.findings[0].locations[0].startLine = 5), "endLine must be >= startLine"],
+    ["an end without a start", (r: any) => delete r.findings[0].locations[0].startLine, "endLine needs startLine"],
+    ["top-level commands in version 2", (r: any) => (r.commands = []), "commands is not a report field"],
+  ])("rejects %s as INVALID_ARGUMENT", (_name, mutate, message) => {
+    const report = valid();
+    mutate(report);
+    expect(() => validateAuditReport(report)).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT", message: expect.stringContaining(message) }),
+    );
+  });
+
+  it("still accepts version 1 reports", () => {
+    expect(validateAuditReport(V1)).toEqual(V1);
+    expect(() => validateAuditReport({ ...V1, reproducibility: { commands: [] } })).toThrow(
+      expect.objectContaining({ message: expect.stringContaining("reproducibility is not a report field") }),
+    );
+    const located = { ...V1, findings: [{ ...V1.findings[0], locations: [{ file: "a.js" }] }] };
+    expect(() => validateAuditReport(located)).toThrow(
+      expect.objectContaining({ message: expect.stringContaining("findings[0].locations is not a report field") }),
+    );
+  });
+
+  it("rejects non-objects", () => {
+    expect(() => validateAuditReport(null)).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    expect(() => validateAuditReport([])).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+  });
+});
+
+// ─── CANONICAL JSON / HASH ───────────────────────────────────────────────────
+
+describe("canonicalizeAuditReport / computeReportHash", () => {
+  it("sorts keys and drops whitespace", () => {
+    const text = canonicalizeAuditReport(buildAuditReport({ ...INPUT, findings: [INPUT.findings![1]] }));
+    expect(text.startsWith('{"claimType":0,"createdAt":"2026-01-15T12:00:00.000Z","findings":')).toBe(true);
+    expect(text).toContain(
+      '"findings":[{"description":"grep for process.env","id":"ENV-1","severity":"info","title":"Reads no environment variables"}]',
+    );
+    expect(text).toContain('"reproducibility":{"commands":[{"command":"semgrep --config auto .","exitCode":0}],');
+    expect(text).not.toMatch(/\n|": /);
+  });
+
+  it("does not depend on key order", async () => {
+    const report = buildAuditReport(INPUT);
+    const reordered = Object.fromEntries(Object.entries(JSON.parse(JSON.stringify(report))).reverse());
+    expect(canonicalizeAuditReport(reordered as never)).toBe(canonicalizeAuditReport(report));
+    expect(await computeReportHash(reordered as never)).toBe(await computeReportHash(report));
+  });
+
+  it("is SHA256 of the canonical JSON, reduced to a field element", async () => {
+    const report = buildAuditReport(INPUT);
+    const digest = createHash("sha256").update(canonicalizeAuditReport(report), "utf8").digest("hex");
+    const expected = "0x" + (BigInt("0x" + digest) % BN254_MODULUS).toString(16).padStart(64, "0");
+    expect(await computeReportHash(report)).toBe(expected);
+  });
+
+  it("changes when any finding changes", async () => {
+    const a = await computeReportHash(buildAuditReport(INPUT));
+    const b = await computeReportHash(
+      buildAuditReport({ ...INPUT, findings: [{ ...INPUT.findings![0], severity: "medium" }, INPUT.findings![1]] }),
+    );
+    expect(a).not.toBe(b);
+  });
+});
+
+// ─── QUALITY SUGGESTION ──────────────────────────────────────────────────────
+
+describe("suggestQuality", () => {
+  it("takes the severity penalties off 100, floored at 0", () => {
+    expect(suggestQuality([])).toBe(100);
+    expect(suggestQuality(INPUT.findings!)).toBe(95);
+    expect(suggestQuality([{ severity: "medium" }, { severity: "high" }])).toBe(45);
+    expect(suggestQuality([{ severity: "high" }, { severity: "high" }, { severity: "high" }])).toBe(0);
+    expect(suggestQuality([{ severity: "info" }, { severity: "critical" }])).toBe(0);
+  });
+});
+
+// ─── VERIFY ──────────────────────────────────────────────────────────────────
+
+describe("verifyAuditReport", () => {
+  it("accepts the report an evidence hash was computed from", async () => {
+    const report = buildAuditReport(INPUT);
+    const evidenceHash = await computeReportHash(report);
+    expect(await verifyAuditReport(JSON.parse(JSON.stringify(report)), evidenceHash)).toBe(true);
+    expect(await verifyAuditReport(report, evidenceHash.toUpperCase().replace("0X", "0x"))).toBe(true);
+  });
+
+  it("verifies version 1 reports against their evidence hash", async () => {
+    const evidenceHash = await computeReportHash(V1 as never);
+    expect(await verifyAuditReport(V1, evidenceHash)).toBe(true);
+    expect(await verifyAuditReport({ ...V1, version: 2 }, evidenceHash)).toBe(false);
+  });
+
+  it("returns false for an edited or invalid report instead of throwing", async () => {
+    const report = buildAuditReport(INPUT);
+    const evidenceHash = await computeReportHash(report);
+    expect(await verifyAuditReport({ ...report, summary: "All clear." }, evidenceHash)).toBe(false);
+    expect(await verifyAuditReport({ ...report, extra: true }, evidenceHash)).toBe(false);
+    expect(await verifyAuditReport(report, "0xnot-hex")).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Watch tests — IsnadReader.watch() / IsnadSDK.watch() events and IsnadSDK.policyWatcher().
+ *
+ * A fake node serves blocks whose transactions write the public data tree leaf
+ * slots of the contract's trust maps, as in sdk.indexer.test.ts. Watches poll
+ * every few milliseconds; tests wait for the events they expect.
+ *
+ * Run with: vitest run tests/sdk.watch.test.ts
+ */
+import { afterEach, describe, expect, it } from "vitest";
+import { AztecAddress } from "@aztec/aztec.js/addresses";
+import { Fr } from "@aztec/aztec.js/fields";
+import { computePublicDataTreeLeafSlot, deriveStorageSlotInMap } from "@aztec/stdlib/hash";
+import { IsnadReader } from "../src/reader.js";
+import { IsnadSDK } from "../src/isnad.js";
+import { MemoryIndexerStore } from "../src/indexer.js";
+import { IsnadRegistryContract } from "../src/artifacts/IsnadRegistry.js";
+import type { PolicyRecheck, TrustChangeEvent, TrustWatch, WatchOptions } from "../src/watch.js";
+
+// ─── FAKE NODE ───────────────────────────────────────────────────────────────
+
+const CONTRACT = AztecAddress.fromBigInt(0xc0ffeen);
+const SKILL = "0x00" + "ab".repeat(31);
+const KEY = Fr.fromHexString(SKILL).toString();
+
+type SkillMap = "trust_scores" | "attestation_counts" | "quarantine_flags" | "report_counts";
+type Write = [map: SkillMap, value: bigint];
+
+function makeFakeNode() {
+  const blocks: unknown[] = [];
+  const storage = new Map<string, Fr>();
+  let down = false;
+
+  const node = {
+    getBlockNumber: async () => {
+      if (down) throw new Error("fetch failed");
+      return blocks.length;
+    },
+    getBlocks: async (from: number, limit: number) => blocks.slice(from - 1, from - 1 + limit),
+    // Only read for the latest block in these tests
+    getPublicStorageAt: async (_block: number, _contract: AztecAddress, slot: Fr) =>
+      storage.get(slot.toString()) ?? Fr.ZERO,
+  };
+
+  /** Append a block with one transaction writing `writes` for SKILL. */
+  const mine = async (...writes: Write[]) => {
+    const number = blocks.length + 1;
+    const publicDataWrites = [];
+    for (const [map, value] of writes) {
+      const slot = await deriveStorageSlotInMap(IsnadRegistryContract.storage[map].slot, Fr.fromHexString(SKILL));
+      publicDataWrites.push({ leafSlot: await computePublicDataTreeLeafSlot(CONTRACT, slot), value: new Fr(value) });
+      storage.set(slot.toString(), new Fr(value));
+    }
+    const txEffects = [{ txHash: { toString: () => `0xtx${number}` }, publicDataWrites }];
+    blocks.push({ number, timestamp: BigInt(1_700_000_000 + number), body: { txEffects } });
+  };
+
+  return { node, mine, goDown: () => (down = true), goUp: () => (down = false) };
+}
+
+const watches: TrustWatch[] = [];
+
+afterEach(() => {
+  for (const watch of watches.splice(0)) watch.stop();
+});
+
+function watchFake(
+  fake: ReturnType<typeof makeFakeNode>,
+  opts: WatchOptions = {},
+  handler?: (e: TrustChangeEvent) => void | Promise<void>,
+) {
+  const events: TrustChangeEvent[] = [];
+  const watch = IsnadReader.connect(fake.node as never, CONTRACT).watch(
+    [SKILL],
+    handler ?? ((e) => void events.push(e)),
+    { pollInterval: 5, ...opts },
+  );
+  watches.push(watch);
+  return { watch, events };
+}
+
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 400 && !check(); i++) await new Promise((r) => setTimeout(r, 5));
+  expect(check()).toBe(true);
+}
+
+// ─── EVENTS ──────────────────────────────────────────────────────────────────
+
+describe("watch events", () => {
+  it("delivers typed before/after events for changes after it starts", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(["attestation_counts", 1n], ["trust_scores", 320n]);
+    const { watch, events } = watchFake(fake);
+    await watch.ready;
+
+    await fake.mine(["attestation_counts", 2n], ["trust_scores", 600n]);
+    await fake.mine(["quarantine_flags", 1n]);
+    await until(() => events.length === 3);
+
+    expect(events.map((e) => [e.type, e.before, e.after, e.blockNumber])).toEqual([
+      ["CountChanged", 1n, 2n, 2],
+      ["ScoreChanged", 320n, 600n, 2],
+      ["Quarantined", false, true, 3],
+    ]);
+    expect(events[2]).toMatchObject({
+      skillHash: KEY,
+      txHash: "0xtx3",
+      timestamp: 1_700_000_003_000,
+      previous: { trustScore: 600n, isQuarantined: false },
+      info: { trustScore: 0n, attestationCount: 2n, isQuarantined: true },
+    });
+  });
+
+  it("reports malicious reports as ReportCountChanged, with the count in info", async () => {
+    const fake = makeFakeNode();
+    const { watch, events } = watchFake(fake);
+    await watch.ready;
+
+    await fake.mine(["report_counts", 1n]);
+    await until(() => events.length === 1);
+    expect(events[0]).toMatchObject({
+      type: "ReportCountChanged",
+      before: 0n,
+      after: 1n,
+      previous: { reportCount: 0n },
+      info: { reportCount: 1n },
+    });
+  });
+
+  it("reports a release as Unquarantined", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(["quarantine_flags", 1n]);
+    const { watch, events } = watchFake(fake);
+    await watch.ready;
+
+    await fake.mine(["quarantine_flags", 0n]);
+    await until(() => events.length === 1);
+    expect(events[0]).toMatchObject({ type: "Unquarantined", before: true, after: false });
+  });
+
+  it("replays history from fromBlock", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(["attestation_counts", 1n]);
+    await fake.mine(["attestation_counts", 2n]);
+
+    const { watch, events } = watchFake(fake, { fromBlock: 1 });
+    await watch.ready;
+
+    expect(events.map((e) => e.after)).toEqual([1n, 2n]);
+  });
+
+  it("resumes from the stored cursor after a restart", async () => {
+    const fake = makeFakeNode();
+    const store = new MemoryIndexerStore();
+    const first = watchFake(fake, { store });
+    await first.watch.ready;
+    await fake.mine(["attestation_counts", 1n]);
+    await until(() => first.events.length === 1);
+    first.watch.stop();
+
+    // Changes while the agent is down
+    await fake.mine(["attestation_counts", 2n]);
+    await fake.mine(["attestation_counts", 3n]);
+    const second = watchFake(fake, { store });
+    await second.watch.ready;
+
+    expect(second.events.map((e) => [e.before, e.after])).toEqual([
+      [1n, 2n],
+      [2n, 3n],
+    ]);
+  });
+
+  it("stops delivering after stop()", async () => {
+    const fake = makeFakeNode();
+    const { watch, events } = watchFake(fake);
+    await watch.ready;
+    watch.stop();
+
+    await fake.mine(["attestation_counts", 1n]);
+    await new Promise((r) => setTimeout(r, 30));
+    expect(events).toEqual([]);
+  });
+
+  it("redelivers what a handler that stopped the watch left undelivered", async () => {
+    const fake = makeFakeNode();
+    const store = new MemoryIndexerStore();
+    const errors: unknown[] = [];
+    const seen: TrustChangeEvent[] = [];
+    const first = watchFake(fake, { store, onError: (err) => errors.push(err) }, (e) => {
+      seen.push(e);
+      first.watch.stop();
+    });
+    await first.watch.ready;
+    await fake.mine(["attestation_counts", 1n], ["trust_scores", 320n]);
+    await fake.mine(["attestation_counts", 2n]);
+    await until(() => seen.length === 1);
+    await new Promise((r) => setTimeout(r, 30));
+    expect(seen.map((e) => e.type)).toEqual(["CountChanged"]);
+    expect(errors).toEqual([]);
+
+    const second = watchFake(fake, { store });
+    await second.watch.ready;
+    expect(second.events.map((e) => [e.type, e.after])).toEqual([
+      ["CountChanged", 1n],
+      ["ScoreChanged", 320n],
+      ["CountChanged", 2n],
+    ]);
+  });
+});
+
+// ─── POLICY ──────────────────────────────────────────────────────────────────
+
+describe("IsnadSDK.policyWatcher", () => {
+  it("re-runs the install policy once per transaction", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(["attestation_counts", 2n], ["trust_scores", 300n]);
+    const checks: PolicyRecheck[] = [];
+    const { watch } = watchFake(
+      fake,
+      {},
+      IsnadSDK.policyWatcher((check) => void checks.push(check)),
+    );
+    await watch.ready;
+
+    await fake.mine(["attestation_counts", 3n], ["trust_scores", 400n]);
+    await fake.mine(["quarantine_flags", 1n]);
+    await until(() => checks.length === 2);
+
+    expect(checks.map((c) => [c.previousVerdict, c.verdict, c.event.type])).toEqual([
+      ["sandbox", "allow", "CountChanged"],
+      ["allow", "deny", "Quarantined"],
+    ]);
+  });
+
+  it("takes checkInstallPolicy thresholds", async () => {
+    const fake = makeFakeNode();
+    const checks: PolicyRecheck[] = [];
+    const { watch } = watchFake(
+      fake,
+      {},
+      IsnadSDK.policyWatcher((check) => void checks.push(check), { countThreshold: 1n, scoreThreshold: 50n }),
+    );
+    await watch.ready;
+
+    await fake.mine(["attestation_counts", 1n], ["trust_scores", 80n]);
+    await until(() => checks.length === 1);
+    expect(checks[0].verdict).toBe("allow");
+  });
+
+  it("denies a skill once its reports reach the threshold", async () => {
+    const fake = makeFakeNode();
+    await fake.mine(["attestation_counts", 3n], ["trust_scores", 400n]);
+    const checks: PolicyRecheck[] = [];
+    const { watch } = watchFake(
+      fake,
+      {},
+      IsnadSDK.policyWatcher((check) => void checks.push(check), { reportThreshold: 2n }),
+    );
+    await watch.ready;
+
+    await fake.mine(["report_counts", 1n]);
+    await fake.mine(["report_counts", 2n]);
+    await until(() => checks.length === 2);
+    expect(checks.map((c) => [c.previousVerdict, c.verdict, c.event.type])).toEqual([
+      ["allow", "allow", "ReportCountChanged"],
+      ["allow", "deny", "ReportCountChanged"],
+    ]);
+  });
+});
+
+// ─── ERRORS ──────────────────────────────────────────────────────────────────
+
+describe("watch errors", () => {
+  it("reports handler and node errors and keeps polling", async () => {
+    const fake = makeFakeNode();
+    const errors: unknown[] = [];
+    const events: TrustChangeEvent[] = [];
+    const { watch } = watchFake(fake, { onError: (err) => errors.push(err) }, (e) => {
+      events.push(e);
+      if (e.type === "CountChanged") throw new Error("handler bug");
+    });
+    await watch.ready;
+
+    await fake.mine(["attestation_counts", 1n], ["trust_scores", 90n]);
+    await until(() => events.length === 2);
+    expect(errors).toEqual([expect.objectContaining({ message: "handler bug" })]);
+
+    fake.goDown();
+    await until(() => errors.length > 1);
+    expect(errors[1]).toMatchObject({ code: "PXE_UNREACHABLE" });
+
+    fake.goUp();
+    await fake.mine(["attestation_counts", 2n]);
+    await until(() => events.length === 3);
+  });
+
+  it("rejects bad hashes and options as INVALID_ARGUMENT", () => {
+    const reader = IsnadReader.connect(makeFakeNode().node as never, CONTRACT);
+    const noop = () => {};
+    expect(() => reader.watch(["0xnot-hex"], noop)).toThrow(expect.objectContaining({ code: "INVALID_ARGUMENT" }));
+    expect(() => reader.watch([SKILL], noop, { pollInterval: 0 })).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+    );
+  });
+
+  it("needs a node on IsnadSDK", async () => {
+    const Ctor = IsnadSDK as unknown as new (...args: unknown[]) => IsnadSDK;
+    const noop = () => {};
+    expect(() => new Ctor({}, Fr.ZERO, CONTRACT, {}).watch([SKILL], noop)).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+    );
+
+    const fake = makeFakeNode();
+    const events: TrustChangeEvent[] = [];
+    const watch = new Ctor({}, Fr.ZERO, CONTRACT, {}, { node: fake.node }).watch([SKILL], (e) => void events.push(e), {
+      pollInterval: 5,
+    });
+    watches.push(watch);
+    await watch.ready;
+    await fake.mine(["attestation_counts", 1n]);
+    await until(() => events.length === 1);
+  });
+});